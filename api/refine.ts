@@ -0,0 +1,4 @@
+import { createRefineHandler } from '../server/refineHandler';
+
+// Vercel serverless function for /api/refine, the roadmap refinement chat
+export default createRefineHandler();
@@ -0,0 +1,5 @@
+import { createReviewHandler } from '../server/reviewHandler';
+
+// Vercel serverless function for /api/reviews, the advisor review workflow. Instances share
+// neither memory nor disk, so reviews only last there with a database-backed ReviewStore
+export default createReviewHandler();
@@ -0,0 +1,5 @@
+import { createRoadmapHandler } from '../server/roadmapHandler';
+
+// Vercel serverless function for /api/roadmap; the provider key comes from the project's
+// environment variables and stays on the server
+export default createRoadmapHandler();
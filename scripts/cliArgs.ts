@@ -0,0 +1,50 @@
+// Command-line arguments shared by the scripts: options that take a value (`--out <path>`, which
+// may be repeated), switches (`--dry-run`) and positional arguments such as input files
+export interface CliArgs {
+  positional: string[];
+  // Every value given for the option, in order
+  valuesOf(flag: string): string[];
+  // The first value given for the option
+  valueOf(flag: string): string | undefined;
+  has(flag: string): boolean;
+}
+
+// valueFlags lists the options that take a value; anything else starting with "--" is a switch.
+// Throws when an option is missing its value, so `--out --dry-run` never writes to "--dry-run"
+export const parseArgs = (argv: string[], valueFlags: string[]): CliArgs => {
+  const positional: string[] = [];
+  const values = new Map<string, string[]>();
+  const switches = new Set<string>();
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+    } else if (valueFlags.includes(arg)) {
+      const value = argv[index + 1];
+      if (value === undefined || value.startsWith('--')) throw new Error(`${arg} needs a value`);
+      values.set(arg, [...(values.get(arg) || []), value]);
+      index++;
+    } else {
+      switches.add(arg);
+    }
+  }
+
+  return {
+    positional,
+    valuesOf: flag => values.get(flag) || [],
+    valueOf: flag => values.get(flag)?.[0],
+    has: flag => switches.has(flag) || values.has(flag),
+  };
+};
+
+// The arguments the script was started with; a missing value ends it with exit code 2, like the
+// scripts' other usage errors
+export const scriptArgs = (valueFlags: string[]): CliArgs => {
+  try {
+    return parseArgs(process.argv.slice(2), valueFlags);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return process.exit(2);
+  }
+};
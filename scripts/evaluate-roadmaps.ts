@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+import { GeneratedRoadmap } from '../src/services/geminiService';
+import { DataService } from '../src/services/dataService';
+import { RoadmapGenerator } from '../src/services/roadmapGenerator';
+import { PrerequisiteGraph } from '../src/services/prerequisiteGraph';
+import { promptBuilder } from '../src/services/promptBuilder';
+import { occupationTaxonomy } from '../src/services/occupationTaxonomy';
+import { roadmapScorer, RoadmapScore } from '../src/services/roadmapScoring';
+import {
+  EVALUATION_REPORT_VERSION,
+  EvaluationCase,
+  EvaluationReport,
+  EvaluationResult,
+  EvaluationRun,
+  formatEvaluationReport,
+  summarizeResults,
+} from '../src/services/roadmapEvaluation';
+import {
+  createProvider,
+  FixtureProvider,
+  FixtureResponse,
+  isProviderConfigured,
+  loadProviderConfig,
+  RoadmapProvider,
+} from '../src/services/providers';
+import { Catalog, createCatalogLoader, resolveManifestPath } from '../server/catalog';
+import { RoadmapEngine } from '../server/roadmapEngine';
+import { scriptArgs } from './cliArgs';
+
+// Usage: npm run evaluate -- [--engine offline|ai]... [--occupation <id or name>]... [--year <admissionYear>]
+//          [--fixtures] [--label <name>] [--baseline <report.json>] [--out <path>]
+// Generates a roadmap for each occupation (every taxonomy occupation by default) with each
+// engine, the AI engine by default, and scores it with roadmapScoring.ts. The AI engine uses the
+// provider configured by LLM_PROVIDER and friends, or the recorded fixture responses with
+// --fixtures or when no provider is configured; occupations without a recorded response are
+// skipped. Writes <out>.json and a Markdown report, <out>.md, comparing the runs and, with
+// --baseline, the runs of an earlier report (default out: roadmap-evaluation).
+
+const ENGINES = ['offline', 'ai'] as const;
+type Engine = typeof ENGINES[number];
+
+const args = scriptArgs(['--engine', '--occupation', '--year', '--label', '--baseline', '--out']);
+
+const fail = (message: string, code: number = 1): never => {
+  console.error(message);
+  process.exit(code);
+};
+
+const engines = args.valuesOf('--engine') as Engine[];
+if (engines.length === 0) engines.push('ai');
+const unknownEngine = engines.find(engine => !ENGINES.includes(engine));
+if (unknownEngine) fail(`Unknown engine ${unknownEngine}; use ${ENGINES.join(' or ')}`, 2);
+if (args.valueOf('--label') && engines.length > 1) fail('--label needs a single --engine', 2);
+
+// Taxonomy ids are evaluated under their English name; other text is matched like user input
+const toCase = (value: string): EvaluationCase => {
+  const occupation = occupationTaxonomy.get(value);
+  if (occupation) return { occupation: occupation.name.en, occupationIds: { [occupation.id]: 1 } };
+  const { weights } = occupationTaxonomy.resolve(value);
+  if (Object.keys(weights).length === 0) {
+    return fail(`"${value}" doesn't match any occupation. Known: ${occupationTaxonomy.all().map(o => o.id).join(', ')}`, 2);
+  }
+  return { occupation: value, occupationIds: weights };
+};
+const occupations = args.valuesOf('--occupation');
+const cases = (occupations.length > 0 ? occupations : occupationTaxonomy.all().map(o => o.id)).map(toCase);
+
+const year = args.valueOf('--year') ? Number(args.valueOf('--year')) : undefined;
+const out = path.resolve(args.valueOf('--out') || 'roadmap-evaluation').replace(/\.(json|md)$/, '');
+
+const readBaseline = (): EvaluationRun[] => {
+  const file = args.valueOf('--baseline');
+  if (!file) return [];
+  try {
+    const report = JSON.parse(fs.readFileSync(file, 'utf8')) as EvaluationReport;
+    if (report.version !== EVALUATION_REPORT_VERSION || !Array.isArray(report.runs)) throw new Error('not an evaluation report');
+    return report.runs.map(run => ({ ...run, label: `baseline: ${run.label}` }));
+  } catch (error) {
+    return fail(`Could not read baseline ${file}: ${error instanceof Error ? error.message : error}`, 2);
+  }
+};
+
+const manifestFile = resolveManifestPath();
+
+// The offline engine reads the catalog through a DataService, pointed at the files on disk
+const createOfflineGenerator = (admissionYear: number): RoadmapGenerator => {
+  const data = new DataService(
+    `${path.dirname(manifestFile)}${path.sep}`,
+    url => readFile(url, 'utf8').then(text => new Response(text))
+  );
+  data.selectCatalog(admissionYear);
+  return new RoadmapGenerator(data);
+};
+
+// Keeps the text of every response, so the first answer can be scored as it was returned
+const recording = (provider: RoadmapProvider, texts: string[]): RoadmapProvider => ({
+  name: provider.name,
+  model: provider.model,
+  generate: async (prompt, options) => {
+    const response = await provider.generate(prompt, options);
+    texts.push(response.text);
+    return response;
+  },
+});
+
+const scoreOf = (roadmap: GeneratedRoadmap, catalog: Catalog, graph: PrerequisiteGraph, testCase: EvaluationCase): RoadmapScore =>
+  roadmapScorer.score(roadmap, { subjects: catalog.subjects, weights: testCase.occupationIds, graph });
+
+const runEngine = async (engine: Engine, catalog: Catalog): Promise<EvaluationRun> => {
+  const graph = new PrerequisiteGraph(catalog.subjects);
+  const config = loadProviderConfig();
+  const useFixtures = engine === 'ai' && (args.has('--fixtures') || !isProviderConfigured(config));
+  const fixtures: FixtureResponse[] = useFixtures ? JSON.parse(await readFile(config.fixturePath, 'utf8')) : [];
+  const providerName = useFixtures ? 'fixture' : engine === 'ai' ? config.provider : 'offline';
+  const modelName = useFixtures ? 'fixture' : engine === 'ai' ? config.model : 'relevance';
+  if (engine === 'ai' && useFixtures && !args.has('--fixtures')) {
+    console.warn(`No ${config.provider} provider is configured; using the recorded responses in ${config.fixturePath}`);
+  }
+  const offline = engine === 'offline' ? createOfflineGenerator(catalog.admissionYear) : null;
+  const shared = engine === 'ai' && !useFixtures ? createProvider(config) : null;
+
+  const startedAt = new Date().toISOString();
+  const results: EvaluationResult[] = [];
+  for (const testCase of cases) {
+    const started = Date.now();
+    const result = (fields: Partial<EvaluationResult>): EvaluationResult =>
+      ({ ...testCase, status: 'ok', durationMs: Date.now() - started, ...fields });
+    try {
+      if (offline) {
+        const roadmap = await offline.generateRoadmap(testCase.occupation, { occupationIds: testCase.occupationIds, locale: 'en' });
+        const score = scoreOf(roadmap, catalog, graph, testCase);
+        results.push(result({ attempts: 1, score, final: score }));
+      } else {
+        let provider = shared;
+        if (!provider) {
+          // Only responses recorded for this occupation; the catch-all ones would score another occupation's roadmap
+          const { prompt } = promptBuilder.buildRoadmapPrompt(testCase.occupation, catalog.subjects, {
+            language: 'en',
+            occupationIds: testCase.occupationIds,
+          });
+          const recorded = fixtures.filter(entry => entry.match && prompt.toLowerCase().includes(entry.match.toLowerCase()));
+          if (recorded.length === 0) {
+            results.push(result({ status: 'skipped', message: 'no recorded response' }));
+            console.log(`${engine} ${testCase.occupation}: skipped, no recorded response`);
+            continue;
+          }
+          provider = new FixtureProvider(recorded);
+        }
+        const texts: string[] = [];
+        const roadmapEngine = new RoadmapEngine(recording(provider, texts), config.timeoutMs);
+        let usage: EvaluationResult['usage'];
+        const roadmap = await roadmapEngine.generateRoadmap(testCase.occupation, catalog.subjects, {
+          language: 'en',
+          occupationIds: testCase.occupationIds,
+          onPromptStats: stats => {
+            usage = stats.usage;
+          },
+        });
+        let firstAnswer: GeneratedRoadmap | null = null;
+        try {
+          firstAnswer = roadmapEngine.parseJSONResponse(texts[0]) as GeneratedRoadmap;
+        } catch (error) {
+          // Unparseable; the engine asked again, and the score below covers it
+        }
+        // A first answer without a nodes array is scored as an empty roadmap
+        const answered = firstAnswer && Array.isArray(firstAnswer.nodes) ? firstAnswer : { ...roadmap, nodes: [] };
+        const score = scoreOf(answered, catalog, graph, testCase);
+        const final = scoreOf(roadmap, catalog, graph, testCase);
+        results.push(result({ attempts: texts.length, usage, score, final }));
+      }
+    } catch (error) {
+      results.push(result({ status: 'failed', message: error instanceof Error ? error.message : String(error) }));
+    }
+    const last = results[results.length - 1];
+    console.log(`${engine} ${testCase.occupation}: ${last.score ? `overall ${last.score.overall}` : `${last.status} ${last.message || ''}`}`);
+  }
+
+  return {
+    label: args.valueOf('--label') || (engine === 'offline' ? 'offline' : `${providerName}/${modelName}`),
+    engine,
+    provider: providerName,
+    model: modelName,
+    admissionYear: catalog.admissionYear,
+    catalogHash: catalog.hash,
+    startedAt,
+    results,
+    summary: summarizeResults(results),
+  };
+};
+
+const main = async () => {
+  const baseline = readBaseline();
+  let catalog: Catalog;
+  try {
+    catalog = await createCatalogLoader(manifestFile)(year);
+  } catch (error) {
+    return fail(`Could not load the catalog: ${error instanceof Error ? error.message : error}`, 2);
+  }
+
+  const runs: EvaluationRun[] = [];
+  for (const engine of engines) {
+    runs.push(await runEngine(engine, catalog));
+  }
+  const report: EvaluationReport = {
+    version: EVALUATION_REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    runs: [...baseline, ...runs],
+  };
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(`${out}.json`, JSON.stringify(report, null, 2) + '\n');
+  fs.writeFileSync(`${out}.md`, formatEvaluationReport(report));
+  runs.forEach(run => console.log(
+    `${run.label}: overall ${run.summary.overall} (${run.summary.evaluated} evaluated, ` +
+    `${run.summary.failed} failed, ${run.summary.skipped} skipped)`
+  ));
+  console.log(`Wrote ${out}.json and ${out}.md`);
+  if (runs.every(run => run.summary.evaluated === 0)) process.exit(1);
+};
+
+main();
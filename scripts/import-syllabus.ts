@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { syllabusValidator } from '../src/services/syllabusValidator';
+import { ImportedSubject, syllabusImporter } from '../src/services/syllabusImporter';
+import { catalogMerger, formatMergeReport } from '../src/services/catalogMerge';
+import { findCatalog, parseCatalogManifest } from '../src/services/catalogVersions';
+import { scriptArgs } from './cliArgs';
+
+// Usage: npm run import:syllabus -- <file or directory>... [--catalog <path> | --year <admissionYear>]
+//          [--format html|csv] [--out <path>] [--in-place] [--dry-run]
+// Reads syllabus pages saved from the university's syllabus system (.html/.htm) and CSV exports
+// (.csv), from the given files and directories, and merges them into a catalog: the default
+// admission year's in public/syllabus/manifest.json unless --catalog or --year is given. Career
+// relevance and translations are kept. The result is written like `npm run relevance` does, to
+// syllabus.v<N>.json next to the catalog unless --out or --in-place is given, with a Markdown
+// report of additions, changes and conflicts next to it. Only local files are read.
+
+const IMPORT_EXTENSIONS: Record<string, 'html' | 'csv'> = { '.html': 'html', '.htm': 'html', '.csv': 'csv' };
+
+const args = scriptArgs(['--catalog', '--year', '--format', '--out']);
+const inputs = args.positional;
+const format = args.valueOf('--format') as 'html' | 'csv' | undefined;
+const dryRun = args.has('--dry-run');
+
+const fail = (message: string, code: number = 1): never => {
+  console.error(message);
+  process.exit(code);
+};
+
+if (inputs.length === 0) fail('Give at least one syllabus page, CSV export or directory to import', 2);
+if (format !== undefined && !Object.values(IMPORT_EXTENSIONS).includes(format)) fail(`Unknown format ${format}; use html or csv`, 2);
+
+const catalogFile = (): string => {
+  const explicit = args.valueOf('--catalog');
+  if (explicit) return path.resolve(explicit);
+  const manifestFile = path.resolve('public/syllabus/manifest.json');
+  const manifest = parseCatalogManifest(JSON.parse(fs.readFileSync(manifestFile, 'utf8')));
+  const year = args.valueOf('--year') ? Number(args.valueOf('--year')) : manifest.defaultAdmissionYear;
+  const entry = findCatalog(manifest, year);
+  if (!entry) {
+    return fail(`No catalog for admission year ${args.valueOf('--year')}. Known: ${manifest.catalogs.map(c => c.admissionYear).join(', ')}`, 2);
+  }
+  return path.join(path.dirname(manifestFile), entry.file);
+};
+
+// Directories are read recursively, in name order, for files with a known extension
+const filesIn = (target: string): string[] => {
+  if (!fs.existsSync(target)) return fail(`${target} does not exist`, 2);
+  if (!fs.statSync(target).isDirectory()) return [target];
+  return fs.readdirSync(target).sort().flatMap(entry => {
+    const child = path.join(target, entry);
+    return fs.statSync(child).isDirectory() || IMPORT_EXTENSIONS[path.extname(entry).toLowerCase()] ? filesIn(child) : [];
+  });
+};
+
+const file = catalogFile();
+let data: Record<string, unknown> = {};
+try {
+  data = JSON.parse(fs.readFileSync(file, 'utf8'));
+} catch (error) {
+  fail(`Could not read ${file}: ${error instanceof Error ? error.message : error}`, 2);
+}
+if (!Array.isArray(data.subjects)) fail(`${file} has no subjects array`, 2);
+
+const imported: ImportedSubject[] = [];
+const warnings: string[] = [];
+inputs.map(input => path.resolve(input)).flatMap(filesIn).forEach(source => {
+  const sourceFormat = format || IMPORT_EXTENSIONS[path.extname(source).toLowerCase()];
+  const name = path.relative(process.cwd(), source);
+  if (!sourceFormat) {
+    warnings.push(`${name}: skipped, unknown file type (use --format)`);
+    return;
+  }
+  const result = syllabusImporter.parse(fs.readFileSync(source, 'utf8'), name, sourceFormat);
+  imported.push(...result.subjects);
+  warnings.push(...result.warnings);
+});
+warnings.forEach(warning => console.warn(warning));
+if (imported.length === 0) fail('No subjects found in the import');
+
+const result = catalogMerger.merge(data.subjects as unknown[], imported);
+const markdown = formatMergeReport(result, warnings);
+console.log(
+  `${imported.length} subjects read: ${result.added.length} added, ${result.updated.length} changed, ` +
+  `${result.unchanged} unchanged, ${result.conflicts.length} conflicts`
+);
+const { report } = syllabusValidator.validate({ subjects: result.subjects });
+console.log(`Merged catalog: ${report.errors.length} errors, ${report.warnings.length} warnings (see npm run validate:syllabus)`);
+
+if (dryRun) {
+  console.log(`\n${markdown}`);
+} else if (result.added.length === 0 && result.updated.length === 0) {
+  console.log('Nothing to write');
+} else {
+  const version = (typeof data.version === 'number' ? data.version : 1) + 1;
+  const out = args.has('--in-place')
+    ? file
+    : path.resolve(args.valueOf('--out') || path.join(path.dirname(file), `syllabus.v${version}.json`));
+  const reportFile = out.replace(/\.json$/, '') + '.import.md';
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, JSON.stringify({ ...data, version, subjects: result.subjects }, null, 2) + '\n');
+  fs.writeFileSync(reportFile, markdown);
+  console.log(`Wrote catalog version ${version} to ${out}\nWrote merge report to ${reportFile}`);
+}
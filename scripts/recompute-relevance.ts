@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Subject } from '../src/services/geminiService';
+import { syllabusValidator, formatValidationIssue } from '../src/services/syllabusValidator';
+import {
+  formatRelevanceReport,
+  KeywordRelevanceScorer,
+  LlmRelevanceScorer,
+  RelevanceEngine,
+  RelevanceScorer,
+} from '../src/services/relevanceEngine';
+import { occupationTaxonomy } from '../src/services/occupationTaxonomy';
+import { findCatalog, parseCatalogManifest } from '../src/services/catalogVersions';
+import { createProvider, isProviderConfigured, loadProviderConfig } from '../src/services/providers';
+import { scriptArgs } from './cliArgs';
+
+// Usage: npm run relevance -- [path/to/catalog.json] [--occupation <id>]... [--all --overwrite-existing]
+//          [--llm] [--out <path>] [--in-place] [--dry-run]
+// Fills in missing career_relevance scores (or, with --all, recomputes every score not listed in
+// a subject's career_relevance_pinned; since that replaces hand-set scores nobody pinned, it only
+// writes with --overwrite-existing) and writes them to a new file with the catalog version
+// bumped, syllabus.v<N>.json next to the input unless --out or --in-place is given. A Markdown
+// diff of the changed scores is written next to the output. --llm scores with the provider
+// configured by LLM_PROVIDER and friends instead of keyword overlap. Without a path, the catalog of
+// the default admission year in public/syllabus/manifest.json is used.
+
+const args = scriptArgs(['--occupation', '--out']);
+const defaultCatalog = (): string => {
+  const manifestFile = path.resolve('public/syllabus/manifest.json');
+  const manifest = parseCatalogManifest(JSON.parse(fs.readFileSync(manifestFile, 'utf8')));
+  // The manifest parser guarantees that the default year has a catalog
+  return path.join(path.dirname(manifestFile), findCatalog(manifest, manifest.defaultAdmissionYear)!.file);
+};
+const file = path.resolve(args.positional[0] || defaultCatalog());
+const occupations = args.valuesOf('--occupation');
+const dryRun = args.has('--dry-run');
+const recomputeAll = args.has('--all');
+
+const fail = (message: string, code: number = 1): never => {
+  console.error(message);
+  process.exit(code);
+};
+
+if (recomputeAll && !dryRun && !args.has('--overwrite-existing')) {
+  fail(
+    '--all replaces existing scores, including hand-set ones not listed in career_relevance_pinned.\n' +
+    'Preview the changes with --dry-run, then add --overwrite-existing to write them.',
+    2
+  );
+}
+
+const unknown = occupations.filter(id => !occupationTaxonomy.get(id));
+if (unknown.length > 0) {
+  fail(`Unknown occupation ${unknown.join(', ')}. Known: ${occupationTaxonomy.all().map(o => o.id).join(', ')}`, 2);
+}
+
+let data: Record<string, unknown> = {};
+try {
+  data = JSON.parse(fs.readFileSync(file, 'utf8'));
+} catch (error) {
+  fail(`Could not read ${file}: ${error instanceof Error ? error.message : error}`, 2);
+}
+
+// Subjects with schema errors are passed through untouched, so nothing is lost from the catalog
+const { subjects, sourceIndexes, report } = syllabusValidator.validate(data);
+const rawSubjects: unknown[] = Array.isArray(data.subjects) ? data.subjects : [];
+if (rawSubjects.length === 0) fail(`${file} has no subjects`);
+const valid = new Set(sourceIndexes);
+const skipped = report.errors.filter(issue => issue.index !== null && !valid.has(issue.index));
+if (skipped.length > 0) {
+  skipped.forEach(issue => console.warn(formatValidationIssue(issue)));
+  console.warn(`${rawSubjects.length - subjects.length} subjects with errors are left unchanged\n`);
+}
+
+let scorer: RelevanceScorer = new KeywordRelevanceScorer();
+if (args.has('--llm')) {
+  const config = loadProviderConfig();
+  if (!isProviderConfigured(config)) fail(`The ${config.provider} provider is not configured; see "Environment Variables" in the README`, 2);
+  scorer = new LlmRelevanceScorer(createProvider(config));
+}
+
+const run = async () => {
+  const result = await new RelevanceEngine(scorer).recompute(subjects, {
+    occupations: occupations.length > 0 ? occupations : undefined,
+    mode: recomputeAll ? 'all' : 'missing',
+  });
+  const markdown = formatRelevanceReport(result, scorer.name);
+  console.log(
+    `${result.changes.length} scores changed, ${result.unchanged} unchanged, ${result.pinned} pinned and skipped`
+  );
+  if (dryRun) {
+    console.log(`\n${markdown}`);
+    return;
+  }
+  if (result.changes.length === 0) {
+    console.log('Nothing to write');
+    return;
+  }
+
+  const version = (typeof data.version === 'number' ? data.version : 1) + 1;
+  const out = args.has('--in-place')
+    ? file
+    : path.resolve(args.valueOf('--out') || path.join(path.dirname(file), `syllabus.v${version}.json`));
+  const reportFile = out.replace(/\.json$/, '') + '.relevance.md';
+  // Only the scores are written back; the validator may have renamed a duplicate id or joined a
+  // description for its own use
+  const updated = new Map<number, Subject>(sourceIndexes.map((rawIndex, index) => [rawIndex, result.subjects[index]]));
+  const merged = rawSubjects.map((raw, index) => {
+    const subject = updated.get(index);
+    if (!subject) return raw;
+    const written: Record<string, unknown> = { ...(raw as Record<string, unknown>) };
+    (['career_relevance', 'career_relevance_reason'] as const).forEach(field => {
+      if (subject[field]) written[field] = subject[field];
+      else delete written[field];
+    });
+    return written;
+  });
+  fs.writeFileSync(out, JSON.stringify({ ...data, version, subjects: merged }, null, 2) + '\n');
+  fs.writeFileSync(reportFile, markdown);
+  console.log(`Wrote catalog version ${version} to ${out}\nWrote diff report to ${reportFile}`);
+};
+
+run().catch(error => fail(`Relevance recomputation failed: ${error instanceof Error ? error.message : error}`));
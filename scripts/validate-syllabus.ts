@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { syllabusValidator, formatValidationIssue } from '../src/services/syllabusValidator';
+import { CatalogManifest, parseCatalogManifest } from '../src/services/catalogVersions';
+
+// Usage: npm run validate:syllabus -- [path/to/manifest.json | path/to/catalog.json] [--strict]
+// Checks every catalog listed in the manifest (public/syllabus/manifest.json by default), and that
+// the manifest's equivalences only name subjects of their catalogs, or a single catalog file.
+// Exits non-zero when errors are found (or warnings, with --strict).
+
+const args = process.argv.slice(2);
+const strict = args.includes('--strict');
+const file = path.resolve(args.find(arg => !arg.startsWith('--')) || 'public/syllabus/manifest.json');
+
+const readJSON = (target: string): unknown => {
+  try {
+    return JSON.parse(fs.readFileSync(target, 'utf8'));
+  } catch (error) {
+    console.error(`Could not read ${target}: ${error instanceof Error ? error.message : error}`);
+    return process.exit(2);
+  }
+};
+
+let failed = false;
+
+// Returns the ids of the usable subjects
+const validateCatalog = (target: string, data: unknown): Set<string> => {
+  const { subjects, report } = syllabusValidator.validate(data);
+  [...report.errors, ...report.warnings].forEach(issue => console.log(formatValidationIssue(issue)));
+  console.log(
+    `\n${target}: ${report.validSubjectCount}/${report.subjectCount} subjects usable, ` +
+    `${report.errors.length} errors, ${report.warnings.length} warnings`
+  );
+  if (report.errors.length > 0 || (strict && report.warnings.length > 0)) failed = true;
+  return new Set(subjects.map(subject => subject.id));
+};
+
+const data = readJSON(file);
+if (data && typeof data === 'object' && 'catalogs' in data) {
+  let manifest: CatalogManifest;
+  try {
+    manifest = parseCatalogManifest(data);
+  } catch (error) {
+    console.error(`${file}: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  const ids = new Map<number, Set<string>>();
+  manifest.catalogs.forEach(entry => {
+    const catalogFile = path.join(path.dirname(file), entry.file);
+    ids.set(entry.admissionYear, validateCatalog(catalogFile, readJSON(catalogFile)));
+  });
+
+  const unknown = manifest.equivalences.flatMap(set => set.subjects.flatMap(rule => [
+    ...rule.from.filter(id => !ids.get(set.from)?.has(id)).map(id => `${id} is not in the ${set.from} catalog`),
+    ...rule.to.filter(id => !ids.get(set.to)?.has(id)).map(id => `${id} is not in the ${set.to} catalog`),
+  ]));
+  unknown.forEach(message => console.log(`ERROR manifest equivalences: ${message}`));
+  console.log(`\n${file}: ${manifest.catalogs.length} catalogs, ${unknown.length} unknown subjects in equivalences`);
+  if (unknown.length > 0) failed = true;
+} else {
+  validateCatalog(file, data);
+}
+
+if (failed) {
+  process.exit(1);
+}
@@ -0,0 +1,55 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { Subject } from '../src/services/geminiService';
+import { syllabusValidator } from '../src/services/syllabusValidator';
+import { catalogHashOf } from '../src/services/roadmapCache';
+import { CatalogManifest, findCatalog, parseCatalogManifest } from '../src/services/catalogVersions';
+import { invalid } from './http';
+
+export interface Catalog {
+  admissionYear: number;
+  subjects: Subject[];
+  hash: string;
+}
+
+// `manifestPath` is relative to the working directory; CATALOG_MANIFEST_PATH overrides the default
+export const resolveManifestPath = (manifestPath?: string): string =>
+  path.resolve(process.cwd(), manifestPath || process.env.CATALOG_MANIFEST_PATH || 'public/syllabus/manifest.json');
+
+// Reads once per process; a failed read is retried on the next call
+const memoize = <T>(load: () => Promise<T>): (() => Promise<T>) => {
+  let promise: Promise<T> | null = null;
+  return () => {
+    if (!promise) {
+      promise = load().catch(error => {
+        promise = null;
+        throw error;
+      });
+    }
+    return promise;
+  };
+};
+
+const readJSON = (file: string): Promise<unknown> => readFile(file, 'utf8').then(text => JSON.parse(text));
+
+// Loads the catalog of an admission year, the manifest's default when none is given.
+// Years without a catalog are rejected as invalid requests
+export const createCatalogLoader = (manifestFile: string): ((admissionYear?: number) => Promise<Catalog>) => {
+  const loadManifest = memoize<CatalogManifest>(() => readJSON(manifestFile).then(parseCatalogManifest));
+  const catalogs = new Map<number, () => Promise<Catalog>>();
+
+  return async (admissionYear?: number) => {
+    const manifest = await loadManifest();
+    const year = admissionYear ?? manifest.defaultAdmissionYear;
+    const entry = findCatalog(manifest, year);
+    if (!entry) throw invalid(`No catalog for admission year ${year}`);
+    if (!catalogs.has(year)) {
+      catalogs.set(year, memoize(() => readJSON(path.join(path.dirname(manifestFile), entry.file)).then(data => ({
+        admissionYear: year,
+        subjects: syllabusValidator.validate(data).subjects,
+        hash: catalogHashOf(data),
+      }))));
+    }
+    return (catalogs.get(year) as () => Promise<Catalog>)();
+  };
+};
@@ -0,0 +1,54 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { CacheStore, RoadmapCacheEntry } from '../src/services/roadmapCache';
+
+// Keeps all entries in one JSON file, read once and rewritten on every change. Meant for
+// a single local server; serverless hosts use the in-memory cache only
+export class FileCacheStore implements CacheStore {
+  private items: Promise<Map<string, RoadmapCacheEntry>> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private load(): Promise<Map<string, RoadmapCacheEntry>> {
+    if (!this.items) {
+      this.items = readFile(this.filePath, 'utf8')
+        .then(text => new Map((JSON.parse(text) as RoadmapCacheEntry[]).map(entry => [entry.key, entry])))
+        .catch(error => {
+          if (error.code !== 'ENOENT') console.warn(`Ignoring unreadable cache file ${this.filePath}:`, error);
+          return new Map<string, RoadmapCacheEntry>();
+        });
+    }
+    return this.items;
+  }
+
+  // Writes are chained so concurrent changes can't interleave in the file; a failed write
+  // is reported to its own caller and doesn't stop the ones queued after it
+  private save(items: Map<string, RoadmapCacheEntry>): Promise<void> {
+    const write = this.writing.catch(() => undefined).then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(this.filePath, JSON.stringify(Array.from(items.values())));
+    });
+    this.writing = write;
+    return write;
+  }
+
+  async get(key: string) {
+    return (await this.load()).get(key);
+  }
+
+  async set(entry: RoadmapCacheEntry) {
+    const items = await this.load();
+    items.set(entry.key, entry);
+    await this.save(items);
+  }
+
+  async delete(key: string) {
+    const items = await this.load();
+    if (items.delete(key)) await this.save(items);
+  }
+
+  async entries() {
+    return Array.from((await this.load()).values());
+  }
+}
@@ -0,0 +1,90 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { ProviderError } from '../src/services/providers';
+import { RoadmapErrorBody } from '../src/services/roadmapApi';
+import { occupationTaxonomy, OccupationWeights } from '../src/services/occupationTaxonomy';
+
+// Request parsing and response helpers shared by the /api handlers
+
+// Hosts such as Vercel parse JSON bodies before calling the handler
+export type ApiRequest = IncomingMessage & { body?: unknown };
+
+const MAX_OCCUPATION_IDS = 5;
+
+const STATUS_BY_KIND: Partial<Record<RoadmapErrorBody['kind'], number>> = {
+  invalid_request: 400,
+  rate_limit: 429,
+  auth: 503,
+};
+
+export const invalid = (message: string) => new ProviderError('invalid_request', message);
+
+export const sendJSON = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: ProviderError, headers: Record<string, string> = {}) => {
+  const body: RoadmapErrorBody = { kind: error.kind, message: error.message };
+  sendJSON(res, STATUS_BY_KIND[error.kind] || 502, { error: body }, headers);
+};
+
+// Any client can send X-Forwarded-For, so it is only read behind a proxy that sets it:
+// on Vercel, or when TRUST_PROXY=true
+export const trustsProxy = (env: Record<string, string | undefined> = process.env): boolean =>
+  Boolean(env.VERCEL) || env.TRUST_PROXY === 'true';
+
+// Behind a trusted proxy the client address is the last X-Forwarded-For entry, the one the
+// proxy added; entries before it come from the client
+export const clientAddress = (req: IncomingMessage, trustProxy: boolean = trustsProxy()): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const last = trustProxy
+    ? (Array.isArray(forwarded) ? forwarded[forwarded.length - 1] : forwarded)?.split(',').pop()?.trim()
+    : undefined;
+  return last || req.socket.remoteAddress || 'unknown';
+};
+
+export const readBody = async (req: ApiRequest, maxBytes: number): Promise<unknown> => {
+  if (req.body !== undefined) {
+    if (typeof req.body !== 'string') return req.body;
+    if (req.body.length > maxBytes) throw invalid('Request body is too large');
+    return JSON.parse(req.body);
+  }
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > maxBytes) throw invalid('Request body is too large');
+  }
+  return JSON.parse(raw);
+};
+
+export const optionalNumber = (value: unknown, field: string, min: number, max: number): number | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw invalid(`${field} must be an integer from ${min} to ${max}`);
+  }
+  return value;
+};
+
+export const optionalOccupationIds = (value: unknown, field: string): OccupationWeights | undefined => {
+  if (value === undefined) return undefined;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw invalid(`${field} must be an object`);
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0 || entries.length > MAX_OCCUPATION_IDS) {
+    throw invalid(`${field} must have 1 to ${MAX_OCCUPATION_IDS} entries`);
+  }
+  entries.forEach(([id, weight]) => {
+    if (!occupationTaxonomy.get(id)) throw invalid(`Unknown occupation id "${id}"`);
+    if (typeof weight !== 'number' || !(weight > 0 && weight <= 1)) {
+      throw invalid(`${field}.${id} must be a number above 0 and at most 1`);
+    }
+  });
+  return value as OccupationWeights;
+};
+
+// Only a sanity range; whether the year has a catalog is checked when the catalog is loaded
+export const optionalAdmissionYear = (value: unknown, field: string): number | undefined =>
+  optionalNumber(value, field, 2000, 2100);
+
+// Drops unset fields so they don't override the engine's defaults when spread
+export const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
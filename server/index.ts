@@ -0,0 +1,34 @@
+import http from 'http';
+import { REFINE_API_PATH, ROADMAP_API_PATH } from '../src/services/roadmapApi';
+import { REVIEWS_API_PATH } from '../src/services/reviewApi';
+import { createRoadmapHandler } from './roadmapHandler';
+import { createRefineHandler } from './refineHandler';
+import { createReviewHandler } from './reviewHandler';
+
+// Local equivalent of the Vercel function; `npm start` proxies /api requests here
+const port = Number(process.env.PORT) || 3001;
+const handleRoadmap = createRoadmapHandler();
+const handleRefine = createRefineHandler();
+const handleReviews = createReviewHandler();
+
+const server = http.createServer((req, res) => {
+  const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+  if (pathname === ROADMAP_API_PATH) {
+    handleRoadmap(req, res);
+    return;
+  }
+  if (pathname === REFINE_API_PATH) {
+    handleRefine(req, res);
+    return;
+  }
+  if (pathname === REVIEWS_API_PATH) {
+    handleReviews(req, res);
+    return;
+  }
+  res.writeHead(404, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify({ error: { kind: 'invalid_request', message: `No route for ${pathname}` } }));
+});
+
+server.listen(port, () => {
+  console.log(`Roadmap API listening on http://localhost:${port}${ROADMAP_API_PATH}`);
+});
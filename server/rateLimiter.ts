@@ -0,0 +1,47 @@
+export interface RateLimitOptions {
+  // Requests allowed per key within one window
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Until the window resets; only meaningful when the request was refused
+  retryAfterMs: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window counter per client. State is per process, so on serverless hosts each
+// instance keeps its own count; it bounds abuse rather than enforcing an exact quota
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  constructor(private options: RateLimitOptions, private now: () => number = Date.now) {}
+
+  check(key: string): RateLimitResult {
+    const now = this.now();
+    if (this.windows.size > 1000) this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.options.windowMs };
+      this.windows.set(key, window);
+    }
+    if (window.count >= this.options.limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now };
+    }
+    window.count += 1;
+    return { allowed: true, remaining: this.options.limit - window.count, retryAfterMs: 0 };
+  }
+
+  private prune(now: number) {
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
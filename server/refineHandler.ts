@@ -0,0 +1,163 @@
+import { ServerResponse } from 'http';
+import { GeneratedRoadmap } from '../src/services/geminiService';
+import { roadmapValidator } from '../src/services/roadmapValidator';
+import {
+  createProvider,
+  isProviderConfigured,
+  loadProviderConfig,
+  ProviderConfig,
+  ProviderError,
+} from '../src/services/providers';
+import { RefineRequest, RefineResponse, RoadmapChatMessage } from '../src/services/roadmapApi';
+import { LOCALES } from '../src/i18n/messages';
+import { RoadmapEngine } from './roadmapEngine';
+import { RateLimiter, RateLimitOptions } from './rateLimiter';
+import { createCatalogLoader, resolveManifestPath } from './catalog';
+import {
+  ApiRequest,
+  clientAddress,
+  invalid,
+  optionalAdmissionYear,
+  optionalOccupationIds,
+  readBody,
+  sendError,
+  sendJSON,
+} from './http';
+
+export interface RefineHandlerOptions {
+  providerConfig?: ProviderConfig;
+  // Catalog manifest, relative to the working directory
+  manifestPath?: string;
+  rateLimit?: RateLimitOptions;
+}
+
+// The roadmap travels with every request, so the body limit is larger than for /api/roadmap
+const MAX_BODY_BYTES = 32 * 1024;
+const MAX_INSTRUCTION_LENGTH = 500;
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_ROADMAP_NODES = 60;
+
+const parseHistory = (value: unknown): RoadmapChatMessage[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw invalid('history must be an array');
+  if (value.length > MAX_HISTORY_MESSAGES) throw invalid(`history must have at most ${MAX_HISTORY_MESSAGES} messages`);
+  return value.map((message, index) => {
+    const { role, content } = (message || {}) as Record<string, unknown>;
+    if (role !== 'user' && role !== 'assistant') throw invalid(`history[${index}].role must be "user" or "assistant"`);
+    if (typeof content !== 'string' || content.length > MAX_MESSAGE_LENGTH) {
+      throw invalid(`history[${index}].content must be a string of at most ${MAX_MESSAGE_LENGTH} characters`);
+    }
+    return { role, content };
+  });
+};
+
+// Checks shape and limits; the roadmap itself is checked against the catalog by the handler
+export const parseRefineRequest = (body: unknown): RefineRequest => {
+  if (!body || typeof body !== 'object') throw invalid('Expected a JSON object');
+  const { roadmap, history, instruction, language, occupationIds, admissionYear } = body as Record<string, unknown>;
+
+  if (typeof instruction !== 'string' || !instruction.trim()) throw invalid('instruction is required');
+  if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+    throw invalid(`instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters`);
+  }
+  const nodes = roadmap && typeof roadmap === 'object' ? (roadmap as { nodes?: unknown }).nodes : undefined;
+  if (!Array.isArray(nodes) || nodes.length === 0 || nodes.length > MAX_ROADMAP_NODES) {
+    throw invalid(`roadmap must be a roadmap object with 1 to ${MAX_ROADMAP_NODES} nodes`);
+  }
+  if (language !== undefined && !LOCALES.some(locale => locale.id === language)) {
+    throw invalid(`language must be one of ${LOCALES.map(locale => locale.id).join(', ')}`);
+  }
+
+  return {
+    roadmap: roadmap as GeneratedRoadmap,
+    history: parseHistory(history),
+    instruction: instruction.trim(),
+    language: language as RefineRequest['language'],
+    occupationIds: optionalOccupationIds(occupationIds, 'occupationIds'),
+    admissionYear: optionalAdmissionYear(admissionYear, 'admissionYear'),
+  };
+};
+
+// Serves POST /api/refine: one chat turn on the current roadmap, answered with a RoadmapPatch
+export const createRefineHandler = (options: RefineHandlerOptions = {}) => {
+  const config = options.providerConfig || loadProviderConfig();
+  const limiter = new RateLimiter(options.rateLimit || {
+    limit: Number(process.env.ROADMAP_RATE_LIMIT) || 10,
+    windowMs: Number(process.env.ROADMAP_RATE_WINDOW_MS) || 60000,
+  });
+  const loadCatalog = createCatalogLoader(resolveManifestPath(options.manifestPath));
+  let engine: RoadmapEngine | null = null;
+
+  const refine = async (req: ApiRequest, res: ServerResponse) => {
+    if (!isProviderConfigured(config)) {
+      sendError(res, new ProviderError('auth', 'No AI provider is configured on the server'));
+      return;
+    }
+
+    let request: RefineRequest;
+    try {
+      request = parseRefineRequest(await readBody(req, MAX_BODY_BYTES));
+    } catch (error) {
+      sendError(res, error instanceof ProviderError ? error : invalid('Request body is not valid JSON'));
+      return;
+    }
+
+    const catalog = await loadCatalog(request.admissionYear);
+    // Unknown subjects are dropped and catalog fields restored; retakes the student scheduled stay
+    const { roadmap } = roadmapValidator.validate(request.roadmap, catalog.subjects, { allowLaterTerms: true });
+    if (roadmap.nodes.length === 0) {
+      sendError(res, invalid('roadmap contains no subjects from the catalog'));
+      return;
+    }
+
+    const limit = limiter.check(clientAddress(req));
+    if (!limit.allowed) {
+      sendError(res, new ProviderError('rate_limit', 'Too many refinement requests; try again later'), {
+        'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)),
+      });
+      return;
+    }
+    if (!engine) engine = new RoadmapEngine(createProvider(config), config.timeoutMs);
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    try {
+      const patch = await engine.refineRoadmap(roadmap, request.instruction, request.history, catalog.subjects, {
+        language: request.language,
+        occupationIds: request.occupationIds,
+        signal: controller.signal,
+      });
+      const body: RefineResponse = { patch };
+      sendJSON(res, 200, body);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const providerError = error instanceof ProviderError
+        ? error
+        : new ProviderError('unavailable', error instanceof Error ? error.message : String(error));
+      console.error(`Roadmap refinement failed (${providerError.kind}):`, providerError.message);
+      sendError(res, providerError);
+    }
+  };
+
+  return async (req: ApiRequest, res: ServerResponse): Promise<void> => {
+    try {
+      if (req.method === 'POST') {
+        await refine(req, res);
+      } else {
+        sendJSON(res, 405, { error: { kind: 'invalid_request', message: 'Use POST' } }, { Allow: 'POST' });
+      }
+    } catch (error) {
+      console.error('Refinement request failed:', error);
+      if (!res.headersSent) {
+        sendError(res, error instanceof ProviderError
+          ? error
+          : new ProviderError('unavailable', 'The roadmap server failed to handle the request'));
+      } else if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+};
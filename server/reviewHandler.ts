@@ -0,0 +1,382 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ServerResponse } from 'http';
+import { GeneratedRoadmap } from '../src/services/geminiService';
+import { roadmapValidator } from '../src/services/roadmapValidator';
+import { CompletedSubject, Grade, GRADES } from '../src/services/profileStore';
+import { ProviderError } from '../src/services/providers';
+import {
+  allowedTransitions,
+  canAnnotate,
+  canRevise,
+  CreateReviewRequest,
+  latestRevision,
+  REVIEW_STATUSES,
+  ReviewAction,
+  ReviewError,
+  ReviewErrorBody,
+  ReviewErrorKind,
+  ReviewEvent,
+  ReviewListResponse,
+  ReviewResponse,
+  ReviewRevision,
+  ReviewRole,
+  ReviewStatus,
+  ReviewUser,
+  RoadmapReview,
+  summarizeReview,
+} from '../src/services/reviewApi';
+import { createCatalogLoader, resolveManifestPath } from './catalog';
+import { ApiRequest, optionalAdmissionYear, readBody, sendJSON } from './http';
+import { createReviewStore, ReviewStore } from './reviewStore';
+
+// A user of the review workflow and the bearer token that signs them in
+export interface ReviewAccount extends ReviewUser {
+  token: string;
+}
+
+export interface ReviewHandlerOptions {
+  store?: ReviewStore;
+  // Defaults to the accounts in REVIEW_USERS
+  accounts?: ReviewAccount[];
+  // Catalog manifest, relative to the working directory
+  manifestPath?: string;
+}
+
+// Room for a full roadmap together with the completion profile
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_ROADMAP_NODES = 60;
+const MAX_COMPLETED_SUBJECTS = 200;
+const MAX_TITLE_LENGTH = 100;
+const MAX_COMMENT_LENGTH = 1000;
+const MIN_TOKEN_LENGTH = 8;
+
+const STATUS_BY_KIND: Record<ReviewErrorKind, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  unavailable: 503,
+};
+
+const badRequest = (message: string) => new ReviewError('invalid_request', message);
+
+const sendReviewError = (res: ServerResponse, error: ReviewError) => {
+  const body: ReviewErrorBody = { kind: error.kind, message: error.message };
+  sendJSON(res, STATUS_BY_KIND[error.kind], { error: body }, error.kind === 'unauthorized' ? { 'WWW-Authenticate': 'Bearer' } : {});
+};
+
+// REVIEW_USERS lists accounts as comma-separated "id:role:token:Display name" entries, e.g.
+// "s1:student:s3cret-token:Aoi Tanaka,a1:advisor:other-token:Prof. Sato"
+export const parseReviewAccounts = (value: string = process.env.REVIEW_USERS || ''): ReviewAccount[] => {
+  const accounts = value.split(',').filter(entry => entry.trim()).map(entry => {
+    const [id, role, token, ...name] = entry.trim().split(':');
+    if (!id || (role !== 'student' && role !== 'advisor') || !token || token.length < MIN_TOKEN_LENGTH) {
+      throw new Error(
+        `Invalid REVIEW_USERS entry "${id}": use id:student|advisor:token:name with a token of at least ${MIN_TOKEN_LENGTH} characters`
+      );
+    }
+    return { id, role: role as ReviewRole, token, name: name.join(':').trim() || id };
+  });
+  const ids = new Set(accounts.map(account => account.id));
+  const tokens = new Set(accounts.map(account => account.token));
+  if (ids.size < accounts.length || tokens.size < accounts.length) {
+    throw new Error('REVIEW_USERS ids and tokens must be unique');
+  }
+  return accounts;
+};
+
+const textField = (value: unknown, field: string, maxLength: number): string => {
+  if (typeof value !== 'string' || !value.trim()) throw badRequest(`${field} is required`);
+  if (value.length > maxLength) throw badRequest(`${field} must be at most ${maxLength} characters`);
+  return value.trim();
+};
+
+const optionalText = (value: unknown, field: string, maxLength: number): string | undefined =>
+  value === undefined || value === '' ? undefined : textField(value, field, maxLength);
+
+const parseCompletedSubjects = (value: unknown): Record<string, CompletedSubject> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw badRequest('completedSubjects must be an object');
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > MAX_COMPLETED_SUBJECTS) {
+    throw badRequest(`completedSubjects must have at most ${MAX_COMPLETED_SUBJECTS} entries`);
+  }
+  return Object.fromEntries(entries.map(([id, entry]) => {
+    const { grade, completedAt } = (entry || {}) as Record<string, unknown>;
+    if (typeof completedAt !== 'string' || Number.isNaN(Date.parse(completedAt))) {
+      throw badRequest(`completedSubjects.${id}.completedAt must be a date`);
+    }
+    if (grade !== undefined && !GRADES.includes(grade as Grade)) {
+      throw badRequest(`completedSubjects.${id}.grade must be one of ${GRADES.join(', ')}`);
+    }
+    return [id, grade === undefined ? { completedAt } : { grade: grade as Grade, completedAt }];
+  }));
+};
+
+// Checks shape and limits; the roadmap itself is checked against the catalog by the handler
+const parseSubmission = (body: Record<string, unknown>): Omit<CreateReviewRequest, 'title'> => {
+  const { roadmap, completedSubjects, admissionYear, note, submit } = body;
+  const nodes = roadmap && typeof roadmap === 'object' ? (roadmap as { nodes?: unknown }).nodes : undefined;
+  if (!Array.isArray(nodes) || nodes.length === 0 || nodes.length > MAX_ROADMAP_NODES) {
+    throw badRequest(`roadmap must be a roadmap object with 1 to ${MAX_ROADMAP_NODES} nodes`);
+  }
+  if (submit !== undefined && typeof submit !== 'boolean') throw badRequest('submit must be a boolean');
+  let year: number | undefined;
+  try {
+    year = optionalAdmissionYear(admissionYear, 'admissionYear');
+  } catch (error) {
+    throw badRequest(error instanceof Error ? error.message : String(error));
+  }
+  return {
+    roadmap: roadmap as GeneratedRoadmap,
+    completedSubjects: parseCompletedSubjects(completedSubjects ?? {}),
+    admissionYear: year,
+    note: optionalText(note, 'note', MAX_COMMENT_LENGTH),
+    submit: submit === true,
+  };
+};
+
+export const parseCreateRequest = (body: unknown): CreateReviewRequest => {
+  if (!body || typeof body !== 'object') throw badRequest('Expected a JSON object');
+  const fields = body as Record<string, unknown>;
+  return { title: textField(fields.title, 'title', MAX_TITLE_LENGTH), ...parseSubmission(fields) };
+};
+
+export const parseReviewAction = (body: unknown): ReviewAction => {
+  if (!body || typeof body !== 'object') throw badRequest('Expected a JSON object');
+  const fields = body as Record<string, unknown>;
+  switch (fields.type) {
+    case 'revise':
+      return { type: 'revise', ...parseSubmission(fields) };
+    case 'annotate':
+      return {
+        type: 'annotate',
+        nodeId: textField(fields.nodeId, 'nodeId', MAX_TITLE_LENGTH),
+        comment: textField(fields.comment, 'comment', MAX_COMMENT_LENGTH),
+        substituteId: optionalText(fields.substituteId, 'substituteId', MAX_TITLE_LENGTH),
+      };
+    case 'status':
+      if (!REVIEW_STATUSES.includes(fields.status as ReviewStatus)) {
+        throw badRequest(`status must be one of ${REVIEW_STATUSES.join(', ')}`);
+      }
+      return {
+        type: 'status',
+        status: fields.status as ReviewStatus,
+        comment: optionalText(fields.comment, 'comment', MAX_COMMENT_LENGTH),
+      };
+    case 'comment':
+      return { type: 'comment', comment: textField(fields.comment, 'comment', MAX_COMMENT_LENGTH) };
+    default:
+      throw badRequest('type must be one of revise, annotate, status, comment');
+  }
+};
+
+const newId = () => randomBytes(8).toString('hex');
+
+// Tokens are compared as digests: timingSafeEqual needs equal lengths, and comparing the raw
+// tokens would reveal how many leading characters of a guess are right
+const tokenDigest = (token: string) => createHash('sha256').update(token).digest();
+
+// Serves /api/reviews. Requests carry "Authorization: Bearer <token>" for one of the configured
+// accounts. Students see and change only their own reviews; advisors see all of them.
+//   GET  /api/reviews          the signed-in user and their reviews (ReviewListResponse)
+//   GET  /api/reviews?id=…     one review
+//   POST /api/reviews          a new review from a CreateReviewRequest
+//   POST /api/reviews?id=…     a ReviewAction on the review
+export const createReviewHandler = (options: ReviewHandlerOptions = {}) => {
+  const accounts = options.accounts || parseReviewAccounts();
+  const store = options.store || createReviewStore();
+  const loadCatalog = createCatalogLoader(resolveManifestPath(options.manifestPath));
+  // Changes are read-modify-write, so they run one at a time
+  let changing: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(change: () => Promise<T>): Promise<T> => {
+    const result = changing.then(change);
+    changing = result.catch(() => undefined);
+    return result;
+  };
+
+  const authenticate = (req: ApiRequest): ReviewUser => {
+    if (accounts.length === 0) throw new ReviewError('unavailable', 'Reviews are not configured on this server');
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+    const given = match && tokenDigest(match[1]);
+    const account = given && accounts.find(entry => timingSafeEqual(tokenDigest(entry.token), given));
+    if (!account) throw new ReviewError('unauthorized', 'Sign in with a valid review token');
+    return { id: account.id, name: account.name, role: account.role };
+  };
+
+  const readJSON = async (req: ApiRequest): Promise<unknown> => {
+    try {
+      return await readBody(req, MAX_BODY_BYTES);
+    } catch (error) {
+      throw badRequest(error instanceof ProviderError ? error.message : 'Request body is not valid JSON');
+    }
+  };
+
+  // Students get not_found for other students' reviews, so ids can't be probed
+  const find = async (id: string, user: ReviewUser): Promise<RoadmapReview> => {
+    const review = await store.get(id);
+    if (!review || (user.role === 'student' && review.student.id !== user.id)) {
+      throw new ReviewError('not_found', `No review ${id}`);
+    }
+    return review;
+  };
+
+  const catalogFor = async (admissionYear?: number) => {
+    try {
+      return await loadCatalog(admissionYear);
+    } catch (error) {
+      if (error instanceof ProviderError && error.kind === 'invalid_request') throw badRequest(error.message);
+      throw error;
+    }
+  };
+
+  // Unknown subjects are dropped and catalog fields restored, as for /api/refine
+  const toRevision = async (
+    submission: Omit<CreateReviewRequest, 'title'>,
+    number: number,
+    now: string
+  ): Promise<ReviewRevision> => {
+    const catalog = await catalogFor(submission.admissionYear);
+    const { roadmap } = roadmapValidator.validate(submission.roadmap, catalog.subjects, { allowLaterTerms: true });
+    if (roadmap.nodes.length === 0) throw badRequest('roadmap contains no subjects from the catalog');
+    return {
+      number,
+      roadmap,
+      completedSubjects: submission.completedSubjects,
+      admissionYear: catalog.admissionYear,
+      ...(submission.note ? { note: submission.note } : {}),
+      createdAt: now,
+    };
+  };
+
+  const create = async (req: ApiRequest, res: ServerResponse, user: ReviewUser) => {
+    if (user.role !== 'student') throw new ReviewError('forbidden', 'Only students submit roadmaps for review');
+    const request = parseCreateRequest(await readJSON(req));
+    const now = new Date().toISOString();
+    const status: ReviewStatus = request.submit ? 'submitted' : 'draft';
+    const review: RoadmapReview = {
+      id: newId(),
+      title: request.title,
+      student: user,
+      status,
+      createdAt: now,
+      updatedAt: now,
+      revisions: [await toRevision(request, 1, now)],
+      annotations: [],
+      history: [{ type: 'created', by: user, at: now, revision: 1, status, ...(request.note ? { comment: request.note } : {}) }],
+    };
+    await exclusive(() => store.save(review));
+    const body: ReviewResponse = { review };
+    sendJSON(res, 201, body);
+  };
+
+  const apply = async (review: RoadmapReview, action: ReviewAction, user: ReviewUser, now: string) => {
+    const revision = latestRevision(review).number;
+    // Events record the latest revision when they are added, so 'revised' gets the new one
+    const event = (fields: Omit<ReviewEvent, 'by' | 'at' | 'revision'>): ReviewEvent =>
+      ({ ...fields, by: user, at: now, revision: latestRevision(review).number });
+
+    switch (action.type) {
+      case 'revise': {
+        if (!canRevise(user.role, review.status)) {
+          throw new ReviewError(user.role === 'student' ? 'conflict' : 'forbidden', `A ${review.status} review can't be revised`);
+        }
+        review.revisions.push(await toRevision(action, revision + 1, now));
+        review.history.push(event({ type: 'revised', ...(action.note ? { comment: action.note } : {}) }));
+        if (action.submit) {
+          review.status = 'submitted';
+          review.history.push(event({ type: 'status', status: 'submitted' }));
+        }
+        break;
+      }
+      case 'annotate': {
+        if (!canAnnotate(user.role, review.status)) {
+          throw new ReviewError(user.role === 'advisor' ? 'conflict' : 'forbidden', 'Only advisors annotate submitted reviews');
+        }
+        const latest = latestRevision(review);
+        if (!latest.roadmap.nodes.some(node => node.id === action.nodeId)) {
+          throw badRequest(`${action.nodeId} is not in the latest revision`);
+        }
+        if (action.substituteId) {
+          const catalog = await catalogFor(latest.admissionYear);
+          if (action.substituteId === action.nodeId || !catalog.subjects.some(subject => subject.id === action.substituteId)) {
+            throw badRequest(`substituteId ${action.substituteId} is not another subject in the catalog`);
+          }
+        }
+        review.annotations.push({
+          id: newId(),
+          revision,
+          nodeId: action.nodeId,
+          comment: action.comment,
+          ...(action.substituteId ? { substituteId: action.substituteId } : {}),
+          author: user,
+          createdAt: now,
+        });
+        review.history.push(event({ type: 'annotated', nodeId: action.nodeId, comment: action.comment }));
+        break;
+      }
+      case 'status': {
+        if (!allowedTransitions(user.role, review.status).includes(action.status)) {
+          const anyone = (['student', 'advisor'] as ReviewRole[]).some(role => allowedTransitions(role, review.status).includes(action.status));
+          throw new ReviewError(
+            anyone ? 'forbidden' : 'conflict',
+            `A ${user.role} can't change a ${review.status} review to ${action.status}`
+          );
+        }
+        review.status = action.status;
+        review.history.push(event({ type: 'status', status: action.status, ...(action.comment ? { comment: action.comment } : {}) }));
+        break;
+      }
+      case 'comment':
+        review.history.push(event({ type: 'commented', comment: action.comment }));
+        break;
+    }
+    review.updatedAt = now;
+  };
+
+  const act = async (req: ApiRequest, res: ServerResponse, user: ReviewUser, id: string) => {
+    const action = parseReviewAction(await readJSON(req));
+    const review = await exclusive(async () => {
+      const current = await find(id, user);
+      // Changed on a copy so a rejected action leaves the stored review as it was
+      const next: RoadmapReview = JSON.parse(JSON.stringify(current));
+      await apply(next, action, user, new Date().toISOString());
+      await store.save(next);
+      return next;
+    });
+    const body: ReviewResponse = { review };
+    sendJSON(res, 200, body);
+  };
+
+  return async (req: ApiRequest, res: ServerResponse): Promise<void> => {
+    try {
+      const user = authenticate(req);
+      const id = new URL(req.url || '/', 'http://localhost').searchParams.get('id');
+      if (req.method === 'GET' && id) {
+        const body: ReviewResponse = { review: await find(id, user) };
+        sendJSON(res, 200, body);
+      } else if (req.method === 'GET') {
+        const reviews = await store.list(user.role === 'student' ? { studentId: user.id } : {});
+        const body: ReviewListResponse = { user, reviews: reviews.map(summarizeReview) };
+        sendJSON(res, 200, body);
+      } else if (req.method === 'POST' && id) {
+        await act(req, res, user, id);
+      } else if (req.method === 'POST') {
+        await create(req, res, user);
+      } else {
+        sendJSON(res, 405, { error: { kind: 'invalid_request', message: 'Use GET or POST' } }, { Allow: 'GET, POST' });
+      }
+    } catch (error) {
+      if (error instanceof ReviewError) {
+        sendReviewError(res, error);
+        return;
+      }
+      console.error('Review request failed:', error);
+      if (!res.headersSent) {
+        sendReviewError(res, new ReviewError('unavailable', 'The review server failed to handle the request'));
+      } else if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+};
@@ -0,0 +1,83 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { RoadmapReview } from '../src/services/reviewApi';
+
+// Where the review handler keeps reviews. Implementations only store and return them; access
+// rules and status changes are the handler's
+export interface ReviewStore {
+  get(id: string): Promise<RoadmapReview | undefined>;
+  // Most recently updated first
+  list(filter?: { studentId?: string }): Promise<RoadmapReview[]>;
+  // Adds the review or replaces the one with the same id
+  save(review: RoadmapReview): Promise<void>;
+}
+
+const newestFirst = (a: RoadmapReview, b: RoadmapReview) => b.updatedAt.localeCompare(a.updatedAt);
+
+export class MemoryReviewStore implements ReviewStore {
+  protected items: Promise<Map<string, RoadmapReview>> = Promise.resolve(new Map());
+  private saving: Promise<void> = Promise.resolve();
+
+  protected load(): Promise<Map<string, RoadmapReview>> {
+    return this.items;
+  }
+
+  protected async persist(_items: Map<string, RoadmapReview>): Promise<void> {}
+
+  async get(id: string) {
+    return (await this.load()).get(id);
+  }
+
+  async list(filter: { studentId?: string } = {}) {
+    return Array.from((await this.load()).values())
+      .filter(review => !filter.studentId || review.student.id === filter.studentId)
+      .sort(newestFirst);
+  }
+
+  // Saves run one at a time. Each persists a copy with its change and only then updates the
+  // reviews, so a failed write leaves them as they were
+  save(review: RoadmapReview): Promise<void> {
+    const save = this.saving.catch(() => undefined).then(async () => {
+      const items = await this.load();
+      await this.persist(new Map(items).set(review.id, review));
+      items.set(review.id, review);
+    });
+    this.saving = save;
+    return save;
+  }
+}
+
+// Keeps all reviews in one JSON file, read once and rewritten on every change, like
+// FileCacheStore. Meant for a single local server
+export class FileReviewStore extends MemoryReviewStore {
+  private loaded = false;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected load(): Promise<Map<string, RoadmapReview>> {
+    if (!this.loaded) {
+      this.loaded = true;
+      // Unlike the cache, an unreadable file is an error: starting empty would overwrite it
+      this.items = readFile(this.filePath, 'utf8')
+        .then(text => new Map((JSON.parse(text) as RoadmapReview[]).map(review => [review.id, review])))
+        .catch(error => {
+          if (error.code === 'ENOENT') return new Map<string, RoadmapReview>();
+          this.loaded = false;
+          throw new Error(`Could not read reviews from ${this.filePath}: ${error.message}`);
+        });
+    }
+    return this.items;
+  }
+
+  // save() runs one write at a time, so changes can't interleave in the file
+  protected async persist(items: Map<string, RoadmapReview>): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(Array.from(items.values()), null, 2));
+  }
+}
+
+// A JSON file when REVIEW_STORE_PATH is set, memory only otherwise
+export const createReviewStore = (filePath: string | undefined = process.env.REVIEW_STORE_PATH): ReviewStore =>
+  filePath ? new FileReviewStore(path.resolve(process.cwd(), filePath)) : new MemoryReviewStore();
@@ -0,0 +1,283 @@
+import { GenerateRoadmapOptions, GeneratedRoadmap, Subject } from '../src/services/geminiService';
+import { roadmapValidator, RoadmapIssue } from '../src/services/roadmapValidator';
+import { IncrementalJsonParser } from '../src/services/incrementalJsonParser';
+import { promptBuilder, RoadmapPromptStats } from '../src/services/promptBuilder';
+import { ProviderError, ProviderResponse, RETRY_POLICIES, RoadmapProvider } from '../src/services/providers';
+import { RoadmapChatMessage } from '../src/services/roadmapApi';
+import { RoadmapPatch, roadmapPatcher } from '../src/services/roadmapPatch';
+
+export type RefineRoadmapOptions = Pick<GenerateRoadmapOptions, 'language' | 'occupationIds' | 'maxRetries' | 'signal'>;
+
+const createAbortError = (): Error => {
+  const error = new Error('Roadmap generation was cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+const toProviderError = (error: unknown): ProviderError =>
+  error instanceof ProviderError
+    ? error
+    : new ProviderError('unavailable', error instanceof Error ? error.message : String(error), { cause: error });
+
+// The abort listener goes once the delay is over, so retries don't pile listeners on the signal
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Builds the prompt, calls the configured provider with retries and validates the result.
+// Runs only on the server so the provider key never reaches the browser
+export class RoadmapEngine {
+  constructor(
+    private provider: RoadmapProvider,
+    private timeoutMs: number
+  ) {}
+
+  getProvider(): RoadmapProvider {
+    return this.provider;
+  }
+
+  // Public so the evaluation script can score the model's first answer as it was returned
+  parseJSONResponse(text: string): unknown {
+    try {
+      // First, try to parse as-is
+      return JSON.parse(text);
+    } catch (error) {
+      // If that fails, try to extract JSON from markdown code blocks
+      const jsonMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+      if (jsonMatch) {
+        try {
+          return JSON.parse(jsonMatch[1]);
+        } catch (parseError) {
+          console.error('Failed to parse JSON from code block:', parseError);
+          throw new Error('Invalid JSON response from AI');
+        }
+      }
+      
+      // If no code block found, try to find JSON object in the text
+      const jsonObjectMatch = text.match(/\{[\s\S]*\}/);
+      if (jsonObjectMatch) {
+        try {
+          return JSON.parse(jsonObjectMatch[0]);
+        } catch (parseError) {
+          console.error('Failed to parse JSON object from text:', parseError);
+          throw new Error('Invalid JSON response from AI');
+        }
+      }
+      
+      throw new Error('No valid JSON found in response');
+    }
+  }
+
+  async generateRoadmap(
+    occupation: string,
+    subjects: Subject[],
+    options: GenerateRoadmapOptions = {}
+  ): Promise<GeneratedRoadmap> {
+    const maxRetries = options.maxRetries ?? RETRY_POLICIES.malformed_output.retries;
+    const built = promptBuilder.buildRoadmapPrompt(occupation, subjects, {
+      ...options.prompt,
+      language: options.language,
+      occupationIds: options.occupationIds,
+    });
+    const basePrompt = built.prompt;
+    const stats = built.stats;
+    stats.usage = { promptTokens: 0, responseTokens: 0 };
+    console.info(
+      `Roadmap prompt: ~${stats.estimatedTokens} tokens (budget ${stats.tokenBudget}), ` +
+      `${stats.includedSubjects.length} subjects sent, ${stats.omittedSubjects.length} left out`
+    );
+    let prompt = basePrompt;
+    let lastIssues: RoadmapIssue[] = [];
+    // The parse error or the issues the last answer failed on
+    let lastCause: unknown;
+
+    try {
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        const text = await this.requestWithRetries(prompt, subjects, options, stats);
+
+        let roadmapData: unknown;
+        try {
+          roadmapData = this.parseJSONResponse(text);
+        } catch (parseError) {
+          lastCause = parseError;
+          lastIssues = [{
+            severity: 'error',
+            nodeId: null,
+            field: '$',
+            message: parseError instanceof Error ? parseError.message : 'Invalid JSON',
+          }];
+          prompt = basePrompt + roadmapValidator.createCorrectivePrompt(lastIssues);
+          continue;
+        }
+
+        const { roadmap, issues, hasErrors } = roadmapValidator.validate(roadmapData, subjects);
+        if (!hasErrors || attempt === maxRetries) {
+          if (issues.length > 0) {
+            console.warn(`Roadmap repaired with ${issues.length} issues after ${attempt + 1} attempts:`, issues);
+          }
+          if (roadmap.nodes.length === 0) {
+            lastIssues = issues;
+            lastCause = issues;
+            break;
+          }
+          return roadmap;
+        }
+        lastIssues = issues;
+        lastCause = issues;
+        prompt = basePrompt + roadmapValidator.createCorrectivePrompt(issues);
+      }
+    } finally {
+      options.onPromptStats?.(stats);
+    }
+
+    console.error('Roadmap failed validation:', lastIssues);
+    throw new ProviderError(
+      'malformed_output',
+      `The model did not return a usable roadmap: ${lastIssues.slice(0, 3).map(issue => issue.message).join('; ')}`,
+      { cause: lastCause }
+    );
+  }
+
+  // Answers a follow-up message on an existing roadmap with a patch checked against the roadmap
+  // and the catalog; the browser shows it as a diff and applies it only once the student confirms
+  async refineRoadmap(
+    roadmap: GeneratedRoadmap,
+    instruction: string,
+    history: RoadmapChatMessage[],
+    subjects: Subject[],
+    options: RefineRoadmapOptions = {}
+  ): Promise<RoadmapPatch> {
+    const maxRetries = options.maxRetries ?? RETRY_POLICIES.malformed_output.retries;
+    const { prompt: basePrompt, stats } = promptBuilder.buildRefinePrompt(roadmap, instruction, history, subjects, {
+      language: options.language,
+      occupationIds: options.occupationIds,
+    });
+    stats.usage = { promptTokens: 0, responseTokens: 0 };
+    console.info(
+      `Refine prompt: ~${stats.estimatedTokens} tokens (budget ${stats.tokenBudget}), ` +
+      `${roadmap.nodes.length} roadmap subjects, ${stats.includedSubjects.length} candidates`
+    );
+    let prompt = basePrompt;
+    let lastIssues: RoadmapIssue[] = [];
+    // The parse error or the issues the last answer failed on
+    let lastCause: unknown;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const text = await this.requestWithRetries(prompt, subjects, options, stats);
+
+      let patchData: unknown;
+      try {
+        patchData = this.parseJSONResponse(text);
+      } catch (parseError) {
+        lastCause = parseError;
+        lastIssues = [{
+          severity: 'error',
+          nodeId: null,
+          field: '$',
+          message: parseError instanceof Error ? parseError.message : 'Invalid JSON',
+        }];
+        prompt = basePrompt + roadmapPatcher.createCorrectivePrompt(lastIssues);
+        continue;
+      }
+
+      const { patch, issues, hasErrors } = roadmapPatcher.normalize(patchData, roadmap, subjects);
+      if (!hasErrors || attempt === maxRetries) {
+        if (issues.length > 0) {
+          console.warn(`Refinement patch repaired with ${issues.length} issues after ${attempt + 1} attempts:`, issues);
+        }
+        if (!patch.reply) {
+          lastIssues = issues;
+          lastCause = issues;
+          break;
+        }
+        return patch;
+      }
+      lastIssues = issues;
+      lastCause = issues;
+      prompt = basePrompt + roadmapPatcher.createCorrectivePrompt(issues);
+    }
+
+    console.error('Refinement patch failed validation:', lastIssues);
+    throw new ProviderError(
+      'malformed_output',
+      `The model did not return a usable answer: ${lastIssues.slice(0, 3).map(issue => issue.message).join('; ')}`,
+      { cause: lastCause }
+    );
+  }
+
+  // Sends one prompt, retrying failed requests with backoff according to the error's retry policy
+  private async requestWithRetries(
+    prompt: string,
+    subjects: Subject[],
+    options: GenerateRoadmapOptions,
+    stats: RoadmapPromptStats
+  ): Promise<string> {
+    for (let retry = 0; ; retry++) {
+      try {
+        const { text, usage } = await this.request(prompt, subjects, options);
+        if (usage && stats.usage) {
+          stats.usage.promptTokens += usage.promptTokens;
+          stats.usage.responseTokens += usage.responseTokens;
+        }
+        return text;
+      } catch (error) {
+        if (options.signal?.aborted) throw createAbortError();
+        const providerError = toProviderError(error);
+        const policy = RETRY_POLICIES[providerError.kind];
+        if (retry >= policy.retries) throw providerError;
+        const delay = providerError.retryAfterMs ?? policy.baseDelayMs * 2 ** retry;
+        console.warn(`${this.provider.name} request failed (${providerError.kind}), retrying in ${delay} ms:`, providerError.message);
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  private async request(prompt: string, subjects: Subject[], options: GenerateRoadmapOptions): Promise<ProviderResponse> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) throw createAbortError();
+
+    // A separate controller lets a timeout end this attempt without cancelling the whole generation
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+
+    const parser = new IncrementalJsonParser('nodes');
+    const nodes: unknown[] = [];
+    try {
+      return await this.provider.generate(prompt, {
+        signal: controller.signal,
+        onText: chunk => {
+          const completed = parser.push(chunk);
+          if (completed.length > 0 && onProgress) {
+            nodes.push(...completed);
+            const { title = '', description = '', occupation = '', reasoning = '' } = parser.fields;
+            const { roadmap } = roadmapValidator.validate({ title, description, occupation, reasoning, nodes }, subjects);
+            onProgress(roadmap);
+          }
+        },
+      });
+    } catch (error) {
+      if (timedOut) {
+        throw new ProviderError('timeout', `No complete response within ${this.timeoutMs} ms`, { cause: error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
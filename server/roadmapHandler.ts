@@ -0,0 +1,213 @@
+import { ServerResponse } from 'http';
+import path from 'path';
+import {
+  createProvider,
+  isProviderConfigured,
+  loadProviderConfig,
+  ProviderConfig,
+  ProviderError,
+  RETRY_POLICIES,
+} from '../src/services/providers';
+import {
+  RoadmapRequest,
+  RoadmapRequestOptions,
+  RoadmapServiceStatus,
+  RoadmapStreamEvent,
+} from '../src/services/roadmapApi';
+import { RoadmapCache, ROADMAP_CACHE_TTL_MS, roadmapCacheKey } from '../src/services/roadmapCache';
+import { promptBuilder } from '../src/services/promptBuilder';
+import { LOCALES } from '../src/i18n/messages';
+import { RoadmapEngine } from './roadmapEngine';
+import { RateLimiter, RateLimitOptions } from './rateLimiter';
+import { FileCacheStore } from './fileCacheStore';
+import { createCatalogLoader, resolveManifestPath } from './catalog';
+import {
+  ApiRequest,
+  clientAddress,
+  compact,
+  invalid,
+  optionalAdmissionYear,
+  optionalNumber,
+  optionalOccupationIds,
+  readBody,
+  sendError,
+  sendJSON,
+} from './http';
+
+export type RoadmapHandlerRequest = ApiRequest;
+
+export interface RoadmapHandlerOptions {
+  providerConfig?: ProviderConfig;
+  // Catalog manifest, relative to the working directory
+  manifestPath?: string;
+  rateLimit?: RateLimitOptions;
+  // Defaults to memory only, or a JSON file when ROADMAP_CACHE_PATH is set
+  cache?: RoadmapCache;
+}
+
+const MAX_BODY_BYTES = 4 * 1024;
+const MAX_OCCUPATION_LENGTH = 100;
+// Upper bounds on client-supplied prompt options, so one request cannot run up a large bill
+const MAX_TOP_K = 80;
+const MAX_TOKEN_BUDGET = 12000;
+const MAX_SUMMARY_LENGTH = 200;
+
+// Accepts only known fields within their limits; anything else is a 400
+export const parseRoadmapRequest = (body: unknown): RoadmapRequest => {
+  if (!body || typeof body !== 'object') throw invalid('Expected a JSON object');
+  const { occupation, options = {}, refresh } = body as { occupation?: unknown; options?: unknown; refresh?: unknown };
+
+  if (typeof occupation !== 'string' || !occupation.trim()) throw invalid('occupation is required');
+  if (occupation.length > MAX_OCCUPATION_LENGTH) {
+    throw invalid(`occupation must be at most ${MAX_OCCUPATION_LENGTH} characters`);
+  }
+  if (!options || typeof options !== 'object') throw invalid('options must be an object');
+  if (refresh !== undefined && typeof refresh !== 'boolean') throw invalid('refresh must be a boolean');
+
+  const { language, maxRetries, occupationIds, admissionYear, prompt = {} } = options as Record<string, unknown>;
+  if (language !== undefined && !LOCALES.some(locale => locale.id === language)) {
+    throw invalid(`language must be one of ${LOCALES.map(locale => locale.id).join(', ')}`);
+  }
+  if (!prompt || typeof prompt !== 'object') throw invalid('options.prompt must be an object');
+  const { topK, tokenBudget, summaryLength } = prompt as Record<string, unknown>;
+
+  const parsed: RoadmapRequestOptions = compact({
+    language: language as RoadmapRequestOptions['language'],
+    maxRetries: optionalNumber(maxRetries, 'options.maxRetries', 0, RETRY_POLICIES.malformed_output.retries),
+    occupationIds: optionalOccupationIds(occupationIds, 'options.occupationIds'),
+    admissionYear: optionalAdmissionYear(admissionYear, 'options.admissionYear'),
+    prompt: compact({
+      topK: optionalNumber(topK, 'options.prompt.topK', 1, MAX_TOP_K),
+      tokenBudget: optionalNumber(tokenBudget, 'options.prompt.tokenBudget', 500, MAX_TOKEN_BUDGET),
+      summaryLength: optionalNumber(summaryLength, 'options.prompt.summaryLength', 0, MAX_SUMMARY_LENGTH),
+    }),
+  });
+  // A budget that leaves no room for the subjects is a 400 too, not a failure once streaming has started
+  promptBuilder.checkRoadmapBudget(occupation.trim(), {
+    ...parsed.prompt,
+    language: parsed.language,
+    occupationIds: parsed.occupationIds,
+  });
+  return { occupation: occupation.trim(), options: parsed, refresh: refresh === true };
+};
+
+// Serves GET (provider status) and POST (streamed roadmap generation) for /api/roadmap
+export const createRoadmapHandler = (options: RoadmapHandlerOptions = {}) => {
+  const config = options.providerConfig || loadProviderConfig();
+  const limiter = new RateLimiter(options.rateLimit || {
+    limit: Number(process.env.ROADMAP_RATE_LIMIT) || 10,
+    windowMs: Number(process.env.ROADMAP_RATE_WINDOW_MS) || 60000,
+  });
+  const cachePath = process.env.ROADMAP_CACHE_PATH;
+  const cache = options.cache || new RoadmapCache(
+    cachePath ? new FileCacheStore(path.resolve(process.cwd(), cachePath)) : null,
+    Number(process.env.ROADMAP_CACHE_TTL_MS) || ROADMAP_CACHE_TTL_MS
+  );
+  let engine: RoadmapEngine | null = null;
+  const loadCatalog = createCatalogLoader(resolveManifestPath(options.manifestPath));
+
+  const startStream = (res: ServerResponse) => {
+    res.writeHead(200, {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'X-Accel-Buffering': 'no',
+    });
+    return (event: RoadmapStreamEvent) => {
+      if (!res.writableEnded) res.write(JSON.stringify(event) + '\n');
+    };
+  };
+
+  const generate = async (req: RoadmapHandlerRequest, res: ServerResponse) => {
+    if (!isProviderConfigured(config)) {
+      sendError(res, new ProviderError('auth', 'No AI provider is configured on the server'));
+      return;
+    }
+
+    let request: RoadmapRequest;
+    try {
+      request = parseRoadmapRequest(await readBody(req, MAX_BODY_BYTES));
+    } catch (error) {
+      sendError(res, error instanceof ProviderError ? error : invalid('Request body is not valid JSON'));
+      return;
+    }
+
+    const catalog = await loadCatalog(request.options?.admissionYear);
+    await cache.invalidateCatalog(catalog);
+    const cacheKey = roadmapCacheKey({
+      occupation: request.occupation,
+      options: request.options || {},
+      provider: config.provider,
+      model: config.model,
+      catalogHash: catalog.hash,
+    });
+    // Cache hits cost nothing upstream, so they don't count against the rate limit
+    const cached = request.refresh ? undefined : await cache.get(cacheKey);
+    if (cached) {
+      const send = startStream(res);
+      send({ type: 'result', roadmap: cached.roadmap, generatedAt: cached.generatedAt, cached: true });
+      res.end();
+      return;
+    }
+
+    const limit = limiter.check(clientAddress(req));
+    if (!limit.allowed) {
+      sendError(res, new ProviderError('rate_limit', 'Too many roadmap requests; try again later'), {
+        'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)),
+      });
+      return;
+    }
+    if (!engine) engine = new RoadmapEngine(createProvider(config), config.timeoutMs);
+
+    // Stop the provider request when the browser cancels or navigates away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    const send = startStream(res);
+    try {
+      const roadmap = await engine.generateRoadmap(request.occupation, catalog.subjects, {
+        ...request.options,
+        signal: controller.signal,
+        onProgress: partial => send({ type: 'progress', roadmap: partial }),
+        onPromptStats: stats => send({ type: 'stats', stats }),
+      });
+      const entry = await cache.set(cacheKey, roadmap, catalog);
+      send({ type: 'result', roadmap, generatedAt: entry.generatedAt, cached: false });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const providerError = error instanceof ProviderError
+        ? error
+        : new ProviderError('unavailable', error instanceof Error ? error.message : String(error));
+      console.error(`Roadmap generation failed (${providerError.kind}):`, providerError.message);
+      send({ type: 'error', error: { kind: providerError.kind, message: providerError.message } });
+    } finally {
+      res.end();
+    }
+  };
+
+  return async (req: RoadmapHandlerRequest, res: ServerResponse): Promise<void> => {
+    try {
+      if (req.method === 'GET') {
+        const status: RoadmapServiceStatus = {
+          configured: isProviderConfigured(config),
+          provider: config.provider,
+          model: config.model,
+        };
+        sendJSON(res, 200, status);
+      } else if (req.method === 'POST') {
+        await generate(req, res);
+      } else {
+        sendJSON(res, 405, { error: { kind: 'invalid_request', message: 'Use GET or POST' } }, { Allow: 'GET, POST' });
+      }
+    } catch (error) {
+      console.error('Roadmap request failed:', error);
+      if (!res.headersSent) {
+        sendError(res, error instanceof ProviderError
+          ? error
+          : new ProviderError('unavailable', 'The roadmap server failed to handle the request'));
+      } else if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+};
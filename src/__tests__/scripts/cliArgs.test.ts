@@ -0,0 +1,36 @@
+/** @jest-environment node */
+import { parseArgs } from '../../../scripts/cliArgs';
+
+describe('parseArgs', () => {
+  const VALUE_FLAGS = ['--occupation', '--out'];
+
+  it('separates options, switches and positional arguments in any order', () => {
+    const args = parseArgs(['--dry-run', '--occupation', 'power_engineer', 'catalog.json', '--out', 'out.json', 'more.json'], VALUE_FLAGS);
+
+    expect(args.positional).toEqual(['catalog.json', 'more.json']);
+    expect(args.valueOf('--out')).toBe('out.json');
+    expect(args.has('--dry-run')).toBe(true);
+    expect(args.has('--out')).toBe(true);
+    expect(args.has('--all')).toBe(false);
+  });
+
+  it('keeps every value of a repeated option, and only the first as its value', () => {
+    const args = parseArgs(['--occupation', 'a', '--occupation', 'b'], VALUE_FLAGS);
+
+    expect(args.valuesOf('--occupation')).toEqual(['a', 'b']);
+    expect(args.valueOf('--occupation')).toBe('a');
+    expect(args.valuesOf('--out')).toEqual([]);
+    expect(args.valueOf('--out')).toBeUndefined();
+  });
+
+  it('treats an argument equal to an option value as positional when it is not one', () => {
+    expect(parseArgs(['--out', 'x.json', 'x.json'], VALUE_FLAGS).positional).toEqual(['x.json']);
+  });
+
+  it.each([
+    ['at the end', ['catalog.json', '--out']],
+    ['followed by another option', ['--out', '--dry-run']],
+  ])('rejects an option missing its value %s', (_, argv) => {
+    expect(() => parseArgs(argv, VALUE_FLAGS)).toThrow('--out needs a value');
+  });
+});
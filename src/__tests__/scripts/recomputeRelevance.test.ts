@@ -0,0 +1,76 @@
+/** @jest-environment node */
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { subject } from '../../services/__tests__/fixtures';
+
+// Runs the script the way `npm run relevance` does, from the repository root
+const ROOT = path.resolve(__dirname, '../../..');
+const run = (...args: string[]) => {
+  const result = spawnSync(
+    process.execPath,
+    [require.resolve('ts-node/dist/bin'), '--transpile-only', 'scripts/recompute-relevance.ts', ...args],
+    { cwd: ROOT, encoding: 'utf8', timeout: 60000 }
+  );
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+};
+
+// Each run compiles the script first, which takes a few seconds
+jest.setTimeout(60000);
+
+describe('scripts/recompute-relevance.ts arguments', () => {
+  let dir: string;
+  let catalog: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relevance-'));
+    catalog = path.join(dir, 'catalog.json');
+    fs.writeFileSync(catalog, JSON.stringify({
+      version: 3,
+      subjects: [
+        subject('PS', { name: '電力系統工学', career_relevance: { control_engineer: 0.5 } }),
+        subject('UN', { name: '英語' }),
+      ],
+    }));
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('refuses to recompute every score without --overwrite-existing', () => {
+    const result = run(catalog, '--all');
+
+    expect(result.status).toBe(2);
+    expect(result.stderr).toContain('add --overwrite-existing to write them');
+  });
+
+  it('rejects unknown occupations and options missing their value', () => {
+    const unknown = run(catalog, '--occupation', 'astronaut');
+    const missing = run(catalog, '--occupation', 'power_engineer', '--out');
+
+    expect(unknown.status).toBe(2);
+    expect(unknown.stderr).toContain('Unknown occupation astronaut');
+    expect(missing.status).toBe(2);
+    expect(missing.stderr.trim()).toBe('--out needs a value');
+  });
+
+  it('previews the changes with --dry-run wherever the catalog path is given', () => {
+    const result = run('--occupation', 'power_engineer', '--dry-run', catalog);
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('2 scores changed, 0 unchanged, 0 pinned and skipped');
+    expect(result.stdout).toContain('| 電力系統工学 (PS) |');
+    expect(fs.readdirSync(dir)).toEqual(['catalog.json']);
+  });
+
+  it('writes the scores of each --occupation to --out with the version bumped', () => {
+    const out = path.join(dir, 'out.json');
+    const result = run(catalog, '--occupation', 'power_engineer', '--occupation', 'software_engineer', '--out', out);
+    const written = JSON.parse(fs.readFileSync(out, 'utf8'));
+
+    expect(result.status).toBe(0);
+    expect(written.version).toBe(4);
+    expect(Object.keys(written.subjects[0].career_relevance)).toEqual(['control_engineer', 'power_engineer', 'software_engineer']);
+    expect(fs.existsSync(path.join(dir, 'out.relevance.md'))).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+/** @jest-environment node */
+import { mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileCacheStore } from '../../../server/fileCacheStore';
+import { RoadmapCacheEntry } from '../../services/roadmapCache';
+import { roadmapOf } from '../../services/__tests__/fixtures';
+
+const entry = (key: string): RoadmapCacheEntry => ({
+  key,
+  roadmap: roadmapOf([], { title: key }),
+  generatedAt: 1,
+  expiresAt: 2,
+  catalogHash: 'h',
+  admissionYear: 2024,
+});
+
+describe('FileCacheStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'roadmap-cache-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists entries across instances', async () => {
+    const file = path.join(dir, 'nested', 'cache.json');
+    const store = new FileCacheStore(file);
+    await Promise.all([store.set(entry('a')), store.set(entry('b'))]);
+    await store.delete('a');
+    expect(await store.get('b')).toEqual(entry('b'));
+
+    const reopened = new FileCacheStore(file);
+    expect((await reopened.entries()).map(item => item.key)).toEqual(['b']);
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual([entry('b')]);
+  });
+
+  it('starts empty from a missing or unreadable file', async () => {
+    expect(await new FileCacheStore(path.join(dir, 'missing.json')).entries()).toEqual([]);
+    const broken = path.join(dir, 'broken.json');
+    writeFileSync(broken, '{');
+    expect(await new FileCacheStore(broken).entries()).toEqual([]);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a failed write to its caller and keeps writing afterwards', async () => {
+    // A file where the cache directory should be makes the first write fail
+    const blocker = path.join(dir, 'blocked');
+    writeFileSync(blocker, '');
+    const store = new FileCacheStore(path.join(blocker, 'cache.json'));
+
+    await expect(store.set(entry('a'))).rejects.toThrow();
+    unlinkSync(blocker);
+    await store.set(entry('b'));
+    expect(JSON.parse(readFileSync(path.join(blocker, 'cache.json'), 'utf8')).map((item: RoadmapCacheEntry) => item.key))
+      .toEqual(['a', 'b']);
+  });
+});
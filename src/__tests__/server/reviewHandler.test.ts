@@ -0,0 +1,251 @@
+/** @jest-environment node */
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { ServerResponse } from 'http';
+import { ApiRequest } from '../../../server/http';
+import {
+  createReviewHandler,
+  parseCreateRequest,
+  parseReviewAccounts,
+  parseReviewAction,
+  ReviewAccount,
+} from '../../../server/reviewHandler';
+import { MemoryReviewStore } from '../../../server/reviewStore';
+import { ReviewListResponse, RoadmapReview } from '../../services/reviewApi';
+import { roadmapNode, roadmapOf } from '../../services/__tests__/fixtures';
+
+const ACCOUNTS: ReviewAccount[] = [
+  { id: 's1', role: 'student', token: 'student-one-token', name: 'Aoi' },
+  { id: 's2', role: 'student', token: 'student-two-token', name: 'Ren' },
+  { id: 'a1', role: 'advisor', token: 'advisor-token', name: 'Prof. Sato' },
+];
+
+// Subjects of the 2024 catalog
+const roadmap = (ids: [string, number][] = [['610401D', 1], ['610402D', 2]]) => roadmapOf(
+  ids.map(([id, semester]) => roadmapNode(id, { type: 'foundation', semester })),
+  { title: 'Power Engineer roadmap' }
+);
+
+const request = (method: string, token?: string, options: { id?: string; body?: unknown } = {}): ApiRequest =>
+  Object.assign(
+    Readable.from(options.body === undefined ? [] : [JSON.stringify(options.body)]),
+    {
+      method,
+      url: options.id ? `/api/reviews?id=${options.id}` : '/api/reviews',
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+      socket: { remoteAddress: '10.0.0.1' },
+    }
+  ) as unknown as ApiRequest;
+
+class FakeResponse extends EventEmitter {
+  status = 0;
+  headers: Record<string, string> = {};
+  headersSent = false;
+  writableEnded = false;
+  private chunks: string[] = [];
+
+  writeHead(status: number, headers: Record<string, string> = {}) {
+    this.status = status;
+    this.headers = headers;
+    this.headersSent = true;
+    return this;
+  }
+
+  write(chunk: string) {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  end(chunk?: string) {
+    if (chunk) this.chunks.push(chunk);
+    this.writableEnded = true;
+    return this;
+  }
+
+  json<T = { error: { kind: string; message: string } }>(): T {
+    return JSON.parse(this.chunks.join(''));
+  }
+}
+
+describe('parseReviewAccounts', () => {
+  it('reads id:role:token:name entries', () => {
+    expect(parseReviewAccounts('s1:student:s3cret-token:Aoi Tanaka, a1:advisor:other-token:Prof. Sato: Lab')).toEqual([
+      { id: 's1', role: 'student', token: 's3cret-token', name: 'Aoi Tanaka' },
+      { id: 'a1', role: 'advisor', token: 'other-token', name: 'Prof. Sato: Lab' },
+    ]);
+    expect(parseReviewAccounts('s1:student:s3cret-token')[0].name).toBe('s1');
+    expect(parseReviewAccounts('')).toEqual([]);
+  });
+
+  it.each([
+    ['an unknown role', 's1:teacher:s3cret-token:Aoi'],
+    ['a short token', 's1:student:short:Aoi'],
+  ])('rejects %s', (_, value) => {
+    expect(() => parseReviewAccounts(value)).toThrow('Invalid REVIEW_USERS entry "s1"');
+  });
+
+  it('rejects repeated ids and tokens', () => {
+    expect(() => parseReviewAccounts('s1:student:s3cret-token,s2:student:s3cret-token')).toThrow('must be unique');
+    expect(() => parseReviewAccounts('s1:student:s3cret-token,s1:advisor:other-token')).toThrow('must be unique');
+  });
+});
+
+describe('parseCreateRequest and parseReviewAction', () => {
+  it('accepts a submission', () => {
+    expect(parseCreateRequest({ title: ' Plan ', roadmap: roadmap(), submit: true })).toMatchObject({
+      title: 'Plan',
+      completedSubjects: {},
+      submit: true,
+    });
+  });
+
+  it.each([
+    ['no title', { roadmap: roadmap() }, 'title is required'],
+    ['an empty roadmap', { title: 'Plan', roadmap: { nodes: [] } }, 'roadmap must be a roadmap object with 1 to 60 nodes'],
+    ['a non-boolean submit', { title: 'Plan', roadmap: roadmap(), submit: 'yes' }, 'submit must be a boolean'],
+    [
+      'a completion without a date',
+      { title: 'Plan', roadmap: roadmap(), completedSubjects: { A: { completedAt: 'never' } } },
+      'completedSubjects.A.completedAt must be a date',
+    ],
+  ])('rejects %s', (_, body, message) => {
+    expect(() => parseCreateRequest(body)).toThrow(message);
+  });
+
+  it('rejects unknown actions and statuses', () => {
+    expect(() => parseReviewAction({ type: 'delete' })).toThrow('type must be one of revise, annotate, status, comment');
+    expect(() => parseReviewAction({ type: 'status', status: 'done' })).toThrow('status must be one of');
+    expect(parseReviewAction({ type: 'comment', comment: ' Looks good ' })).toEqual({ type: 'comment', comment: 'Looks good' });
+  });
+});
+
+describe('createReviewHandler', () => {
+  let store: MemoryReviewStore;
+  let handler: ReturnType<typeof createReviewHandler>;
+
+  const call = async (req: ApiRequest) => {
+    const res = new FakeResponse();
+    await handler(req, res as unknown as ServerResponse);
+    return res;
+  };
+
+  // Creates and submits a review as s1
+  const submitted = async (): Promise<RoadmapReview> => {
+    const res = await call(request('POST', 'student-one-token', { body: { title: 'My plan', roadmap: roadmap(), submit: true } }));
+    expect(res.status).toBe(201);
+    return res.json<{ review: RoadmapReview }>().review;
+  };
+
+  beforeEach(() => {
+    store = new MemoryReviewStore();
+    handler = createReviewHandler({ store, accounts: ACCOUNTS });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('is unavailable without accounts', async () => {
+    handler = createReviewHandler({ store, accounts: [] });
+    const res = await call(request('GET', 'student-one-token'));
+    expect(res.status).toBe(503);
+    expect(res.json().error.kind).toBe('unavailable');
+  });
+
+  it.each([
+    ['no token', undefined],
+    ['an unknown token of another length', 'x'],
+    ['an unknown token of the same length', 'student-one-tokem'],
+  ])('rejects %s', async (_, token) => {
+    const res = await call(request('GET', token));
+    expect(res.status).toBe(401);
+    expect(res.headers['WWW-Authenticate']).toBe('Bearer');
+  });
+
+  it('answers other methods with 405', async () => {
+    const res = await call(request('DELETE', 'advisor-token'));
+    expect(res.status).toBe(405);
+    expect(res.headers.Allow).toBe('GET, POST');
+  });
+
+  it('creates a review from the catalog subjects of the roadmap', async () => {
+    const unknown = roadmap([['610401D', 1], ['NOPE', 2]]);
+    const res = await call(request('POST', 'student-one-token', { body: { title: 'My plan', roadmap: unknown } }));
+    const { review } = res.json<{ review: RoadmapReview }>();
+
+    expect(res.status).toBe(201);
+    expect(review).toMatchObject({ title: 'My plan', status: 'draft', student: { id: 's1', role: 'student' } });
+    expect(review.revisions[0]).toMatchObject({ number: 1, admissionYear: 2024 });
+    expect(review.revisions[0].roadmap.nodes.map(item => item.id)).toEqual(['610401D']);
+    expect(await store.get(review.id)).toEqual(review);
+  });
+
+  it('lets only students create reviews', async () => {
+    const res = await call(request('POST', 'advisor-token', { body: { title: 'Plan', roadmap: roadmap() } }));
+    expect(res.status).toBe(403);
+  });
+
+  it('shows students only their own reviews', async () => {
+    const { id } = await submitted();
+
+    const other = await call(request('GET', 'student-two-token', { id }));
+    expect(other.status).toBe(404);
+    const ownList = await call(request('GET', 'student-two-token'));
+    expect(ownList.json<ReviewListResponse>().reviews).toEqual([]);
+    const advisorList = await call(request('GET', 'advisor-token'));
+    expect(advisorList.json<ReviewListResponse>()).toMatchObject({
+      user: { id: 'a1', role: 'advisor' },
+      reviews: [{ id, status: 'submitted', revisions: 1 }],
+    });
+  });
+
+  it('runs a review through annotation, requested changes and a revision', async () => {
+    const { id } = await submitted();
+
+    const annotated = await call(request('POST', 'advisor-token', {
+      id,
+      body: { type: 'annotate', nodeId: '610402D', comment: 'Take this later', substituteId: '610403D' },
+    }));
+    expect(annotated.status).toBe(200);
+    const changes = await call(request('POST', 'advisor-token', { id, body: { type: 'status', status: 'changes_requested' } }));
+    expect(changes.json<{ review: RoadmapReview }>().review.status).toBe('changes_requested');
+    const revised = await call(request('POST', 'student-one-token', {
+      id,
+      body: { type: 'revise', roadmap: roadmap([['610401D', 1], ['610403D', 3]]), submit: true, note: 'Swapped' },
+    }));
+
+    const { review } = revised.json<{ review: RoadmapReview }>();
+    expect(review.status).toBe('submitted');
+    expect(review.revisions.map(revision => revision.number)).toEqual([1, 2]);
+    expect(review.annotations).toEqual([expect.objectContaining({ revision: 1, nodeId: '610402D', substituteId: '610403D' })]);
+    expect(review.history.map(event => [event.type, event.revision])).toEqual([
+      ['created', 1],
+      ['annotated', 1],
+      ['status', 1],
+      ['revised', 2],
+      ['status', 2],
+    ]);
+  });
+
+  it.each([
+    ['a student approving', 'student-one-token', { type: 'status', status: 'approved' }, 403, 'forbidden'],
+    ['a student annotating', 'student-one-token', { type: 'annotate', nodeId: '610401D', comment: 'x' }, 403, 'forbidden'],
+    ['a revision while submitted', 'student-one-token', { type: 'revise', roadmap: roadmap() }, 409, 'conflict'],
+    ['an annotation of a subject not in the roadmap', 'advisor-token', { type: 'annotate', nodeId: '610403D', comment: 'x' }, 400, 'invalid_request'],
+    ['an unknown substitute', 'advisor-token', { type: 'annotate', nodeId: '610401D', comment: 'x', substituteId: 'NOPE' }, 400, 'invalid_request'],
+  ])('rejects %s and leaves the review as it was', async (_, token, body, status, kind) => {
+    const review = await submitted();
+
+    const res = await call(request('POST', token, { id: review.id, body }));
+    expect(res.status).toBe(status);
+    expect(res.json().error.kind).toBe(kind);
+    expect(await store.get(review.id)).toEqual(review);
+  });
+
+  it('reports a failing store as unavailable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(store, 'list').mockRejectedValue(new Error('disk full'));
+
+    const res = await call(request('GET', 'advisor-token'));
+    expect(res.status).toBe(503);
+    expect(res.json().error).toEqual({ kind: 'unavailable', message: 'The review server failed to handle the request' });
+  });
+});
@@ -0,0 +1,92 @@
+/** @jest-environment node */
+import { mkdirSync, mkdtempSync, readFileSync, rmdirSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createReviewStore, FileReviewStore, MemoryReviewStore } from '../../../server/reviewStore';
+import { RoadmapReview } from '../../services/reviewApi';
+
+const review = (id: string, studentId = 's1', updatedAt = '2024-04-01T00:00:00.000Z'): RoadmapReview => ({
+  id,
+  title: id,
+  student: { id: studentId, name: studentId, role: 'student' },
+  status: 'draft',
+  createdAt: '2024-04-01T00:00:00.000Z',
+  updatedAt,
+  revisions: [],
+  annotations: [],
+  history: [],
+});
+
+describe('MemoryReviewStore', () => {
+  it('lists reviews newest first, filtered by student', async () => {
+    const store = new MemoryReviewStore();
+    await store.save(review('a', 's1', '2024-04-01T00:00:00.000Z'));
+    await store.save(review('b', 's2', '2024-04-03T00:00:00.000Z'));
+    await store.save(review('c', 's1', '2024-04-02T00:00:00.000Z'));
+    await store.save({ ...review('a', 's1', '2024-04-04T00:00:00.000Z'), title: 'changed' });
+
+    expect((await store.list()).map(item => item.id)).toEqual(['a', 'b', 'c']);
+    expect((await store.list({ studentId: 's1' })).map(item => item.id)).toEqual(['a', 'c']);
+    expect((await store.get('a'))?.title).toBe('changed');
+    expect(await store.get('missing')).toBeUndefined();
+  });
+});
+
+describe('FileReviewStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'reviews-'));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('persists reviews across instances', async () => {
+    const file = path.join(dir, 'nested', 'reviews.json');
+    const store = new FileReviewStore(file);
+    await Promise.all([store.save(review('a')), store.save(review('b'))]);
+
+    const reopened = new FileReviewStore(file);
+    expect(await reopened.get('b')).toEqual(review('b'));
+    expect(JSON.parse(readFileSync(file, 'utf8')).map((item: RoadmapReview) => item.id)).toEqual(['a', 'b']);
+  });
+
+  it('rejects an unreadable file instead of starting empty', async () => {
+    const file = path.join(dir, 'reviews.json');
+    writeFileSync(file, '{');
+    const store = new FileReviewStore(file);
+
+    await expect(store.list()).rejects.toThrow(`Could not read reviews from ${file}`);
+    // The file is read again on the next call
+    writeFileSync(file, JSON.stringify([review('a')]));
+    expect((await store.list()).map(item => item.id)).toEqual(['a']);
+  });
+
+  it('reports a failed write to its caller, drops its change and keeps writing afterwards', async () => {
+    const file = path.join(dir, 'reviews.json');
+    const store = new FileReviewStore(file);
+    await store.save(review('a'));
+    // A directory in place of the file makes the next write fail
+    unlinkSync(file);
+    mkdirSync(file);
+
+    const failed = store.save({ ...review('a'), title: 'changed' });
+    const queued = store.save(review('b'));
+    await expect(failed).rejects.toThrow();
+    await expect(queued).rejects.toThrow();
+    expect(await store.get('a')).toEqual(review('a'));
+    expect(await store.get('b')).toBeUndefined();
+
+    rmdirSync(file);
+    await store.save(review('c'));
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual([review('a'), review('c')]);
+  });
+});
+
+describe('createReviewStore', () => {
+  it('uses a file only when a path is given', () => {
+    expect(createReviewStore(path.join(tmpdir(), 'reviews.json'))).toBeInstanceOf(FileReviewStore);
+    expect(createReviewStore('')).toBeInstanceOf(MemoryReviewStore);
+    expect(createReviewStore('')).not.toBeInstanceOf(FileReviewStore);
+  });
+});
@@ -0,0 +1,155 @@
+/** @jest-environment node */
+import { RoadmapEngine } from '../../../server/roadmapEngine';
+import { FixtureProvider, FixtureResponse, ProviderError } from '../../services/providers';
+import { RoadmapIssue } from '../../services/roadmapValidator';
+import { subject } from '../../services/__tests__/fixtures';
+
+const career_relevance = { electrical_engineer: 0.9 };
+const SUBJECTS = [
+  subject('A1', { career_relevance }),
+  subject('B2', { semester: 3, prerequisites: ['Subject A1'], career_relevance }),
+];
+
+const roadmapText = (nodes: object[]): string => JSON.stringify({
+  title: 'Electrical Engineer Course Plan',
+  description: 'Circuits first',
+  occupation: 'Electrical Engineer',
+  reasoning: 'Builds on circuits',
+  total_credits: 4,
+  nodes,
+});
+
+const GOOD = roadmapText([
+  { id: 'A1', name: 'Subject A1', type: 'foundation', connects: ['B2'], credits: 2, year: 1, semester: 1, relevance_score: 0.9 },
+  { id: 'B2', name: 'Subject B2', type: 'core', connects: [], credits: 2, year: 2, semester: 3, relevance_score: 0.8 },
+]);
+const UNKNOWN_SUBJECT = roadmapText([
+  { id: 'ZZ9', name: 'Made up', type: 'core', connects: [], credits: 2, year: 1, semester: 1, relevance_score: 0.5 },
+]);
+// Only sent with a corrective prompt
+const CORRECTION = 'Your previous response had the following problems';
+
+const engineWith = (responses: FixtureResponse[]) => {
+  const provider = new FixtureProvider(responses);
+  return { provider, engine: new RoadmapEngine(provider, 1000) };
+};
+
+const failure = (promise: Promise<unknown>): Promise<ProviderError> =>
+  promise.then(
+    () => Promise.reject(new Error('Expected the request to fail')),
+    (error: ProviderError) => error
+  );
+
+describe('RoadmapEngine', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('retries and repairs', () => {
+    it('returns a valid first answer without retrying', async () => {
+      const { provider, engine } = engineWith([{ text: GOOD }]);
+      const onProgress = jest.fn();
+      const onPromptStats = jest.fn();
+      const roadmap = await engine.generateRoadmap('Electrical Engineer', SUBJECTS, { onProgress, onPromptStats });
+      expect(roadmap.nodes.map(node => [node.id, node.connects])).toEqual([['A1', ['B2']], ['B2', []]]);
+      expect(provider.callCount).toBe(1);
+      expect(onProgress).toHaveBeenCalled();
+      expect(onPromptStats.mock.calls[0][0].usage.responseTokens).toBeGreaterThan(0);
+    });
+
+    it('asks again with the problems of an unusable answer until one validates', async () => {
+      const { provider, engine } = engineWith([
+        { text: 'Sorry, I cannot help with that' },
+        { match: CORRECTION, text: UNKNOWN_SUBJECT },
+        { match: CORRECTION, text: GOOD },
+      ]);
+      const roadmap = await engine.generateRoadmap('Electrical Engineer', SUBJECTS);
+      expect(roadmap.nodes.map(node => node.id)).toEqual(['A1', 'B2']);
+      expect(provider.callCount).toBe(3);
+    });
+
+    it('corrects catalog fields without asking again', async () => {
+      const text = roadmapText([
+        { id: 'Subject A1', name: 'A1', type: 'basic', connects: ['B2'], credits: 5, year: 1, semester: 1, relevance_score: 2 },
+        { id: 'B2', name: 'Subject B2', type: 'core', connects: ['ZZ9'], credits: 2, year: 2, semester: 3, relevance_score: 0.8 },
+      ]);
+      const { provider, engine } = engineWith([{ text }]);
+      const roadmap = await engine.generateRoadmap('Electrical Engineer', SUBJECTS);
+      expect(provider.callCount).toBe(1);
+      expect(roadmap.nodes[0]).toMatchObject({ id: 'A1', type: 'elective', credits: 2, relevance_score: 1, connects: ['B2'] });
+      expect(roadmap.nodes[0].corrections).toEqual(['id: Subject A1 → A1', 'type: basic → elective', 'name: A1 → Subject A1', 'credits: 5 → 2']);
+      expect(roadmap.nodes[1].connects).toEqual([]);
+    });
+
+    it('keeps the best effort after the last corrective attempt', async () => {
+      const text = roadmapText([
+        { id: 'A1', name: 'Subject A1', type: 'core', connects: [], credits: 2, year: 1, semester: 1, relevance_score: 0.5 },
+        { id: 'ZZ9', name: 'Made up', type: 'core', connects: [], credits: 2, year: 1, semester: 1, relevance_score: 0.5 },
+      ]);
+      const { provider, engine } = engineWith([{ text }]);
+      const roadmap = await engine.generateRoadmap('Electrical Engineer', SUBJECTS, { maxRetries: 1 });
+      expect(roadmap.nodes.map(node => node.id)).toEqual(['A1']);
+      expect(provider.callCount).toBe(2);
+    });
+
+    it('retries a failed request according to its retry policy', async () => {
+      const { signal } = new AbortController();
+      const added = jest.spyOn(signal, 'addEventListener');
+      const removed = jest.spyOn(signal, 'removeEventListener');
+      const { provider, engine } = engineWith([{ error: 'timeout' }, { error: 'unavailable' }, { text: GOOD }]);
+      const roadmap = await engine.generateRoadmap('Electrical Engineer', SUBJECTS, { signal });
+      expect(roadmap.nodes).toHaveLength(2);
+      expect(provider.callCount).toBe(3);
+      // Every attempt and every wait between them lets go of the signal afterwards
+      expect(added.mock.calls.map(([, listener]) => listener)).toEqual(removed.mock.calls.map(([, listener]) => listener));
+    });
+
+    it('does not retry errors that cannot succeed on a second try', async () => {
+      const { provider, engine } = engineWith([{ error: 'auth' }, { text: GOOD }]);
+      const error = await failure(engine.generateRoadmap('Electrical Engineer', SUBJECTS));
+      expect(error.kind).toBe('auth');
+      expect(provider.callCount).toBe(1);
+    });
+
+    it('stops when the request is cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const { provider, engine } = engineWith([{ text: GOOD }]);
+      const error = await failure(engine.generateRoadmap('Electrical Engineer', SUBJECTS, { signal: controller.signal }));
+      expect(error.name).toBe('AbortError');
+      expect(provider.callCount).toBe(0);
+    });
+  });
+
+  describe('when every answer is unusable', () => {
+    it('carries the last parse error as the cause', async () => {
+      const { provider, engine } = engineWith([{ text: 'not json' }]);
+      const error = await failure(engine.generateRoadmap('Electrical Engineer', SUBJECTS, { maxRetries: 1 }));
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.kind).toBe('malformed_output');
+      expect(error.cause).toBeInstanceOf(Error);
+      expect((error.cause as Error).message).toBe('No valid JSON found in response');
+      expect(provider.callCount).toBe(2);
+    });
+
+    it('carries the last validation issues as the cause', async () => {
+      const empty = JSON.stringify({ title: 't', description: 'd', occupation: 'o', reasoning: 'r', nodes: [] });
+      const { engine } = engineWith([{ text: empty }]);
+      const error = await failure(engine.generateRoadmap('Electrical Engineer', SUBJECTS, { maxRetries: 0 }));
+      expect(error.kind).toBe('malformed_output');
+      expect((error.cause as RoadmapIssue[]).map(issue => issue.message)).toContain('Roadmap contains no valid subjects');
+    });
+
+    it('carries the cause of a failed refinement', async () => {
+      const { engine } = engineWith([{ text: 'not json' }]);
+      const roadmap = { title: 't', description: 'd', occupation: 'o', nodes: [], total_credits: 0, reasoning: 'r' };
+      const error = await failure(engine.refineRoadmap(roadmap, 'Add B2', [], SUBJECTS, { maxRetries: 0 }));
+      expect(error.kind).toBe('malformed_output');
+      expect(error.cause).toBeInstanceOf(Error);
+    });
+  });
+});
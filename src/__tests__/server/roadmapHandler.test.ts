@@ -0,0 +1,186 @@
+/** @jest-environment node */
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { ServerResponse } from 'http';
+import { ApiRequest, clientAddress, trustsProxy } from '../../../server/http';
+import { createRoadmapHandler, parseRoadmapRequest } from '../../../server/roadmapHandler';
+import { loadProviderConfig } from '../../services/providers';
+import { RoadmapStreamEvent } from '../../services/roadmapApi';
+
+const request = (
+  method: string,
+  body?: unknown,
+  headers: Record<string, string> = {},
+  remoteAddress = '10.0.0.1'
+): ApiRequest => Object.assign(
+  Readable.from(body === undefined ? [] : [typeof body === 'string' ? body : JSON.stringify(body)]),
+  { method, headers, socket: { remoteAddress } }
+) as unknown as ApiRequest;
+
+// Records what the handler writes; `closeOnStream` drops the connection once streaming starts
+class FakeResponse extends EventEmitter {
+  status = 0;
+  headers: Record<string, string> = {};
+  headersSent = false;
+  writableEnded = false;
+  private chunks: string[] = [];
+
+  constructor(private closeOnStream = false) {
+    super();
+  }
+
+  writeHead(status: number, headers: Record<string, string> = {}) {
+    this.status = status;
+    this.headers = headers;
+    this.headersSent = true;
+    if (this.closeOnStream && status === 200) this.emit('close');
+    return this;
+  }
+
+  write(chunk: string) {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  end(chunk?: string) {
+    if (chunk) this.chunks.push(chunk);
+    this.writableEnded = true;
+    return this;
+  }
+
+  json(): { error: { kind: string; message: string } } {
+    return JSON.parse(this.chunks.join(''));
+  }
+
+  events(): RoadmapStreamEvent[] {
+    return this.chunks.join('').split('\n').filter(Boolean).map(line => JSON.parse(line));
+  }
+}
+
+const providerConfig = loadProviderConfig({ LLM_PROVIDER: 'fixture' });
+
+const call = async (handler: ReturnType<typeof createRoadmapHandler>, req: ApiRequest, res = new FakeResponse()) => {
+  await handler(req, res as unknown as ServerResponse);
+  return res;
+};
+
+describe('clientAddress', () => {
+  const forwarded = request('GET', undefined, { 'x-forwarded-for': '1.1.1.1, 2.2.2.2' }, '10.0.0.1');
+
+  it('ignores X-Forwarded-For unless a proxy is trusted', () => {
+    expect(clientAddress(forwarded, false)).toBe('10.0.0.1');
+    expect(clientAddress(forwarded, true)).toBe('2.2.2.2');
+    expect(clientAddress(request('GET'), true)).toBe('10.0.0.1');
+  });
+
+  it('trusts the proxy on Vercel or when TRUST_PROXY is set', () => {
+    expect(trustsProxy({})).toBe(false);
+    expect(trustsProxy({ TRUST_PROXY: '1' })).toBe(false);
+    expect(trustsProxy({ TRUST_PROXY: 'true' })).toBe(true);
+    expect(trustsProxy({ VERCEL: '1' })).toBe(true);
+  });
+});
+
+describe('parseRoadmapRequest', () => {
+  it('accepts known fields within their limits', () => {
+    expect(parseRoadmapRequest({
+      occupation: '  Power Engineer ',
+      options: { language: 'ja', maxRetries: 1, occupationIds: { power_engineer: 1 }, prompt: { topK: 20 } },
+    })).toEqual({
+      occupation: 'Power Engineer',
+      options: { language: 'ja', maxRetries: 1, occupationIds: { power_engineer: 1 }, prompt: { topK: 20 } },
+      refresh: false,
+    });
+  });
+
+  it.each([
+    [null, 'Expected a JSON object'],
+    [{ occupation: ' ' }, 'occupation is required'],
+    [{ occupation: 'x'.repeat(101) }, 'at most 100 characters'],
+    [{ occupation: 'EE', refresh: 'yes' }, 'refresh must be a boolean'],
+    [{ occupation: 'EE', options: { language: 'fr' } }, 'language must be one of'],
+    [{ occupation: 'EE', options: { maxRetries: 9 } }, 'options.maxRetries must be an integer'],
+    [{ occupation: 'EE', options: { occupationIds: { astronaut: 1 } } }, 'Unknown occupation id'],
+    [{ occupation: 'EE', options: { prompt: { tokenBudget: 100000 } } }, 'options.prompt.tokenBudget'],
+    [{ occupation: '電'.repeat(100), options: { prompt: { tokenBudget: 500 } } }, 'smaller than the prompt template'],
+  ])('rejects %j', (body, message) => {
+    expect(() => parseRoadmapRequest(body)).toThrow(message);
+  });
+});
+
+describe('createRoadmapHandler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reports the provider on GET and refuses other methods', async () => {
+    const handler = createRoadmapHandler({ providerConfig });
+    const status = await call(handler, request('GET'));
+    expect(status.status).toBe(200);
+    expect(status.json()).toEqual({ configured: true, provider: 'fixture', model: 'fixture' });
+
+    const put = await call(handler, request('PUT'));
+    expect(put.status).toBe(405);
+    expect(put.headers.Allow).toBe('GET, POST');
+  });
+
+  it('answers invalid requests with a 400', async () => {
+    const handler = createRoadmapHandler({ providerConfig });
+    const notJson = await call(handler, request('POST', '{'));
+    expect(notJson.status).toBe(400);
+    expect(notJson.json().error).toEqual({ kind: 'invalid_request', message: 'Request body is not valid JSON' });
+
+    const invalidField = await call(handler, request('POST', { occupation: '' }));
+    expect(invalidField.status).toBe(400);
+    expect(invalidField.json().error.message).toBe('occupation is required');
+
+    const unknownYear = await call(handler, request('POST', { occupation: 'EE', options: { admissionYear: 2001 } }));
+    expect(unknownYear.status).toBe(400);
+    expect(unknownYear.json().error.message).toBe('No catalog for admission year 2001');
+
+    const smallBudget = await call(handler, request('POST', { occupation: '電'.repeat(100), options: { prompt: { tokenBudget: 500 } } }));
+    expect(smallBudget.status).toBe(400);
+    expect(smallBudget.json().error.kind).toBe('invalid_request');
+  });
+
+  it('refuses generation when no provider is configured', async () => {
+    const handler = createRoadmapHandler({ providerConfig: loadProviderConfig({}) });
+    const res = await call(handler, request('POST', { occupation: 'EE' }));
+    expect(res.status).toBe(503);
+    expect(res.json().error.kind).toBe('auth');
+  });
+
+  it('streams a roadmap, then serves it from the cache without counting it', async () => {
+    const handler = createRoadmapHandler({ providerConfig, rateLimit: { limit: 1, windowMs: 60000 } });
+    const first = await call(handler, request('POST', { occupation: 'Electrical Engineer' }));
+    expect(first.status).toBe(200);
+    const events = first.events();
+    expect(events.some(event => event.type === 'progress')).toBe(true);
+    const result = events.find(event => event.type === 'result');
+    expect(result).toMatchObject({ type: 'result', cached: false });
+
+    const second = await call(handler, request('POST', { occupation: 'Electrical Engineer' }));
+    expect(second.events()).toEqual([{ ...result, cached: true }]);
+  }, 20000);
+
+  it('refuses generation over the rate limit with a Retry-After', async () => {
+    const handler = createRoadmapHandler({ providerConfig, rateLimit: { limit: 0, windowMs: 30000 } });
+    const res = await call(handler, request('POST', { occupation: 'EE', refresh: true }));
+    expect(res.status).toBe(429);
+    expect(res.headers['Retry-After']).toBe('30');
+    expect(res.json().error.kind).toBe('rate_limit');
+  });
+
+  it('stops generating when the client disconnects', async () => {
+    const handler = createRoadmapHandler({ providerConfig });
+    const res = await call(handler, request('POST', { occupation: 'Power Engineer' }), new FakeResponse(true));
+    expect(res.status).toBe(200);
+    // Only the prompt statistics, which are sent however generation ends
+    expect(res.events().map(event => event.type)).toEqual(['stats']);
+    expect(res.writableEnded).toBe(true);
+  });
+});
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { Search, CheckCircle } from 'lucide-react';
+import { Subject } from '../services/geminiService';
+import { dataService } from '../services/dataService';
+import { SubjectSearchIndex, SearchFilters, FacetValue } from '../services/subjectSearch';
+import { occupationTaxonomy } from '../services/occupationTaxonomy';
+import { useI18n, MessageKey } from '../i18n';
+
+interface CatalogBrowserProps {
+  subjects: Subject[];
+  completedIds: Set<string>;
+  onSelectSubject: (subject: Subject) => void;
+}
+
+type NumberFacet = 'years' | 'semesters' | 'credits';
+
+const NUMBER_FACETS: { key: NumberFacet; label: MessageKey }[] = [
+  { key: 'years', label: 'catalog.year' },
+  { key: 'semesters', label: 'catalog.semester' },
+  { key: 'credits', label: 'catalog.credits' },
+];
+
+const toggle = <T,>(values: T[] | undefined, value: T): T[] =>
+  values?.includes(value) ? values.filter(v => v !== value) : [...(values || []), value];
+
+function CatalogBrowser({ subjects, completedIds, onSelectSubject }: CatalogBrowserProps) {
+  const { t, locale } = useI18n();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [occupation, setOccupation] = useState('');
+  const [minScore, setMinScore] = useState(0.5);
+
+  const index = useMemo(() => new SubjectSearchIndex(subjects), [subjects]);
+  const occupations = useMemo(() => index.occupations(), [index]);
+
+  const activeFilters: SearchFilters = occupation
+    ? { ...filters, minRelevance: { occupation, score: minScore } }
+    : filters;
+  const results = index.search(query, activeFilters);
+  // Facet counts reflect the query but not the facets themselves, so options never vanish
+  const facets = useMemo(() => {
+    const matching = index.search(query, occupation ? { minRelevance: { occupation, score: minScore } } : {});
+    return index.facets(matching.map(result => result.subject));
+  }, [index, query, occupation, minScore]);
+
+  const hasFilters = query.trim() !== '' || occupation !== '' ||
+    Object.values(filters).some(values => Array.isArray(values) && values.length > 0);
+
+  const clear = () => {
+    setQuery('');
+    setFilters({});
+    setOccupation('');
+  };
+
+  const renderOptions = <T extends string | number>(
+    values: FacetValue<T>[],
+    selected: T[] | undefined,
+    onToggle: (value: T) => void
+  ) => (
+    <div className="flex flex-wrap gap-1">
+      {values.map(({ value, count }) => (
+        <button
+          key={value}
+          onClick={() => onToggle(value)}
+          title={String(value)}
+          className={`px-2 py-0.5 rounded border text-xs max-w-full truncate ${
+            selected?.includes(value)
+              ? 'bg-blue-600 border-blue-600 text-white'
+              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {value} <span className="opacity-70">({count})</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-4">
+      {/* Facets */}
+      <div className="bg-white rounded-lg shadow-md p-4 space-y-4 text-sm lg:col-span-1">
+        {NUMBER_FACETS.map(({ key, label }) => (
+          <div key={key}>
+            <div className="font-semibold text-gray-800 mb-1">{t(label)}</div>
+            {renderOptions(facets[key], filters[key], value =>
+              setFilters({ ...filters, [key]: toggle(filters[key], value) })
+            )}
+          </div>
+        ))}
+        <div>
+          <div className="font-semibold text-gray-800 mb-1">{t('catalog.department')}</div>
+          {renderOptions(facets.departments, filters.departments, value =>
+            setFilters({ ...filters, departments: toggle(filters.departments, value) })
+          )}
+        </div>
+        <div>
+          <div className="font-semibold text-gray-800 mb-1">{t('catalog.minRelevance')}</div>
+          <select
+            value={occupation}
+            onChange={(e) => setOccupation(e.target.value)}
+            className="w-full border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">{t('catalog.anyOccupation')}</option>
+            {occupations.map(key => (
+              <option key={key} value={key}>{occupationTaxonomy.displayName(key, locale)}</option>
+            ))}
+          </select>
+          {occupation && (
+            <label className="mt-2 flex items-center gap-2 text-gray-700">
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={minScore}
+                onChange={(e) => setMinScore(Number(e.target.value))}
+                className="flex-1"
+              />
+              <span className="w-10 text-right">≥ {minScore.toFixed(2)}</span>
+            </label>
+          )}
+        </div>
+        {hasFilters && (
+          <button onClick={clear} className="text-blue-600 hover:text-blue-800 underline">
+            {t('catalog.clear')}
+          </button>
+        )}
+      </div>
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-md p-4 lg:col-span-3 min-w-0">
+        <div className="relative mb-3">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('catalog.placeholder')}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="text-xs text-gray-500 mb-2">
+          {t('catalog.results', { count: results.length, total: index.size })}
+        </div>
+        {results.length === 0 ? (
+          <p className="text-sm text-gray-600 py-6 text-center">{t('catalog.noResults')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {results.map(({ subject, matchedFields }) => {
+              const display = dataService.localizeSubject(subject, locale);
+              return (
+                <li key={subject.id}>
+                  <button
+                    onClick={() => onSelectSubject(subject)}
+                    className="w-full text-left py-2 px-2 rounded hover:bg-blue-50 flex items-start gap-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        {completedIds.has(subject.id) && <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />}
+                        <span className="font-medium text-gray-800 truncate">{display.name || subject.id}</span>
+                        <span className="text-xs text-gray-400">{subject.code}</span>
+                      </div>
+                      <p className="text-xs text-gray-600 truncate">{display.description}</p>
+                      {matchedFields.length > 0 && (
+                        <p className="text-xs text-gray-400">
+                          {t('catalog.matchedIn', {
+                            fields: matchedFields.map(field => t(`catalog.field.${field}`)).join(', '),
+                          })}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 text-right whitespace-nowrap">
+                      <div>{t('flowchart.nodeCredits', { credits: subject.credits, year: subject.year, semester: subject.semester })}</div>
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CatalogBrowser;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ArrowRightLeft, X } from 'lucide-react';
+import { CatalogMigrationReport } from '../services/catalogVersions';
+import { useI18n } from '../i18n';
+
+interface CatalogMigrationNoticeProps {
+  report: CatalogMigrationReport;
+  // 'switch': the student changed their admission year; 'import': a file or link from another year
+  reason: 'switch' | 'import';
+  // Saved roadmaps converted along with the current one
+  savedCount?: number;
+  // Subject names in the active locale, keyed by id; subjects that left the catalog use the report's names
+  subjectNames: Record<string, string>;
+  onDismiss: () => void;
+}
+
+// What changed when a roadmap was carried over to another admission year's catalog
+function CatalogMigrationNotice({ report, reason, savedCount = 0, subjectNames, onDismiss }: CatalogMigrationNoticeProps) {
+  const { t } = useI18n();
+  const nameOf = (id: string, fallback = id) => subjectNames[id] || fallback || id;
+  const isUnchanged = report.replaced.length === 0 && report.removed.length === 0 && report.rescheduled.length === 0;
+
+  return (
+    <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium">
+          <ArrowRightLeft className="h-5 w-5 shrink-0" />
+          {reason === 'switch'
+            ? t('migration.switchedTitle', { year: report.to })
+            : t('migration.importedTitle', { from: report.from, to: report.to })}
+        </div>
+        <button onClick={onDismiss} className="text-blue-700 hover:text-blue-900" title={t('migration.dismiss')}>
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <ul className="mt-2 ml-7 space-y-1 list-disc">
+        {report.replaced.map(entry => (
+          <li key={`replaced-${entry.id}`}>
+            {t('migration.replaced', {
+              subject: nameOf(entry.id, entry.name),
+              replacements: entry.replacements.map(id => nameOf(id)).join(', '),
+            })}
+            {entry.note && <span className="ml-1 text-blue-700">({entry.note})</span>}
+          </li>
+        ))}
+        {report.removed.map(entry => (
+          <li key={`removed-${entry.id}`}>
+            {t('migration.removed', { subject: nameOf(entry.id, entry.name) })}
+            {entry.note && <span className="ml-1 text-blue-700">({entry.note})</span>}
+          </li>
+        ))}
+        {report.rescheduled.map(entry => (
+          <li key={`rescheduled-${entry.id}`}>
+            {t('migration.rescheduled', {
+              subject: nameOf(entry.id, entry.name),
+              fromYear: entry.from.year,
+              fromSemester: entry.from.semester,
+              toYear: entry.to.year,
+              toSemester: entry.to.semester,
+            })}
+          </li>
+        ))}
+        {isUnchanged && <li>{t('migration.unchanged')}</li>}
+        {savedCount > 0 && <li>{t('migration.savedRoadmaps', { count: savedCount })}</li>}
+      </ul>
+    </div>
+  );
+}
+
+export default CatalogMigrationNotice;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { CheckCircle, AlertCircle, Circle } from 'lucide-react';
+import { Subject } from '../services/geminiService';
+import { DegreeAudit, RequirementAudit, RequirementStatus } from '../services/graduationRequirements';
+import { useI18n } from '../i18n';
+
+interface DegreeAuditPanelProps {
+  audit: DegreeAudit;
+  subjects: Subject[];
+  onSelectSubject: (subject: Subject) => void;
+}
+
+const MAX_SUGGESTIONS = 4;
+
+const statusStyles: Record<RequirementStatus, string> = {
+  satisfied: 'bg-green-100 text-green-800',
+  at_risk: 'bg-amber-100 text-amber-800',
+  short: 'bg-red-100 text-red-800',
+};
+
+function StatusBadge({ status }: { status: RequirementStatus }) {
+  const { t } = useI18n();
+  return (
+    <span className={`text-xs px-2 py-0.5 rounded ${statusStyles[status]}`}>
+      {t(`audit.status.${status}`)}
+    </span>
+  );
+}
+
+function StatusIcon({ status }: { status: RequirementStatus }) {
+  switch (status) {
+    case 'satisfied': return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case 'at_risk': return <Circle className="h-4 w-4 text-amber-500" />;
+    default: return <AlertCircle className="h-4 w-4 text-red-600" />;
+  }
+}
+
+function RequirementRow({ result, subjects, onSelectSubject }: { result: RequirementAudit } & Omit<DegreeAuditPanelProps, 'audit'>) {
+  const { t } = useI18n();
+  const { requirement, status, required, earned, planned, missingSubjectIds } = result;
+  const progressKey = requirement.kind === 'total_credits' || requirement.kind === 'category'
+    ? 'audit.progressCredits'
+    : 'audit.progressSubjects';
+  const earnedWidth = Math.min(100, (earned / required) * 100);
+  const plannedWidth = Math.min(100 - earnedWidth, (planned / required) * 100);
+  const suggestions = missingSubjectIds
+    .map(id => subjects.find(subject => subject.id === id))
+    .filter((subject): subject is Subject => subject !== undefined)
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <li className="py-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-800">
+          <StatusIcon status={status} />
+          {requirement.label}
+        </div>
+        <StatusBadge status={status} />
+      </div>
+      <div className="mt-1 h-2 bg-gray-100 rounded flex overflow-hidden">
+        <div className="bg-green-500" style={{ width: `${earnedWidth}%` }} />
+        <div className="bg-amber-300" style={{ width: `${plannedWidth}%` }} />
+      </div>
+      <div className="mt-1 text-xs text-gray-500">
+        {t(progressKey, { earned, planned, required })}
+      </div>
+      {suggestions.length > 0 && (
+        <div className="mt-1 text-xs text-gray-600">
+          {t('audit.consider')}{' '}
+          {suggestions.map((subject, idx) => (
+            <React.Fragment key={subject.id}>
+              {idx > 0 && ', '}
+              <button
+                onClick={() => onSelectSubject(subject)}
+                className="text-blue-600 hover:text-blue-800 underline"
+              >
+                {subject.name}
+              </button>
+            </React.Fragment>
+          ))}
+          {missingSubjectIds.length > suggestions.length &&
+            ` ${t('audit.more', { count: missingSubjectIds.length - suggestions.length })}`}
+        </div>
+      )}
+    </li>
+  );
+}
+
+function DegreeAuditPanel({ audit, subjects, onSelectSubject }: DegreeAuditPanelProps) {
+  const { t } = useI18n();
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold text-gray-800">{t('audit.title')}</h3>
+        <StatusBadge status={audit.status} />
+      </div>
+      <p className="text-sm text-gray-600">
+        {t('audit.summary', { course: audit.course, earned: audit.earnedCredits, planned: audit.plannedCredits })}
+      </p>
+      <ul className="mt-2 divide-y divide-gray-100">
+        {audit.results.map(result => (
+          <RequirementRow
+            key={result.requirement.id}
+            result={result}
+            subjects={subjects}
+            onSelectSubject={onSelectSubject}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default DegreeAuditPanel;
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { Printer, Image as ImageIcon, FileJson, Link as LinkIcon, Upload } from 'lucide-react';
+import { GeneratedRoadmap, Subject } from '../services/geminiService';
+import { roadmapExporter, ImportCatalog, RoadmapImportResult } from '../services/roadmapExporter';
+import { useI18n } from '../i18n';
+
+interface ExportPanelProps {
+  roadmap: GeneratedRoadmap | null;
+  subjects: Subject[];
+  subjectNames: Record<string, string>;
+  completedIds: Set<string>;
+  // Catalog the roadmap belongs to; imports from another admission year are migrated to it
+  importCatalog: ImportCatalog | null;
+  onImport: (result: RoadmapImportResult) => void;
+}
+
+const fileName = (roadmap: GeneratedRoadmap, extension: string) =>
+  `${roadmap.title.trim().replace(/[\\/:*?"<>|\s]+/g, '-') || 'roadmap'}.${extension}`;
+
+const download = (content: string, name: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+function ExportPanel({ roadmap, subjects, subjectNames, completedIds, importCatalog, onImport }: ExportPanelProps) {
+  const { t, locale } = useI18n();
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const options = { names: subjectNames, completedIds };
+  const admissionYear = importCatalog?.admissionYear;
+
+  const handlePrint = () => {
+    if (!roadmap) return;
+    const report = window.open('', '_blank');
+    if (!report) return;
+    report.document.write(roadmapExporter.toPrintableHTML(roadmap, { ...options, locale }));
+    report.document.close();
+    report.focus();
+    report.print();
+  };
+
+  const handleShareLink = async () => {
+    if (!roadmap) return;
+    const link = roadmapExporter.createShareLink(roadmap, window.location.href, admissionYear);
+    try {
+      await navigator.clipboard.writeText(link);
+      setMessage(t('export.linkCopied'));
+    } catch (error) {
+      // Clipboard access can be denied; let the user copy it by hand
+      window.prompt(t('export.shareLink'), link);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(roadmapExporter.fromJSON(await file.text(), subjects, importCatalog || undefined));
+      setMessage(null);
+    } catch (error) {
+      setMessage(t('export.importFailed', { message: error instanceof Error ? error.message : String(error) }));
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-1 px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span className="font-semibold text-gray-800 mr-2">{t('export.title')}</span>
+        <button onClick={handlePrint} disabled={!roadmap} className={buttonClass}>
+          <Printer className="h-4 w-4" />
+          {t('export.print')}
+        </button>
+        <button
+          onClick={() => roadmap && download(roadmapExporter.toSVG(roadmap, options), fileName(roadmap, 'svg'), 'image/svg+xml')}
+          disabled={!roadmap}
+          className={buttonClass}
+        >
+          <ImageIcon className="h-4 w-4" />
+          SVG
+        </button>
+        <button
+          onClick={() => roadmap && download(roadmapExporter.toJSON(roadmap, admissionYear), fileName(roadmap, 'json'), 'application/json')}
+          disabled={!roadmap}
+          className={buttonClass}
+        >
+          <FileJson className="h-4 w-4" />
+          JSON
+        </button>
+        <button onClick={handleShareLink} disabled={!roadmap} className={buttonClass}>
+          <LinkIcon className="h-4 w-4" />
+          {t('export.shareLink')}
+        </button>
+        <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+          <Upload className="h-4 w-4" />
+          {t('export.import')}
+        </button>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      {message && <p className="mt-2 text-xs text-gray-600">{message}</p>}
+    </div>
+  );
+}
+
+export default ExportPanel;
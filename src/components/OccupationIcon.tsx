@@ -0,0 +1,28 @@
+import React from 'react';
+import { BatteryCharging, BookOpen, Bot, Code, Cpu, Gauge, LucideIcon, Plane, Radio, Zap } from 'lucide-react';
+import { occupationTaxonomy, OccupationIconName } from '../services/occupationTaxonomy';
+
+const ICONS: Record<OccupationIconName, LucideIcon> = {
+  zap: Zap,
+  battery: BatteryCharging,
+  cpu: Cpu,
+  radio: Radio,
+  plane: Plane,
+  code: Code,
+  gauge: Gauge,
+  bot: Bot,
+};
+
+interface OccupationIconProps {
+  // Free text, e.g. "EE" or "電力技術者"; unknown occupations get a generic book icon
+  occupation: string;
+  className?: string;
+}
+
+function OccupationIcon({ occupation, className }: OccupationIconProps) {
+  const match = occupationTaxonomy.resolve(occupation).matches[0];
+  const Icon = match ? ICONS[match.occupation.icon] : BookOpen;
+  return <Icon className={className} />;
+}
+
+export default OccupationIcon;
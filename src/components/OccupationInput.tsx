@@ -0,0 +1,109 @@
+import React, { useId, useMemo, useState } from 'react';
+import { Search } from 'lucide-react';
+import { occupationTaxonomy } from '../services/occupationTaxonomy';
+import OccupationIcon from './OccupationIcon';
+import { useI18n } from '../i18n';
+
+interface OccupationInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Enter without a highlighted suggestion
+  onSubmit: () => void;
+  placeholder?: string;
+}
+
+// Free-text occupation field with taxonomy suggestions and a note on what the text resolves to
+function OccupationInput({ value, onChange, onSubmit, placeholder }: OccupationInputProps) {
+  const { t, locale } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+  const listId = useId();
+
+  const suggestions = useMemo(() => occupationTaxonomy.suggest(value, locale), [value, locale]);
+  const resolved = useMemo(() => occupationTaxonomy.resolve(value), [value]);
+  // Nothing to explain when the text is exactly a known name or synonym
+  const isExact = resolved.matches.length === 1 && resolved.matches[0].score === 1;
+  const showSuggestions = isOpen && suggestions.length > 0;
+
+  const pick = (name: string) => {
+    onChange(name);
+    setIsOpen(false);
+    setActive(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      // -1 is the text itself, so arrowing past either end returns to what was typed
+      setActive(index => e.key === 'ArrowDown'
+        ? (index + 1 >= suggestions.length ? -1 : index + 1)
+        : (index <= -1 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Enter') {
+      if (showSuggestions && active >= 0 && suggestions[active]) {
+        pick(suggestions[active].occupation.name[locale]);
+      } else {
+        setIsOpen(false);
+        onSubmit();
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setActive(-1);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setActive(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        role="combobox"
+        aria-controls={listId}
+        aria-expanded={showSuggestions}
+        aria-autocomplete="list"
+        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      {showSuggestions && (
+        <ul id={listId} role="listbox" className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg text-sm">
+          {suggestions.map(({ occupation, matchedLabel }, index) => (
+            <li
+              key={occupation.id}
+              role="option"
+              aria-selected={index === active}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(occupation.name[locale]);
+              }}
+              onMouseEnter={() => setActive(index)}
+              className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${index === active ? 'bg-blue-50' : ''}`}
+            >
+              <OccupationIcon occupation={occupation.id} className="h-4 w-4 text-blue-600 shrink-0" />
+              <span className="text-gray-800">{occupation.name[locale]}</span>
+              {matchedLabel && <span className="text-xs text-gray-500">{matchedLabel}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {value.trim() && !isExact && (
+        <p className="mt-1 text-xs text-gray-500">
+          {resolved.matches.length > 0
+            ? t('occupation.matched', { occupations: occupationTaxonomy.describe(resolved.weights, locale) })
+            : t('occupation.unmatched')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default OccupationInput;
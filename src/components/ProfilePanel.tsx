@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Trash2, FolderOpen, Save } from 'lucide-react';
+import { GeneratedRoadmap } from '../services/geminiService';
+import { profileStore, StudentProfile } from '../services/profileStore';
+import { useI18n } from '../i18n';
+
+interface ProfilePanelProps {
+  profile: StudentProfile;
+  roadmap: GeneratedRoadmap | null;
+  onLoadRoadmap: (roadmap: GeneratedRoadmap) => void;
+}
+
+const YEARS = [1, 2, 3, 4];
+
+function ProfilePanel({ profile, roadmap, onLoadRoadmap }: ProfilePanelProps) {
+  const { t, locale } = useI18n();
+  const [name, setName] = useState('');
+  const completedCount = Object.keys(profile.completedSubjects).length;
+  // Semesters are numbered 1-8 across the four years
+  const semesters = [profile.currentYear * 2 - 1, profile.currentYear * 2];
+
+  const handleSave = () => {
+    if (!roadmap) return;
+    profileStore.saveRoadmap(name, roadmap);
+    setName('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <span className="font-semibold text-gray-800">{t('profile.title')}</span>
+        <label className="flex items-center gap-1">
+          {t('profile.year')}
+          <select
+            value={profile.currentYear}
+            onChange={(e) => {
+              const year = Number(e.target.value);
+              profileStore.setCurrentTerm(year, year * 2 - 1);
+            }}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {YEARS.map(year => <option key={year} value={year}>{year}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          {t('profile.semester')}
+          <select
+            value={profile.currentSemester}
+            onChange={(e) => profileStore.setCurrentTerm(profile.currentYear, Number(e.target.value))}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {semesters.map(semester => <option key={semester} value={semester}>{semester}</option>)}
+          </select>
+        </label>
+        <span className="text-gray-500">{t('profile.completedCount', { count: completedCount })}</span>
+      </div>
+      {roadmap && (
+        <div className="mt-3 flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={roadmap.title}
+            className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm"
+            onKeyPress={(e) => e.key === 'Enter' && handleSave()}
+          />
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+          >
+            <Save className="h-4 w-4" />
+            {t('profile.save')}
+          </button>
+        </div>
+      )}
+      {profile.savedRoadmaps.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-100 text-sm">
+          {profile.savedRoadmaps.map(saved => (
+            <li key={saved.id} className="flex items-center justify-between py-1">
+              <div>
+                <span className="font-medium text-gray-800">{saved.name}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {t('profile.savedSummary', {
+                    credits: saved.roadmap.total_credits,
+                    date: new Date(saved.savedAt).toLocaleDateString(locale),
+                  })}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onLoadRoadmap(saved.roadmap)}
+                  className="text-blue-600 hover:text-blue-800"
+                  title={t('profile.open')}
+                >
+                  <FolderOpen className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => profileStore.deleteSavedRoadmap(saved.id)}
+                  className="text-gray-400 hover:text-red-600"
+                  title={t('profile.delete')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ProfilePanel;
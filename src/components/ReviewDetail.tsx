@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, FolderOpen, Loader2, MessageSquare } from 'lucide-react';
+import { GeneratedRoadmap, Subject } from '../services/geminiService';
+import {
+  allowedTransitions,
+  canAnnotate,
+  canRevise,
+  CreateReviewRequest,
+  latestRevision,
+  ReviewAction,
+  ReviewEvent,
+  ReviewStatus,
+  ReviewUser,
+  RoadmapReview,
+} from '../services/reviewApi';
+import { reviewService } from '../services/reviewService';
+import RoadmapFlowchart from './RoadmapFlowchart';
+import { useI18n } from '../i18n';
+
+interface ReviewDetailProps {
+  review: RoadmapReview;
+  user: ReviewUser;
+  // The student's current roadmap and completion, sent as a new revision
+  submission: Omit<CreateReviewRequest, 'title'> | null;
+  // Subjects with display fields in the active locale
+  subjects: Subject[];
+  subjectNames: Record<string, string>;
+  onChange: (review: RoadmapReview) => void;
+  onLoadRoadmap: (roadmap: GeneratedRoadmap) => void;
+  onBack: () => void;
+}
+
+export const reviewStatusStyles: Record<ReviewStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-800',
+  changes_requested: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+};
+
+const MAX_COMMENT_LENGTH = 1000;
+
+// One review: a chosen revision's flowchart with the advisor's notes on its nodes, the actions the
+// signed-in role can take, and the history both sides share
+function ReviewDetail({ review, user, submission, subjects, subjectNames, onChange, onLoadRoadmap, onBack }: ReviewDetailProps) {
+  const { t, locale } = useI18n();
+  const latest = latestRevision(review);
+  const [revisionNumber, setRevisionNumber] = useState(latest.number);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [annotationComment, setAnnotationComment] = useState('');
+  const [substituteId, setSubstituteId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new revision is shown as soon as it arrives
+  useEffect(() => {
+    setRevisionNumber(latest.number);
+  }, [latest.number]);
+
+  const revision = review.revisions.find(entry => entry.number === revisionNumber) || latest;
+  const annotations = useMemo(
+    () => review.annotations.filter(entry => entry.revision === revision.number),
+    [review.annotations, revision.number]
+  );
+  const annotatedIds = useMemo(() => new Set(annotations.map(entry => entry.nodeId)), [annotations]);
+  const completedIds = useMemo(() => new Set(Object.keys(revision.completedSubjects)), [revision]);
+  const nameOf = (id: string) => subjectNames[id] || revision.roadmap.nodes.find(node => node.id === id)?.name || id;
+  const annotating = canAnnotate(user.role, review.status) && revision.number === latest.number;
+  const transitions = allowedTransitions(user.role, review.status);
+  const formatTime = (iso: string) => new Date(iso).toLocaleString(locale);
+
+  const run = async (action: ReviewAction) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onChange(await reviewService.act(review.id, action));
+      if (action.type === 'annotate') {
+        setAnnotationComment('');
+        setSubstituteId('');
+      } else {
+        setComment('');
+      }
+    } catch (actionError) {
+      setError(t('reviews.error', { message: actionError instanceof Error ? actionError.message : String(actionError) }));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const describe = (event: ReviewEvent): string => {
+    switch (event.type) {
+      case 'created':
+        return t('reviews.event.created', { revision: event.revision });
+      case 'revised':
+        return t('reviews.event.revised', { revision: event.revision });
+      case 'status':
+        return t('reviews.event.status', { status: t(`reviews.status.${event.status as ReviewStatus}`) });
+      case 'annotated':
+        return t('reviews.event.annotated', { subject: nameOf(event.nodeId || '') });
+      case 'commented':
+        return t('reviews.event.commented');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <button onClick={onBack} className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 mb-3">
+          <ArrowLeft className="h-4 w-4" /> {t('reviews.back')}
+        </button>
+        <div className="flex flex-wrap items-center gap-3">
+          <h3 className="text-lg font-bold text-gray-800">{review.title}</h3>
+          <span className={`text-xs px-2 py-0.5 rounded ${reviewStatusStyles[review.status]}`}>
+            {t(`reviews.status.${review.status}`)}
+          </span>
+          <span className="text-sm text-gray-500">{review.student.name}</span>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+          <label className="flex items-center gap-1">
+            {t('reviews.revision')}
+            <select
+              value={revision.number}
+              onChange={(e) => setRevisionNumber(Number(e.target.value))}
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              {review.revisions.map(entry => (
+                <option key={entry.number} value={entry.number}>
+                  {t('reviews.revisionOption', { number: entry.number, date: formatTime(entry.createdAt) })}
+                </option>
+              ))}
+            </select>
+          </label>
+          <span className="text-gray-500">
+            {t('reviews.revisionSummary', {
+              subjects: revision.roadmap.nodes.length,
+              credits: revision.roadmap.total_credits,
+              completed: completedIds.size,
+            })}
+          </span>
+          <button
+            onClick={() => onLoadRoadmap(revision.roadmap)}
+            className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+          >
+            <FolderOpen className="h-4 w-4" /> {t('reviews.openInEditor')}
+          </button>
+        </div>
+        {revision.note && <p className="mt-2 text-sm text-gray-600">{t('reviews.note', { note: revision.note })}</p>}
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        <div className="mt-4 flex flex-wrap gap-2">
+          {canRevise(user.role, review.status) && submission && (
+            <button
+              onClick={() => run({ type: 'revise', ...submission, note: comment.trim() || undefined, submit: true })}
+              disabled={busy}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t('reviews.resubmit')}
+            </button>
+          )}
+          {transitions.map(status => (
+            <button
+              key={status}
+              onClick={() => run({ type: 'status', status, comment: comment.trim() || undefined })}
+              disabled={busy}
+              className={`px-3 py-1.5 rounded-md text-sm disabled:opacity-50 ${
+                status === 'approved' ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {t(`reviews.action.${status}`)}
+            </button>
+          ))}
+          <button
+            onClick={() => run({ type: 'comment', comment: comment.trim() })}
+            disabled={busy || !comment.trim()}
+            className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            <MessageSquare className="h-4 w-4" /> {t('reviews.comment')}
+          </button>
+          {busy && <Loader2 className="h-5 w-5 animate-spin text-blue-600" />}
+        </div>
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={2}
+          placeholder={t(`reviews.commentPlaceholder.${user.role}`)}
+          className="mt-3 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2 min-w-0">
+          <RoadmapFlowchart
+            roadmap={revision.roadmap}
+            onNodeClick={(node) => setSelectedNodeId(node.id === selectedNodeId ? null : node.id)}
+            selectedNodeId={selectedNodeId}
+            completedIds={completedIds}
+            subjectNames={subjectNames}
+            highlightedIds={annotatedIds}
+            highlightLabel={t('reviews.annotatedLegend')}
+          />
+        </div>
+        <div className="space-y-6 min-w-0">
+          {annotating && (
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <h4 className="font-semibold text-gray-800 mb-2">{t('reviews.annotateTitle')}</h4>
+              {selectedNodeId ? (
+                <>
+                  <p className="text-sm text-gray-700 mb-2">{nameOf(selectedNodeId)}</p>
+                  <textarea
+                    value={annotationComment}
+                    onChange={(e) => setAnnotationComment(e.target.value)}
+                    maxLength={MAX_COMMENT_LENGTH}
+                    rows={3}
+                    placeholder={t('reviews.annotationPlaceholder')}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  />
+                  <label className="block mt-2 text-sm text-gray-700">
+                    {t('reviews.substitute')}
+                    <select
+                      value={substituteId}
+                      onChange={(e) => setSubstituteId(e.target.value)}
+                      className="mt-1 w-full border border-gray-300 rounded px-1 py-1"
+                    >
+                      <option value="">{t('reviews.noSubstitute')}</option>
+                      {subjects
+                        .filter(subject => subject.id !== selectedNodeId)
+                        .map(subject => (
+                          <option key={subject.id} value={subject.id}>{subject.name}</option>
+                        ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={() => run({
+                      type: 'annotate',
+                      nodeId: selectedNodeId,
+                      comment: annotationComment.trim(),
+                      substituteId: substituteId || undefined,
+                    })}
+                    disabled={busy || !annotationComment.trim()}
+                    className="mt-2 px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {t('reviews.addAnnotation')}
+                  </button>
+                </>
+              ) : (
+                <p className="text-sm text-gray-600">{t('reviews.annotateHint')}</p>
+              )}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-md p-4">
+            <h4 className="font-semibold text-gray-800 mb-2">{t('reviews.annotations', { count: annotations.length })}</h4>
+            {annotations.length === 0 ? (
+              <p className="text-sm text-gray-600">{t('reviews.noAnnotations')}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {annotations.map(annotation => (
+                  <li
+                    key={annotation.id}
+                    className={`py-2 text-sm cursor-pointer ${annotation.nodeId === selectedNodeId ? 'bg-blue-50' : ''}`}
+                    onClick={() => setSelectedNodeId(annotation.nodeId)}
+                  >
+                    <div className="font-medium text-gray-800">{nameOf(annotation.nodeId)}</div>
+                    <p className="text-gray-700 whitespace-pre-wrap">{annotation.comment}</p>
+                    {annotation.substituteId && (
+                      <p className="text-emerald-700">{t('reviews.suggests', { subject: nameOf(annotation.substituteId) })}</p>
+                    )}
+                    <p className="text-xs text-gray-500">{annotation.author.name} · {formatTime(annotation.createdAt)}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-4">
+            <h4 className="font-semibold text-gray-800 mb-2">{t('reviews.history')}</h4>
+            <ol className="space-y-2">
+              {[...review.history].reverse().map((event, index) => (
+                <li key={index} className="text-sm">
+                  <div className="text-gray-800">
+                    <span className="font-medium">{event.by.name}</span> {describe(event)}
+                  </div>
+                  {event.comment && <p className="text-gray-600 whitespace-pre-wrap">{event.comment}</p>}
+                  <p className="text-xs text-gray-500">{formatTime(event.at)}</p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ReviewDetail;
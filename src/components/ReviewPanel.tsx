@@ -0,0 +1,289 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { LogOut, Loader2, Send } from 'lucide-react';
+import { GeneratedRoadmap, Subject } from '../services/geminiService';
+import { StudentProfile } from '../services/profileStore';
+import {
+  CreateReviewRequest,
+  REVIEW_STATUSES,
+  ReviewError,
+  ReviewStatus,
+  ReviewSummary,
+  ReviewUser,
+  RoadmapReview,
+  summarizeReview,
+} from '../services/reviewApi';
+import { reviewService } from '../services/reviewService';
+import ReviewDetail, { reviewStatusStyles } from './ReviewDetail';
+import { useI18n } from '../i18n';
+
+interface ReviewPanelProps {
+  roadmap: GeneratedRoadmap | null;
+  profile: StudentProfile;
+  // Subjects with display fields in the active locale
+  subjects: Subject[];
+  subjectNames: Record<string, string>;
+  onLoadRoadmap: (roadmap: GeneratedRoadmap) => void;
+}
+
+const MAX_TITLE_LENGTH = 100;
+
+// Advisor review workflow: students submit their roadmap and completion, advisors annotate and
+// decide. Signing in with a review token tells the server which of the two the user is
+function ReviewPanel({ roadmap, profile, subjects, subjectNames, onLoadRoadmap }: ReviewPanelProps) {
+  const { t, locale } = useI18n();
+  const [user, setUser] = useState<ReviewUser | null>(null);
+  const [reviews, setReviews] = useState<ReviewSummary[]>([]);
+  const [selected, setSelected] = useState<RoadmapReview | null>(null);
+  const [token, setToken] = useState('');
+  const [title, setTitle] = useState('');
+  const [note, setNote] = useState('');
+  // Advisors start with the reviews waiting for them
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('submitted');
+  const [busy, setBusy] = useState(false);
+  // The failure's message; shown through reviews.error so it follows the locale
+  const [error, setError] = useState<string | null>(null);
+
+  const submission: Omit<CreateReviewRequest, 'title'> | null = roadmap
+    ? {
+      roadmap,
+      completedSubjects: profile.completedSubjects,
+      admissionYear: profile.admissionYear ?? undefined,
+    }
+    : null;
+
+  const attempt = useCallback(async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (taskError) {
+      if (taskError instanceof ReviewError && taskError.kind === 'unauthorized') {
+        reviewService.setToken(null);
+        setUser(null);
+        setSelected(null);
+      }
+      setError(taskError instanceof Error ? taskError.message : String(taskError));
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const refresh = useCallback(() => attempt(async () => {
+    const list = await reviewService.list();
+    setUser(list.user);
+    setReviews(list.reviews);
+  }), [attempt]);
+
+  // Restores the session of a token saved earlier
+  useEffect(() => {
+    if (reviewService.getToken()) refresh();
+  }, [refresh]);
+
+  const signIn = () => {
+    reviewService.setToken(token.trim());
+    setToken('');
+    refresh();
+  };
+
+  const signOut = () => {
+    reviewService.setToken(null);
+    setUser(null);
+    setReviews([]);
+    setSelected(null);
+  };
+
+  const open = (id: string) => attempt(async () => {
+    setSelected(await reviewService.get(id));
+  });
+
+  const handleChange = (review: RoadmapReview) => {
+    setSelected(review);
+    setReviews(current => [summarizeReview(review), ...current.filter(entry => entry.id !== review.id)]);
+  };
+
+  const create = (submit: boolean) => attempt(async () => {
+    if (!submission) return;
+    const review = await reviewService.create({
+      ...submission,
+      title: title.trim() || submission.roadmap.title,
+      note: note.trim() || undefined,
+      submit,
+    });
+    setTitle('');
+    setNote('');
+    handleChange(review);
+  });
+
+  if (!user) {
+    return (
+      <div className="max-w-md mx-auto bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-bold text-gray-800 mb-2">{t('reviews.title')}</h3>
+        <p className="text-sm text-gray-600 mb-3">{t('reviews.signInHint')}</p>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && token.trim() && signIn()}
+            placeholder={t('reviews.tokenPlaceholder')}
+            className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+          />
+          <button
+            onClick={signIn}
+            disabled={busy || !token.trim()}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t('reviews.signIn')}
+          </button>
+        </div>
+        {busy && <Loader2 className="mt-3 h-5 w-5 animate-spin text-blue-600" />}
+        {error && <p className="mt-3 text-sm text-red-600">{t('reviews.error', { message: error })}</p>}
+      </div>
+    );
+  }
+
+  const header = (
+    <div className="flex items-center justify-between text-sm text-gray-700 mb-4">
+      <span>{t('reviews.signedInAs', { name: user.name, role: t(`reviews.role.${user.role}`) })}</span>
+      <button onClick={signOut} className="flex items-center gap-1 text-gray-500 hover:text-gray-800">
+        <LogOut className="h-4 w-4" /> {t('reviews.signOut')}
+      </button>
+    </div>
+  );
+
+  if (selected) {
+    return (
+      <>
+        {header}
+        <ReviewDetail
+          review={selected}
+          user={user}
+          submission={submission}
+          subjects={subjects}
+          subjectNames={subjectNames}
+          onChange={handleChange}
+          onLoadRoadmap={onLoadRoadmap}
+          onBack={() => setSelected(null)}
+        />
+      </>
+    );
+  }
+
+  const visible = user.role === 'advisor' && statusFilter !== 'all'
+    ? reviews.filter(review => review.status === statusFilter)
+    : reviews;
+
+  return (
+    <>
+      {header}
+      <div className="space-y-6">
+        {user.role === 'student' && (
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h3 className="text-lg font-bold text-gray-800 mb-2">{t('reviews.submitTitle')}</h3>
+            {submission ? (
+              <>
+                <p className="text-sm text-gray-600 mb-3">
+                  {t('reviews.submitHint', {
+                    title: submission.roadmap.title,
+                    completed: Object.keys(submission.completedSubjects).length,
+                  })}
+                </p>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={MAX_TITLE_LENGTH}
+                  placeholder={submission.roadmap.title}
+                  className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                />
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={2}
+                  placeholder={t('reviews.notePlaceholder')}
+                  className="mt-2 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+                <div className="mt-2 flex gap-2">
+                  <button
+                    onClick={() => create(true)}
+                    disabled={busy}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Send className="h-4 w-4" /> {t('reviews.action.submitted')}
+                  </button>
+                  <button
+                    onClick={() => create(false)}
+                    disabled={busy}
+                    className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {t('reviews.saveDraft')}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">{t('reviews.noRoadmap')}</p>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-bold text-gray-800">
+              {t(user.role === 'advisor' ? 'reviews.listAdvisor' : 'reviews.listStudent')}
+            </h3>
+            {user.role === 'advisor' && (
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as ReviewStatus | 'all')}
+                className="border border-gray-300 rounded px-1 py-0.5 text-sm"
+              >
+                <option value="all">{t('reviews.allStatuses')}</option>
+                {REVIEW_STATUSES.map(status => (
+                  <option key={status} value={status}>{t(`reviews.status.${status}`)}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          {error && <p className="mb-2 text-sm text-red-600">{t('reviews.error', { message: error })}</p>}
+          {visible.length === 0 ? (
+            <p className="text-sm text-gray-600">{t('reviews.empty')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {visible.map(review => (
+                <li key={review.id}>
+                  <button
+                    onClick={() => open(review.id)}
+                    disabled={busy}
+                    className="w-full py-2 flex flex-wrap items-center gap-3 text-left text-sm hover:bg-gray-50"
+                  >
+                    <span className="font-medium text-gray-800">{review.title}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded ${reviewStatusStyles[review.status]}`}>
+                      {t(`reviews.status.${review.status}`)}
+                    </span>
+                    {user.role === 'advisor' && <span className="text-gray-600">{review.student.name}</span>}
+                    <span className="text-gray-500">
+                      {t('reviews.listEntry', {
+                        revisions: review.revisions,
+                        annotations: review.annotations,
+                        date: new Date(review.updatedAt).toLocaleString(locale),
+                      })}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            onClick={refresh}
+            disabled={busy}
+            className="mt-3 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {t('reviews.refresh')}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default ReviewPanel;
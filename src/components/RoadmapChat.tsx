@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, Check, Loader2, MessageSquare, Send, X } from 'lucide-react';
+import { geminiService, GeneratedRoadmap, isAbortError, Subject } from '../services/geminiService';
+import { ProviderError } from '../services/providers/types';
+import { RoadmapChatMessage } from '../services/roadmapApi';
+import { RoadmapPatch, roadmapPatcher } from '../services/roadmapPatch';
+import { occupationTaxonomy } from '../services/occupationTaxonomy';
+import { useI18n } from '../i18n';
+
+interface RoadmapChatProps {
+  roadmap: GeneratedRoadmap;
+  // Catalog subjects, used to build and check the patched roadmap
+  subjects: Subject[];
+  // Subject names in the active locale, keyed by id
+  subjectNames: Record<string, string>;
+  isAIConfigured: boolean;
+  onApply: (roadmap: GeneratedRoadmap) => void;
+}
+
+interface ChatEntry extends RoadmapChatMessage {
+  patch?: RoadmapPatch;
+  // Roadmap the patch was proposed for; it can't be applied once the roadmap has changed
+  basedOn?: GeneratedRoadmap;
+  status?: 'pending' | 'applied' | 'discarded';
+}
+
+// Matches the server's limits on /api/refine
+const MAX_INSTRUCTION_LENGTH = 500;
+const MAX_HISTORY_MESSAGES = 10;
+
+const hasChanges = (patch: RoadmapPatch) =>
+  patch.add.length > 0 || patch.remove.length > 0 || patch.move.length > 0 || patch.reasoning !== undefined;
+
+function PatchDiff({ entry, roadmap, subjects, subjectNames, onApply, onDiscard }: {
+  entry: ChatEntry;
+  roadmap: GeneratedRoadmap;
+  subjects: Subject[];
+  subjectNames: Record<string, string>;
+  onApply: (updated: GeneratedRoadmap) => void;
+  onDiscard: () => void;
+}) {
+  const { t } = useI18n();
+  const base = entry.basedOn as GeneratedRoadmap;
+  const updated = useMemo(
+    () => roadmapPatcher.apply(base, entry.patch as RoadmapPatch, subjects),
+    [base, entry.patch, subjects]
+  );
+  const diff = useMemo(() => roadmapPatcher.diff(base, updated, subjects), [base, updated, subjects]);
+  const nameOf = (id: string) => subjectNames[id] || id;
+  const term = (year: number, semester: number) => t('chat.term', { year, semester });
+  const isStale = entry.status === 'pending' && base !== roadmap;
+
+  return (
+    <div className="mt-2 border border-gray-200 rounded-md bg-white p-3 text-sm space-y-1">
+      {diff.added.map(node => (
+        <div key={`add-${node.id}`} className="text-green-700">
+          + {nameOf(node.id)} <span className="text-gray-500">({term(node.year, node.semester)}, {t(`legend.${node.type}`)})</span>
+        </div>
+      ))}
+      {diff.removed.map(node => (
+        <div key={`remove-${node.id}`} className="text-red-700 line-through">− {nameOf(node.id)}</div>
+      ))}
+      {diff.moved.map(({ node, from }) => (
+        <div key={`move-${node.id}`} className="text-blue-700">
+          ↪ {t('chat.diffMoved', { subject: nameOf(node.id), from: term(from.year, from.semester), to: term(node.year, node.semester) })}
+        </div>
+      ))}
+      {diff.reasoningChanged && <div className="text-gray-600">{t('chat.diffReasoning')}</div>}
+      <div className="text-gray-600">{t('chat.diffCredits', { before: diff.creditsBefore, after: diff.creditsAfter })}</div>
+      {diff.warnings.map(warning => (
+        <div key={`${warning.id}-${warning.prerequisite}-${warning.reason}`} className="flex items-start gap-1 text-amber-700">
+          <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+          {t(warning.reason === 'removed' ? 'chat.warningRemoved' : 'chat.warningOrder', {
+            subject: nameOf(warning.id),
+            prerequisite: nameOf(warning.prerequisite),
+          })}
+        </div>
+      ))}
+      {entry.status === 'pending' && (
+        isStale ? (
+          <p className="text-xs text-gray-500">{t('chat.stale')}</p>
+        ) : (
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={() => onApply(updated)}
+              className="inline-flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Check className="h-4 w-4" />
+              {t('chat.apply')}
+            </button>
+            <button
+              onClick={onDiscard}
+              className="inline-flex items-center gap-1 px-3 py-1 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              <X className="h-4 w-4" />
+              {t('chat.discard')}
+            </button>
+          </div>
+        )
+      )}
+      {entry.status === 'applied' && <p className="text-xs text-green-700">{t('chat.applied')}</p>}
+      {entry.status === 'discarded' && <p className="text-xs text-gray-500">{t('chat.discarded')}</p>}
+    </div>
+  );
+}
+
+// Follow-up edits and questions on the roadmap on screen. The model answers with a patch that is
+// shown as a diff and only applied when the student confirms; undo/redo lives in the main view
+function RoadmapChat({ roadmap, subjects, subjectNames, isAIConfigured, onApply }: RoadmapChatProps) {
+  const { t, locale } = useI18n();
+  const [entries, setEntries] = useState<ChatEntry[]>([]);
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateEntry = (index: number, status: ChatEntry['status']) =>
+    setEntries(current => current.map((entry, i) => (i === index ? { ...entry, status } : entry)));
+
+  const send = async () => {
+    const instruction = input.trim();
+    if (!instruction || isSending) return;
+    const history: RoadmapChatMessage[] = entries
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map(({ role, content }) => ({ role, content }));
+    // Proposals that weren't acted on are superseded by the new request
+    setEntries(current => [
+      ...current.map(entry => (entry.status === 'pending' ? { ...entry, status: 'discarded' as const } : entry)),
+      { role: 'user', content: instruction },
+    ]);
+    setInput('');
+    setError(null);
+    setIsSending(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { weights } = occupationTaxonomy.resolve(roadmap.occupation);
+    try {
+      const patch = await geminiService.refineRoadmap({
+        roadmap,
+        history,
+        instruction,
+        language: locale,
+        occupationIds: Object.keys(weights).length > 0 ? weights : undefined,
+      }, controller.signal);
+      setEntries(current => [
+        ...current,
+        hasChanges(patch)
+          ? { role: 'assistant', content: patch.reply, patch, basedOn: roadmap, status: 'pending' }
+          : { role: 'assistant', content: patch.reply },
+      ]);
+    } catch (refineError) {
+      if (isAbortError(refineError)) return;
+      const reason = refineError instanceof ProviderError
+        ? t(`providerError.${refineError.kind}`)
+        : refineError instanceof Error ? refineError.message : 'unknown error';
+      setError(t('chat.error', { reason }));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsSending(false);
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 mt-6">
+      <h3 className="flex items-center gap-2 font-semibold text-gray-800 mb-1">
+        <MessageSquare className="h-5 w-5 text-blue-600" />
+        {t('chat.title')}
+      </h3>
+      <p className="text-xs text-gray-500 mb-3">{t('chat.hint')}</p>
+      {!isAIConfigured && (
+        <p className="text-sm text-gray-500 bg-gray-50 rounded-md p-3 mb-3">{t('chat.unavailable')}</p>
+      )}
+      {entries.length > 0 && (
+        <ul className="space-y-3 mb-3 max-h-96 overflow-y-auto" aria-live="polite">
+          {entries.map((entry, index) => (
+            <li key={index} className={entry.role === 'user' ? 'text-right' : ''}>
+              <div
+                className={`inline-block max-w-full px-3 py-2 rounded-lg text-sm text-left whitespace-pre-wrap ${
+                  entry.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                {entry.content}
+              </div>
+              {entry.patch && entry.basedOn && (
+                <PatchDiff
+                  entry={entry}
+                  roadmap={roadmap}
+                  subjects={subjects}
+                  subjectNames={subjectNames}
+                  onApply={(updated) => {
+                    onApply(updated);
+                    updateEntry(index, 'applied');
+                  }}
+                  onDiscard={() => updateEntry(index, 'discarded')}
+                />
+              )}
+            </li>
+          ))}
+          {isSending && (
+            <li className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t('chat.thinking')}
+            </li>
+          )}
+        </ul>
+      )}
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send();
+        }}
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          maxLength={MAX_INSTRUCTION_LENGTH}
+          disabled={!isAIConfigured}
+          placeholder={t('chat.placeholder')}
+          aria-label={t('chat.title')}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+        />
+        <button
+          type="submit"
+          disabled={!isAIConfigured || isSending || !input.trim()}
+          title={t('chat.send')}
+          aria-label={t('chat.send')}
+          className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Send className="h-4 w-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default RoadmapChat;
@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, Loader2, Plus, X } from 'lucide-react';
+import { GeneratedRoadmap, Subject } from '../services/geminiService';
+import { roadmapComparer, ComparedSubject } from '../services/roadmapComparison';
+import RoadmapFlowchart from './RoadmapFlowchart';
+import OccupationInput from './OccupationInput';
+import { useI18n } from '../i18n';
+
+export interface ComparisonCandidate {
+  id: string;
+  label: string;
+  roadmap: GeneratedRoadmap;
+}
+
+interface RoadmapComparisonProps {
+  // Current and saved roadmaps the student can pick from
+  candidates: ComparisonCandidate[];
+  subjects: Subject[];
+  subjectNames: Record<string, string>;
+  completedIds: Set<string>;
+  // Builds a roadmap for an occupation typed into the comparison view
+  onGenerate: (occupation: string) => Promise<GeneratedRoadmap>;
+  onSelectSubject: (subject: Subject) => void;
+  onToggleComplete: (id: string) => void;
+  onUseMerged: (roadmap: GeneratedRoadmap) => void;
+}
+
+const RelevanceCell = ({ score, included }: { score: number | null; included: boolean }) => (
+  <td className="px-2 py-1">
+    <div className="flex items-center gap-2">
+      {included ? <CheckCircle className="h-4 w-4 text-emerald-600 shrink-0" /> : <span className="w-4 shrink-0" />}
+      {score === null ? (
+        <span className="text-gray-400">—</span>
+      ) : (
+        <div className="flex items-center gap-1 w-24">
+          <div className="h-2 flex-1 bg-gray-100 rounded">
+            <div className="h-2 bg-blue-500 rounded" style={{ width: `${Math.round(score * 100)}%` }} />
+          </div>
+          <span className="text-xs text-gray-600 w-8 text-right">{Math.round(score * 100)}%</span>
+        </div>
+      )}
+    </div>
+  </td>
+);
+
+function RoadmapComparison({
+  candidates,
+  subjects,
+  subjectNames,
+  completedIds,
+  onGenerate,
+  onSelectSubject,
+  onToggleComplete,
+  onUseMerged,
+}: RoadmapComparisonProps) {
+  const { t, locale } = useI18n();
+  const [added, setAdded] = useState<ComparisonCandidate[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => candidates.slice(0, 2).map(candidate => candidate.id));
+  const [occupation, setOccupation] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const allCandidates = useMemo(() => [...candidates, ...added], [candidates, added]);
+  const selected = useMemo(
+    () => allCandidates.filter(candidate => selectedIds.includes(candidate.id)),
+    [allCandidates, selectedIds]
+  );
+  const comparison = useMemo(
+    () => selected.length >= 2 ? roadmapComparer.compare(selected.map(candidate => candidate.roadmap), subjects, locale) : null,
+    [selected, subjects, locale]
+  );
+  const sharedIds = useMemo(() => new Set(comparison?.shared.map(subject => subject.id)), [comparison]);
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]);
+
+  const addOccupation = async () => {
+    const name = occupation.trim();
+    if (!name) return;
+    setIsAdding(true);
+    setError(null);
+    try {
+      const roadmap = await onGenerate(name);
+      const id = `added-${Date.now()}`;
+      setAdded(list => [...list, { id, label: name, roadmap }]);
+      setSelectedIds(ids => [...ids, id]);
+      setOccupation('');
+    } catch (addError) {
+      setError(t('compare.addFailed', {
+        occupation: name,
+        message: addError instanceof Error ? addError.message : String(addError),
+      }));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleNodeClick = (node: { id: string }) => {
+    const subject = subjects.find(candidate => candidate.id === node.id);
+    if (subject) onSelectSubject(subject);
+  };
+
+  const renderRows = (rows: ComparedSubject[]) => rows.map(subject => (
+    <tr key={subject.id} className="border-t border-gray-100 hover:bg-gray-50">
+      <td className="px-2 py-1">
+        <button
+          onClick={() => handleNodeClick(subject)}
+          className={`text-left hover:underline ${completedIds.has(subject.id) ? 'text-green-700' : 'text-gray-800'}`}
+        >
+          {subjectNames[subject.id] || subject.name}
+        </button>
+        <div className="text-xs text-gray-500">
+          {t('flowchart.nodeCredits', { credits: subject.credits, year: subject.year, semester: subject.semester })}
+        </div>
+      </td>
+      {subject.relevance.map((score, index) => (
+        <RelevanceCell key={index} score={score} included={subject.roadmapIndexes.includes(index)} />
+      ))}
+    </tr>
+  ));
+
+  const renderGroup = (title: string, rows: ComparedSubject[]) => rows.length > 0 && comparison && (
+    <>
+      <tr className="bg-gray-50">
+        <th colSpan={comparison.roadmaps.length + 1} className="px-2 py-1 text-left text-sm font-semibold text-gray-700">
+          {title}
+        </th>
+      </tr>
+      {renderRows(rows)}
+    </>
+  );
+
+  const partial = comparison
+    ? comparison.subjects.filter(subject => subject.roadmapIndexes.length > 1 && !sharedIds.has(subject.id))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-bold text-gray-800">{t('compare.title')}</h2>
+        <p className="text-sm text-gray-600 mb-4">{t('compare.hint')}</p>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {allCandidates.map(candidate => (
+            <label
+              key={candidate.id}
+              className={`flex items-center gap-2 px-3 py-1 rounded-full border text-sm cursor-pointer ${
+                selectedIds.includes(candidate.id) ? 'bg-blue-50 border-blue-400 text-blue-800' : 'border-gray-300 text-gray-700'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(candidate.id)}
+                onChange={() => toggleSelected(candidate.id)}
+              />
+              {candidate.label}
+              {added.some(item => item.id === candidate.id) && (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setAdded(list => list.filter(item => item.id !== candidate.id));
+                    setSelectedIds(ids => ids.filter(id => id !== candidate.id));
+                  }}
+                  title={t('compare.remove')}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </label>
+          ))}
+        </div>
+        <div className="flex items-start gap-2 max-w-md">
+          <OccupationInput
+            value={occupation}
+            onChange={setOccupation}
+            onSubmit={addOccupation}
+            placeholder={t('compare.addPlaceholder')}
+          />
+          <button
+            onClick={addOccupation}
+            disabled={isAdding || !occupation.trim()}
+            className="flex items-center gap-1 px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            {t('compare.add')}
+          </button>
+        </div>
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      </div>
+
+      {!comparison ? (
+        <p className="text-center text-gray-500">{t('compare.selectTwo')}</p>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <div className="grid gap-4 sm:grid-cols-3 text-center mb-6">
+              <div>
+                <div className="text-2xl font-bold text-gray-800">{comparison.credits.shared}</div>
+                <div className="text-sm text-gray-600">{t('compare.sharedCredits')}</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-800">{comparison.credits.union}</div>
+                <div className="text-sm text-gray-600">{t('compare.unionCredits')}</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-800">{Math.round(comparison.credits.overlap * 100)}%</div>
+                <div className="text-sm text-gray-600">{t('compare.overlap')}</div>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600">
+                    <th className="px-2 py-1">{t('compare.subject')}</th>
+                    {selected.map((candidate, index) => (
+                      <th key={candidate.id} className="px-2 py-1">
+                        {candidate.label}
+                        <div className="text-xs font-normal text-gray-500">
+                          {t('compare.roadmapCredits', { credits: comparison.credits.perRoadmap[index] })}
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {renderGroup(
+                    t('compare.shared', { count: comparison.shared.length, credits: comparison.credits.shared }),
+                    comparison.shared
+                  )}
+                  {renderGroup(t('compare.partial', { count: partial.length }), partial)}
+                  {comparison.unique.map((rows, index) => (
+                    <React.Fragment key={selected[index].id}>
+                      {renderGroup(
+                        t('compare.uniqueTo', {
+                          occupation: selected[index].label,
+                          count: rows.length,
+                          credits: rows.reduce((total, subject) => total + subject.credits, 0),
+                        }),
+                        rows
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">{t('compare.relevanceHint')}</p>
+          </div>
+
+          <div className="grid gap-6 xl:grid-cols-2">
+            {selected.map(candidate => (
+              <div key={candidate.id} className="min-w-0">
+                <RoadmapFlowchart
+                  roadmap={candidate.roadmap}
+                  onNodeClick={handleNodeClick}
+                  selectedNodeId={null}
+                  completedIds={completedIds}
+                  onToggleComplete={onToggleComplete}
+                  subjectNames={subjectNames}
+                  highlightedIds={sharedIds}
+                  highlightLabel={t('compare.sharedLegend')}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-semibold text-gray-800">{t('compare.merged')}</h3>
+              <button
+                onClick={() => onUseMerged(comparison.merged)}
+                className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+              >
+                {t('compare.useMerged')}
+              </button>
+            </div>
+            <RoadmapFlowchart
+              roadmap={comparison.merged}
+              onNodeClick={handleNodeClick}
+              selectedNodeId={null}
+              completedIds={completedIds}
+              onToggleComplete={onToggleComplete}
+              subjectNames={subjectNames}
+              highlightedIds={sharedIds}
+              highlightLabel={t('compare.sharedLegend')}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RoadmapComparison;
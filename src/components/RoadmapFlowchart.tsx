@@ -0,0 +1,483 @@
+import React, { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, Circle, Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { GeneratedRoadmap, RoadmapNode } from '../services/geminiService';
+import {
+  connectedChain,
+  FlowchartDirection,
+  layerLabel,
+  layoutFlowchart,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  neighbourNode,
+} from '../services/flowchartLayout';
+import { useI18n } from '../i18n';
+
+interface RoadmapFlowchartProps {
+  roadmap: GeneratedRoadmap;
+  onNodeClick: (node: any) => void;
+  selectedNodeId: string | null;
+  completedIds: Set<string>;
+  // Omitted where completion is shown but can't be changed, e.g. a revision under review
+  onToggleComplete?: (id: string) => void;
+  // Subject names in the active locale, keyed by id
+  subjectNames: Record<string, string>;
+  // Nodes outlined in green, e.g. subjects shared with other roadmaps in a comparison
+  highlightedIds?: Set<string>;
+  // Legend entry for the highlighted nodes
+  highlightLabel?: string;
+}
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MAX_VIEWPORT_HEIGHT = 560;
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 2;
+const ZOOM_STEP = 1.25;
+const MINIMAP_WIDTH = 160;
+// Space kept around a node scrolled into view by the keyboard
+const FOCUS_MARGIN = 24;
+
+const ARROW_KEYS: Record<string, FlowchartDirection> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+};
+
+const MINIMAP_COLORS: Record<RoadmapNode['type'], string> = {
+  foundation: '#93c5fd',
+  core: '#fcd34d',
+  specialized: '#c4b5fd',
+  elective: '#d1d5db',
+};
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+function RoadmapFlowchart({
+  roadmap,
+  onNodeClick,
+  selectedNodeId,
+  completedIds,
+  onToggleComplete,
+  subjectNames,
+  highlightedIds,
+  highlightLabel,
+}: RoadmapFlowchartProps) {
+  const { t } = useI18n();
+  const layout = useMemo(() => layoutFlowchart(roadmap.nodes || []), [roadmap.nodes]);
+  const { nodes: sortedNodes, positions: nodePositions } = layout;
+  const viewportHeight = Math.min(MAX_VIEWPORT_HEIGHT, layout.height);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const nodeRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [view, setView] = useState<View>({ scale: 1, x: 0, y: 0 });
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  // Node that receives focus when tabbing back into the chart
+  const [tabStopId, setTabStopId] = useState<string | null>(null);
+  const hintId = useId();
+  const markerId = `arrow-${useId().replace(/:/g, '')}`;
+
+  const fit = useCallback(() => {
+    if (viewportWidth === 0 || layout.width === 0) return;
+    const scale = clampScale(Math.min(1, viewportWidth / layout.width, viewportHeight / layout.height));
+    setView({
+      scale,
+      x: (viewportWidth - layout.width * scale) / 2,
+      y: (viewportHeight - layout.height * scale) / 2,
+    });
+  }, [layout, viewportWidth, viewportHeight]);
+
+  // Zooms keeping the chart point under (x, y), in viewport coordinates, in place
+  const zoomAt = useCallback((factor: number, x: number, y: number) => {
+    setView(current => {
+      const scale = clampScale(current.scale * factor);
+      return {
+        scale,
+        x: x - ((x - current.x) * scale) / current.scale,
+        y: y - ((y - current.y) * scale) / current.scale,
+      };
+    });
+  }, []);
+
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const measure = () => setViewportWidth(element.clientWidth);
+    measure();
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // A new roadmap, or a resized page, starts from the whole chart
+  useEffect(fit, [fit]);
+
+  // Ctrl/⌘ + wheel (and trackpad pinch) zooms; React's wheel listener is passive, so it can't
+  // keep the page from zooming as well
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const bounds = element.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - bounds.left, e.clientY - bounds.top);
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const activeId = hoveredId || focusedId;
+  const chain = useMemo(() => (activeId ? connectedChain(sortedNodes, activeId) : null), [sortedNodes, activeId]);
+  const isOnChain = (id: string) => !chain || id === activeId || chain.upstream.has(id) || chain.downstream.has(id);
+  const isChainEdge = (from: string, to: string) => !!chain && (
+    (chain.upstream.has(from) && (to === activeId || chain.upstream.has(to))) ||
+    (chain.downstream.has(to) && (from === activeId || chain.downstream.has(from)))
+  );
+
+  const nameOf = (node: RoadmapNode) => subjectNames[node.id] || node.name;
+  const describeNode = (node: RoadmapNode) => {
+    const byId = (id: string) => sortedNodes.find(candidate => candidate.id === id);
+    const prerequisites = sortedNodes.filter(candidate => candidate.connects.includes(node.id)).map(nameOf);
+    const leadsTo = node.connects.map(byId).filter((n): n is RoadmapNode => !!n).map(nameOf);
+    return [
+      nameOf(node),
+      t('flowchart.nodeCredits', { credits: node.credits, year: node.year, semester: node.semester }),
+      t(`legend.${node.type}`),
+      t('flowchart.relevance', { percent: Math.round(node.relevance_score * 100) }),
+      completedIds.has(node.id) && t('legend.completed'),
+      prerequisites.length > 0 && t('flowchart.ariaPrerequisites', { subjects: prerequisites.join(', ') }),
+      leadsTo.length > 0 && t('flowchart.ariaLeadsTo', { subjects: leadsTo.join(', ') }),
+    ].filter(Boolean).join('. ');
+  };
+
+  // Pans just enough to bring a node into the viewport
+  const reveal = (id: string) => {
+    const position = nodePositions[id];
+    setView(current => {
+      const left = current.x + position.x * current.scale;
+      const top = current.y + position.y * current.scale;
+      const right = left + NODE_WIDTH * current.scale;
+      const bottom = top + NODE_HEIGHT * current.scale;
+      let { x, y } = current;
+      if (left < FOCUS_MARGIN) x += FOCUS_MARGIN - left;
+      else if (right > viewportWidth - FOCUS_MARGIN) x -= right - (viewportWidth - FOCUS_MARGIN);
+      if (top < FOCUS_MARGIN) y += FOCUS_MARGIN - top;
+      else if (bottom > viewportHeight - FOCUS_MARGIN) y -= bottom - (viewportHeight - FOCUS_MARGIN);
+      return x === current.x && y === current.y ? current : { ...current, x, y };
+    });
+  };
+
+  const handleNodeKeyDown = (e: React.KeyboardEvent, node: RoadmapNode) => {
+    const direction = ARROW_KEYS[e.key];
+    if (direction) {
+      e.preventDefault();
+      const next = neighbourNode(layout, node.id, direction);
+      // The viewport clips rather than scrolls; reveal() pans to the node instead
+      if (next) nodeRefs.current[next]?.focus({ preventScroll: true });
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onNodeClick(node);
+    } else if (e.key === 'c' || e.key === 'C') {
+      onToggleComplete?.(node.id);
+    }
+  };
+
+  const handleViewportKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === '+' || e.key === '=') zoomAt(ZOOM_STEP, viewportWidth / 2, viewportHeight / 2);
+    else if (e.key === '-') zoomAt(1 / ZOOM_STEP, viewportWidth / 2, viewportHeight / 2);
+    else if (e.key === '0') fit();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Nodes keep their own clicks
+    if (e.button !== 0 || (e.target as HTMLElement).closest('[data-node]')) return;
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView(current => ({ ...current, x: drag.x + e.clientX - drag.pointerX, y: drag.y + e.clientY - drag.pointerY }));
+  };
+
+  const minimapScale = MINIMAP_WIDTH / Math.max(layout.width, 1);
+  const minimapHeight = layout.height * minimapScale;
+  // Centres the view on the chart point under the pointer
+  const handleMinimapPointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.type === 'pointermove' && e.buttons !== 1) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const chartX = (e.clientX - bounds.left) / minimapScale;
+    const chartY = (e.clientY - bounds.top) / minimapScale;
+    setView(current => ({
+      ...current,
+      x: viewportWidth / 2 - chartX * current.scale,
+      y: viewportHeight / 2 - chartY * current.scale,
+    }));
+  };
+
+  const getNodeColor = (node: any) => {
+    if (selectedNodeId === node.id) return 'bg-blue-600 text-white border-blue-700';
+    if (completedIds.has(node.id)) return 'bg-green-100 text-green-800 border-green-400 hover:bg-green-200';
+    switch (node.type) {
+      case 'foundation': return 'bg-blue-100 text-blue-800 border-blue-300 hover:bg-blue-200';
+      case 'core': return 'bg-yellow-100 text-yellow-800 border-yellow-300 hover:bg-yellow-200';
+      case 'specialized': return 'bg-purple-100 text-purple-800 border-purple-300 hover:bg-purple-200';
+      case 'elective': return 'bg-gray-100 text-gray-800 border-gray-300 hover:bg-gray-200';
+      default: return 'bg-white text-gray-800 border-gray-300';
+    }
+  };
+
+  if (!roadmap || !sortedNodes || !Array.isArray(sortedNodes)) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="text-center text-gray-500">
+          <p>{t('flowchart.invalid')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const correctedNodes = sortedNodes.filter(node => node.corrections && node.corrections.length > 0);
+  // Roving tabindex: the chart is a single tab stop, and arrow keys move between nodes
+  const tabStop = tabStopId && nodePositions[tabStopId] ? tabStopId : sortedNodes[0]?.id;
+  const zoomButton = 'p-1.5 bg-white border border-gray-300 rounded shadow-sm text-gray-700 hover:bg-gray-50';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="mb-4">
+        <h3 className="text-xl font-bold text-gray-800">{roadmap.title}</h3>
+        <p className="text-gray-600">{roadmap.description}</p>
+        <div className="mt-2 p-3 bg-blue-50 rounded-lg">
+          <h4 className="font-semibold text-blue-800 mb-1">{t('flowchart.reasoning')}</h4>
+          <p className="text-sm text-blue-700">{roadmap.reasoning}</p>
+        </div>
+        {correctedNodes.length > 0 && (
+          <div className="mt-2 p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800">
+            <AlertCircle className="h-4 w-4 inline mr-1" />
+            {t('flowchart.corrected', { count: correctedNodes.length })}
+          </div>
+        )}
+      </div>
+      <p id={hintId} className="mb-2 text-xs text-gray-500">{t('flowchart.hint')}</p>
+      <div
+        ref={viewportRef}
+        role="group"
+        aria-label={t('flowchart.ariaLabel', { title: roadmap.title, count: sortedNodes.length })}
+        aria-describedby={hintId}
+        className="relative overflow-hidden border border-gray-200 rounded-lg bg-gray-50 cursor-grab active:cursor-grabbing select-none"
+        style={{ height: viewportHeight }}
+        onKeyDown={handleViewportKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerCancel={() => { dragRef.current = null; }}
+        // Tabbing into a clipped node scrolls the viewport natively; the transform does the panning
+        onScroll={(e) => {
+          e.currentTarget.scrollLeft = 0;
+          e.currentTarget.scrollTop = 0;
+        }}
+      >
+        <div
+          className="absolute top-0 left-0 origin-top-left"
+          style={{ width: layout.width, height: layout.height, transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        >
+          <svg className="absolute inset-0" width={layout.width} height={layout.height} aria-hidden="true">
+            <defs>
+              {['default', 'active'].map(variant => (
+                <marker
+                  key={variant}
+                  id={`${markerId}-${variant}`}
+                  viewBox="0 0 10 10"
+                  refX="9"
+                  refY="5"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto-start-reverse"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={variant === 'active' ? '#2563eb' : '#94a3b8'} />
+                </marker>
+              ))}
+            </defs>
+            {layout.layers.map((layer, index) => layer.length > 0 && (
+              <text
+                key={index}
+                x={8}
+                y={nodePositions[layer[0]].y + NODE_HEIGHT / 2}
+                fontSize="12"
+                fill="#6b7280"
+                dominantBaseline="middle"
+              >
+                {layerLabel(layout, index)}
+              </text>
+            ))}
+            {layout.edges.map(edge => {
+              const active = isChainEdge(edge.from, edge.to);
+              return (
+                <path
+                  key={`${edge.from}-${edge.to}`}
+                  d={edge.path}
+                  fill="none"
+                  stroke={active ? '#2563eb' : '#94a3b8'}
+                  strokeWidth={active ? 3 : 2}
+                  markerEnd={`url(#${markerId}-${active ? 'active' : 'default'})`}
+                  className={`transition-opacity ${chain && !active ? 'opacity-20' : 'opacity-80'}`}
+                />
+              );
+            })}
+          </svg>
+          {sortedNodes.map(node => (
+            <div
+              key={node.id}
+              ref={element => { nodeRefs.current[node.id] = element; }}
+              data-node
+              role="button"
+              tabIndex={node.id === tabStop ? 0 : -1}
+              aria-label={describeNode(node)}
+              aria-pressed={selectedNodeId === node.id}
+              className={`absolute flex flex-col justify-center border-2 rounded-lg p-2 cursor-pointer transition-all text-sm font-medium text-center shadow-sm overflow-hidden focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-400 ${getNodeColor(node)} ${node.corrections?.length ? 'ring-2 ring-amber-400' : highlightedIds?.has(node.id) ? 'ring-2 ring-emerald-500' : ''} ${isOnChain(node.id) ? '' : 'opacity-30'}`}
+              title={node.corrections?.length ? t('flowchart.correctedTitle', { changes: node.corrections.join('; ') }) : undefined}
+              style={{
+                left: nodePositions[node.id].x,
+                top: nodePositions[node.id].y,
+                width: NODE_WIDTH,
+                height: NODE_HEIGHT,
+              }}
+              onClick={() => onNodeClick(node)}
+              onKeyDown={(e) => handleNodeKeyDown(e, node)}
+              onMouseEnter={() => setHoveredId(node.id)}
+              onMouseLeave={() => setHoveredId(null)}
+              onFocus={() => {
+                setFocusedId(node.id);
+                setTabStopId(node.id);
+                reveal(node.id);
+              }}
+              onBlur={() => setFocusedId(null)}
+            >
+              <div className="flex items-center justify-center mb-1">
+                <button
+                  tabIndex={-1}
+                  disabled={!onToggleComplete}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleComplete?.(node.id);
+                  }}
+                  title={completedIds.has(node.id) ? t('flowchart.markIncomplete') : t('flowchart.markComplete')}
+                  aria-label={completedIds.has(node.id) ? t('flowchart.markIncomplete') : t('flowchart.markComplete')}
+                  className="mr-1"
+                >
+                  {completedIds.has(node.id)
+                    ? <CheckCircle className="h-4 w-4 text-green-600" />
+                    : <Circle className="h-4 w-4" />}
+                </button>
+                {node.corrections?.length ? <AlertCircle className="h-4 w-4 text-amber-500" /> : null}
+              </div>
+              <div className="text-xs leading-tight mb-1 line-clamp-2">{nameOf(node)}</div>
+              <div className="text-xs text-gray-500">
+                {t('flowchart.nodeCredits', { credits: node.credits, year: node.year, semester: node.semester })}
+              </div>
+              <div className="text-xs text-gray-400">
+                {t('flowchart.relevance', { percent: Math.round(node.relevance_score * 100) })}
+              </div>
+            </div>
+          ))}
+        </div>
+        {/* Zoom Controls */}
+        <div className="absolute top-2 right-2 flex gap-1">
+          <button
+            onClick={() => zoomAt(ZOOM_STEP, viewportWidth / 2, viewportHeight / 2)}
+            title={t('flowchart.zoomIn')}
+            aria-label={t('flowchart.zoomIn')}
+            className={zoomButton}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => zoomAt(1 / ZOOM_STEP, viewportWidth / 2, viewportHeight / 2)}
+            title={t('flowchart.zoomOut')}
+            aria-label={t('flowchart.zoomOut')}
+            className={zoomButton}
+          >
+            <ZoomOut className="h-4 w-4" />
+          </button>
+          <button onClick={fit} title={t('flowchart.fit')} aria-label={t('flowchart.fit')} className={zoomButton}>
+            <Maximize2 className="h-4 w-4" />
+          </button>
+        </div>
+        {/* Minimap */}
+        <svg
+          className="absolute bottom-2 right-2 bg-white/90 border border-gray-300 rounded shadow-sm cursor-pointer"
+          width={MINIMAP_WIDTH}
+          height={minimapHeight}
+          aria-hidden="true"
+          onPointerDown={handleMinimapPointer}
+          onPointerMove={handleMinimapPointer}
+        >
+          {sortedNodes.map(node => (
+            <rect
+              key={node.id}
+              x={nodePositions[node.id].x * minimapScale}
+              y={nodePositions[node.id].y * minimapScale}
+              width={NODE_WIDTH * minimapScale}
+              height={NODE_HEIGHT * minimapScale}
+              fill={completedIds.has(node.id) ? '#86efac' : MINIMAP_COLORS[node.type] || '#d1d5db'}
+            />
+          ))}
+          <rect
+            x={(-view.x / view.scale) * minimapScale}
+            y={(-view.y / view.scale) * minimapScale}
+            width={(viewportWidth / view.scale) * minimapScale}
+            height={(viewportHeight / view.scale) * minimapScale}
+            fill="rgba(37, 99, 235, 0.08)"
+            stroke="#2563eb"
+            strokeWidth="1"
+          />
+        </svg>
+      </div>
+      {/* Legend */}
+      <div className="mt-6 flex flex-wrap gap-4 text-sm">
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 bg-blue-100 border border-blue-300 rounded"></div>
+          <span>{t('legend.foundation')}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 bg-yellow-100 border border-yellow-300 rounded"></div>
+          <span>{t('legend.core')}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 bg-purple-100 border border-purple-300 rounded"></div>
+          <span>{t('legend.specialized')}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 bg-gray-100 border border-gray-300 rounded"></div>
+          <span>{t('legend.elective')}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 bg-green-100 border border-green-400 rounded"></div>
+          <span>{t('legend.completed')}</span>
+        </div>
+        {highlightedIds && highlightLabel && (
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-white border border-gray-300 ring-2 ring-emerald-500 rounded"></div>
+            <span>{highlightLabel}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RoadmapFlowchart;
@@ -0,0 +1,176 @@
+import React from 'react';
+import { Subject } from '../services/geminiService';
+import { CompetencyAnalysis, SkillCoverage, SkillStatus } from '../services/competencyModel';
+import { occupationTaxonomy } from '../services/occupationTaxonomy';
+import { useI18n } from '../i18n';
+
+interface SkillCoveragePanelProps {
+  analysis: CompetencyAnalysis;
+  // Subjects with display fields in the active locale
+  subjects: Subject[];
+  onSelectSubject: (subject: Subject) => void;
+}
+
+const CHART_SIZE = 300;
+const CHART_RADIUS = 90;
+// Room on both sides for the labels of the left and right axes
+const LABEL_MARGIN = 60;
+const RINGS = [0.25, 0.5, 0.75, 1];
+// A radar needs at least three axes; fewer skills are only listed
+const MIN_RADAR_SKILLS = 3;
+
+const statusStyles: Record<SkillStatus, string> = {
+  covered: 'bg-green-100 text-green-800',
+  partial: 'bg-amber-100 text-amber-800',
+  missing: 'bg-red-100 text-red-800',
+};
+
+const percent = (value: number) => Math.round(value * 100);
+
+const pointAt = (index: number, count: number, value: number) => {
+  const angle = -Math.PI / 2 + (2 * Math.PI * index) / count;
+  const center = CHART_SIZE / 2;
+  return { x: center + Math.cos(angle) * CHART_RADIUS * value, y: center + Math.sin(angle) * CHART_RADIUS * value };
+};
+
+const polygon = (values: number[]) =>
+  values.map((value, index) => {
+    const { x, y } = pointAt(index, values.length, value);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+function SkillRadar({ skills }: { skills: SkillCoverage[] }) {
+  const { t, locale } = useI18n();
+  const count = skills.length;
+  return (
+    <svg
+      viewBox={`${-LABEL_MARGIN} 0 ${CHART_SIZE + 2 * LABEL_MARGIN} ${CHART_SIZE}`}
+      className="w-full max-w-sm mx-auto"
+      role="img"
+      aria-label={t('skills.chart')}
+    >
+      {RINGS.map(ring => (
+        <polygon key={ring} points={polygon(skills.map(() => ring))} fill="none" stroke="#e5e7eb" />
+      ))}
+      {skills.map((entry, index) => {
+        const end = pointAt(index, count, 1);
+        const label = pointAt(index, count, 1.22);
+        const anchor = Math.abs(label.x - CHART_SIZE / 2) < 1 ? 'middle' : label.x < CHART_SIZE / 2 ? 'end' : 'start';
+        return (
+          <g key={entry.skill.id}>
+            <line x1={CHART_SIZE / 2} y1={CHART_SIZE / 2} x2={end.x} y2={end.y} stroke="#e5e7eb" />
+            <text
+              x={label.x}
+              y={label.y}
+              textAnchor={anchor}
+              dominantBaseline="middle"
+              fontSize={entry.importance === 1 ? 10 : 9}
+              fontWeight={entry.importance === 1 ? 600 : 400}
+              fill={entry.status === 'covered' ? '#374151' : '#b91c1c'}
+            >
+              {entry.skill.name[locale]}
+            </text>
+          </g>
+        );
+      })}
+      <polygon
+        points={polygon(skills.map(entry => entry.completed + entry.planned))}
+        fill="#fcd34d"
+        fillOpacity={0.45}
+        stroke="#f59e0b"
+      />
+      <polygon points={polygon(skills.map(entry => entry.completed))} fill="#22c55e" fillOpacity={0.5} stroke="#16a34a" />
+    </svg>
+  );
+}
+
+function SkillRow({ entry, subjects, onSelectSubject }: { entry: SkillCoverage } & Omit<SkillCoveragePanelProps, 'analysis'>) {
+  const { t, locale } = useI18n();
+  const nameOf = (id: string) => subjects.find(subject => subject.id === id)?.name || id;
+  const suggestions = entry.suggestions
+    .map(({ id }) => subjects.find(subject => subject.id === id))
+    .filter((subject): subject is Subject => subject !== undefined);
+
+  return (
+    <li className="py-2">
+      <div className="flex items-center justify-between gap-2">
+        <span
+          className={`text-sm text-gray-800 ${entry.importance === 1 ? 'font-semibold' : ''}`}
+          title={entry.contributors.length > 0
+            ? t('skills.taughtBy', { subjects: entry.contributors.map(({ id }) => nameOf(id)).join(', ') })
+            : undefined}
+        >
+          {entry.skill.name[locale]}
+        </span>
+        <span className={`text-xs px-2 py-0.5 rounded ${statusStyles[entry.status]}`}>
+          {t(`skills.status.${entry.status}`)}
+        </span>
+      </div>
+      <div className="mt-1 h-2 bg-gray-100 rounded flex overflow-hidden">
+        <div className="bg-green-500" style={{ width: `${percent(entry.completed)}%` }} />
+        <div className="bg-amber-300" style={{ width: `${percent(entry.planned)}%` }} />
+      </div>
+      <div className="mt-1 text-xs text-gray-500">
+        {t('skills.progress', { completed: percent(entry.completed), planned: percent(entry.planned) })}
+      </div>
+      {suggestions.length > 0 && (
+        <div className="mt-1 text-xs text-gray-600">
+          {t('skills.fillGap')}{' '}
+          {suggestions.map((subject, idx) => (
+            <React.Fragment key={subject.id}>
+              {idx > 0 && ', '}
+              <button
+                onClick={() => onSelectSubject(subject)}
+                className="text-blue-600 hover:text-blue-800 underline"
+              >
+                {subject.name}
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </li>
+  );
+}
+
+// Radar of the roadmap's coverage of the target occupation's skills, with the uncovered ones
+// listed first together with catalog subjects that would fill them
+function SkillCoveragePanel({ analysis, subjects, onSelectSubject }: SkillCoveragePanelProps) {
+  const { t, locale } = useI18n();
+  const gapIds = new Set(analysis.gaps.map(entry => entry.skill.id));
+  const rows = [...analysis.gaps, ...analysis.skills.filter(entry => !gapIds.has(entry.skill.id))];
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h3 className="text-lg font-bold text-gray-800 mb-2">{t('skills.title')}</h3>
+      {analysis.skills.length === 0 ? (
+        <p className="text-sm text-gray-600">{t('skills.empty')}</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            {t('skills.summary', {
+              percent: percent(analysis.overall),
+              occupation: Object.entries(analysis.weights)
+                .sort((a, b) => b[1] - a[1])
+                .map(([id]) => occupationTaxonomy.displayName(id, locale))
+                .join(' / '),
+              gaps: analysis.gaps.length,
+            })}
+          </p>
+          {analysis.skills.length >= MIN_RADAR_SKILLS && <SkillRadar skills={analysis.skills} />}
+          <div className="flex gap-4 text-xs text-gray-500">
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-500" />{t('skills.legendCompleted')}</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-amber-300" />{t('skills.legendPlanned')}</span>
+          </div>
+          <ul className="mt-2 divide-y divide-gray-100">
+            {rows.map(entry => (
+              <SkillRow key={entry.skill.id} entry={entry} subjects={subjects} onSelectSubject={onSelectSubject} />
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SkillCoveragePanel;
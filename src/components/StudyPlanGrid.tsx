@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { Subject } from '../services/geminiService';
+import { PrerequisiteGraph } from '../services/prerequisiteGraph';
+import { studyPlanner, StudyPlan, PlanViolation, TERM_COUNT } from '../services/studyPlanner';
+import { timetableBuilder } from '../services/timetable';
+import { useI18n } from '../i18n';
+
+interface StudyPlanGridProps {
+  plan: StudyPlan;
+  subjects: Subject[];
+  graph: PrerequisiteGraph;
+  completedIds: Set<string>;
+  startSemester: number;
+  onChange: (plan: StudyPlan) => void;
+  onAutoArrange: (maxCreditsPerTerm: number) => void;
+  onSelectSubject: (subject: Subject) => void;
+}
+
+const UNPLACED = 'unplaced';
+const SEMESTERS = Array.from({ length: TERM_COUNT }, (_, i) => i + 1);
+
+function StudyPlanGrid({
+  plan,
+  subjects,
+  graph,
+  completedIds,
+  startSemester,
+  onChange,
+  onAutoArrange,
+  onSelectSubject,
+}: StudyPlanGridProps) {
+  const { t } = useI18n();
+  const [dragOver, setDragOver] = useState<string | null>(null);
+  const [addId, setAddId] = useState('');
+
+  // Timetable clashes are only known for subjects with class times in the catalog
+  const violations = useMemo(
+    () => [
+      ...studyPlanner.checkPlan(plan, subjects, graph, { startSemester, completedIds }),
+      ...timetableBuilder.clashViolations(plan, subjects),
+    ],
+    [plan, subjects, graph, startSemester, completedIds]
+  );
+  const credits = useMemo(() => studyPlanner.creditsPerTerm(plan, subjects), [plan, subjects]);
+
+  const violationsFor = (subjectId: string) => violations.filter(v => v.subjectId === subjectId);
+  const termViolations = (semester: number) => violations.filter(v => v.subjectId === null && v.semester === semester);
+
+  const planned = new Set([...Object.values(plan.terms).flat(), ...plan.unplaced]);
+  const addable = subjects
+    .filter((subject, index) => subjects.findIndex(s => s.id === subject.id) === index)
+    .filter(subject => !planned.has(subject.id) && !completedIds.has(subject.id) && subject.name.trim());
+
+  const handleDrop = (target: string) => (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(null);
+    const subjectId = e.dataTransfer.getData('text/plain');
+    if (!subjectId) return;
+    onChange(studyPlanner.moveSubject(plan, subjectId, target === UNPLACED ? null : Number(target)));
+  };
+
+  const handleAdd = () => {
+    const subject = subjects.find(s => s.id === addId);
+    if (!subject) return;
+    onChange(studyPlanner.addSubject(plan, subject));
+    setAddId('');
+  };
+
+  const renderCard = (subjectId: string) => {
+    const subject = subjects.find(s => s.id === subjectId);
+    const problems: PlanViolation[] = violationsFor(subjectId);
+    return (
+      <div
+        key={subjectId}
+        draggable
+        onDragStart={(e) => e.dataTransfer.setData('text/plain', subjectId)}
+        onClick={() => subject && onSelectSubject(subject)}
+        title={problems.map(p => p.message).join('\n') || undefined}
+        className={`p-2 mb-2 rounded border text-xs cursor-move bg-white shadow-sm ${
+          problems.length > 0 ? 'border-red-400 bg-red-50' : 'border-gray-300'
+        }`}
+      >
+        <div className="font-medium text-gray-800 leading-tight">{subject?.name || subjectId}</div>
+        <div className="text-gray-500">{t('plan.nodeCredits', { credits: subject?.credits ?? '?' })}</div>
+        {problems.map((problem, idx) => (
+          <div key={idx} className="mt-1 text-red-700 flex gap-1">
+            <AlertCircle className="h-3 w-3 flex-shrink-0 mt-0.5" />
+            <span>{problem.message}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const columnClass = (key: string) =>
+    `rounded-lg p-2 min-h-32 ${dragOver === key ? 'bg-blue-100' : 'bg-gray-50'}`;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold text-gray-800">{t('plan.title')}</h3>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label className="flex items-center gap-1 text-gray-700">
+            {t('plan.maxCredits')}
+            <input
+              type="number"
+              min={1}
+              value={plan.maxCreditsPerTerm}
+              onChange={(e) => onChange({ ...plan, maxCreditsPerTerm: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-16 border border-gray-300 rounded px-1 py-0.5"
+            />
+          </label>
+          <button
+            onClick={() => onAutoArrange(plan.maxCreditsPerTerm)}
+            className="flex items-center gap-1 px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <RefreshCw className="h-4 w-4" />
+            {t('plan.autoArrange')}
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-2 mb-4 text-sm">
+        <select
+          value={addId}
+          onChange={(e) => setAddId(e.target.value)}
+          className="flex-1 border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="">{t('plan.addPlaceholder')}</option>
+          {addable.map(subject => (
+            <option key={subject.id} value={subject.id}>
+              {t('plan.addOption', { name: subject.name, semester: subject.semester, credits: subject.credits })}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!addId}
+          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {t('plan.add')}
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <div className="grid grid-cols-8 gap-2" style={{ minWidth: 1040 }}>
+          {SEMESTERS.map(semester => {
+            const key = String(semester);
+            const overCap = termViolations(semester).length > 0;
+            return (
+              <div
+                key={key}
+                className={columnClass(key)}
+                onDragOver={(e) => { e.preventDefault(); setDragOver(key); }}
+                onDragLeave={() => setDragOver(null)}
+                onDrop={handleDrop(key)}
+              >
+                <div className={`text-xs font-semibold mb-2 ${semester < startSemester ? 'text-gray-400' : 'text-gray-700'}`}>
+                  Y{Math.ceil(semester / 2)} S{semester}
+                  <span className={`ml-1 ${overCap ? 'text-red-600' : 'text-gray-500'}`}>
+                    {credits[semester] || 0}/{plan.maxCreditsPerTerm}
+                  </span>
+                </div>
+                {(plan.terms[semester] || []).map(renderCard)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      {plan.unplaced.length > 0 && (
+        <div
+          className={`mt-4 ${columnClass(UNPLACED)}`}
+          onDragOver={(e) => { e.preventDefault(); setDragOver(UNPLACED); }}
+          onDragLeave={() => setDragOver(null)}
+          onDrop={handleDrop(UNPLACED)}
+        >
+          <div className="text-xs font-semibold text-red-700 mb-2">{t('plan.unplaced')}</div>
+          <div className="grid grid-cols-4 gap-2">{plan.unplaced.map(renderCard)}</div>
+        </div>
+      )}
+      <p className="mt-4 text-xs text-gray-500">
+        {t('plan.hint')} {violations.length === 0
+          ? t('plan.ok')
+          : t('plan.violations', { count: violations.length })}
+      </p>
+    </div>
+  );
+}
+
+export default StudyPlanGrid;
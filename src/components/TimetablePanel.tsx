@@ -0,0 +1,239 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CalendarDays } from 'lucide-react';
+import { Subject } from '../services/geminiService';
+import { PrerequisiteGraph } from '../services/prerequisiteGraph';
+import { studyPlanner, StudyPlan, TERM_COUNT } from '../services/studyPlanner';
+import {
+  PERIOD_COUNT,
+  PERIOD_TIMES,
+  quarterLabel,
+  semesterStartDate,
+  slotKey,
+  timetableBuilder,
+} from '../services/timetable';
+import { useI18n } from '../i18n';
+
+interface TimetablePanelProps {
+  plan: StudyPlan;
+  // Subjects with display fields in the active locale
+  subjects: Subject[];
+  graph: PrerequisiteGraph;
+  completedIds: Set<string>;
+  startSemester: number;
+  // Gives the calendar export its dates; null until the catalog manifest has loaded
+  admissionYear: number | null;
+  onChange: (plan: StudyPlan) => void;
+  onSelectSubject: (subject: Subject) => void;
+}
+
+const SEMESTERS = Array.from({ length: TERM_COUNT }, (_, i) => i + 1);
+const PERIODS = Array.from({ length: PERIOD_COUNT }, (_, i) => i + 1);
+
+const download = (content: string, name: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Weekly grid of one planned semester from the subjects' class times, with clashes, moves that
+// resolve them and an iCalendar export
+function TimetablePanel({
+  plan,
+  subjects,
+  graph,
+  completedIds,
+  startSemester,
+  admissionYear,
+  onChange,
+  onSelectSubject,
+}: TimetablePanelProps) {
+  const { t } = useI18n();
+  // The first remaining term with subjects planned
+  const [semester, setSemester] = useState(
+    () => SEMESTERS.find(term => term >= startSemester && (plan.terms[term] || []).length > 0) ?? startSemester
+  );
+  // Empty: the approximate start of the semester
+  const [startDate, setStartDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const credits = useMemo(() => studyPlanner.creditsPerTerm(plan, subjects), [plan, subjects]);
+  const week = useMemo(() => timetableBuilder.buildWeek(plan, semester, subjects), [plan, semester, subjects]);
+  const suggestions = useMemo(
+    () => timetableBuilder.suggestAlternatives(plan, semester, subjects, graph, { startSemester, completedIds }),
+    [plan, semester, subjects, graph, startSemester, completedIds]
+  );
+
+  const subjectOf = (id: string) => subjects.find(subject => subject.id === id);
+  const nameOf = (id: string) => subjectOf(id)?.name || id;
+  const clashKeys = new Set(week.clashes.map(clash => slotKey(clash.day, clash.period)));
+  const scheduled = (plan.terms[semester] || []).length - week.unscheduled.length;
+  const defaultStartDate = admissionYear !== null ? semesterStartDate(admissionYear, semester) : '';
+
+  const handleSemesterChange = (term: number) => {
+    setSemester(term);
+    setStartDate('');
+    setError(null);
+  };
+
+  const handleExport = () => {
+    if (admissionYear === null) return;
+    try {
+      const calendar = timetableBuilder.toICalendar(plan, semester, subjects, {
+        admissionYear,
+        startDate: startDate || undefined,
+        calendarName: t('timetable.calendarName', { semester }),
+      });
+      download(calendar, `timetable-s${semester}.ics`, 'text/calendar');
+      setError(null);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold text-gray-800">{t('timetable.title')}</h3>
+        <select
+          value={semester}
+          onChange={(e) => handleSemesterChange(Number(e.target.value))}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+        >
+          {SEMESTERS.map(term => (
+            <option key={term} value={term}>
+              Y{Math.ceil(term / 2)} S{term} ({t('plan.nodeCredits', { credits: credits[term] || 0 })})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {scheduled === 0 ? (
+        <p className="text-sm text-gray-600">{t('timetable.noSchedule')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs border-collapse" style={{ minWidth: 640 }}>
+            <thead>
+              <tr>
+                <th className="w-20" />
+                {week.days.map(day => (
+                  <th key={day} className="p-1 text-gray-700 font-semibold">{t(`timetable.day.${day}`)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {PERIODS.map(period => (
+                <tr key={period}>
+                  <th className="p-1 text-left align-top text-gray-700 font-semibold">
+                    {t('timetable.period', { period })}
+                    <div className="font-normal text-gray-500">{PERIOD_TIMES[period].start}–{PERIOD_TIMES[period].end}</div>
+                  </th>
+                  {week.days.map(day => {
+                    const key = slotKey(day, period);
+                    const clash = clashKeys.has(key);
+                    return (
+                      <td
+                        key={key}
+                        className={`p-1 align-top border ${clash ? 'border-red-400 bg-red-50' : 'border-gray-200'}`}
+                      >
+                        {(week.cells[key] || []).map(entry => {
+                          const subject = subjectOf(entry.subjectId);
+                          const quarter = quarterLabel(semester, entry.term);
+                          return (
+                            <button
+                              key={entry.subjectId}
+                              onClick={() => subject && onSelectSubject(subject)}
+                              className="block w-full mb-1 p-1 rounded bg-blue-50 text-left text-gray-800 hover:bg-blue-100"
+                            >
+                              {nameOf(entry.subjectId)}
+                              {quarter && <span className="ml-1 text-blue-700">{quarter}</span>}
+                            </button>
+                          );
+                        })}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {week.unscheduled.length > 0 && (
+        <p className="mt-3 text-xs text-gray-600">
+          {t('timetable.unscheduled', { names: week.unscheduled.map(nameOf).join(', ') })}
+        </p>
+      )}
+
+      {week.clashes.length === 0 ? (
+        scheduled > 0 && <p className="mt-3 text-sm text-green-700">{t('timetable.noClashes')}</p>
+      ) : (
+        <div className="mt-4">
+          <h4 className="text-sm font-semibold text-red-700 mb-1">{t('timetable.clashes', { count: week.clashes.length })}</h4>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {week.clashes.map(clash => (
+              <li key={slotKey(clash.day, clash.period)} className="flex gap-1">
+                <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5 text-red-600" />
+                {t('timetable.clash', {
+                  day: t(`timetable.day.${clash.day}`),
+                  period: clash.period,
+                  names: clash.subjectIds.map(nameOf).join(', '),
+                })}
+              </li>
+            ))}
+          </ul>
+          <h4 className="mt-3 text-sm font-semibold text-gray-800 mb-1">{t('timetable.suggestions')}</h4>
+          {suggestions.length === 0 ? (
+            <p className="text-sm text-gray-600">{t('timetable.noSuggestions')}</p>
+          ) : (
+            <ul className="text-sm text-gray-700 space-y-1">
+              {suggestions.map(suggestion => (
+                <li key={suggestion.subjectId} className="flex flex-wrap items-center gap-2">
+                  {t('timetable.suggestion', { name: nameOf(suggestion.subjectId), semester: suggestion.to })}
+                  <span className="text-gray-500">
+                    {suggestion.clashesAfter === 0
+                      ? t('timetable.suggestionResolves')
+                      : t('timetable.suggestionLeft', { count: suggestion.clashesAfter })}
+                  </span>
+                  <button
+                    onClick={() => onChange(studyPlanner.moveSubject(plan, suggestion.subjectId, suggestion.to))}
+                    className="px-2 py-0.5 border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    {t('timetable.apply')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <label className="flex items-center gap-1">
+          {t('timetable.startDate')}
+          <input
+            type="date"
+            value={startDate || defaultStartDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={admissionYear === null || scheduled === 0}
+          className="flex items-center gap-1 px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <CalendarDays className="h-4 w-4" />
+          {t('timetable.export')}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">{t('timetable.exportHint')}</p>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export default TimetablePanel;
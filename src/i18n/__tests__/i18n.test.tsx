@@ -0,0 +1,128 @@
+import { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { I18n, i18n, translate, useI18n } from '..';
+import { MESSAGES } from '../messages';
+
+const STORAGE_KEY = 'tokushima-roadmap:locale';
+
+afterEach(() => {
+  window.localStorage.clear();
+  jest.restoreAllMocks();
+});
+
+describe('translate', () => {
+  it('fills in the parameters it is given and leaves the others', () => {
+    expect(translate('en', 'integrity.skipped', { skipped: 2, total: 10 })).toBe('2 of 10 subjects were skipped.');
+    expect(translate('en', 'integrity.skipped', { skipped: 2 })).toBe('2 of {total} subjects were skipped.');
+    expect(translate('ja', 'compare.mergedTitle', { occupations: 'A + B' })).toBe('統合プラン：A + B');
+  });
+
+  it('falls back to English for a message missing from a locale', () => {
+    const message = MESSAGES.ja['app.title'];
+    MESSAGES.ja['app.title'] = '';
+    try {
+      expect(translate('ja', 'app.title')).toBe(MESSAGES.en['app.title']);
+    } finally {
+      MESSAGES.ja['app.title'] = message;
+    }
+  });
+});
+
+describe('I18n', () => {
+  it('starts in the stored locale, then the browser language, then English', () => {
+    const language = jest.spyOn(window.navigator, 'language', 'get').mockReturnValue('ja-JP');
+    expect(new I18n().getLocale()).toBe('ja');
+
+    window.localStorage.setItem(STORAGE_KEY, 'en');
+    expect(new I18n().getLocale()).toBe('en');
+
+    window.localStorage.setItem(STORAGE_KEY, 'fr');
+    language.mockReturnValue('de-DE');
+    expect(new I18n().getLocale()).toBe('en');
+  });
+
+  it('ignores storage it cannot read', () => {
+    jest.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new Error('SecurityError');
+    });
+    jest.spyOn(window.navigator, 'language', 'get').mockReturnValue('ja');
+
+    expect(new I18n().getLocale()).toBe('ja');
+  });
+
+  it('stores a new locale and notifies subscribers until they unsubscribe', () => {
+    const store = new I18n('en');
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.setLocale('ja');
+    store.setLocale('ja');
+    expect(store.getLocale()).toBe('ja');
+    expect(store.t('locale.label')).toBe(MESSAGES.ja['locale.label']);
+    expect(window.localStorage.getItem(STORAGE_KEY)).toBe('ja');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    store.setLocale('en');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(new I18n().getLocale()).toBe('en');
+  });
+
+  it('switches the locale even when it cannot be stored', () => {
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    const store = new I18n('en');
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.setLocale('ja');
+    expect(store.getLocale()).toBe('ja');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useI18n', () => {
+  const Label = () => {
+    const { locale, t, setLocale } = useI18n();
+    return <button onClick={() => setLocale(locale === 'en' ? 'ja' : 'en')}>{`${locale}: ${t('locale.label')}`}</button>;
+  };
+
+  let root: Root | null = null;
+
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = null;
+    i18n.setLocale('en');
+  });
+
+  // Mounts the component in English and returns its container
+  const mount = (): HTMLDivElement => {
+    i18n.setLocale('en');
+    const container = document.createElement('div');
+    root = createRoot(container);
+    act(() => root!.render(<Label />));
+    return container;
+  };
+
+  it('renders in the current locale and again whenever it changes', () => {
+    const container = mount();
+    expect(container.textContent).toBe(`en: ${MESSAGES.en['locale.label']}`);
+
+    act(() => i18n.setLocale('ja'));
+    expect(container.textContent).toBe(`ja: ${MESSAGES.ja['locale.label']}`);
+  });
+
+  it('switches the shared locale from a component', () => {
+    const container = mount();
+    act(() => container.querySelector('button')!.click());
+
+    expect(i18n.getLocale()).toBe('ja');
+    expect(container.textContent).toBe(`ja: ${MESSAGES.ja['locale.label']}`);
+    expect(window.localStorage.getItem(STORAGE_KEY)).toBe('ja');
+  });
+});
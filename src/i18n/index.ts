@@ -0,0 +1,74 @@
+import { useSyncExternalStore } from 'react';
+import { Locale, MessageKey, MESSAGES } from './messages';
+
+export type { Locale, MessageKey } from './messages';
+export { LOCALES } from './messages';
+
+export type MessageParams = Record<string, string | number>;
+
+const LOCALE_STORAGE_KEY = 'tokushima-roadmap:locale';
+
+// Pure lookup so services can produce text for a locale without the React hook
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string =>
+  (MESSAGES[locale][key] || MESSAGES.en[key]).replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  );
+
+const detectLocale = (): Locale => {
+  try {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (stored === 'en' || stored === 'ja') return stored;
+  } catch (error) {
+    // localStorage is unavailable outside the browser or in private browsing
+  }
+  if (typeof navigator !== 'undefined' && navigator.language?.startsWith('ja')) {
+    return 'ja';
+  }
+  return 'en';
+};
+
+type Listener = () => void;
+
+export class I18n {
+  private locale: Locale;
+  private listeners = new Set<Listener>();
+
+  constructor(locale: Locale = detectLocale()) {
+    this.locale = locale;
+  }
+
+  getLocale = (): Locale => this.locale;
+
+  setLocale(locale: Locale) {
+    if (locale === this.locale) return;
+    this.locale = locale;
+    try {
+      window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    } catch (error) {
+      // Preference just won't persist
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  t(key: MessageKey, params?: MessageParams): string {
+    return translate(this.locale, key, params);
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const i18n = new I18n();
+
+export const useI18n = () => {
+  const locale = useSyncExternalStore(i18n.subscribe, i18n.getLocale);
+  return {
+    locale,
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    setLocale: (next: Locale) => i18n.setLocale(next),
+  };
+};
@@ -0,0 +1,648 @@
+export type Locale = 'en' | 'ja';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'ja', label: '日本語' },
+];
+
+export const en = {
+  'app.title': 'Tokushima University Course Roadmap',
+  'app.subtitle': 'AI-powered course roadmap for Electrical and Electronic System Course students',
+  'locale.label': 'Language',
+
+  'apiKey.title': 'AI Engine Unavailable',
+  'apiKey.body': 'The roadmap server at /api/roadmap is not running or has no provider configured. Set GEMINI_API_KEY (or choose another provider with LLM_PROVIDER) on the server to enable AI-powered roadmaps. The offline engine works without a key.',
+
+  'integrity.title': 'Syllabus data has integrity problems',
+  'integrity.body': '{errors} errors and {warnings} warnings were found in the {year} catalog.',
+  'integrity.skipped': '{skipped} of {total} subjects were skipped.',
+  'integrity.incomplete': 'Roadmaps may be incomplete.',
+  'integrity.details': 'Show details',
+
+  'input.label': "What's your dream occupation?",
+  'input.placeholder': 'e.g., Electrical Engineer, Communication Engineer...',
+  'input.generate': 'Generate',
+  'input.generating': 'Generating...',
+  'input.cancel': 'Cancel',
+  'input.loadingData': 'Loading Data...',
+  'occupation.matched': 'Closest known occupations: {occupations}',
+  'occupation.unmatched': 'Not a known occupation. The AI will read it as written; offline plans need a known one.',
+  'engine.offline': 'Offline (catalog scores)',
+  'engine.ai': 'AI ({model})',
+
+  'error.title': 'Error',
+  'error.loadSyllabus': 'Failed to load syllabus data',
+  'error.waitForData': 'Please wait for syllabus data to finish loading.',
+  'error.generate': 'Failed to generate roadmap: {message}',
+  'error.generateGeneric': 'Failed to generate roadmap. Please try again.',
+  'notice.title': 'Notice',
+  'notice.aiFallback': 'AI generation failed ({reason}). Showing the offline roadmap instead.',
+  'providerError.auth': 'the API key is missing or was rejected',
+  'providerError.rate_limit': 'the AI service is rate limiting requests or the quota is used up; try again later',
+  'providerError.timeout': 'the AI service did not respond in time',
+  'providerError.malformed_output': 'the AI returned a roadmap that could not be used',
+  'providerError.safety': 'the AI service blocked the response',
+  'providerError.unavailable': 'the AI service could not be reached',
+  'providerError.invalid_request': 'the request was rejected by the roadmap server',
+
+  'roadmap.heading': '{title} Roadmap',
+  'roadmap.hint': 'Click on a subject to view details, or its circle to mark it completed',
+  'roadmap.credits': 'credits earned / planned',
+  'roadmap.promptStats': 'AI prompt: {tokens} tokens, {sent} subjects sent, {omitted} left out',
+  'roadmap.generatedAt': 'Generated {time}',
+  'roadmap.cachedAt': 'From cache, generated {time}',
+  'roadmap.regenerate': 'Regenerate',
+  'roadmap.regenerateHint': 'Ask the AI again instead of reusing the cached roadmap',
+  'roadmap.undo': 'Undo',
+  'roadmap.redo': 'Redo',
+  'chat.title': 'Refine this roadmap',
+  'chat.hint': 'Ask for changes ("swap a subject for something on embedded systems", "I failed a subject, re-plan around it") or ask why a subject is included. Changes are only made after you apply them.',
+  'chat.placeholder': 'e.g. Why is this subject included?',
+  'chat.send': 'Send',
+  'chat.thinking': 'Thinking…',
+  'chat.unavailable': 'The refinement chat needs an AI provider on the roadmap server.',
+  'chat.error': 'Could not refine the roadmap: {reason}',
+  'chat.term': 'Y{year} S{semester}',
+  'chat.diffMoved': '{subject}: {from} → {to}',
+  'chat.diffReasoning': 'Reasoning updated',
+  'chat.diffCredits': 'Credits: {before} → {after}',
+  'chat.warningRemoved': '{subject} needs {prerequisite}, which this change removes',
+  'chat.warningOrder': '{subject} would no longer come after its prerequisite {prerequisite}',
+  'chat.apply': 'Apply',
+  'chat.discard': 'Discard',
+  'chat.applied': 'Applied. Use Undo above the chart to revert it.',
+  'chat.discarded': 'Not applied',
+  'chat.stale': 'The roadmap has changed since this suggestion; ask again to get an up-to-date one.',
+  'view.flowchart': 'Flowchart',
+  'view.plan': 'Semester Plan',
+  'samples.title': 'Try these sample occupations:',
+
+  'nav.roadmap': 'Roadmap',
+  'nav.catalog': 'Course Catalog',
+  'nav.compare': 'Compare',
+  'nav.reviews': 'Advisor Review',
+  'compare.title': 'Compare career roadmaps',
+  'compare.hint': 'Pick two or more roadmaps: the current one, saved ones, or an occupation added below (built with the offline engine).',
+  'compare.current': 'Current: {occupation}',
+  'compare.addPlaceholder': 'Add an occupation, e.g. Control Engineer',
+  'compare.add': 'Add',
+  'compare.remove': 'Remove',
+  'compare.addFailed': 'Could not build a roadmap for "{occupation}": {message}',
+  'compare.selectTwo': 'Select at least two roadmaps to compare.',
+  'compare.sharedCredits': 'Shared credits',
+  'compare.unionCredits': 'Credits to cover all',
+  'compare.overlap': 'Credit overlap',
+  'compare.subject': 'Subject',
+  'compare.roadmapCredits': '{credits} credits',
+  'compare.shared': 'In every roadmap ({count} subjects, {credits} credits)',
+  'compare.partial': 'In some roadmaps ({count} subjects)',
+  'compare.uniqueTo': 'Only in {occupation} ({count} subjects, {credits} credits)',
+  'compare.relevanceHint': 'Bars show each subject\'s career relevance from the catalog for every compared occupation; a check marks the roadmaps that include it.',
+  'compare.sharedLegend': 'Shared by all compared roadmaps',
+  'compare.merged': 'Merged plan',
+  'compare.useMerged': 'Use as my roadmap',
+  'compare.mergedTitle': 'Combined plan: {occupations}',
+  'compare.mergedDescription': '{count} subjects ({credits} credits) covering every compared roadmap.',
+  'catalog.placeholder': 'Search subjects by name, keyword, topic or code…',
+  'catalog.results': '{count} of {total} subjects',
+  'catalog.noResults': 'No subjects match the search and filters.',
+  'catalog.year': 'Year',
+  'catalog.semester': 'Semester',
+  'catalog.credits': 'Credits',
+  'catalog.department': 'Department',
+  'catalog.minRelevance': 'Minimum career relevance',
+  'catalog.anyOccupation': 'Any occupation',
+  'catalog.clear': 'Clear search and filters',
+  'catalog.matchedIn': 'Matched in: {fields}',
+  'catalog.field.name': 'name',
+  'catalog.field.code': 'code',
+  'catalog.field.keywords': 'keywords',
+  'catalog.field.syllabus': 'syllabus',
+  'catalog.field.learning_outcomes': 'learning outcomes',
+  'catalog.field.description': 'description',
+
+  'export.title': 'Export & share',
+  'export.print': 'Print / PDF',
+  'export.shareLink': 'Copy share link',
+  'export.linkCopied': 'Share link copied to the clipboard.',
+  'export.import': 'Import JSON',
+  'export.importFailed': 'Could not import the roadmap: {message}',
+  'notice.missingSubjects': 'These subjects no longer exist in the catalog and were removed from the roadmap: {ids}',
+  'error.shareLink': 'Could not open the shared roadmap: {message}',
+
+  'catalog.admissionYear': 'Admission year',
+  'catalog.admissionYearOption': 'Entered {year}',
+  'catalog.switchFailed': 'Could not switch to the {year} curriculum: {message}',
+  'migration.switchedTitle': 'Moved to the curriculum for students entering in {year}',
+  'migration.importedTitle': 'This roadmap was made for the {from} curriculum and was converted to {to}',
+  'migration.replaced': '{subject} → {replacements}',
+  'migration.removed': '{subject} is not offered and was removed',
+  'migration.rescheduled': '{subject} moves from year {fromYear} semester {fromSemester} to year {toYear} semester {toSemester}',
+  'migration.unchanged': 'All subjects of the current roadmap carry over unchanged.',
+  'migration.savedRoadmaps': '{count} saved roadmaps and your completed subjects were converted as well.',
+  'migration.dismiss': 'Dismiss',
+
+  'report.generated': 'Generated {date}',
+  'report.totalCredits': 'planned credits',
+  'report.earnedCredits': 'credits earned',
+  'report.subjectCount': 'subjects',
+  'report.flowchart': 'Flowchart',
+  'report.semesterTable': 'Semester by semester',
+  'report.term': 'Year {year} · Semester {semester}',
+  'report.termTotal': 'Semester total',
+  'report.code': 'Code',
+  'report.subject': 'Subject',
+  'report.credits': 'Credits',
+  'report.type': 'Type',
+  'report.completed': 'Done',
+  'report.reasoning': 'Reasoning',
+
+  'flowchart.invalid': 'Invalid roadmap data. Please try generating a new roadmap.',
+  'flowchart.reasoning': 'Reasoning:',
+  'flowchart.corrected': 'Subjects corrected against the catalog: {count} (outlined in amber). Hover a subject to see what changed.',
+  'flowchart.correctedTitle': 'Corrected: {changes}',
+  'flowchart.markComplete': 'Mark as completed',
+  'flowchart.markIncomplete': 'Mark as not completed',
+  'flowchart.nodeCredits': '{credits} credits • Y{year}S{semester}',
+  'flowchart.relevance': '{percent}% relevant',
+  'flowchart.hint': 'Drag to pan, Ctrl + scroll to zoom. Hover a subject to trace its prerequisites. Keyboard: arrow keys move between subjects, Enter opens one, C marks it completed, + / − zoom and 0 fits the chart.',
+  'flowchart.ariaLabel': 'Roadmap flowchart for {title}, {count} subjects',
+  'flowchart.ariaPrerequisites': 'Requires {subjects}',
+  'flowchart.ariaLeadsTo': 'Leads to {subjects}',
+  'flowchart.zoomIn': 'Zoom in',
+  'flowchart.zoomOut': 'Zoom out',
+  'flowchart.fit': 'Fit to view',
+  'legend.foundation': 'Foundation',
+  'legend.core': 'Core',
+  'legend.specialized': 'Specialized',
+  'legend.elective': 'Elective',
+  'legend.completed': 'Completed',
+
+  'details.completed': 'Completed',
+  'details.grade': 'Grade',
+  'details.code': 'Code:',
+  'details.credits': 'Credits:',
+  'details.year': 'Year:',
+  'details.semester': 'Semester:',
+  'details.department': 'Department:',
+  'details.description': 'Description:',
+  'details.syllabus': 'Syllabus:',
+  'details.prerequisites': 'Prerequisites:',
+  'details.requiredFor': 'Required for:',
+  'details.keywords': 'Keywords:',
+  'details.learningOutcomes': 'Learning Outcomes:',
+  'details.none': 'None',
+  'details.notFound': 'Not found in the catalog',
+
+  'profile.title': 'My Profile',
+  'profile.year': 'Year',
+  'profile.semester': 'Semester',
+  'profile.completedCount': '{count} subjects completed',
+  'profile.save': 'Save roadmap',
+  'profile.open': 'Open',
+  'profile.delete': 'Delete',
+  'profile.savedSummary': '{credits} credits • {date}',
+
+  'audit.title': 'Degree Audit',
+  'audit.summary': '{course}: {earned} credits earned, {planned} planned',
+  'audit.status.satisfied': 'Satisfied',
+  'audit.status.at_risk': 'At risk',
+  'audit.status.short': 'Short',
+  'audit.progressCredits': '{earned} earned + {planned} planned / {required} credits',
+  'audit.progressSubjects': '{earned} earned + {planned} planned / {required} subjects',
+  'audit.consider': 'Consider:',
+  'audit.more': '+{count} more',
+  'skills.title': 'Skill Coverage',
+  'skills.summary': 'The roadmap covers {percent}% of the skills for {occupation}; {gaps} still have gaps.',
+  'skills.empty': 'No skill profile is defined for this occupation.',
+  'skills.chart': 'Radar chart of skill coverage',
+  'skills.legendCompleted': 'Completed',
+  'skills.legendPlanned': 'Planned',
+  'skills.status.covered': 'Covered',
+  'skills.status.partial': 'Partial',
+  'skills.status.missing': 'Missing',
+  'skills.progress': '{completed}% completed + {planned}% planned',
+  'skills.taughtBy': 'Taught by: {subjects}',
+  'skills.fillGap': 'Would fill the gap:',
+  'reviews.title': 'Advisor Review',
+  'reviews.signInHint': 'Sign in with the review token your advisor or faculty office gave you. Students submit their roadmap for review here; advisors annotate and approve them.',
+  'reviews.tokenPlaceholder': 'Review token',
+  'reviews.signIn': 'Sign in',
+  'reviews.signOut': 'Sign out',
+  'reviews.signedInAs': 'Signed in as {name} ({role})',
+  'reviews.role.student': 'student',
+  'reviews.role.advisor': 'advisor',
+  'reviews.submitTitle': 'Submit the current roadmap',
+  'reviews.submitHint': 'Sends "{title}" together with your {completed} completed subjects. Later changes are sent as new revisions.',
+  'reviews.notePlaceholder': 'Note for your advisor (optional)',
+  'reviews.saveDraft': 'Save as draft',
+  'reviews.noRoadmap': 'Generate or load a roadmap first.',
+  'reviews.listStudent': 'My reviews',
+  'reviews.listAdvisor': 'Student roadmaps',
+  'reviews.allStatuses': 'All statuses',
+  'reviews.status.draft': 'Draft',
+  'reviews.status.submitted': 'Submitted',
+  'reviews.status.changes_requested': 'Changes requested',
+  'reviews.status.approved': 'Approved',
+  'reviews.empty': 'No reviews yet.',
+  'reviews.listEntry': '{revisions} revisions · {annotations} notes · updated {date}',
+  'reviews.refresh': 'Refresh',
+  'reviews.error': 'Review request failed: {message}',
+  'reviews.back': 'All reviews',
+  'reviews.revision': 'Revision',
+  'reviews.revisionOption': '#{number} ({date})',
+  'reviews.revisionSummary': '{subjects} subjects, {credits} credits, {completed} completed',
+  'reviews.openInEditor': 'Open in editor',
+  'reviews.note': 'Student\'s note: {note}',
+  'reviews.resubmit': 'Submit current roadmap as new revision',
+  'reviews.action.draft': 'Withdraw',
+  'reviews.action.submitted': 'Submit for review',
+  'reviews.action.changes_requested': 'Request changes',
+  'reviews.action.approved': 'Approve',
+  'reviews.comment': 'Comment',
+  'reviews.commentPlaceholder.student': 'Comment, or a note sent with your next action',
+  'reviews.commentPlaceholder.advisor': 'Comment, or feedback sent with your decision',
+  'reviews.annotatedLegend': 'Has advisor notes',
+  'reviews.annotateTitle': 'Annotate a subject',
+  'reviews.annotateHint': 'Click a subject in the chart to comment on it or suggest a substitute.',
+  'reviews.annotationPlaceholder': 'Note on this subject',
+  'reviews.substitute': 'Suggest instead',
+  'reviews.noSubstitute': 'No substitution',
+  'reviews.addAnnotation': 'Add note',
+  'reviews.annotations': 'Notes on this revision ({count})',
+  'reviews.noAnnotations': 'No notes on this revision.',
+  'reviews.suggests': 'Suggested instead: {subject}',
+  'reviews.history': 'History',
+  'reviews.event.created': 'created the review with revision {revision}',
+  'reviews.event.revised': 'added revision {revision}',
+  'reviews.event.status': 'set the status to {status}',
+  'reviews.event.annotated': 'added a note on {subject}',
+  'reviews.event.commented': 'commented',
+
+  'plan.title': 'Semester Plan',
+  'plan.maxCredits': 'Max credits / term',
+  'plan.autoArrange': 'Auto-arrange',
+  'plan.addPlaceholder': 'Add a subject to the plan…',
+  'plan.addOption': '{name} (S{semester}, {credits} credits)',
+  'plan.add': 'Add',
+  'plan.nodeCredits': '{credits} credits',
+  'plan.unplaced': 'Could not be placed',
+  'plan.hint': 'Drag subjects between terms.',
+  'plan.ok': 'All constraints are satisfied.',
+  'plan.violations': 'Constraint violations: {count}.',
+
+  'timetable.title': 'Weekly Timetable',
+  'timetable.period': 'Period {period}',
+  'timetable.day.mon': 'Mon',
+  'timetable.day.tue': 'Tue',
+  'timetable.day.wed': 'Wed',
+  'timetable.day.thu': 'Thu',
+  'timetable.day.fri': 'Fri',
+  'timetable.day.sat': 'Sat',
+  'timetable.noSchedule': 'None of the subjects planned for this semester has class times in the catalog.',
+  'timetable.unscheduled': 'No class times in the catalog: {names}',
+  'timetable.noClashes': 'No clashes in this semester.',
+  'timetable.clashes': 'Clashes: {count}',
+  'timetable.clash': '{day}, period {period}: {names}',
+  'timetable.suggestions': 'Alternatives',
+  'timetable.noSuggestions': 'No other term offers these subjects without breaking another constraint. Drop one of them or ask the instructors.',
+  'timetable.suggestion': 'Move {name} to semester {semester}',
+  'timetable.suggestionResolves': '(no clashes left)',
+  'timetable.suggestionLeft': '({count} clashes left in the plan)',
+  'timetable.apply': 'Apply',
+  'timetable.startDate': 'First day of classes',
+  'timetable.export': 'Download calendar (.ics)',
+  'timetable.exportHint': 'Each class becomes a weekly recurring event for its semester or quarter. Public holidays and make-up days are not taken into account.',
+  'timetable.calendarName': 'Semester {semester} timetable',
+
+  'offline.title': '{occupation} Course Plan',
+  'offline.description': '{count} subjects ({credits} credits) chosen from catalog relevance scores for {occupation}.',
+  'offline.reasoningIntro': "This plan was generated offline from the catalog's career relevance scores for {occupation}.",
+  'offline.reasoningMatched': 'It was matched to the closest known occupations: {occupations}.',
+  'offline.reasoningPicked': '{count} subjects scored at or above {threshold} and were ranked by how closely their keywords and learning outcomes match the occupation; the strongest matches are {top}.',
+  'offline.reasoningPrerequisites': '{count} prerequisite subjects were added so that every selected course can be taken in order: {names}.',
+  'offline.reasoningTypes': 'Foundation and core subjects in years 1-2 build the base; year 3-4 subjects are marked specialized when they closely match the occupation and elective otherwise.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export const ja: Record<MessageKey, string> = {
+  'app.title': '徳島大学 履修ロードマップ',
+  'app.subtitle': '電気電子システムコースの学生のためのAI履修ロードマップ',
+  'locale.label': '言語',
+
+  'apiKey.title': 'AIエンジンは利用できません',
+  'apiKey.body': '/api/roadmap のロードマップサーバーが起動していないか、プロバイダーが設定されていません。AIによるロードマップ生成を有効にするには、サーバーで GEMINI_API_KEY を設定するか、LLM_PROVIDER で別のプロバイダーを選択してください。オフラインエンジンはキーなしで利用できます。',
+
+  'integrity.title': 'シラバスデータに不整合があります',
+  'integrity.body': '{year}年度のカタログにエラーが{errors}件、警告が{warnings}件あります。',
+  'integrity.skipped': '{total}科目中{skipped}科目を読み込めませんでした。',
+  'integrity.incomplete': 'ロードマップが不完全になる可能性があります。',
+  'integrity.details': '詳細を表示',
+
+  'input.label': '目指す職業は何ですか？',
+  'input.placeholder': '例：電気技術者、通信技術者…',
+  'input.generate': '生成',
+  'input.generating': '生成中…',
+  'input.cancel': 'キャンセル',
+  'input.loadingData': 'データ読み込み中…',
+  'occupation.matched': '近い既知の職業：{occupations}',
+  'occupation.unmatched': '既知の職業に該当しません。AIは入力どおりに解釈しますが、オフライン生成には既知の職業が必要です。',
+  'engine.offline': 'オフライン（カタログのスコア）',
+  'engine.ai': 'AI（{model}）',
+
+  'error.title': 'エラー',
+  'error.loadSyllabus': 'シラバスデータの読み込みに失敗しました',
+  'error.waitForData': 'シラバスデータの読み込みが完了するまでお待ちください。',
+  'error.generate': 'ロードマップの生成に失敗しました：{message}',
+  'error.generateGeneric': 'ロードマップの生成に失敗しました。もう一度お試しください。',
+  'notice.title': 'お知らせ',
+  'notice.aiFallback': 'AIによる生成に失敗しました（{reason}）。代わりにオフラインのロードマップを表示しています。',
+  'providerError.auth': 'APIキーが設定されていないか、拒否されました',
+  'providerError.rate_limit': 'AIサービスのリクエスト制限または利用上限に達しました。しばらくしてから再度お試しください',
+  'providerError.timeout': 'AIサービスが時間内に応答しませんでした',
+  'providerError.malformed_output': 'AIが利用できないロードマップを返しました',
+  'providerError.safety': 'AIサービスが応答をブロックしました',
+  'providerError.unavailable': 'AIサービスに接続できませんでした',
+  'providerError.invalid_request': 'ロードマップサーバーがリクエストを拒否しました',
+
+  'roadmap.heading': '{title} ロードマップ',
+  'roadmap.hint': '科目をクリックすると詳細を表示、丸印をクリックすると修得済みにします',
+  'roadmap.credits': '修得単位 / 計画単位',
+  'roadmap.promptStats': 'AIプロンプト：{tokens}トークン、送信 {sent}科目、除外 {omitted}科目',
+  'roadmap.generatedAt': '{time} に生成',
+  'roadmap.cachedAt': 'キャッシュから表示（{time} に生成）',
+  'roadmap.regenerate': '再生成',
+  'roadmap.regenerateHint': 'キャッシュされたロードマップを使わずにAIで再生成します',
+  'roadmap.undo': '元に戻す',
+  'roadmap.redo': 'やり直す',
+  'chat.title': 'ロードマップを調整',
+  'chat.hint': '変更の依頼（「この科目を組込みシステム関連の科目に替えて」「単位を落としたので組み直して」）や、科目を選んだ理由の質問ができます。変更は「適用」を押すまで反映されません。',
+  'chat.placeholder': '例：この科目が含まれている理由は？',
+  'chat.send': '送信',
+  'chat.thinking': '考え中…',
+  'chat.unavailable': '調整チャットを使うには、ロードマップサーバーにAIプロバイダーの設定が必要です。',
+  'chat.error': 'ロードマップを調整できませんでした：{reason}',
+  'chat.term': '{year}年 第{semester}学期',
+  'chat.diffMoved': '{subject}：{from} → {to}',
+  'chat.diffReasoning': '選定理由を更新',
+  'chat.diffCredits': '単位数：{before} → {after}',
+  'chat.warningRemoved': '{subject}には{prerequisite}が必要ですが、この変更で削除されます',
+  'chat.warningOrder': '{subject}が前提科目{prerequisite}より後になりません',
+  'chat.apply': '適用',
+  'chat.discard': '破棄',
+  'chat.applied': '適用しました。図の上の「元に戻す」で取り消せます。',
+  'chat.discarded': '適用していません',
+  'chat.stale': 'この提案の後にロードマップが変更されました。もう一度質問してください。',
+  'view.flowchart': 'フローチャート',
+  'view.plan': '学期別プラン',
+  'samples.title': 'サンプルの職業を試す：',
+
+  'nav.roadmap': 'ロードマップ',
+  'nav.catalog': '科目一覧',
+  'nav.compare': '比較',
+  'nav.reviews': 'アドバイザーレビュー',
+  'compare.title': 'キャリア別ロードマップの比較',
+  'compare.hint': '比較するロードマップを2つ以上選択してください。現在のロードマップ、保存済みのロードマップ、または下で追加した職業（オフラインエンジンで作成）を選べます。',
+  'compare.current': '現在：{occupation}',
+  'compare.addPlaceholder': '職業を追加（例：制御技術者）',
+  'compare.add': '追加',
+  'compare.remove': '削除',
+  'compare.addFailed': '「{occupation}」のロードマップを作成できませんでした：{message}',
+  'compare.selectTwo': '比較するロードマップを2つ以上選択してください。',
+  'compare.sharedCredits': '共通の単位',
+  'compare.unionCredits': 'すべてを満たす単位',
+  'compare.overlap': '単位の重複率',
+  'compare.subject': '科目',
+  'compare.roadmapCredits': '{credits}単位',
+  'compare.shared': 'すべてのロードマップに共通（{count}科目、{credits}単位）',
+  'compare.partial': '一部のロードマップに共通（{count}科目）',
+  'compare.uniqueTo': '{occupation} のみ（{count}科目、{credits}単位）',
+  'compare.relevanceHint': 'バーはカタログの職業との関連度を比較対象の職業ごとに示します。チェックはその科目を含むロードマップです。',
+  'compare.sharedLegend': '比較したすべてのロードマップに共通',
+  'compare.merged': '統合プラン',
+  'compare.useMerged': 'このプランを使う',
+  'compare.mergedTitle': '統合プラン：{occupations}',
+  'compare.mergedDescription': '比較したすべてのロードマップを満たす{count}科目（{credits}単位）。',
+  'catalog.placeholder': '科目名・キーワード・授業内容・科目コードで検索…',
+  'catalog.results': '{total}科目中 {count}科目',
+  'catalog.noResults': '検索条件に一致する科目はありません。',
+  'catalog.year': '学年',
+  'catalog.semester': '学期',
+  'catalog.credits': '単位数',
+  'catalog.department': '開講',
+  'catalog.minRelevance': '職業との関連度（下限）',
+  'catalog.anyOccupation': 'すべての職業',
+  'catalog.clear': '検索条件をクリア',
+  'catalog.matchedIn': '一致：{fields}',
+  'catalog.field.name': '科目名',
+  'catalog.field.code': '科目コード',
+  'catalog.field.keywords': 'キーワード',
+  'catalog.field.syllabus': '授業計画',
+  'catalog.field.learning_outcomes': '到達目標',
+  'catalog.field.description': '概要',
+
+  'export.title': 'エクスポート・共有',
+  'export.print': '印刷 / PDF',
+  'export.shareLink': '共有リンクをコピー',
+  'export.linkCopied': '共有リンクをクリップボードにコピーしました。',
+  'export.import': 'JSONを読み込む',
+  'export.importFailed': 'ロードマップを読み込めませんでした：{message}',
+  'notice.missingSubjects': '次の科目は現在のカタログに存在しないため、ロードマップから除外しました：{ids}',
+  'error.shareLink': '共有されたロードマップを開けませんでした：{message}',
+
+  'catalog.admissionYear': '入学年度',
+  'catalog.admissionYearOption': '{year}年度入学',
+  'catalog.switchFailed': '{year}年度入学のカリキュラムに切り替えられませんでした：{message}',
+  'migration.switchedTitle': '{year}年度入学のカリキュラムに移行しました',
+  'migration.importedTitle': 'このロードマップは{from}年度入学のカリキュラムで作成されたため、{to}年度入学用に変換しました',
+  'migration.replaced': '{subject} → {replacements}',
+  'migration.removed': '{subject} は開講されないため除外しました',
+  'migration.rescheduled': '{subject} は{fromYear}年{fromSemester}学期から{toYear}年{toSemester}学期に移動します',
+  'migration.unchanged': '現在のロードマップの科目はすべてそのまま引き継がれます。',
+  'migration.savedRoadmaps': '保存済みロードマップ{count}件と修得済み科目も変換しました。',
+  'migration.dismiss': '閉じる',
+
+  'report.generated': '作成日 {date}',
+  'report.totalCredits': '計画単位',
+  'report.earnedCredits': '修得単位',
+  'report.subjectCount': '科目',
+  'report.flowchart': 'フローチャート',
+  'report.semesterTable': '学期別の履修計画',
+  'report.term': '{year}年 第{semester}学期',
+  'report.termTotal': '学期合計',
+  'report.code': '科目コード',
+  'report.subject': '科目名',
+  'report.credits': '単位',
+  'report.type': '区分',
+  'report.completed': '修得',
+  'report.reasoning': '選定理由',
+
+  'flowchart.invalid': 'ロードマップのデータが不正です。もう一度生成してください。',
+  'flowchart.reasoning': '選定理由：',
+  'flowchart.corrected': 'カタログに合わせて修正した科目：{count}件（オレンジ枠）。科目にカーソルを合わせると変更内容を表示します。',
+  'flowchart.correctedTitle': '修正：{changes}',
+  'flowchart.markComplete': '修得済みにする',
+  'flowchart.markIncomplete': '未修得に戻す',
+  'flowchart.nodeCredits': '{credits}単位 • {year}年 第{semester}学期',
+  'flowchart.relevance': '関連度 {percent}%',
+  'flowchart.hint': 'ドラッグで移動、Ctrl + スクロールで拡大・縮小。科目にカーソルを合わせると履修の流れを表示します。キーボード：矢印キーで科目間を移動、Enter で詳細、C で修得済みの切り替え、+ / − で拡大・縮小、0 で全体表示。',
+  'flowchart.ariaLabel': '{title}のロードマップ（{count}科目）',
+  'flowchart.ariaPrerequisites': '前提科目：{subjects}',
+  'flowchart.ariaLeadsTo': '次の科目：{subjects}',
+  'flowchart.zoomIn': '拡大',
+  'flowchart.zoomOut': '縮小',
+  'flowchart.fit': '全体を表示',
+  'legend.foundation': '基礎',
+  'legend.core': 'コア',
+  'legend.specialized': '専門',
+  'legend.elective': '選択',
+  'legend.completed': '修得済み',
+
+  'details.completed': '修得済み',
+  'details.grade': '成績',
+  'details.code': '科目コード：',
+  'details.credits': '単位数：',
+  'details.year': '学年：',
+  'details.semester': '学期：',
+  'details.department': '開講：',
+  'details.description': '概要：',
+  'details.syllabus': '授業計画：',
+  'details.prerequisites': '履修条件：',
+  'details.requiredFor': '後続科目：',
+  'details.keywords': 'キーワード：',
+  'details.learningOutcomes': '到達目標：',
+  'details.none': 'なし',
+  'details.notFound': 'カタログに見つかりません',
+
+  'profile.title': 'マイプロフィール',
+  'profile.year': '学年',
+  'profile.semester': '学期',
+  'profile.completedCount': '修得済み {count}科目',
+  'profile.save': 'ロードマップを保存',
+  'profile.open': '開く',
+  'profile.delete': '削除',
+  'profile.savedSummary': '{credits}単位 • {date}',
+
+  'audit.title': '卒業要件チェック',
+  'audit.summary': '{course}：修得 {earned}単位、計画 {planned}単位',
+  'audit.status.satisfied': '充足',
+  'audit.status.at_risk': '要注意',
+  'audit.status.short': '不足',
+  'audit.progressCredits': '修得 {earned} + 計画 {planned} / 必要 {required}単位',
+  'audit.progressSubjects': '修得 {earned} + 計画 {planned} / 必要 {required}科目',
+  'audit.consider': '候補：',
+  'audit.more': 'ほか{count}科目',
+  'skills.title': 'スキル習得状況',
+  'skills.summary': 'ロードマップは{occupation}に必要なスキルの{percent}%をカバーしています。不足しているスキルは{gaps}件です。',
+  'skills.empty': 'この職業にはスキルが定義されていません。',
+  'skills.chart': 'スキル習得状況のレーダーチャート',
+  'skills.legendCompleted': '修得済み',
+  'skills.legendPlanned': '計画中',
+  'skills.status.covered': '充足',
+  'skills.status.partial': '一部',
+  'skills.status.missing': '未習得',
+  'skills.progress': '修得 {completed}% + 計画 {planned}%',
+  'skills.taughtBy': '関連科目：{subjects}',
+  'skills.fillGap': '補える科目：',
+  'reviews.title': 'アドバイザーレビュー',
+  'reviews.signInHint': '指導教員または教務担当から受け取ったレビュー用トークンでサインインしてください。学生はここでロードマップをレビューに提出し、アドバイザーはコメントと承認を行います。',
+  'reviews.tokenPlaceholder': 'レビュー用トークン',
+  'reviews.signIn': 'サインイン',
+  'reviews.signOut': 'サインアウト',
+  'reviews.signedInAs': '{name}（{role}）としてサインイン中',
+  'reviews.role.student': '学生',
+  'reviews.role.advisor': 'アドバイザー',
+  'reviews.submitTitle': '現在のロードマップを提出',
+  'reviews.submitHint': '「{title}」を修得済みの{completed}科目とともに送信します。その後の変更は新しい版として送信します。',
+  'reviews.notePlaceholder': 'アドバイザーへのメモ（任意）',
+  'reviews.saveDraft': '下書きとして保存',
+  'reviews.noRoadmap': '先にロードマップを作成または読み込んでください。',
+  'reviews.listStudent': '自分のレビュー',
+  'reviews.listAdvisor': '学生のロードマップ',
+  'reviews.allStatuses': 'すべての状態',
+  'reviews.status.draft': '下書き',
+  'reviews.status.submitted': '提出済み',
+  'reviews.status.changes_requested': '修正依頼',
+  'reviews.status.approved': '承認済み',
+  'reviews.empty': 'レビューはまだありません。',
+  'reviews.listEntry': '{revisions}版・コメント{annotations}件・{date}更新',
+  'reviews.refresh': '更新',
+  'reviews.error': 'レビューの処理に失敗しました：{message}',
+  'reviews.back': 'レビュー一覧',
+  'reviews.revision': '版',
+  'reviews.revisionOption': '第{number}版（{date}）',
+  'reviews.revisionSummary': '{subjects}科目・{credits}単位・修得済み{completed}科目',
+  'reviews.openInEditor': 'エディターで開く',
+  'reviews.note': '学生のメモ：{note}',
+  'reviews.resubmit': '現在のロードマップを新しい版として提出',
+  'reviews.action.draft': '提出を取り下げる',
+  'reviews.action.submitted': 'レビューに提出',
+  'reviews.action.changes_requested': '修正を依頼',
+  'reviews.action.approved': '承認',
+  'reviews.comment': 'コメント',
+  'reviews.commentPlaceholder.student': 'コメント、または次の操作に添えるメモ',
+  'reviews.commentPlaceholder.advisor': 'コメント、または判断に添えるフィードバック',
+  'reviews.annotatedLegend': 'アドバイザーのコメントあり',
+  'reviews.annotateTitle': '科目にコメント',
+  'reviews.annotateHint': 'チャートの科目をクリックすると、コメントや代替科目の提案ができます。',
+  'reviews.annotationPlaceholder': 'この科目へのコメント',
+  'reviews.substitute': '代わりに提案する科目',
+  'reviews.noSubstitute': '代替なし',
+  'reviews.addAnnotation': 'コメントを追加',
+  'reviews.annotations': 'この版へのコメント（{count}件）',
+  'reviews.noAnnotations': 'この版へのコメントはありません。',
+  'reviews.suggests': '代替の提案：{subject}',
+  'reviews.history': '履歴',
+  'reviews.event.created': 'が第{revision}版でレビューを作成',
+  'reviews.event.revised': 'が第{revision}版を追加',
+  'reviews.event.status': 'が状態を「{status}」に変更',
+  'reviews.event.annotated': 'が{subject}にコメント',
+  'reviews.event.commented': 'がコメント',
+
+  'plan.title': '学期別プラン',
+  'plan.maxCredits': '学期あたり上限単位',
+  'plan.autoArrange': '自動配置',
+  'plan.addPlaceholder': 'プランに科目を追加…',
+  'plan.addOption': '{name}（第{semester}学期、{credits}単位）',
+  'plan.add': '追加',
+  'plan.nodeCredits': '{credits}単位',
+  'plan.unplaced': '配置できなかった科目',
+  'plan.hint': '科目をドラッグして学期を移動できます。',
+  'plan.ok': 'すべての制約を満たしています。',
+  'plan.violations': '制約違反：{count}件。',
+
+  'timetable.title': '週間時間割',
+  'timetable.period': '{period}限',
+  'timetable.day.mon': '月',
+  'timetable.day.tue': '火',
+  'timetable.day.wed': '水',
+  'timetable.day.thu': '木',
+  'timetable.day.fri': '金',
+  'timetable.day.sat': '土',
+  'timetable.noSchedule': 'この学期に計画した科目には、カタログに曜日・時限がありません。',
+  'timetable.unscheduled': 'カタログに曜日・時限がない科目：{names}',
+  'timetable.noClashes': 'この学期に時間割の重複はありません。',
+  'timetable.clashes': '重複：{count}件',
+  'timetable.clash': '{day}曜{period}限：{names}',
+  'timetable.suggestions': '代替案',
+  'timetable.noSuggestions': '他の制約を破らずにこれらの科目を履修できる学期がありません。いずれかを外すか、担当教員に相談してください。',
+  'timetable.suggestion': '{name}を第{semester}学期に移す',
+  'timetable.suggestionResolves': '（重複が解消されます）',
+  'timetable.suggestionLeft': '（プラン全体で重複が{count}件残ります）',
+  'timetable.apply': '適用',
+  'timetable.startDate': '授業開始日',
+  'timetable.export': 'カレンダーをダウンロード（.ics）',
+  'timetable.exportHint': '各授業は学期またはクォーターの間、毎週繰り返す予定になります。祝日や補講日は考慮されません。',
+  'timetable.calendarName': '第{semester}学期の時間割',
+
+  'offline.title': '{occupation} 履修プラン',
+  'offline.description': 'カタログの関連度スコアから{occupation}向けに{count}科目（{credits}単位）を選びました。',
+  'offline.reasoningIntro': 'このプランは、カタログの{occupation}に対する関連度スコアからオフラインで生成されました。',
+  'offline.reasoningMatched': '入力は既知の職業のうち次のものに近いと判定しました：{occupations}。',
+  'offline.reasoningPicked': '関連度が{threshold}以上の科目から、キーワードと到達目標が職業に近い順に{count}科目を選びました。特に関連が強いのは{top}です。',
+  'offline.reasoningPrerequisites': '選んだ科目を順番どおり履修できるよう、履修条件となる{count}科目を追加しました：{names}。',
+  'offline.reasoningTypes': '1〜2年次の基礎・コア科目で土台を作り、3〜4年次の科目は職業との関連が強いものを専門、それ以外を選択としています。',
+};
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, ja };
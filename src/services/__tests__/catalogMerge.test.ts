@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CatalogMerger, formatMergeReport } from '../catalogMerge';
+import { ImportedSubject, syllabusImporter } from '../syllabusImporter';
+import { IMPORT_FIXTURES_DIR, readCatalogFile } from './fixtures';
+
+// The fixtures, parsed the way scripts/import-syllabus.ts reads them
+const importFixtures = (): ImportedSubject[] =>
+  ['610403D.html', '614020D.html', 'export.csv'].flatMap(name => syllabusImporter.parse(
+    fs.readFileSync(path.join(IMPORT_FIXTURES_DIR, name), 'utf8'),
+    name,
+    name.endsWith('.csv') ? 'csv' : 'html'
+  ).subjects);
+
+const loadCatalog = (): Record<string, unknown>[] => readCatalogFile(2024).subjects;
+
+describe('CatalogMerger', () => {
+  const subject = () => new CatalogMerger();
+
+  describe('with the import fixtures', () => {
+    it('adds, updates and reports conflicts against the 2024 catalog', () => {
+      const catalog = loadCatalog();
+      const result = subject().merge(catalog, importFixtures());
+
+      expect(result.added).toEqual([{ id: 'EENG4100JEEE', name: '電気設備工学', source: 'export.csv:4' }]);
+      expect(result.updated.map(entry => entry.id)).toEqual(['610403D', 'EENG3070JEEE', 'EEENG3200JEEE', 'SCTE3500JSCE']);
+      expect(result.conflicts.map(conflict => [conflict.kind, conflict.subjectId])).toEqual([
+        ['translation', '610403D'],
+        ['id', 'EEENG3200JEEE'],
+        ['code', '614023D'],
+      ]);
+      expect(result.conflicts[2].message).toMatch(/^The catalog has this name under code 614023D, not 614016D/);
+      expect(result.unchanged).toBe(0);
+      expect(result.subjects).toHaveLength(catalog.length + 1);
+      expect(result.notImported).toHaveLength(65);
+    });
+
+    it('keeps the ids, career relevance and fields the import lacks', () => {
+      const catalog = loadCatalog();
+      const before = catalog.find(raw => raw.id === 'EEENG3200JEEE') as Record<string, unknown>;
+      const result = subject().merge(catalog, importFixtures());
+      const after = result.subjects.find(raw => (raw as Record<string, unknown>).id === 'EEENG3200JEEE');
+
+      expect(after).toEqual({ ...before, prerequisites: [] });
+      // The catalog passed in is left as it was
+      expect(catalog.find(raw => raw.id === 'EEENG3200JEEE')).toBe(before);
+    });
+
+    it('gives a new subject empty defaults and no career relevance', () => {
+      const result = subject().merge(loadCatalog(), importFixtures());
+      const added = result.subjects[result.subjects.length - 1] as Record<string, unknown>;
+
+      expect(added).toMatchObject({ id: 'EENG4100JEEE', code: '614045D', prerequisites: ['電力系統工学'] });
+      expect(added.career_relevance).toBeUndefined();
+    });
+
+    it('formats the result as a report', () => {
+      const report = formatMergeReport(subject().merge(loadCatalog(), importFixtures()), ['export.csv: a warning']);
+
+      expect(report).toMatch(/^# Syllabus import\n\n1 added, 4 changed, 0 unchanged, 3 conflicts, 65 catalog subjects/);
+      expect(report).toContain('| 電気設備工学 (EENG4100JEEE) | export.csv:4 |');
+      expect(report).toContain('### 微分方程式１ (610403D)');
+      expect(report).toContain('| prerequisites | MATH101 / PHYS201 | 電気回路１及び演習 / 電気回路２及び演習 / 電気磁気学１及び演習 |');
+      expect(report).toContain('- export.csv: a warning');
+    });
+  });
+
+  it('updates every copy of a subject listed twice', () => {
+    const catalog = [
+      { id: 'A1', code: '600001D', name: 'A', credits: 2 },
+      { id: 'A1', code: '600001D', name: 'A', credits: 2 },
+    ];
+    const result = subject().merge(catalog, [{ source: 'a.csv:2', fields: { code: '600001D', credits: 1 } }]);
+
+    expect(result.updated).toEqual([expect.objectContaining({ id: 'A1', entries: 2 })]);
+    expect(result.subjects).toEqual([
+      { id: 'A1', code: '600001D', name: 'A', credits: 1 },
+      { id: 'A1', code: '600001D', name: 'A', credits: 1 },
+    ]);
+  });
+
+  it('skips duplicates and incomplete additions', () => {
+    const catalog = [{ id: 'A1', code: '600001D', name: 'A' }];
+    const result = subject().merge(catalog, [
+      { source: 'a.csv:2', fields: { code: '600001D', name: 'A' } },
+      { source: 'a.csv:3', fields: { code: '600001D', name: 'A' } },
+      { source: 'a.csv:4', fields: { code: '600002D', name: 'B' } },
+    ]);
+
+    expect(result.unchanged).toBe(1);
+    expect(result.conflicts.map(conflict => conflict.kind)).toEqual(['duplicate', 'incomplete']);
+    expect(result.conflicts[1].message).toBe('Not in the catalog and missing credits, year, semester, so it was not added');
+    expect(result.subjects).toEqual(catalog);
+  });
+});
@@ -0,0 +1,156 @@
+import { catalogMigrator, CatalogManifest, findCatalog, parseCatalogManifest } from '../catalogVersions';
+import { roadmapNode, roadmapOf, subject } from './fixtures';
+
+// From 2023 to 2024 OLD was renumbered to NEW, P1 and P2 were merged into PE and GONE was dropped
+const MANIFEST: CatalogManifest = parseCatalogManifest({
+  defaultAdmissionYear: 2024,
+  catalogs: [
+    { admissionYear: 2023, file: '2023.json' },
+    { admissionYear: 2024, file: '2024.json' },
+  ],
+  equivalences: [{
+    from: 2023,
+    to: 2024,
+    subjects: [
+      { from: ['OLD'], to: ['NEW'], note: 'Renumbered' },
+      { from: ['P1', 'P2'], to: ['PE'], note: 'Merged' },
+      { from: ['GONE'], to: [], note: 'Dropped' },
+    ],
+  }],
+});
+
+const SUBJECTS_2024 = [
+  subject('NEW', { semester: 3, career_relevance: { power_engineer: 0.7 } }),
+  subject('PE', { semester: 5, credits: 4 }),
+  subject('KEEP'),
+  subject('MOVED'),
+];
+
+describe('parseCatalogManifest', () => {
+  it('reads catalogs and equivalences', () => {
+    expect(MANIFEST.catalogs.map(entry => entry.admissionYear)).toEqual([2023, 2024]);
+    expect(MANIFEST.equivalences[0].subjects[2]).toEqual({ from: ['GONE'], to: [], note: 'Dropped' });
+    expect(findCatalog(MANIFEST, 2023)).toEqual({ admissionYear: 2023, file: '2023.json' });
+    expect(findCatalog(MANIFEST, 2022)).toBeUndefined();
+  });
+
+  it.each([
+    ['no catalogs', { catalogs: [] }, 'non-empty "catalogs" array'],
+    ['a file outside the manifest directory', { catalogs: [{ admissionYear: 2024, file: '../x.json' }] }, 'must stay next to'],
+    [
+      'a repeated admission year',
+      { defaultAdmissionYear: 2024, catalogs: [{ admissionYear: 2024, file: 'a.json' }, { admissionYear: 2024, file: 'b.json' }] },
+      'must be unique',
+    ],
+    ['an unlisted default', { defaultAdmissionYear: 2025, catalogs: [{ admissionYear: 2024, file: 'a.json' }] }, 'defaultAdmissionYear'],
+    [
+      'equivalences for an unlisted year',
+      {
+        defaultAdmissionYear: 2024,
+        catalogs: [{ admissionYear: 2024, file: 'a.json' }],
+        equivalences: [{ from: 2022, to: 2024, subjects: [] }],
+      },
+      'equivalences[0] needs listed',
+    ],
+    [
+      'a rule without subject ids',
+      {
+        defaultAdmissionYear: 2024,
+        catalogs: [{ admissionYear: 2023, file: 'a.json' }, { admissionYear: 2024, file: 'b.json' }],
+        equivalences: [{ from: 2023, to: 2024, subjects: [{ from: [], to: ['X'] }] }],
+      },
+      'equivalences[0].subjects[0] needs',
+    ],
+  ])('rejects %s', (_, data, message) => {
+    expect(() => parseCatalogManifest(data)).toThrow(message);
+  });
+});
+
+describe('CatalogMigrator', () => {
+  describe('mapSubjectIds', () => {
+    it('follows renumbered, merged and dropped courses to the newer catalog', () => {
+      const mapped = catalogMigrator.mapSubjectIds(['OLD', 'P1', 'GONE', 'KEEP'], MANIFEST, 2023, 2024);
+
+      expect(Object.fromEntries(mapped)).toEqual({
+        OLD: { ids: ['NEW'], note: 'Renumbered' },
+        P1: { ids: ['PE'], note: 'Merged' },
+        GONE: { ids: [], note: 'Dropped' },
+        KEEP: { ids: ['KEEP'] },
+      });
+    });
+
+    it('splits merged courses again when going back, and leaves dropped ones alone', () => {
+      const mapped = catalogMigrator.mapSubjectIds(['PE', 'NEW', 'GONE'], MANIFEST, 2024, 2023);
+
+      expect(Object.fromEntries(mapped)).toEqual({
+        PE: { ids: ['P1', 'P2'], note: 'Merged' },
+        NEW: { ids: ['OLD'], note: 'Renumbered' },
+        GONE: { ids: ['GONE'] },
+      });
+      expect(catalogMigrator.mapSubjectIds(['KEEP'], MANIFEST, 2024, 2024).get('KEEP')).toEqual({ ids: ['KEEP'] });
+    });
+
+    it('rejects an admission year without a catalog', () => {
+      expect(() => catalogMigrator.mapSubjectIds(['OLD'], MANIFEST, 2022, 2024)).toThrow('No catalog for admission year 2022');
+    });
+  });
+
+  describe('migrateRoadmap', () => {
+    const roadmap = roadmapOf([
+      roadmapNode('OLD', { type: 'foundation', connects: ['P1'], relevance_score: 0.9 }),
+      roadmapNode('P1', { connects: ['P2'] }),
+      roadmapNode('P2'),
+      roadmapNode('GONE'),
+      // A retake of KEEP a year after its catalog term, and MOVED in the wrong season
+      roadmapNode('KEEP', { semester: 3, relevance_score: 0.4 }),
+      roadmapNode('MOVED', { semester: 2 }),
+    ]);
+    const { roadmap: migrated, report } = catalogMigrator.migrateRoadmap(
+      roadmap, MANIFEST, 2023, 2024, SUBJECTS_2024, { power_engineer: 1 }
+    );
+    const node = (id: string) => migrated.nodes.find(candidate => candidate.id === id);
+
+    it('replaces courses with their equivalents from the target catalog', () => {
+      expect(migrated.nodes.map(item => item.id)).toEqual(['NEW', 'PE', 'KEEP', 'MOVED']);
+      expect(node('NEW')).toMatchObject({ name: 'Subject NEW', type: 'foundation', year: 2, semester: 3, relevance_score: 0.7 });
+      expect(node('PE')).toMatchObject({ type: 'core', credits: 4, year: 3, semester: 5 });
+      expect(migrated.total_credits).toBe(10);
+    });
+
+    it('keeps retakes in their later term and moves other subjects to the catalog term', () => {
+      expect(node('KEEP')).toMatchObject({ year: 2, semester: 3, relevance_score: 0.4 });
+      expect(node('MOVED')).toMatchObject({ year: 1, semester: 1 });
+    });
+
+    it('carries connections over and drops the ones that merge into a single course', () => {
+      expect(node('NEW')!.connects).toEqual(['PE']);
+      expect(node('PE')!.connects).toEqual([]);
+    });
+
+    it('reports what was replaced, removed and rescheduled', () => {
+      expect(report).toEqual({
+        from: 2023,
+        to: 2024,
+        replaced: [
+          { id: 'OLD', name: 'OLD', replacements: ['NEW'], note: 'Renumbered' },
+          { id: 'P1', name: 'P1', replacements: ['PE'], note: 'Merged' },
+          { id: 'P2', name: 'P2', replacements: ['PE'], note: 'Merged' },
+        ],
+        removed: [{ id: 'GONE', name: 'GONE', note: 'Dropped' }],
+        rescheduled: [{ id: 'MOVED', name: 'MOVED', from: { year: 1, semester: 2 }, to: { year: 1, semester: 1 } }],
+      });
+    });
+  });
+
+  describe('migrateCompletedSubjects', () => {
+    it('completes a merged course only when every course it replaces was completed', () => {
+      const done = { completedAt: '2024-02-01' };
+      const other = { completedAt: '2024-08-01' };
+
+      expect(catalogMigrator.migrateCompletedSubjects({ OLD: done, P1: done, GONE: done }, MANIFEST, 2023, 2024))
+        .toEqual({ NEW: done, P1: done, GONE: done });
+      expect(catalogMigrator.migrateCompletedSubjects({ P1: done, P2: other }, MANIFEST, 2023, 2024)).toEqual({ PE: done });
+      expect(catalogMigrator.migrateCompletedSubjects({ PE: done }, MANIFEST, 2024, 2023)).toEqual({ P1: done, P2: done });
+    });
+  });
+});
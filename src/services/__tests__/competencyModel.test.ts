@@ -0,0 +1,124 @@
+import { CompetencyAnalyzer, OCCUPATION_SKILLS, Skill, SKILLS } from '../competencyModel';
+import { occupationTaxonomy } from '../occupationTaxonomy';
+import { roadmapNode, roadmapOf, subject } from './fixtures';
+
+const roadmapWith = (ids: string[]) => roadmapOf(ids.map(id => roadmapNode(id)));
+
+const SKILL_SET: Skill[] = [
+  { id: 'circuits', name: { en: 'Circuits', ja: '回路' }, terms: ['電気回路', 'Electric circuit'] },
+  { id: 'programming', name: { en: 'Programming', ja: 'プログラミング' }, terms: ['プログラミング'] },
+];
+const OCCUPATIONS = {
+  power_engineer: { circuits: 3, programming: 1, unknown_skill: 3 },
+  software_engineer: { programming: 3 },
+};
+
+const SUBJECTS = [
+  subject('C1', { name: '電気回路１' }),
+  subject('C2', { name: 'Circuits', name_en: 'Electric Circuits II' }),
+  subject('P1', { learning_outcomes: ['簡単なプログラミングができる'] }),
+  subject('P2', { keywords: ['プログラミング'] }),
+  subject('P3', { learning_outcomes: ['プログラミングの基礎'] }),
+  subject('X1'),
+];
+
+describe('CompetencyAnalyzer', () => {
+  const createAnalyzer = () => new CompetencyAnalyzer(SKILL_SET, OCCUPATIONS);
+
+  describe('skillsFor', () => {
+    it('scales the importances of an occupation mix to its most important skill', () => {
+      const skills = createAnalyzer().skillsFor({ power_engineer: 0.5, software_engineer: 0.5 });
+
+      expect(skills.map(({ skill, importance }) => [skill.id, importance])).toEqual([
+        ['programming', 1],
+        ['circuits', 0.75],
+      ]);
+    });
+
+    it('has no skills for an occupation it does not know', () => {
+      expect(createAnalyzer().skillsFor({ astronaut: 1 })).toEqual([]);
+    });
+  });
+
+  describe('strengthOf', () => {
+    it('counts terms in the name or keywords fully and in the outcomes partly', () => {
+      const analyzer = createAnalyzer();
+      const [circuits, programming] = SKILL_SET;
+
+      expect(analyzer.strengthOf(SUBJECTS[0], circuits)).toBe(1);
+      // English fields match after normalizeLabel, which drops spaces and case
+      expect(analyzer.strengthOf(SUBJECTS[1], circuits)).toBe(1);
+      expect(analyzer.strengthOf(SUBJECTS[2], programming)).toBe(0.6);
+      expect(analyzer.strengthOf(SUBJECTS[3], programming)).toBe(1);
+      expect(analyzer.strengthOf(SUBJECTS[5], programming)).toBe(0);
+    });
+  });
+
+  describe('analyze', () => {
+    it('splits coverage into completed and planned and suggests subjects for the gaps', () => {
+      const analysis = createAnalyzer().analyze(roadmapWith(['C1', 'P1']), SUBJECTS, new Set(['C2']), { power_engineer: 1 });
+      const [circuits, programming] = analysis.skills;
+
+      expect(circuits).toMatchObject({
+        importance: 1,
+        completed: 0.5,
+        planned: 0.5,
+        status: 'covered',
+        suggestions: [],
+      });
+      expect(circuits.contributors.map(contributor => contributor.id).sort()).toEqual(['C1', 'C2']);
+      expect(programming).toMatchObject({
+        importance: 0.33,
+        completed: 0,
+        planned: 0.3,
+        status: 'partial',
+        contributors: [{ id: 'P1', strength: 0.6 }],
+        suggestions: [{ id: 'P2', strength: 1 }, { id: 'P3', strength: 0.6 }],
+      });
+      expect(analysis.overall).toBe(0.83);
+      expect(analysis.gaps.map(gap => gap.skill.id)).toEqual(['programming']);
+    });
+
+    it('caps coverage at the target and counts each catalog subject once', () => {
+      const longCourse = subject('C3', { name: '電気回路演習', credits: 6 });
+      const analysis = createAnalyzer().analyze(
+        roadmapWith(['C1', 'C3']),
+        [...SUBJECTS, longCourse, subject('C1', { name: '電気回路１（再履修）' })],
+        new Set(['C1']),
+        { power_engineer: 1 }
+      );
+
+      expect(analysis.skills[0]).toMatchObject({ completed: 0.5, planned: 0.5, status: 'covered' });
+      expect(analysis.skills[0].contributors).toHaveLength(2);
+    });
+
+    it('ranks suggestions of the same strength by relevance and keeps three', () => {
+      const candidates = [1, 2, 3, 4].map(n => subject(`Q${n}`, {
+        keywords: ['プログラミング'],
+        career_relevance: { software_engineer: n / 10 },
+      }));
+      const analysis = createAnalyzer().analyze(roadmapWith([]), candidates, new Set(), { software_engineer: 1 });
+
+      expect(analysis.skills[0].status).toBe('missing');
+      expect(analysis.skills[0].suggestions.map(suggestion => suggestion.id)).toEqual(['Q4', 'Q3', 'Q2']);
+      expect(analysis.overall).toBe(0);
+    });
+
+    it('takes the occupation mix from the roadmap by default', () => {
+      const analysis = createAnalyzer().analyze(roadmapOf([roadmapNode('C1')], { occupation: 'Power Engineer' }), SUBJECTS, new Set());
+
+      expect(analysis.weights).toEqual(occupationTaxonomy.resolve('Power Engineer').weights);
+      expect(analysis.skills.map(entry => entry.skill.id)).toEqual(['circuits', 'programming']);
+    });
+  });
+
+  it('only refers to taxonomy occupations and known skills in the default tables', () => {
+    const occupationIds = occupationTaxonomy.all().map(occupation => occupation.id);
+    const skillIds = SKILLS.map(skill => skill.id);
+
+    expect(Object.keys(OCCUPATION_SKILLS).sort()).toEqual([...occupationIds].sort());
+    Object.values(OCCUPATION_SKILLS).forEach(importances => {
+      expect(Object.keys(importances).filter(id => !skillIds.includes(id))).toEqual([]);
+    });
+  });
+});
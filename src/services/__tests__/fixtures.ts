@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeneratedRoadmap, RoadmapNode, Subject } from '../geminiService';
+import { StudyPlan } from '../studyPlanner';
+
+// Builders and paths shared by the tests. Not a suite itself: jest only runs *.test.ts files
+
+export const SYLLABUS_DIR = path.resolve(__dirname, '../../../public/syllabus');
+export const IMPORT_FIXTURES_DIR = path.resolve(__dirname, '../../../scripts/fixtures/syllabus-import');
+
+// The raw catalog file of an admission year, as it is on disk
+export const readCatalogFile = (year: number): { subjects: Record<string, unknown>[] } & Record<string, unknown> =>
+  JSON.parse(fs.readFileSync(path.join(SYLLABUS_DIR, `${year}.json`), 'utf8'));
+
+// A subject in semester 1 unless given another; the year follows the semester
+export const subject = (id: string, overrides: Partial<Subject> = {}): Subject => {
+  const semester = overrides.semester ?? 1;
+  return {
+    id,
+    code: id,
+    name: `Subject ${id}`,
+    credits: 2,
+    year: Math.ceil(semester / 2),
+    semester,
+    department: '電気電子',
+    syllabus: [],
+    description: '',
+    prerequisites: [],
+    keywords: [],
+    learning_outcomes: [],
+    ...overrides,
+  };
+};
+
+// A core node in semester 1 unless given another; the year follows the semester
+export const roadmapNode = (id: string, overrides: Partial<RoadmapNode> = {}): RoadmapNode => {
+  const semester = overrides.semester ?? 1;
+  return {
+    id,
+    name: id,
+    x: 0,
+    y: 0,
+    type: 'core',
+    completed: false,
+    connects: [],
+    credits: 2,
+    year: Math.ceil(semester / 2),
+    semester,
+    relevance_score: 0.5,
+    ...overrides,
+  };
+};
+
+// A node with the subject's name, credits and catalog term
+export const nodeFor = (source: Subject, overrides: Partial<RoadmapNode> = {}): RoadmapNode =>
+  roadmapNode(source.id, {
+    name: source.name,
+    credits: source.credits,
+    year: source.year,
+    semester: source.semester,
+    ...overrides,
+  });
+
+// total_credits is the sum of the nodes' credits
+export const roadmapOf = (nodes: RoadmapNode[], overrides: Partial<GeneratedRoadmap> = {}): GeneratedRoadmap => ({
+  title: 'Roadmap',
+  description: '',
+  occupation: 'Power Engineer',
+  nodes,
+  total_credits: nodes.reduce((total, node) => total + node.credits, 0),
+  reasoning: '',
+  ...overrides,
+});
+
+export const planOf = (terms: Record<number, string[]>, maxCreditsPerTerm = 24): StudyPlan => ({
+  terms,
+  unplaced: [],
+  maxCreditsPerTerm,
+});
@@ -0,0 +1,80 @@
+import {
+  EEE_GRADUATION_REQUIREMENTS,
+  GraduationRequirements,
+  graduationAuditor,
+  matchesSubject,
+} from '../graduationRequirements';
+import { readCatalogFile, subject } from './fixtures';
+
+const SUBJECTS = ['R1', 'R2', 'MATH1', 'MATH2', 'C1', 'C2', 'C3'].map(id => subject(id));
+
+const REQUIREMENTS: GraduationRequirements = {
+  course: 'Test course',
+  requirements: [
+    { id: 'total', kind: 'total_credits', label: 'Total', minCredits: 8 },
+    { id: 'required', kind: 'required', label: 'Required', subjectIds: ['R1', 'R2'] },
+    { id: 'math', kind: 'category', label: 'Math', minCredits: 4, match: { idPrefixes: ['MATH'] } },
+    { id: 'choose', kind: 'choose', label: 'Two of C', count: 2, subjectIds: ['C1', 'C2', 'C3'] },
+  ],
+};
+
+const audit = (completed: string[], planned: string[]) =>
+  graduationAuditor.audit(SUBJECTS, completed, planned, REQUIREMENTS);
+
+const statuses = (completed: string[], planned: string[]) =>
+  Object.fromEntries(audit(completed, planned).results.map(result => [result.requirement.id, result.status]));
+
+describe('matchesSubject', () => {
+  it('matches listed ids and id prefixes', () => {
+    const matcher = { ids: ['610413D'], idPrefixes: ['MATH', 'PHYS'] };
+    expect(['610413D', 'MATH2020JSCE', 'PHYS1000', 'EENG2100JEEE'].map(id => matchesSubject(matcher, id)))
+      .toEqual([true, true, true, false]);
+    expect(matchesSubject({}, 'MATH1')).toBe(false);
+  });
+});
+
+describe('GraduationAuditor', () => {
+  it('is satisfied once every requirement is completed', () => {
+    const result = audit(['R1', 'R2', 'MATH1', 'MATH2', 'C1', 'C3'], []);
+    expect(result.status).toBe('satisfied');
+    expect(result.earnedCredits).toBe(12);
+    expect(result.results.every(requirement => requirement.missingSubjectIds.length === 0)).toBe(true);
+  });
+
+  it('is at risk while planned subjects are still needed', () => {
+    expect(statuses(['R1', 'MATH1'], ['R2', 'MATH2', 'C1', 'C2'])).toEqual({
+      total: 'at_risk',
+      required: 'at_risk',
+      math: 'at_risk',
+      choose: 'at_risk',
+    });
+    expect(audit(['R1', 'MATH1'], ['R2', 'MATH2', 'C1', 'C2']).status).toBe('at_risk');
+  });
+
+  it('lists the subjects that could close a shortfall', () => {
+    const result = audit(['R1', 'C2'], ['MATH1']);
+    expect(result.status).toBe('short');
+    const byId = Object.fromEntries(result.results.map(requirement => [requirement.requirement.id, requirement]));
+    expect(byId.required).toMatchObject({ status: 'short', required: 2, earned: 1, planned: 0, missingSubjectIds: ['R2'] });
+    expect(byId.math).toMatchObject({ status: 'short', required: 4, earned: 0, planned: 2, missingSubjectIds: ['MATH2'] });
+    expect(byId.choose.missingSubjectIds).toEqual(['C1', 'C3']);
+  });
+
+  it('counts a subject once and ignores ids outside the catalog', () => {
+    const result = audit(['R1', 'UNKNOWN'], ['R1', 'R2', 'UNKNOWN']);
+    expect(result.earnedCredits).toBe(2);
+    expect(result.plannedCredits).toBe(2);
+  });
+});
+
+describe('EEE_GRADUATION_REQUIREMENTS', () => {
+  it('refers only to subjects in the current catalog', () => {
+    const ids = new Set(readCatalogFile(2024).subjects.map(raw => raw.id));
+    const listed = EEE_GRADUATION_REQUIREMENTS.requirements.flatMap(requirement =>
+      requirement.kind === 'required' || requirement.kind === 'choose'
+        ? requirement.subjectIds
+        : requirement.kind === 'category' ? requirement.match.ids || [] : []
+    );
+    expect(listed.filter(id => !ids.has(id))).toEqual([]);
+  });
+});
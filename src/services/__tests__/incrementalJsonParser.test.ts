@@ -0,0 +1,86 @@
+import { IncrementalJsonParser } from '../incrementalJsonParser';
+
+// Pushes the chunks in order and collects every element the parser hands out
+const parse = (chunks: string[], arrayKey = 'nodes') => {
+  const parser = new IncrementalJsonParser(arrayKey);
+  const elements = chunks.flatMap(chunk => parser.push(chunk));
+  return { parser, elements };
+};
+
+const split = (text: string, ...at: number[]) =>
+  [0, ...at].map((start, index) => text.slice(start, at[index]));
+
+const RESPONSE = JSON.stringify({
+  title: 'Power "grid" roadmap',
+  nodes: [
+    { id: 'A', name: '電力系統\\基礎', connects: ['B'], meta: { tags: [{ x: 1 }], note: '{not a node}' } },
+    { id: 'B', name: 'Say "hi"', connects: [] },
+  ],
+  reasoning: 'Because \\ and "quotes"',
+});
+const NODES = JSON.parse(RESPONSE).nodes;
+
+describe('IncrementalJsonParser', () => {
+  it('hands out each element as soon as it is complete', () => {
+    const endOfA = RESPONSE.indexOf('},{"id":"B"') + 1;
+    const parser = new IncrementalJsonParser('nodes');
+
+    expect(parser.push(RESPONSE.slice(0, endOfA - 1))).toEqual([]);
+    expect(parser.push(RESPONSE.slice(endOfA - 1, endOfA))).toEqual([NODES[0]]);
+    expect(parser.push(RESPONSE.slice(endOfA))).toEqual([NODES[1]]);
+    expect(parser.text).toBe(RESPONSE);
+  });
+
+  it('gives the same result however the text is split', () => {
+    const whole = parse([RESPONSE]);
+    const byCharacter = parse(RESPONSE.split(''));
+
+    expect(whole.elements).toEqual(NODES);
+    expect(byCharacter.elements).toEqual(NODES);
+    expect(byCharacter.parser.fields).toEqual(whole.parser.fields);
+  });
+
+  it('reads strings split in the middle, including between a backslash and the escaped character', () => {
+    const quote = RESPONSE.indexOf('\\"hi');
+    const backslash = RESPONSE.indexOf('\\\\基礎');
+    const { elements, parser } = parse(split(RESPONSE, 12, backslash + 1, quote + 1));
+
+    expect(elements).toEqual(NODES);
+    expect(parser.fields).toEqual({ title: 'Power "grid" roadmap', reasoning: 'Because \\ and "quotes"' });
+  });
+
+  it('keeps nested objects and arrays inside their element', () => {
+    const { elements } = parse([RESPONSE]);
+
+    expect(elements).toHaveLength(2);
+    expect(elements[0]).toMatchObject({ meta: { tags: [{ x: 1 }], note: '{not a node}' } });
+  });
+
+  it('only reads the array under its key and the top-level strings', () => {
+    const text = '{"other":[{"id":"X"}],"inner":{"nodes":[{"id":"Y"}],"title":"no"},"nodes":[{"id":"Z"}],"title":"yes"}';
+    const { elements, parser } = parse(split(text, 20, 40));
+
+    expect(elements).toEqual([{ id: 'Z' }]);
+    expect(parser.fields).toEqual({ title: 'yes' });
+  });
+
+  it('skips text around the object, such as a markdown fence', () => {
+    const { elements, parser } = parse(['```json\n', RESPONSE.slice(0, 30), RESPONSE.slice(30), '\n```\n{"nodes":[{"id":"C"}]}']);
+
+    expect(elements).toEqual(NODES);
+    expect(parser.fields.title).toBe('Power "grid" roadmap');
+  });
+
+  it('skips malformed elements and carries on with the next one', () => {
+    const text = '{"nodes":[{"id":"A",},{"id":B},{"id":"C"}],"title":"ok"}';
+
+    expect(parse(split(text, 15, 25)).elements).toEqual([{ id: 'C' }]);
+    expect(parse([text]).parser.fields).toEqual({ title: 'ok' });
+  });
+
+  it('hands out nothing for input that never completes an element', () => {
+    expect(parse(['no json here']).elements).toEqual([]);
+    expect(parse(['{"nodes":[{"id":"A","name":"unterminated']).elements).toEqual([]);
+    expect(parse(['{"nodes":{"id":"A"}}']).elements).toEqual([]);
+  });
+});
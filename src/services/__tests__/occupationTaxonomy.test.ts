@@ -0,0 +1,81 @@
+import { OCCUPATIONS, occupationTaxonomy } from '../occupationTaxonomy';
+import { subject } from './fixtures';
+
+const matches = (input: string) =>
+  occupationTaxonomy.resolve(input).matches.map(match => [match.occupation.id, match.score, match.weight]);
+
+const suggestions = (input: string, locale: 'en' | 'ja' = 'en') =>
+  occupationTaxonomy.suggest(input, locale).map(suggestion => [suggestion.occupation.id, suggestion.matchedLabel]);
+
+describe('OccupationTaxonomy.resolve', () => {
+  it.each([
+    ['the English name', 'Power Engineer', 'power_engineer'],
+    ['the Japanese name', '電力技術者', 'power_engineer'],
+    ['a synonym', 'EE', 'electrical_engineer'],
+    ['a Japanese synonym', 'プログラマー', 'software_engineer'],
+    ['the id', 'power_engineer', 'power_engineer'],
+  ])('resolves %s to that occupation alone', (_, input, id) => {
+    expect(occupationTaxonomy.resolve(input)).toMatchObject({ input, weights: { [id]: 1 } });
+    expect(matches(input)).toEqual([[id, 1, 1]]);
+  });
+
+  it('matches a name contained in a longer input', () => {
+    expect(matches('embedded software developer')).toEqual([['software_engineer', 0.85, 1]]);
+    expect(matches('チーフ電力エンジニア')).toEqual([['power_engineer', 0.85, 1]]);
+  });
+
+  it('mixes similar occupations for an input that names none of them', () => {
+    expect(matches('power electronics engineer')).toEqual([
+      ['electronics_engineer', 0.85, 0.56],
+      ['power_engineer', 0.67, 0.44],
+    ]);
+    expect(matches('電子')).toEqual([['electronics_engineer', 0.67, 1]]);
+  });
+
+  it('ignores words every occupation shares and inputs that match nothing', () => {
+    expect(occupationTaxonomy.resolve('engineer')).toEqual({ input: 'engineer', matches: [], weights: {} });
+    expect(matches('astronaut')).toEqual([]);
+    expect(matches('')).toEqual([]);
+  });
+});
+
+describe('OccupationTaxonomy.suggest', () => {
+  it('lists the first occupations for an empty input', () => {
+    expect(suggestions('')).toEqual(OCCUPATIONS.slice(0, 6).map(occupation => [occupation.id, undefined]));
+  });
+
+  it('never suggests an occupation by its id', () => {
+    expect(suggestions('e').slice(0, 2)).toEqual([['electrical_engineer', undefined], ['power_engineer', 'energy engineer']]);
+    expect(occupationTaxonomy.suggest('e', 'en').map(suggestion => suggestion.matchedLabel)).not.toContain('electrical_engineer');
+    expect(suggestions('power_')).toEqual([['power_engineer', undefined]]);
+  });
+
+  it('shows the synonym that matched unless it is the display name', () => {
+    expect(suggestions('swe')).toEqual([['software_engineer', 'SWE']]);
+    expect(suggestions('systems')).toEqual([
+      ['power_engineer', 'power systems engineer'],
+      ['electronics_engineer', 'embedded systems engineer'],
+      ['control_engineer', 'control systems engineer'],
+    ]);
+  });
+
+  it('matches Japanese names anywhere in the name', () => {
+    expect(suggestions('電力', 'ja')).toEqual([['power_engineer', undefined]]);
+    expect(suggestions('電力', 'en')).toEqual([['power_engineer', '電力技術者']]);
+  });
+
+  it('falls back to similar occupations when no name starts with the input', () => {
+    expect(suggestions('electrical engineers')).toEqual([['electrical_engineer', undefined]]);
+  });
+});
+
+describe('OccupationTaxonomy.relevanceOf', () => {
+  it('borrows a missing score from related occupations', () => {
+    const scored = subject('A', { career_relevance: { electronics_engineer: 0.8, communication_engineer: 0.5 } });
+
+    expect(occupationTaxonomy.relevanceOf(scored, { electronics_engineer: 1 })).toBe(0.8);
+    // software_engineer borrows 0.6 of communication and 0.4 of electronics
+    expect(occupationTaxonomy.relevanceOf(scored, { software_engineer: 1 })).toBeCloseTo(0.62);
+    expect(occupationTaxonomy.relevanceOf(scored, { electronics_engineer: 0.5, power_engineer: 0.5 })).toBe(0.4);
+  });
+});
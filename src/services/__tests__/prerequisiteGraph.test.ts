@@ -0,0 +1,83 @@
+import { normalizeLabel, PrerequisiteGraph, PrerequisiteResolver } from '../prerequisiteGraph';
+import { subject } from './fixtures';
+
+describe('normalizeLabel', () => {
+  it('folds full-width characters, case and whitespace', () => {
+    expect(normalizeLabel('電気回路 １')).toBe('電気回路1');
+    expect(normalizeLabel(' ＳＴＥＭ  Basics ')).toBe('stembasics');
+  });
+});
+
+describe('PrerequisiteResolver', () => {
+  const resolver = new PrerequisiteResolver([
+    subject('EC1', { name: '電気回路1及び演習' }),
+    subject('EC2', { name: '電気回路2及び演習' }),
+    subject('EM', { name: '電磁気学基礎' }),
+    subject('EM', { name: '電磁気学基礎 (duplicate)' }),
+    subject('CTRL', { name: '制御工学概論', code: 'CTL-300' }),
+  ]);
+
+  it('resolves ids, codes and names', () => {
+    expect(resolver.resolve('EC1')).toEqual({ id: 'EC1', method: 'id' });
+    expect(resolver.resolve('ctl-300')).toEqual({ id: 'CTRL', method: 'code' });
+    expect(resolver.resolve('電磁気学基礎')).toEqual({ id: 'EM', method: 'name' });
+  });
+
+  it('matches names without an exercise suffix or with one wrong character', () => {
+    expect(resolver.resolve('電気回路１')).toEqual({ id: 'EC1', method: 'fuzzy' });
+    expect(resolver.resolve('制御工学概諭')).toEqual({ id: 'CTRL', method: 'fuzzy' });
+  });
+
+  it('never matches across course numbers or on short labels', () => {
+    expect(resolver.resolve('電気回路3')).toBeNull();
+    expect(resolver.resolve('電磁')).toBeNull();
+    expect(resolver.resolve('  ')).toBeNull();
+  });
+});
+
+describe('PrerequisiteGraph', () => {
+  // A <- B <- C, A <- D, and E refers to nothing that exists
+  const graph = new PrerequisiteGraph([
+    subject('A', { name: '基礎数学' }),
+    subject('B', { name: '応用数学', prerequisites: ['基礎数学'] }),
+    subject('C', { name: '数値解析', prerequisites: ['B', 'なし'] }),
+    subject('D', { name: '物理学', prerequisites: ['a'] }),
+    subject('E', { name: '卒業研究', prerequisites: ['存在しない科目', 'E'] }),
+  ]);
+
+  it('links prerequisites and dependents in both directions', () => {
+    expect(graph.has('A')).toBe(true);
+    expect(graph.has('Z')).toBe(false);
+    expect(graph.getDirectPrerequisites('C')).toEqual(['B']);
+    expect(graph.getDirectDependents('A').sort()).toEqual(['B', 'D']);
+    expect(graph.getPrerequisiteChain('C')).toEqual(['B', 'A']);
+    expect(graph.getDependents('A').sort()).toEqual(['B', 'C', 'D']);
+  });
+
+  it('records references it cannot resolve, skipping placeholders', () => {
+    expect(graph.getUnresolvedReferences()).toEqual([
+      { subjectId: 'E', reference: '存在しない科目' },
+      { subjectId: 'E', reference: 'E' },
+    ]);
+  });
+
+  it('orders prerequisites before their dependents', () => {
+    const order = graph.topologicalOrder();
+    expect(order).toHaveLength(5);
+    expect(order.indexOf('A')).toBeLessThan(order.indexOf('B'));
+    expect(order.indexOf('B')).toBeLessThan(order.indexOf('C'));
+    expect(order.indexOf('A')).toBeLessThan(order.indexOf('D'));
+    expect(graph.findCycles()).toEqual([]);
+  });
+
+  it('finds cycles and appends their subjects to the order', () => {
+    const cyclic = new PrerequisiteGraph([
+      subject('X', { name: '回路理論', prerequisites: ['Y'] }),
+      subject('Y', { name: '信号処理', prerequisites: ['X'] }),
+      subject('Z', { name: '卒業研究', prerequisites: ['Y'] }),
+      subject('W', { name: '英語' }),
+    ]);
+    expect(cyclic.findCycles()).toEqual([['X', 'Y']]);
+    expect(cyclic.topologicalOrder()).toEqual(['W', 'X', 'Y', 'Z']);
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  createEmptyProfile,
+  MemoryStorageAdapter,
+  migrateProfile,
+  PROFILE_BACKUP_SUFFIX,
+  PROFILE_STORAGE_KEY,
+  PROFILE_VERSION,
+  ProfileStore,
+} from '../profileStore';
+import { LEGACY_ADMISSION_YEAR } from '../catalogVersions';
+import { roadmapOf } from './fixtures';
+
+const roadmap = roadmapOf([], { title: 'Power Engineer Course Plan' });
+
+const storageWith = (profile: unknown): MemoryStorageAdapter => {
+  const storage = new MemoryStorageAdapter();
+  storage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+  return storage;
+};
+
+describe('migrateProfile', () => {
+  it('upgrades a version 1 profile to the legacy catalog', () => {
+    const profile = migrateProfile({ version: 1, completedSubjects: { A1: { completedAt: '2024-04-01' } } });
+    expect(profile.version).toBe(PROFILE_VERSION);
+    expect(profile.admissionYear).toBe(LEGACY_ADMISSION_YEAR);
+    expect(profile.completedSubjects).toEqual({ A1: { completedAt: '2024-04-01' } });
+  });
+
+  it('treats a profile without a version as version 1', () => {
+    const profile = migrateProfile({ currentYear: 2, currentSemester: 3 });
+    expect(profile.version).toBe(PROFILE_VERSION);
+    expect(profile.admissionYear).toBe(LEGACY_ADMISSION_YEAR);
+    expect(profile.currentYear).toBe(2);
+    expect(profile.currentSemester).toBe(3);
+  });
+
+  it('keeps a current profile as it is', () => {
+    const current = { ...createEmptyProfile(), admissionYear: 2023, currentRoadmap: roadmap };
+    expect(migrateProfile(current)).toEqual(current);
+  });
+
+  it('replaces fields of the wrong type with their defaults', () => {
+    const profile = migrateProfile({
+      version: PROFILE_VERSION,
+      admissionYear: '2024',
+      currentYear: 7,
+      currentRoadmap: { title: 'no nodes' },
+      studyPlan: [],
+      savedRoadmaps: [{ id: 'a', name: 'Saved', savedAt: '2024-04-01', roadmap }, { id: 'b' }],
+      completedSubjects: { A1: { completedAt: '2024-04-01', grade: 'S' }, B2: true },
+    });
+    expect(profile).toEqual({
+      ...createEmptyProfile(),
+      savedRoadmaps: [{ id: 'a', name: 'Saved', savedAt: '2024-04-01', roadmap }],
+      completedSubjects: { A1: { completedAt: '2024-04-01' } },
+    });
+  });
+
+  it('rejects values that are not a profile', () => {
+    expect(() => migrateProfile(null)).toThrow('not an object');
+    expect(() => migrateProfile([])).toThrow('not an object');
+    expect(() => migrateProfile({ version: 'two' })).toThrow('Invalid profile version');
+    expect(() => migrateProfile({ version: 0 })).toThrow('Invalid profile version');
+    expect(() => migrateProfile({ version: PROFILE_VERSION + 1 })).toThrow('newer than supported');
+  });
+});
+
+describe('MemoryStorageAdapter', () => {
+  it('stores, returns and removes items', () => {
+    const storage = new MemoryStorageAdapter();
+    expect(storage.getItem('key')).toBeNull();
+    storage.setItem('key', '');
+    expect(storage.getItem('key')).toBe('');
+    storage.setItem('key', 'value');
+    expect(storage.getItem('key')).toBe('value');
+    storage.removeItem('key');
+    expect(storage.getItem('key')).toBeNull();
+  });
+});
+
+describe('ProfileStore', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('starts from an empty profile', () => {
+    expect(new ProfileStore(new MemoryStorageAdapter()).getProfile()).toEqual(createEmptyProfile());
+  });
+
+  it('writes a migrated profile back to storage', () => {
+    const storage = storageWith({ version: 1, currentYear: 3, currentSemester: 5 });
+    const profile = new ProfileStore(storage).getProfile();
+    expect(JSON.parse(storage.getItem(PROFILE_STORAGE_KEY)!)).toEqual(profile);
+    expect(profile).toMatchObject({ version: PROFILE_VERSION, admissionYear: LEGACY_ADMISSION_YEAR, currentYear: 3 });
+  });
+
+  it('starts fresh from unreadable storage', () => {
+    const storage = new MemoryStorageAdapter();
+    storage.setItem(PROFILE_STORAGE_KEY, '{not json');
+    expect(new ProfileStore(storage).getProfile()).toEqual(createEmptyProfile());
+    expect(new ProfileStore(storageWith({ version: 99 })).getProfile()).toEqual(createEmptyProfile());
+  });
+
+  it.each([
+    ['unreadable', '{not json'],
+    ['newer', JSON.stringify({ version: PROFILE_VERSION + 1, completedSubjects: { A1: { completedAt: '2025-04-01' } } })],
+  ])('keeps a copy of an %s profile when it is overwritten', (_, raw) => {
+    const storage = new MemoryStorageAdapter();
+    storage.setItem(PROFILE_STORAGE_KEY, raw);
+    const store = new ProfileStore(storage);
+
+    store.toggleCompleted('B2');
+    expect(store.isReadOnly()).toBe(false);
+    expect(storage.getItem(`${PROFILE_STORAGE_KEY}${PROFILE_BACKUP_SUFFIX}`)).toBe(raw);
+    expect(JSON.parse(storage.getItem(PROFILE_STORAGE_KEY)!).completedSubjects).toHaveProperty('B2');
+  });
+
+  it('leaves an unreadable profile in place when it cannot be backed up', () => {
+    const raw = JSON.stringify({ version: PROFILE_VERSION + 1 });
+    const storage = storageWith(JSON.parse(raw));
+    jest.spyOn(storage, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    const store = new ProfileStore(storage);
+
+    store.toggleCompleted('B2');
+    expect(store.isReadOnly()).toBe(true);
+    expect(store.isCompleted('B2')).toBe(true);
+    expect(storage.getItem(PROFILE_STORAGE_KEY)).toBe(raw);
+  });
+
+  it('saves changes and notifies subscribers', () => {
+    const storage = new MemoryStorageAdapter();
+    const store = new ProfileStore(storage);
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.toggleCompleted('A1');
+    store.setGrade('A1', '優');
+    store.setCurrentTerm(2, 3);
+    expect(store.isCompleted('A1')).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(new ProfileStore(storage).getProfile()).toEqual(store.getProfile());
+    expect(store.getProfile().completedSubjects.A1.grade).toBe('優');
+
+    unsubscribe();
+    store.toggleCompleted('A1');
+    expect(store.isCompleted('A1')).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('clears the study plan when the admission year changes', () => {
+    const store = new ProfileStore(new MemoryStorageAdapter());
+    store.setStudyPlan({ terms: { 1: ['A1'] }, unplaced: [], maxCreditsPerTerm: 24 });
+    store.setAdmissionYear(2023, { currentRoadmap: roadmap });
+    expect(store.getProfile()).toMatchObject({ admissionYear: 2023, studyPlan: null, currentRoadmap: roadmap });
+  });
+
+  it('saves, deletes and resets roadmaps', () => {
+    const storage = new MemoryStorageAdapter();
+    const store = new ProfileStore(storage);
+    const saved = store.saveRoadmap('  ', roadmap);
+    expect(saved.name).toBe(roadmap.title);
+    expect(store.getProfile().savedRoadmaps).toEqual([saved]);
+    store.deleteSavedRoadmap(saved.id);
+    expect(store.getProfile().savedRoadmaps).toEqual([]);
+
+    store.toggleCompleted('A1');
+    store.reset();
+    expect(store.getProfile()).toEqual(createEmptyProfile());
+    expect(storage.getItem(PROFILE_STORAGE_KEY)).toBeNull();
+  });
+});
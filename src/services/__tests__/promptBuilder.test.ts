@@ -0,0 +1,102 @@
+import { estimateTokens, PromptBuilder } from '../promptBuilder';
+import { ProviderError } from '../providers/types';
+import { roadmapNode, roadmapOf, subject } from './fixtures';
+
+// Ranked A, B, C, D for power engineers; B's long Japanese description makes its line the longest
+const SUBJECTS = [
+  subject('C', { career_relevance: { power_engineer: 0.6 }, description: 'Lecture three of the course' }),
+  subject('A', { career_relevance: { power_engineer: 0.9 }, description: 'Lecture one of the course' }),
+  subject('D', { career_relevance: { power_engineer: 0.4 }, description: 'Programming in C for engineers' }),
+  subject('B', {
+    career_relevance: { power_engineer: 0.8 },
+    description: '講義の概要と目標を学ぶ。'.repeat(10),
+    prerequisites: ['A'],
+    keywords: ['k1', 'k2', 'k3', 'k4', 'k5', 'k6'],
+  }),
+];
+const WEIGHTS = { power_engineer: 1 };
+
+describe('estimateTokens', () => {
+  it('counts Japanese characters as a token each and other text as four characters a token', () => {
+    expect(estimateTokens('電力')).toBe(2);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('電力 grid')).toBe(4);
+  });
+});
+
+describe('PromptBuilder.buildRoadmapPrompt', () => {
+  const build = (options = {}) =>
+    new PromptBuilder().buildRoadmapPrompt('Power Engineer', SUBJECTS, { occupationIds: WEIGHTS, ...options });
+
+  it('sends the most relevant subjects as compact lines', () => {
+    const { prompt, stats } = build({ summaryLength: 12 });
+    const lines = prompt.split('\n').filter(line => line.startsWith('{"id"'));
+
+    expect(stats.includedSubjects).toEqual(['A', 'B', 'C', 'D']);
+    expect(stats.omittedSubjects).toEqual([]);
+    expect(stats.estimatedTokens).toBe(estimateTokens(prompt));
+    expect(JSON.parse(lines[1])).toEqual({
+      id: 'B',
+      name: 'Subject B',
+      credits: 2,
+      year: 1,
+      semester: 1,
+      prerequisites: ['A'],
+      keywords: ['k1', 'k2', 'k3', 'k4', 'k5'],
+      summary: '講義の概要と目標を学ぶ…',
+    });
+  });
+
+  it('leaves out the subjects below the top K', () => {
+    const { stats } = build({ topK: 2 });
+
+    expect(stats.includedSubjects).toEqual(['A', 'B']);
+    expect(stats.omittedSubjects).toEqual([
+      { id: 'C', name: 'Subject C', reason: 'rank' },
+      { id: 'D', name: 'Subject D', reason: 'rank' },
+    ]);
+  });
+
+  it('leaves out the subjects that do not fit the token budget, keeping smaller ones that do', () => {
+    const withA = build({ topK: 1 }).stats.estimatedTokens;
+    // Room for A and a little more: B's long summary doesn't fit, C's short one does
+    const { stats } = build({ tokenBudget: withA + 50, topK: 3 });
+
+    expect(stats.includedSubjects).toEqual(['A', 'C']);
+    expect(stats.omittedSubjects).toEqual([
+      { id: 'B', name: 'Subject B', reason: 'budget' },
+      { id: 'D', name: 'Subject D', reason: 'rank' },
+    ]);
+    expect(stats.estimatedTokens).toBeLessThanOrEqual(stats.tokenBudget);
+  });
+
+  it('rejects a token budget smaller than the template as an invalid request', () => {
+    const builder = new PromptBuilder();
+    const template = build({ topK: 0 }).stats.estimatedTokens;
+
+    expect(() => build({ tokenBudget: template - 1 })).toThrow(
+      new ProviderError('invalid_request', `Token budget of ${template - 1} is smaller than the prompt template (${template})`)
+    );
+    expect(() => builder.checkRoadmapBudget('Power Engineer', { tokenBudget: template - 1 })).toThrow(ProviderError);
+    expect(() => builder.checkRoadmapBudget('Power Engineer', { tokenBudget: template })).not.toThrow();
+  });
+});
+
+describe('PromptBuilder.buildRefinePrompt', () => {
+  const roadmap = roadmapOf([roadmapNode('A', { name: 'Subject A' })]);
+
+  it('offers subjects matching the instruction first and leaves out those already in the roadmap', () => {
+    const { stats } = new PromptBuilder().buildRefinePrompt(roadmap, 'Add programming', [], SUBJECTS, {
+      occupationIds: WEIGHTS,
+    });
+
+    expect(stats.includedSubjects).toEqual(['D', 'B', 'C']);
+  });
+
+  it('rejects a token budget smaller than the roadmap and conversation', () => {
+    const history = [{ role: 'user' as const, content: 'Why A? '.repeat(200) }];
+
+    expect(() => new PromptBuilder().buildRefinePrompt(roadmap, 'Why?', history, SUBJECTS, { tokenBudget: 500 }))
+      .toThrow('smaller than the roadmap and conversation');
+  });
+});
@@ -0,0 +1,161 @@
+import { occupationTaxonomy } from '../occupationTaxonomy';
+import { FixtureProvider } from '../providers';
+import { ProviderError } from '../providers/types';
+import {
+  formatRelevanceReport,
+  KeywordRelevanceScorer,
+  LlmRelevanceScorer,
+  RelevanceEngine,
+  RelevanceScorer,
+} from '../relevanceEngine';
+import { subject } from './fixtures';
+
+const POWER = occupationTaxonomy.get('power_engineer')!;
+
+// Power engineering keywords in the name count fully, ones in the description count half
+const POWER_SYSTEMS = subject('PS', { name: '電力系統工学', keywords: ['発電', '変電'] });
+const HIGH_VOLTAGE = subject('HV', { name: '電力応用', description: '高電圧の発生と計測' });
+const ENERGY = subject('EN', { name: '電気回路', description: 'エネルギーの基礎' });
+const UNRELATED = subject('UN', { name: '英語' });
+
+// Scores every subject with the same value, to test recompute without keyword details
+const constantScorer = (score: number): RelevanceScorer => ({
+  name: 'constant',
+  score: async subjects => subjects.map(() => ({ score, reason: 'constant' })),
+});
+
+describe('KeywordRelevanceScorer', () => {
+  const scorer = new KeywordRelevanceScorer();
+
+  it.each([
+    ['three name and keyword hits', POWER_SYSTEMS, 1, 'Power Engineer: name/keywords match 電力, 発電, 変電'],
+    [
+      'a name hit and a description hit',
+      HIGH_VOLTAGE,
+      0.72,
+      'Power Engineer: name/keywords match 電力; outcomes/description mention 高電圧',
+    ],
+    ['a single description hit', ENERGY, 0.44, 'Power Engineer: outcomes/description mention エネルギー'],
+    ['no hits', UNRELATED, 0.3, 'Power Engineer: no topic keywords found'],
+  ])('scores %s', (_, scored, score, reason) => {
+    expect(scorer.scoreSubject(scored, POWER)).toEqual({ score, reason });
+  });
+
+  it('reads the English fields and weekly topics too', () => {
+    const english = subject('E', { name: 'Circuits', name_en: 'Circuits', keywords_en: ['電力'], syllabus: ['発電所の見学'] });
+
+    expect(scorer.scoreSubject(english, POWER).score).toBe(0.72);
+  });
+});
+
+describe('LlmRelevanceScorer', () => {
+  const subjects = [POWER_SYSTEMS, HIGH_VOLTAGE, UNRELATED];
+
+  it('scores in batches and falls back to keywords for entries the model leaves out or gets wrong', async () => {
+    const provider = new FixtureProvider([
+      { text: '```json\n{"scores": [{"ref": 0, "score": 0.834, "reason": "Core topic"}, {"ref": 1, "score": 1.5}]}\n```' },
+      { text: '{"scores": [{"ref": 0, "score": 0.1}]}' },
+    ]);
+    const scorer = new LlmRelevanceScorer(provider, undefined, 2);
+
+    expect(scorer.name).toBe('fixture/fixture');
+    expect(await scorer.score(subjects, POWER)).toEqual([
+      { score: 0.83, reason: 'Core topic' },
+      {
+        score: 0.72,
+        reason: 'Power Engineer: name/keywords match 電力; outcomes/description mention 高電圧 (keyword fallback)',
+      },
+      { score: 0.1, reason: '' },
+    ]);
+    expect(provider.callCount).toBe(2);
+  });
+
+  it.each([
+    ['is not JSON', 'Sorry, I cannot help', 'Relevance response is not valid JSON'],
+    ['has no scores array', '{"ratings": []}', 'Relevance response has no "scores" array'],
+  ])('rejects a response that %s', async (_, text, message) => {
+    const scorer = new LlmRelevanceScorer(new FixtureProvider([{ text }]));
+
+    await expect(scorer.score(subjects, POWER)).rejects.toEqual(new ProviderError('malformed_output', message));
+  });
+});
+
+describe('RelevanceEngine.recompute', () => {
+  const scored = subject('S', { career_relevance: { power_engineer: 0.5, control_engineer: 0.2 } });
+  const pinned = subject('P', { career_relevance: { power_engineer: 0.9 }, career_relevance_pinned: ['power_engineer'] });
+  const subjects = [scored, pinned, UNRELATED];
+
+  it('fills in only missing scores by default and leaves the input alone', async () => {
+    const result = await new RelevanceEngine(constantScorer(0.4)).recompute(subjects, { occupations: ['power_engineer'] });
+
+    expect(result.changes).toEqual([
+      { subjectId: 'UN', name: '英語', occupation: 'power_engineer', before: undefined, after: 0.4, reason: 'constant' },
+    ]);
+    expect(result).toMatchObject({ pinned: 1, unchanged: 0 });
+    expect(result.subjects[2]).toMatchObject({
+      career_relevance: { power_engineer: 0.4 },
+      career_relevance_reason: { power_engineer: 'constant' },
+    });
+    expect(UNRELATED.career_relevance).toBeUndefined();
+  });
+
+  it('recomputes every unpinned score in "all" mode and counts the ones that stay the same', async () => {
+    const result = await new RelevanceEngine(constantScorer(0.5)).recompute(subjects, {
+      occupations: ['power_engineer', 'control_engineer'],
+      mode: 'all',
+    });
+
+    expect(result.changes.map(change => [change.subjectId, change.occupation, change.before])).toEqual([
+      ['UN', 'power_engineer', undefined],
+      ['S', 'control_engineer', 0.2],
+      ['P', 'control_engineer', undefined],
+      ['UN', 'control_engineer', undefined],
+    ]);
+    expect(result).toMatchObject({ pinned: 1, unchanged: 1 });
+    expect(result.subjects[1].career_relevance).toEqual({ power_engineer: 0.9, control_engineer: 0.5 });
+  });
+
+  it('leaves subjects it did not score without empty score maps', async () => {
+    const result = await new RelevanceEngine(constantScorer(0.4)).recompute([scored, pinned], { occupations: ['power_engineer'] });
+
+    expect(result.changes).toEqual([]);
+    expect(result.subjects).toEqual([scored, pinned]);
+    expect(result.subjects[0]).not.toHaveProperty('career_relevance_reason');
+  });
+
+  it('rejects an unknown occupation', async () => {
+    await expect(new RelevanceEngine().recompute(subjects, { occupations: ['astronaut'] }))
+      .rejects.toThrow('Unknown occupation "astronaut"');
+  });
+});
+
+describe('formatRelevanceReport', () => {
+  it('lists the changes per occupation, largest first', async () => {
+    const result = await new RelevanceEngine().recompute(
+      [ENERGY, subject('S', { name: '英語', career_relevance: { power_engineer: 0.9 } }), POWER_SYSTEMS],
+      { occupations: ['power_engineer'], mode: 'all' }
+    );
+
+    expect(formatRelevanceReport(result, 'keywords')).toBe([
+      '# Career relevance update',
+      '',
+      'Scorer: keywords. 3 scores changed, 0 unchanged, 0 pinned and skipped.',
+      '',
+      '## Power Engineer (`power_engineer`)',
+      '',
+      '| Subject | Before | After | Reason |',
+      '| --- | --- | --- | --- |',
+      '| 電力系統工学 (PS) | — | 1.00 | Power Engineer: name/keywords match 電力, 発電, 変電 |',
+      '| 英語 (S) | 0.90 | 0.30 | Power Engineer: no topic keywords found |',
+      '| 電気回路 (EN) | — | 0.44 | Power Engineer: outcomes/description mention エネルギー |',
+      '',
+    ].join('\n'));
+  });
+
+  it('escapes table separators in reasons', () => {
+    const change = { subjectId: 'S', name: '電力工学', occupation: 'power_engineer', after: 0.8, reason: 'AC | DC' };
+    const report = formatRelevanceReport({ subjects: [], changes: [change], pinned: 0, unchanged: 0 }, 'fixture/fixture');
+
+    expect(report).toContain('| 電力工学 (S) | — | 0.80 | AC \\| DC |\n');
+  });
+});
@@ -0,0 +1,114 @@
+import { CacheStore, catalogHashOf, RoadmapCache, RoadmapCacheEntry, roadmapCacheKey } from '../roadmapCache';
+import { roadmapOf } from './fixtures';
+
+const roadmap = roadmapOf([], { title: 'Power Engineer Course Plan' });
+
+const CATALOG_2024 = { admissionYear: 2024, hash: 'h2024' };
+const TTL = 1000;
+
+class MemoryStore implements CacheStore {
+  items = new Map<string, RoadmapCacheEntry>();
+
+  async get(key: string) {
+    return this.items.get(key);
+  }
+
+  async set(entry: RoadmapCacheEntry) {
+    this.items.set(entry.key, entry);
+  }
+
+  async delete(key: string) {
+    this.items.delete(key);
+  }
+
+  async entries() {
+    return Array.from(this.items.values());
+  }
+}
+
+const keyInput = { occupation: 'Power Engineer', options: {}, provider: 'gemini', model: 'm', catalogHash: 'h' };
+
+describe('roadmapCacheKey', () => {
+  it('ignores option order, unset options and occupation spacing', () => {
+    const key = roadmapCacheKey({ ...keyInput, options: { language: 'en', maxRetries: 1 } });
+    expect(roadmapCacheKey({
+      ...keyInput,
+      occupation: '  Power   Engineer ',
+      options: { maxRetries: 1, language: 'en', admissionYear: undefined },
+    })).toBe(key);
+  });
+
+  it('differs by options, model and catalog', () => {
+    const key = roadmapCacheKey(keyInput);
+    expect(roadmapCacheKey({ ...keyInput, options: { language: 'ja' } })).not.toBe(key);
+    expect(roadmapCacheKey({ ...keyInput, model: 'other' })).not.toBe(key);
+    expect(roadmapCacheKey({ ...keyInput, catalogHash: 'other' })).not.toBe(key);
+  });
+
+  it('hashes catalogs by content, not formatting', () => {
+    expect(catalogHashOf(JSON.parse('{ "subjects": [] }'))).toBe(catalogHashOf({ subjects: [] }));
+    expect(catalogHashOf({ subjects: [1] })).not.toBe(catalogHashOf({ subjects: [] }));
+  });
+});
+
+describe('RoadmapCache', () => {
+  let now: number;
+  let store: MemoryStore;
+  let cache: RoadmapCache;
+
+  beforeEach(() => {
+    now = 10000;
+    store = new MemoryStore();
+    cache = new RoadmapCache(store, TTL, () => now);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('keeps entries in memory and the store until they expire', async () => {
+    const entry = await cache.set('k', roadmap, CATALOG_2024);
+    expect(entry).toMatchObject({ generatedAt: 10000, expiresAt: 11000, catalogHash: 'h2024', admissionYear: 2024 });
+    expect(await cache.get('k')).toEqual(entry);
+    expect(store.items.get('k')).toEqual(entry);
+
+    now = 11000;
+    expect(await cache.get('k')).toBeUndefined();
+    expect(store.items.has('k')).toBe(false);
+  });
+
+  it('reads through to the store', async () => {
+    await cache.set('k', roadmap, CATALOG_2024);
+    const fresh = new RoadmapCache(store, TTL, () => now);
+    expect((await fresh.get('k'))?.roadmap).toEqual(roadmap);
+    expect(await fresh.get('missing')).toBeUndefined();
+  });
+
+  it('keeps working from memory when the store fails', async () => {
+    const failing: CacheStore = {
+      get: () => Promise.reject(new Error('read')),
+      set: () => Promise.reject(new Error('write')),
+      delete: () => Promise.reject(new Error('delete')),
+      entries: () => Promise.reject(new Error('scan')),
+    };
+    const resilient = new RoadmapCache(failing, TTL, () => now);
+    await resilient.set('k', roadmap, CATALOG_2024);
+    expect((await resilient.get('k'))?.roadmap).toEqual(roadmap);
+    expect(await resilient.get('other')).toBeUndefined();
+    expect(await resilient.invalidateCatalog(CATALOG_2024)).toBe(0);
+    expect(console.warn).toHaveBeenCalledWith('Roadmap cache write failed:', expect.any(Error));
+  });
+
+  it('drops roadmaps from an older revision of the same catalog only', async () => {
+    await cache.set('old', roadmap, { admissionYear: 2024, hash: 'previous' });
+    await cache.set('other-year', roadmap, { admissionYear: 2023, hash: 'h2023' });
+    await cache.set('current', roadmap, CATALOG_2024);
+    await store.set({ ...store.items.get('current')!, key: 'legacy', admissionYear: undefined, catalogHash: 'previous' });
+
+    expect(await cache.invalidateCatalog(CATALOG_2024)).toBe(2);
+    expect(Array.from(store.items.keys()).sort()).toEqual(['current', 'other-year']);
+    expect(await cache.get('old')).toBeUndefined();
+    // The same revision is only scanned once
+    await cache.set('old', roadmap, { admissionYear: 2024, hash: 'previous' });
+    expect(await cache.invalidateCatalog(CATALOG_2024)).toBe(0);
+  });
+});
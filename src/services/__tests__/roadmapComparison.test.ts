@@ -0,0 +1,102 @@
+import { roadmapComparer } from '../roadmapComparison';
+import { roadmapNode, roadmapOf, subject } from './fixtures';
+
+const CATALOG = [
+  subject('A', { career_relevance: { power_engineer: 0.8, software_engineer: 0.5 } }),
+  subject('B', { semester: 3 }),
+  subject('C', { semester: 2, credits: 3 }),
+  subject('D', { semester: 2 }),
+];
+
+// Both roadmaps take A; the power roadmap adds B and C, the software one D and a subject not in the catalog
+const POWER = roadmapOf([
+  roadmapNode('A', { connects: ['B'], relevance_score: 0.6, completed: true }),
+  roadmapNode('B', { semester: 3 }),
+  // Credits as the model wrote them, which the catalog corrects
+  roadmapNode('C', { semester: 2, credits: 2, corrections: ['credits: 2 → 3'] }),
+], { occupation: 'Power Engineer', reasoning: 'Grid' });
+const SOFTWARE = roadmapOf([
+  roadmapNode('A', { type: 'foundation', connects: ['D'], relevance_score: 0.9 }),
+  roadmapNode('D', { semester: 2, connects: ['Z'] }),
+  roadmapNode('X', { name: 'Custom', semester: 5, credits: 1 }),
+], { occupation: 'Software Engineer', reasoning: 'Code' });
+
+describe('RoadmapComparer.compare', () => {
+  const comparison = roadmapComparer.compare([POWER, SOFTWARE], CATALOG);
+  const ids = (subjects: { id: string }[]) => subjects.map(item => item.id);
+
+  it('lists shared subjects first, then the rest by term and name', () => {
+    expect(ids(comparison.subjects)).toEqual(['A', 'C', 'D', 'B', 'X']);
+    expect(ids(comparison.shared)).toEqual(['A']);
+    expect(comparison.unique.map(ids)).toEqual([['C', 'B'], ['D', 'X']]);
+  });
+
+  it('takes names, credits and terms from the catalog and falls back to the node', () => {
+    expect(comparison.subjects[1]).toMatchObject({ id: 'C', name: 'Subject C', credits: 3, roadmapIndexes: [0] });
+    expect(comparison.subjects[4]).toMatchObject({ id: 'X', name: 'Custom', credits: 1, year: 3, semester: 5, roadmapIndexes: [1] });
+  });
+
+  it('scores each subject for each roadmap\'s occupation', () => {
+    expect(comparison.occupations).toEqual([{ power_engineer: 1 }, { software_engineer: 1 }]);
+    expect(comparison.subjects.map(item => item.relevance)).toEqual([
+      [0.8, 0.5],
+      [null, null],
+      [null, null],
+      [null, null],
+      [null, null],
+    ]);
+  });
+
+  it('sums the credits each roadmap lists and the catalog credits shared and needed overall', () => {
+    expect(comparison.credits).toEqual({ perRoadmap: [6, 5], shared: 2, union: 10, overlap: 0.2 });
+  });
+
+  it('merges the roadmaps, keeping the most fundamental type and the highest relevance', () => {
+    const { merged } = comparison;
+    const node = (id: string) => merged.nodes.find(item => item.id === id)!;
+
+    expect(merged).toMatchObject({
+      title: 'Combined plan: Power Engineer + Software Engineer',
+      description: '5 subjects (10 credits) covering every compared roadmap.',
+      occupation: 'Power Engineer + Software Engineer',
+      total_credits: 10,
+      reasoning: 'Power Engineer: Grid\n\nSoftware Engineer: Code',
+    });
+    expect(ids(merged.nodes)).toEqual(['A', 'B', 'C', 'D', 'X']);
+    expect(node('A')).toMatchObject({ type: 'foundation', relevance_score: 0.9, connects: ['B', 'D'], completed: false });
+    expect(node('C').corrections).toBeUndefined();
+    // Connections to subjects outside the merged roadmap are dropped
+    expect(node('D').connects).toEqual([]);
+    expect(new Set(merged.nodes.map(item => `${item.x},${item.y}`)).size).toBe(5);
+  });
+
+  it('leaves the compared roadmaps unchanged', () => {
+    expect(POWER.nodes[0]).toMatchObject({ connects: ['B'], relevance_score: 0.6, completed: true, type: 'core' });
+    expect(SOFTWARE.nodes[1].connects).toEqual(['Z']);
+  });
+
+  it('names the merged roadmap in the given locale', () => {
+    const { merged } = roadmapComparer.compare([POWER, SOFTWARE], CATALOG, 'ja');
+
+    expect(merged.title).toBe('統合プラン：Power Engineer + Software Engineer');
+    expect(merged.description).toBe('比較したすべてのロードマップを満たす5科目（10単位）。');
+  });
+
+  it('counts a subject once per roadmap even when a roadmap lists it twice', () => {
+    const twice = roadmapOf([roadmapNode('B', { semester: 3 }), roadmapNode('B', { semester: 3 })]);
+    const { shared, credits } = roadmapComparer.compare([twice, roadmapOf([roadmapNode('B', { semester: 3 })])], CATALOG);
+
+    expect(shared).toEqual([expect.objectContaining({ id: 'B', roadmapIndexes: [0, 1] })]);
+    expect(credits).toMatchObject({ shared: 2, union: 2, overlap: 1 });
+  });
+
+  it('has no overlap between roadmaps without shared subjects or without any subjects', () => {
+    const disjoint = roadmapComparer.compare([roadmapOf([roadmapNode('B')]), roadmapOf([roadmapNode('D')])], CATALOG);
+    const empty = roadmapComparer.compare([roadmapOf([]), roadmapOf([])], CATALOG);
+
+    expect(disjoint.shared).toEqual([]);
+    expect(disjoint.credits).toEqual({ perRoadmap: [2, 2], shared: 0, union: 4, overlap: 0 });
+    expect(empty.credits).toEqual({ perRoadmap: [0, 0], shared: 0, union: 0, overlap: 0 });
+    expect(empty.merged.nodes).toEqual([]);
+  });
+});
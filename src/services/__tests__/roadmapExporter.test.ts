@@ -0,0 +1,103 @@
+/** @jest-environment node */
+import { parseCatalogManifest } from '../catalogVersions';
+import { RoadmapNode } from '../geminiService';
+import { ROADMAP_FILE_FORMAT, roadmapExporter, SHARE_PARAM } from '../roadmapExporter';
+import { nodeFor, roadmapOf, subject } from './fixtures';
+
+const SUBJECTS = [subject('A1'), subject('B2', { semester: 2, credits: 4 }), subject('C3', { semester: 3 })];
+
+const node = (id: string, overrides: Partial<RoadmapNode> = {}): RoadmapNode =>
+  nodeFor(SUBJECTS.find(s => s.id === id)!, overrides);
+
+// C3 is retaken a year after its catalog term
+const ROADMAP = roadmapOf(
+  [
+    node('A1', { type: 'foundation', connects: ['B2'], relevance_score: 0.55 }),
+    node('B2', { connects: ['C3'] }),
+    node('C3', { type: 'specialized', year: 3, semester: 5, relevance_score: 0.91 }),
+  ],
+  { title: '電力技術者の履修プラン', description: 'Power engineering', reasoning: 'Builds on circuits' }
+);
+
+const encode = (payload: unknown): string =>
+  Buffer.from(JSON.stringify(payload)).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('RoadmapExporter JSON files', () => {
+  it('round-trips a roadmap with its admission year', () => {
+    const text = roadmapExporter.toJSON(ROADMAP, 2024);
+    expect(JSON.parse(text)).toMatchObject({ format: ROADMAP_FILE_FORMAT, version: 1, admissionYear: 2024 });
+    const result = roadmapExporter.fromJSON(text, SUBJECTS);
+    expect(result.roadmap).toEqual(ROADMAP);
+    expect(result.missingSubjects).toEqual([]);
+  });
+
+  it('reports subjects that are no longer in the catalog', () => {
+    const text = roadmapExporter.toJSON({ ...ROADMAP, nodes: [...ROADMAP.nodes, node('A1', { id: 'GONE' })] });
+    const result = roadmapExporter.fromJSON(text, SUBJECTS);
+    expect(result.missingSubjects).toEqual(['GONE']);
+    expect(result.roadmap.nodes.map(n => n.id)).toEqual(['A1', 'B2', 'C3']);
+  });
+
+  it('carries a file from another catalog over even when its connections are damaged', () => {
+    const manifest = parseCatalogManifest({
+      defaultAdmissionYear: 2024,
+      catalogs: [{ admissionYear: 2023, file: '2023.json' }, { admissionYear: 2024, file: '2024.json' }],
+      equivalences: [{ from: 2023, to: 2024, subjects: [{ from: ['OLD'], to: ['A1'] }] }],
+    });
+    const file = JSON.parse(roadmapExporter.toJSON(ROADMAP, 2023));
+    file.roadmap.nodes[0] = { ...file.roadmap.nodes[0], id: 'OLD', connects: 'B2' };
+    file.roadmap.nodes[1].connects = ['C3', 7];
+
+    const result = roadmapExporter.fromJSON(JSON.stringify(file), SUBJECTS, { manifest, admissionYear: 2024 });
+    expect(result.roadmap.nodes.map(n => [n.id, n.connects])).toEqual([['A1', []], ['B2', ['C3']], ['C3', []]]);
+    expect(result.migration?.replaced.map(entry => entry.id)).toEqual(['OLD']);
+  });
+
+  it('rejects files that are not exported roadmaps', () => {
+    expect(() => roadmapExporter.fromJSON('{', SUBJECTS)).toThrow('not valid JSON');
+    expect(() => roadmapExporter.fromJSON('{"format":"other"}', SUBJECTS)).toThrow('not an exported roadmap');
+    expect(() => roadmapExporter.fromJSON(JSON.stringify({ format: ROADMAP_FILE_FORMAT, version: 99 }), SUBJECTS))
+      .toThrow('version 99');
+  });
+});
+
+describe('RoadmapExporter share links', () => {
+  it('round-trips a roadmap, including a subject moved to a later year', () => {
+    const result = roadmapExporter.fromShareParam(roadmapExporter.toShareParam(ROADMAP, 2024), SUBJECTS);
+    expect(result.roadmap).toEqual(ROADMAP);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('builds and reads links in the location hash', () => {
+    const link = roadmapExporter.createShareLink(ROADMAP, 'https://example.com/app#old', 2024);
+    expect(link.startsWith(`https://example.com/app#${SHARE_PARAM}=`)).toBe(true);
+    const param = roadmapExporter.readShareLink(new URL(link).hash);
+    expect(param).not.toBeNull();
+    expect(roadmapExporter.fromShareParam(param!, SUBJECTS).roadmap.title).toBe(ROADMAP.title);
+    expect(roadmapExporter.readShareLink('#other=1')).toBeNull();
+  });
+
+  it('reads links made before nodes carried their year and semester', () => {
+    const param = encode({
+      v: 1,
+      o: 'Power Engineer',
+      t: 'Old link',
+      d: '',
+      r: '',
+      n: [['A1', 0, 55], ['C3', 2, 91]],
+      c: [[0, 1]],
+    });
+    const { roadmap } = roadmapExporter.fromShareParam(param, SUBJECTS);
+    expect(roadmap.nodes.map(n => [n.id, n.type, n.year, n.semester, n.relevance_score])).toEqual([
+      ['A1', 'foundation', 1, 1, 0.55],
+      ['C3', 'specialized', 2, 3, 0.91],
+    ]);
+    expect(roadmap.nodes[0].connects).toEqual(['C3']);
+  });
+
+  it('rejects damaged links', () => {
+    expect(() => roadmapExporter.fromShareParam('not-base64!', SUBJECTS)).toThrow('damaged');
+    expect(() => roadmapExporter.fromShareParam(encode({ v: 1 }), SUBJECTS)).toThrow('damaged');
+    expect(() => roadmapExporter.fromShareParam(encode({ v: 2, n: [] }), SUBJECTS)).toThrow('version 2');
+  });
+});
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import { DataService } from '../dataService';
+import { RoadmapGenerator } from '../roadmapGenerator';
+import { occupationTaxonomy } from '../occupationTaxonomy';
+import { SYLLABUS_DIR } from './fixtures';
+
+// Reads the bundled catalogs from disk instead of fetching them
+const createDataService = () => new DataService(`${SYLLABUS_DIR}/`, async url => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  json: async () => JSON.parse(fs.readFileSync(url, 'utf8')),
+}) as Response);
+
+describe('RoadmapGenerator', () => {
+  let generator: RoadmapGenerator;
+  let data: DataService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => jest.restoreAllMocks());
+
+  beforeEach(() => {
+    data = createDataService();
+    generator = new RoadmapGenerator(data);
+  });
+
+  it.each(occupationTaxonomy.all().map(occupation => occupation.id))('gives %s a specialized tier', async id => {
+    const roadmap = await generator.generateRoadmap(id, { occupationIds: { [id]: 1 }, locale: 'en' });
+    expect(roadmap.nodes.length).toBeGreaterThan(0);
+    expect(roadmap.nodes.some(node => node.type === 'specialized')).toBe(true);
+  });
+
+  it('includes every prerequisite of the subjects it picks', async () => {
+    const roadmap = await generator.generateRoadmap('Power Engineer', { locale: 'en' });
+    const graph = await data.getPrerequisiteGraph();
+    const ids = new Set(roadmap.nodes.map(node => node.id));
+    roadmap.nodes.forEach(node => {
+      graph.getDirectPrerequisites(node.id).forEach(prerequisite => expect(ids.has(prerequisite)).toBe(true));
+      node.connects.forEach(target => expect(ids.has(target)).toBe(true));
+    });
+    expect(roadmap.total_credits).toBe(roadmap.nodes.reduce((total, node) => total + node.credits, 0));
+  });
+
+  it('lays out nodes in rows by semester without reordering them', async () => {
+    const roadmap = await generator.generateRoadmap('Electrical Engineer', { locale: 'en' });
+    const scores = roadmap.nodes.map(node => node.relevance_score);
+    // The best pick stays first instead of the earliest semester
+    expect(roadmap.nodes[0].relevance_score).toBe(Math.max(...scores));
+    expect(roadmap.nodes.map(node => node.semester)).not.toEqual(
+      roadmap.nodes.map(node => node.semester).sort((a, b) => a - b)
+    );
+    roadmap.nodes.forEach(node => {
+      const row = roadmap.nodes.filter(other => other.semester === node.semester);
+      expect(new Set(row.map(other => other.y))).toEqual(new Set([node.y]));
+      // Higher scores sit further left in their row
+      const lower = row.filter(other => other.relevance_score < node.relevance_score);
+      expect(lower.every(other => other.x > node.x)).toBe(true);
+    });
+  });
+
+  it('writes the title and reasoning in the requested language', async () => {
+    const en = await generator.generateRoadmap('EE', { locale: 'en' });
+    const ja = await generator.generateRoadmap('EE', { locale: 'ja' });
+    expect(en.title).toBe('Electrical Engineer Course Plan');
+    expect(ja.title).toContain('履修プラン');
+  });
+});
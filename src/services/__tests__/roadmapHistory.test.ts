@@ -0,0 +1,54 @@
+import {
+  createRoadmapHistory,
+  recordRoadmap,
+  redoRoadmap,
+  ROADMAP_HISTORY_LIMIT,
+  undoRoadmap,
+} from '../roadmapHistory';
+import { roadmapOf } from './fixtures';
+
+const roadmap = (title: string) => roadmapOf([], { title });
+
+const [A, B, C] = ['A', 'B', 'C'].map(roadmap);
+
+describe('roadmap history', () => {
+  it('undoes and redoes recorded roadmaps', () => {
+    const history = recordRoadmap(recordRoadmap(createRoadmapHistory(A), B), C);
+    expect(history).toEqual({ past: [A, B], present: C, future: [] });
+
+    const undone = undoRoadmap(undoRoadmap(history));
+    expect(undone).toEqual({ past: [], present: A, future: [B, C] });
+    expect(undoRoadmap(undone)).toBe(undone);
+
+    const redone = redoRoadmap(undone);
+    expect(redone).toEqual({ past: [A], present: B, future: [C] });
+    expect(redoRoadmap(redoRoadmap(redone))).toEqual(history);
+  });
+
+  it('discards the redo stack when a new roadmap is recorded', () => {
+    const undone = undoRoadmap(recordRoadmap(createRoadmapHistory(A), B));
+    expect(recordRoadmap(undone, C)).toEqual({ past: [A], present: C, future: [] });
+  });
+
+  it('ignores recording the roadmap already shown', () => {
+    const history = createRoadmapHistory(A);
+    expect(recordRoadmap(history, A)).toBe(history);
+  });
+
+  it('records clearing the roadmap and can undo it', () => {
+    const cleared = recordRoadmap(recordRoadmap(createRoadmapHistory(), A), null);
+    expect(cleared).toEqual({ past: [A], present: null, future: [] });
+    expect(undoRoadmap(cleared)).toEqual({ past: [], present: A, future: [] });
+  });
+
+  it(`keeps the last ${ROADMAP_HISTORY_LIMIT} roadmaps`, () => {
+    let history = createRoadmapHistory();
+    const roadmaps = Array.from({ length: ROADMAP_HISTORY_LIMIT + 5 }, (_, i) => roadmap(String(i)));
+    roadmaps.forEach(next => {
+      history = recordRoadmap(history, next);
+    });
+    expect(history.past).toHaveLength(ROADMAP_HISTORY_LIMIT);
+    expect(history.past[0]).toBe(roadmaps[4]);
+    expect(history.present).toBe(roadmaps[roadmaps.length - 1]);
+  });
+});
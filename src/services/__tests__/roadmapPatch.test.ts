@@ -0,0 +1,114 @@
+import { RoadmapNode } from '../geminiService';
+import { RoadmapPatch, roadmapPatcher } from '../roadmapPatch';
+import { nodeFor, roadmapOf, subject } from './fixtures';
+
+// CIR1 -> CIR2 -> PWR; MAG stands alone
+const career_relevance = { power_engineer: 0.8 };
+const SUBJECTS = [
+  subject('CIR1', { name: '電気回路1', career_relevance }),
+  subject('CIR2', { name: '電気回路2', semester: 2, prerequisites: ['CIR1'], career_relevance }),
+  subject('PWR', { name: '電力工学', semester: 5, prerequisites: ['CIR2'], career_relevance }),
+  subject('MAG', { name: '電気磁気学', semester: 3, career_relevance }),
+];
+
+const node = (id: string, overrides: Partial<RoadmapNode> = {}): RoadmapNode =>
+  nodeFor(SUBJECTS.find(s => s.id === id)!, overrides);
+
+const ROADMAP = roadmapOf(
+  [node('CIR1', { connects: ['CIR2'] }), node('CIR2', { connects: ['PWR'] }), node('PWR')],
+  { title: 'Power Engineer Course Plan', reasoning: 'Circuits lead to power engineering' }
+);
+
+const patch = (changes: Partial<RoadmapPatch>): RoadmapPatch => ({ reply: 'Done', add: [], remove: [], move: [], ...changes });
+
+describe('RoadmapPatcher.normalize', () => {
+  it('resolves names to ids and works out the year of a move', () => {
+    const result = roadmapPatcher.normalize({
+      reply: ' Added electromagnetism ',
+      add: [{ id: '電気磁気学', type: 'core' }],
+      move: [{ id: 'PWR', semester: 7, year: 1 }],
+      reasoning: 'New reasoning',
+    }, ROADMAP, SUBJECTS);
+    expect(result.hasErrors).toBe(false);
+    expect(result.patch).toEqual({
+      reply: 'Added electromagnetism',
+      add: [{ id: 'MAG', type: 'core' }],
+      remove: [],
+      move: [{ id: 'PWR', semester: 7, year: 4 }],
+      reasoning: 'New reasoning',
+    });
+    expect(result.issues.map(issue => issue.severity)).toEqual(['correction']);
+  });
+
+  it('leaves out operations that cannot apply and reports them as errors', () => {
+    const result = roadmapPatcher.normalize({
+      reply: 'Changes',
+      add: [{ id: 'CIR1', type: 'core' }, { id: 'MAG', type: 'bonus' }, 'UNKNOWN'],
+      remove: ['MAG'],
+      move: [{ id: 'CIR2', semester: 3 }, { id: 'CIR1', semester: 5 }, { id: 'PWR', semester: 7 }],
+    }, ROADMAP, SUBJECTS);
+    expect(result.hasErrors).toBe(true);
+    expect(result.patch).toEqual(patch({ reply: 'Changes', move: [{ id: 'PWR', semester: 7, year: 4 }] }));
+    expect(result.issues.filter(issue => issue.severity === 'error').map(issue => issue.field)).toEqual([
+      'remove[0]',
+      'add[0]',
+      'add[1]',
+      'add[2]',
+      'move[0].semester',
+      'move[1]',
+    ]);
+  });
+
+  it('needs a reply and a JSON object', () => {
+    expect(roadmapPatcher.normalize({ add: 'MAG' }, ROADMAP, SUBJECTS).issues.map(issue => issue.field))
+      .toEqual(['reply', 'add']);
+    expect(roadmapPatcher.normalize('text', ROADMAP, SUBJECTS).hasErrors).toBe(true);
+  });
+
+  it('lists the errors in the corrective prompt', () => {
+    const { issues } = roadmapPatcher.normalize({ reply: 'x', remove: ['MAG'] }, ROADMAP, SUBJECTS);
+    expect(roadmapPatcher.createCorrectivePrompt(issues)).toContain('- subject MAG, remove[0]: Subject MAG is not in the roadmap');
+  });
+});
+
+describe('RoadmapPatcher.apply', () => {
+  it('adds subjects from the catalog wired to the roadmap', () => {
+    const withoutMiddle = roadmapPatcher.apply(ROADMAP, patch({ remove: ['CIR2'] }), SUBJECTS);
+    expect(withoutMiddle.nodes.map(n => [n.id, n.connects])).toEqual([['CIR1', []], ['PWR', []]]);
+    expect(withoutMiddle.total_credits).toBe(4);
+
+    const restored = roadmapPatcher.apply(withoutMiddle, patch({ add: [{ id: 'CIR2', type: 'foundation' }] }), SUBJECTS);
+    expect(restored.nodes.map(n => [n.id, n.connects])).toEqual([['CIR1', ['CIR2']], ['PWR', []], ['CIR2', ['PWR']]]);
+    expect(restored.nodes[2]).toMatchObject({ type: 'foundation', credits: 2, year: 1, semester: 2, relevance_score: 0.8 });
+  });
+
+  it('moves subjects and replaces the reasoning without changing the original', () => {
+    const applied = roadmapPatcher.apply(ROADMAP, patch({ move: [{ id: 'PWR', year: 4, semester: 7 }], reasoning: 'Later' }), SUBJECTS);
+    expect(applied.nodes[2]).toMatchObject({ year: 4, semester: 7 });
+    expect(applied.reasoning).toBe('Later');
+    expect(ROADMAP.nodes[2].semester).toBe(5);
+    expect(applied.nodes.every(n => n.x > 0 && n.y > 0)).toBe(true);
+  });
+});
+
+describe('RoadmapPatcher.diff', () => {
+  it('lists the changes and the prerequisite problems the patch introduces', () => {
+    const after = roadmapPatcher.apply(
+      ROADMAP,
+      patch({ add: [{ id: 'MAG', type: 'core' }], remove: ['CIR1'], move: [{ id: 'PWR', year: 4, semester: 7 }], reasoning: 'New' }),
+      SUBJECTS
+    );
+    const diff = roadmapPatcher.diff(ROADMAP, after, SUBJECTS);
+    expect(diff.added.map(n => n.id)).toEqual(['MAG']);
+    expect(diff.removed.map(n => n.id)).toEqual(['CIR1']);
+    expect(diff.moved).toEqual([{ node: expect.objectContaining({ id: 'PWR' }), from: { year: 3, semester: 5 } }]);
+    expect([diff.creditsBefore, diff.creditsAfter, diff.reasoningChanged]).toEqual([6, 6, true]);
+    expect(diff.warnings).toEqual([{ id: 'CIR2', prerequisite: 'CIR1', reason: 'removed' }]);
+  });
+
+  it('does not repeat problems the roadmap already had', () => {
+    const outOfOrder = { ...ROADMAP, nodes: [node('CIR1', { semester: 3, year: 2 }), node('CIR2'), node('PWR')] };
+    const after = roadmapPatcher.apply(outOfOrder, patch({ move: [{ id: 'PWR', year: 4, semester: 7 }] }), SUBJECTS);
+    expect(roadmapPatcher.diff(outOfOrder, after, SUBJECTS).warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { Subject } from '../geminiService';
+import { GraduationRequirements } from '../graduationRequirements';
+import { RoadmapScorer, SCORE_MEASURES, SCORE_WEIGHTS } from '../roadmapScoring';
+import { roadmapNode, roadmapOf, subject } from './fixtures';
+
+// A subject offered in the given semester, relevant to power engineers by the given score
+const rated = (id: string, semester: number, relevance: number, overrides: Partial<Subject> = {}): Subject =>
+  subject(id, { semester, career_relevance: { power_engineer: relevance }, ...overrides });
+
+// A (S1) -> B (S2) -> C (S3); X (S1) -> D (S2); R (S1) is required
+const SUBJECTS = [
+  rated('A', 1, 0.8),
+  rated('B', 2, 0.6, { prerequisites: ['A'] }),
+  rated('C', 3, 0.4, { prerequisites: ['B'], credits: 4 }),
+  rated('R', 1, 0.2),
+  rated('X', 1, 0.5),
+  rated('D', 2, 0.5, { prerequisites: ['X'] }),
+];
+
+// ZZ isn't in this catalog, so it doesn't count
+const REQUIREMENTS: GraduationRequirements = {
+  course: 'Test course',
+  requirements: [
+    { id: 'total', kind: 'total_credits', label: 'Total', minCredits: 124 },
+    { id: 'required', kind: 'required', label: 'Required', subjectIds: ['R', 'A', 'ZZ'] },
+  ],
+};
+
+const roadmapAt = (nodes: [string, number][]) => roadmapOf(nodes.map(([id, semester]) => roadmapNode(id, { semester })));
+
+describe('RoadmapScorer', () => {
+  const score = (nodes: [string, number][], completedIds: string[] = []) => new RoadmapScorer().score(roadmapAt(nodes), {
+    subjects: SUBJECTS,
+    weights: { power_engineer: 1 },
+    completedIds,
+    requirements: REQUIREMENTS,
+  });
+
+  it('gives a valid roadmap in prerequisite order full validity, order and mandatory scores', () => {
+    const result = score([['A', 1], ['R', 1], ['B', 2], ['C', 3]]);
+
+    expect(result).toMatchObject({
+      subjects: 4,
+      credits: 10,
+      hallucinatedIds: [],
+      prerequisiteViolations: [],
+      missingPrerequisites: [],
+      meanRelevance: 0.5,
+      termCredits: [{ term: 1, credits: 4 }, { term: 2, credits: 2 }, { term: 3, credits: 4 }],
+      creditSpread: 0.283,
+      mandatoryIds: ['R', 'A'],
+      mandatoryMissingIds: [],
+      measures: { validity: 1, prerequisites: 1, relevance: 0.5, balance: 0.717, mandatory: 1 },
+      overall: 0.858,
+    });
+  });
+
+  it('reports subjects not in the catalog and prerequisites out of order', () => {
+    const result = score([['A', 2], ['B', 2], ['GHOST', 3], ['A', 5], ['D', 2]], ['R']);
+
+    expect(result.subjects).toBe(5);
+    expect(result.hallucinatedIds).toEqual(['GHOST']);
+    // The first placement of A counts
+    expect(result.prerequisiteViolations).toEqual([{ subjectId: 'B', prerequisiteId: 'A', term: 2, prerequisiteTerm: 2 }]);
+    expect(result.missingPrerequisites).toEqual([{ subjectId: 'D', prerequisiteId: 'X' }]);
+    expect(result.termCredits).toEqual([{ term: 2, credits: 6 }]);
+    expect(result.measures).toMatchObject({ validity: 0.8, prerequisites: 0, balance: 1, mandatory: 1 });
+  });
+
+  it('does not report prerequisites that are completed', () => {
+    expect(score([['D', 2]], ['X']).missingPrerequisites).toEqual([]);
+  });
+
+  it('falls back to the catalog term for a placement outside 1-8', () => {
+    const result = score([['B', 2], ['C', 9]]);
+
+    expect(result.termCredits).toEqual([{ term: 2, credits: 2 }, { term: 3, credits: 4 }]);
+    expect(result.prerequisiteViolations).toEqual([]);
+  });
+
+  it('scores an empty roadmap only on prerequisite order', () => {
+    const result = score([]);
+
+    expect(result.meanRelevance).toBeNull();
+    expect(result.mandatoryMissingIds).toEqual(['R', 'A']);
+    expect(result.measures).toEqual({ validity: 0, prerequisites: 1, relevance: 0, balance: 0, mandatory: 0 });
+    expect(result.overall).toBe(SCORE_WEIGHTS.prerequisites);
+  });
+
+  it('weights the measures to a total of 1', () => {
+    expect(SCORE_MEASURES.reduce((total, measure) => total + SCORE_WEIGHTS[measure], 0)).toBeCloseTo(1);
+  });
+});
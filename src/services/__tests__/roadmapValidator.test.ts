@@ -0,0 +1,191 @@
+import { isLaterOffering, roadmapValidator } from '../roadmapValidator';
+import { nodeFor, roadmapOf, subject } from './fixtures';
+
+const SUBJECTS = [
+  subject('EE101', { code: 'EE-101', name: '電気回路1', semester: 1 }),
+  subject('EE201', { name: '電磁気学', semester: 3, credits: 4 }),
+  subject('EE301', { name: '電力工学', semester: 5 }),
+];
+const [CIRCUITS, EM, POWER] = SUBJECTS;
+
+// A roadmap the model could have returned, with every node matching the catalog
+const response = (nodes: unknown[], overrides: Record<string, unknown> = {}) => ({
+  ...roadmapOf([]),
+  nodes,
+  total_credits: 8,
+  ...overrides,
+});
+
+const validate = (raw: unknown, options = {}) => roadmapValidator.validate(raw, SUBJECTS, options);
+
+describe('RoadmapValidator.validate', () => {
+  it('accepts a roadmap that matches the catalog as it is', () => {
+    const nodes = [nodeFor(CIRCUITS, { connects: ['EE201'] }), nodeFor(EM)];
+    const result = validate(response(nodes, { total_credits: 6 }));
+
+    expect(result).toEqual({ roadmap: roadmapOf(nodes), issues: [], hasErrors: false });
+  });
+
+  describe('unknown ids', () => {
+    it('matches a course code or name given instead of the id', () => {
+      const result = validate(response([
+        nodeFor(CIRCUITS, { id: 'EE-101' }),
+        nodeFor(EM, { id: 'Electromagnetics', name: '電磁気学' }),
+      ], { total_credits: 6 }));
+
+      expect(result.roadmap.nodes.map(node => [node.id, node.corrections])).toEqual([
+        ['EE101', ['id: EE-101 → EE101']],
+        ['EE201', ['id: Electromagnetics → EE201']],
+      ]);
+      expect(result.issues.map(issue => issue.message)).toEqual([
+        'Unknown id "EE-101" matched to EE101',
+        'Unknown id "Electromagnetics" matched to EE201',
+      ]);
+      expect(result.hasErrors).toBe(false);
+    });
+
+    it('drops subjects that are not in the catalog unless told to keep them', () => {
+      const raw = response([nodeFor(CIRCUITS), nodeFor(subject('XX999'), { credits: 3 })], { total_credits: 5 });
+      const dropped = validate(raw);
+      const kept = validate(raw, { dropUnknown: false });
+
+      expect(dropped.roadmap.nodes.map(node => node.id)).toEqual(['EE101']);
+      expect(dropped.issues).toContainEqual({
+        severity: 'error', nodeId: 'XX999', field: 'id', message: 'Subject "XX999" does not exist in the catalog',
+      });
+      expect(dropped.hasErrors).toBe(true);
+      expect(kept.roadmap.nodes[1]).toMatchObject({ id: 'XX999', credits: 3, corrections: ['not in catalog'] });
+      expect(kept.roadmap.total_credits).toBe(5);
+    });
+
+    it('reports a roadmap left without any valid subject', () => {
+      const result = validate(response([nodeFor(subject('XX999'))]));
+
+      expect(result.roadmap.nodes).toEqual([]);
+      expect(result.issues).toContainEqual({
+        severity: 'error', nodeId: null, field: 'nodes', message: 'Roadmap contains no valid subjects',
+      });
+    });
+  });
+
+  it('keeps the first of duplicate nodes, also when the duplicate uses another label for the subject', () => {
+    const result = validate(response([
+      nodeFor(CIRCUITS, { type: 'foundation' }),
+      nodeFor(CIRCUITS, { type: 'core' }),
+      nodeFor(CIRCUITS, { id: '電気回路1' }),
+    ]));
+
+    expect(result.roadmap.nodes).toEqual([nodeFor(CIRCUITS, { type: 'foundation' })]);
+    expect(result.issues.filter(issue => issue.severity === 'error')).toEqual([
+      { severity: 'error', nodeId: 'EE101', field: 'id', message: 'Duplicate node for subject EE101' },
+      { severity: 'error', nodeId: '電気回路1', field: 'id', message: 'Duplicate node for subject EE101' },
+    ]);
+  });
+
+  it('rejects a response that is not a roadmap object', () => {
+    expect(validate(['not', 'an', 'object'])).toMatchObject({
+      roadmap: { nodes: [], total_credits: 0 },
+      issues: [{ severity: 'error', nodeId: null, field: '$', message: 'Response is not a JSON object' }],
+      hasErrors: true,
+    });
+    expect(validate({ nodes: 'EE101', title: 1 }).issues.map(issue => issue.field))
+      .toEqual(['title', 'description', 'occupation', 'reasoning', 'nodes', 'nodes', 'total_credits']);
+    expect(validate(response([null, { name: 'no id' }, nodeFor(CIRCUITS)])).issues.slice(0, 2)).toEqual([
+      { severity: 'error', nodeId: null, field: 'nodes[0]', message: 'Node must be an object with a string "id"' },
+      { severity: 'error', nodeId: null, field: 'nodes[1]', message: 'Node must be an object with a string "id"' },
+    ]);
+  });
+
+  describe('connects', () => {
+    it('rewrites connections to the matched ids and drops the rest', () => {
+      const result = validate(response([
+        nodeFor(CIRCUITS, { connects: ['Electromagnetics', 'EE201', 'EE301', 'EE101', 'XX999'] }),
+        nodeFor(EM, { id: 'Electromagnetics', connects: ['EE-101'] }),
+      ], { total_credits: 6 }));
+
+      expect(result.roadmap.nodes.map(node => node.connects)).toEqual([['EE201'], ['EE101']]);
+      expect(result.issues.filter(issue => issue.field === 'connects').map(issue => issue.message)).toEqual([
+        'Dropped connection to "EE301", which is not part of the roadmap',
+        'Dropped connection to "XX999", which is not part of the roadmap',
+      ]);
+      expect(result.hasErrors).toBe(false);
+    });
+
+    it('ignores connections that are not a list of ids', () => {
+      const result = validate(response([
+        { ...nodeFor(CIRCUITS), connects: 'EE201' },
+        { ...nodeFor(EM), connects: ['EE101', 7, null] },
+      ], { total_credits: 6 }));
+
+      expect(result.roadmap.nodes.map(node => node.connects)).toEqual([[], ['EE101']]);
+    });
+  });
+
+  describe('catalog fields and credit totals', () => {
+    it('corrects the name, credits and term to the catalog and totals the corrected credits', () => {
+      const result = validate(response([
+        nodeFor(EM, { name: 'EM', credits: 2, year: 1, semester: 1 }),
+        nodeFor(POWER),
+      ], { total_credits: 4 }));
+
+      expect(result.roadmap.nodes[0]).toMatchObject({
+        name: '電磁気学',
+        credits: 4,
+        year: 2,
+        semester: 3,
+        corrections: ['name: EM → 電磁気学', 'credits: 2 → 4', 'year: 1 → 2', 'semester: 1 → 3'],
+      });
+      expect(result.roadmap.total_credits).toBe(6);
+      expect(result.issues).toContainEqual({
+        severity: 'correction', nodeId: null, field: 'total_credits', message: 'total_credits was 4, nodes sum to 6',
+      });
+      expect(result.hasErrors).toBe(false);
+    });
+
+    it('reports a missing total and does not count dropped subjects', () => {
+      const { total_credits: _, ...raw } = response([nodeFor(CIRCUITS), nodeFor(subject('XX999'), { credits: 10 })]);
+      const result = validate(raw);
+
+      expect(result.roadmap.total_credits).toBe(2);
+      expect(result.issues).toContainEqual(expect.objectContaining({
+        field: 'total_credits', message: 'total_credits was undefined, nodes sum to 2',
+      }));
+    });
+
+    it('falls back to an elective and clamps the relevance score', () => {
+      const result = validate(response([{ ...nodeFor(CIRCUITS), type: 'required', relevance_score: 3 }], { total_credits: 2 }));
+
+      expect(result.roadmap.nodes[0]).toMatchObject({ type: 'elective', relevance_score: 1, corrections: ['type: required → elective'] });
+    });
+
+    it('keeps a later offering of the catalog term only when allowed', () => {
+      const retake = nodeFor(CIRCUITS, { year: 2, semester: 3 });
+
+      expect(validate(response([retake], { total_credits: 2 }), { allowLaterTerms: true }).roadmap.nodes[0])
+        .toEqual(retake);
+      expect(validate(response([retake], { total_credits: 2 })).roadmap.nodes[0])
+        .toMatchObject({ year: 1, semester: 1 });
+      // Semester 3 in year 1 is not a real term, so it is still corrected
+      expect(validate(response([nodeFor(CIRCUITS, { semester: 3 })], { total_credits: 2 }), { allowLaterTerms: true })
+        .roadmap.nodes[0]).toMatchObject({ year: 1, semester: 1 });
+    });
+  });
+});
+
+describe('isLaterOffering', () => {
+  it('allows the same season of a later year up to the last semester', () => {
+    expect([1, 2, 3, 5, 7, 9].map(semester => isLaterOffering(CIRCUITS, semester)))
+      .toEqual([true, false, true, true, true, false]);
+    expect(isLaterOffering(EM, 1)).toBe(false);
+  });
+});
+
+describe('RoadmapValidator.createCorrectivePrompt', () => {
+  it('lists only the errors', () => {
+    const { issues } = validate(response([nodeFor(CIRCUITS, { credits: 1 }), nodeFor(subject('XX999'))]));
+
+    expect(roadmapValidator.createCorrectivePrompt(issues)).toContain(
+      'problems:\n- node XX999, id: Subject "XX999" does not exist in the catalog\n\n'
+    );
+  });
+});
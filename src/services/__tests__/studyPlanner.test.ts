@@ -0,0 +1,100 @@
+import { PrerequisiteGraph } from '../prerequisiteGraph';
+import { isOfferedIn, StudyPlan, studyPlanner } from '../studyPlanner';
+import { planOf, subject } from './fixtures';
+
+// A1 (S1) -> B2 (S2) -> C3 (S3); D1 (S1) stands alone
+const SUBJECTS = [
+  subject('A1', { semester: 1 }),
+  subject('B2', { semester: 2, prerequisites: ['A1'] }),
+  subject('C3', { semester: 3, prerequisites: ['B2'] }),
+  subject('D1', { semester: 1, credits: 4 }),
+];
+const graph = new PrerequisiteGraph(SUBJECTS);
+
+describe('isOfferedIn', () => {
+  it('offers a subject in its semester and the same season of later years', () => {
+    const spring = subject('A1', { semester: 1 });
+    expect([1, 2, 3, 4, 5, 7].map(semester => isOfferedIn(spring, semester))).toEqual([true, false, true, false, true, true]);
+    expect(isOfferedIn(subject('C3', { semester: 3 }), 1)).toBe(false);
+  });
+});
+
+describe('StudyPlanner.createPlan', () => {
+  it('places subjects in their catalog semester after their prerequisites', () => {
+    const plan = studyPlanner.createPlan(['C3', 'B2', 'A1', 'D1'], SUBJECTS, graph);
+    expect(plan.terms[1].sort()).toEqual(['A1', 'D1']);
+    expect(plan.terms[2]).toEqual(['B2']);
+    expect(plan.terms[3]).toEqual(['C3']);
+    expect(plan.unplaced).toEqual([]);
+    expect(studyPlanner.checkPlan(plan, SUBJECTS, graph)).toEqual([]);
+  });
+
+  it('moves a subject to the same season a year later when the credit cap is reached', () => {
+    const plan = studyPlanner.createPlan(['A1', 'D1'], SUBJECTS, graph, { maxCreditsPerTerm: 4 });
+    expect(plan.terms[1]).toEqual(['A1']);
+    expect(plan.terms[3]).toEqual(['D1']);
+    expect(plan.maxCreditsPerTerm).toBe(4);
+  });
+
+  it('starts at the current semester and skips completed subjects', () => {
+    const plan = studyPlanner.createPlan(['A1', 'B2', 'C3'], SUBJECTS, graph, { startSemester: 2, completedIds: ['A1'] });
+    expect(plan.terms[1]).toEqual([]);
+    expect(plan.terms[2]).toEqual(['B2']);
+    expect(plan.terms[3]).toEqual(['C3']);
+  });
+
+  it('postpones dependents when a prerequisite has to wait', () => {
+    const plan = studyPlanner.createPlan(['A1', 'B2', 'C3'], SUBJECTS, graph, { startSemester: 3 });
+    expect(plan.terms[3]).toEqual(['A1']);
+    expect(plan.terms[4]).toEqual(['B2']);
+    expect(plan.terms[5]).toEqual(['C3']);
+  });
+
+  it('leaves out subjects that no remaining term can take', () => {
+    const plan = studyPlanner.createPlan(['A1', 'B2', 'C3', 'XX'], SUBJECTS, graph, { startSemester: 7 });
+    expect(plan.terms[7]).toEqual(['A1']);
+    expect(plan.terms[8]).toEqual(['B2']);
+    expect(plan.unplaced.sort()).toEqual(['C3', 'XX']);
+  });
+});
+
+describe('StudyPlanner.checkPlan', () => {
+  const kinds = (plan: StudyPlan, options = {}) =>
+    studyPlanner.checkPlan(plan, SUBJECTS, graph, options).map(violation => [violation.kind, violation.subjectId]);
+
+  it('reports subjects outside their offering season', () => {
+    expect(kinds(planOf({ 1: ['A1'], 2: ['D1'] }))).toEqual([['offering', 'D1']]);
+  });
+
+  it('reports terms over the credit cap', () => {
+    expect(kinds(planOf({ 1: ['A1', 'D1'] }, 4))).toEqual([['credit_cap', null]]);
+  });
+
+  it('reports prerequisites that are missing or planned too late', () => {
+    expect(kinds(planOf({ 2: ['B2'] }))).toEqual([['prerequisite', 'B2']]);
+    expect(kinds(planOf({ 3: ['A1', 'C3'], 4: ['B2'] }))).toEqual([['prerequisite', 'C3']]);
+    expect(kinds(planOf({ 2: ['B2'] }), { completedIds: ['A1'] })).toEqual([]);
+  });
+
+  it('reports past terms, completed and unplaced subjects', () => {
+    const plan = { ...planOf({ 1: ['A1'], 3: ['D1'] }), unplaced: ['C3'] };
+    expect(kinds(plan, { startSemester: 2 })).toEqual([['past_term', 'A1'], ['unplaced', 'C3']]);
+    expect(kinds(planOf({ 3: ['D1'] }), { completedIds: ['D1'] })).toEqual([['completed', 'D1']]);
+  });
+});
+
+describe('StudyPlanner edits', () => {
+  it('moves, adds and counts subjects without changing the original plan', () => {
+    const plan = planOf({ 1: ['A1', 'D1'] });
+    const moved = studyPlanner.moveSubject(plan, 'D1', 3);
+    expect(plan.terms[1]).toEqual(['A1', 'D1']);
+    expect(moved.terms[1]).toEqual(['A1']);
+    expect(moved.terms[3]).toEqual(['D1']);
+    expect(studyPlanner.moveSubject(moved, 'A1', null).unplaced).toEqual(['A1']);
+
+    const added = studyPlanner.addSubject(moved, SUBJECTS[1]);
+    expect(added.terms[2]).toEqual(['B2']);
+    expect(studyPlanner.addSubject(added, SUBJECTS[1])).toBe(added);
+    expect(studyPlanner.creditsPerTerm(added, SUBJECTS)).toMatchObject({ 1: 2, 2: 2, 3: 4, 4: 0 });
+  });
+});
@@ -0,0 +1,122 @@
+import { normalizeText, SubjectSearchIndex, tokenize } from '../subjectSearch';
+import { subject } from './fixtures';
+
+const SUBJECTS = [
+  subject('EE201', {
+    code: 'EE-201',
+    name: '電気回路2',
+    name_en: 'Electric Circuits 2',
+    semester: 3,
+    keywords: ['交流回路'],
+  }),
+  subject('EE101', {
+    code: 'EE-101',
+    name: '電気回路1',
+    name_en: 'Electric Circuits 1',
+    keywords: ['直流回路', 'キルヒホッフ'],
+    career_relevance: { power_engineer: 0.6 },
+  }),
+  subject('PW301', {
+    name: '電力工学',
+    name_en: 'Power Engineering',
+    semester: 5,
+    credits: 4,
+    description: '電気回路の知識を使って送電を学ぶ',
+    syllabus_en: ['Transmission lines'],
+    career_relevance: { power_engineer: 0.9, control_engineer: 0.3 },
+  }),
+  subject('LSI', { name: 'ＬＳＩ設計', semester: 6, department: ' 情報 ', learning_outcomes: ['回路設計ができる'] }),
+];
+
+const ids = (results: { subject: { id: string } }[]) => results.map(result => result.subject.id);
+
+describe('tokenize', () => {
+  it('keeps Latin words whole and splits Japanese runs into bigrams', () => {
+    expect(tokenize('電気回路 Circuits 2')).toEqual(['circuits', '2', '電気', '気回', '回路']);
+    expect(tokenize('光')).toEqual(['光']);
+  });
+
+  it('folds full-width and half-width variants', () => {
+    expect(normalizeText('ＬＳＩ１ｶﾅ')).toBe('lsi1カナ');
+    expect(tokenize('ＬＳＩ設計')).toEqual(['lsi', '設計']);
+  });
+
+  it('has no tokens for blank or punctuation-only input', () => {
+    expect(tokenize('')).toEqual([]);
+    expect(tokenize(' 、。!? ')).toEqual([]);
+  });
+});
+
+describe('SubjectSearchIndex', () => {
+  const index = new SubjectSearchIndex(SUBJECTS);
+
+  it('indexes the first of subjects sharing an id', () => {
+    const withCopy = new SubjectSearchIndex([...SUBJECTS, subject('EE101', { name: '別の科目' })]);
+
+    expect(withCopy.size).toBe(4);
+    expect(withCopy.search('別の')).toEqual([]);
+  });
+
+  describe('search', () => {
+    it('returns every subject in catalog order for an empty query', () => {
+      expect(index.search('')).toEqual(SUBJECTS.map(item => ({ subject: item, score: 0, matchedFields: [] })));
+      expect(ids(index.search('  ', { semesters: [1, 3] }))).toEqual(['EE201', 'EE101']);
+    });
+
+    it('matches Japanese text anywhere in a field', () => {
+      expect(ids(index.search('回路'))).toEqual(['EE101', 'EE201', 'LSI', 'PW301']);
+      expect(index.search('送電')).toEqual([{ subject: SUBJECTS[2], score: expect.any(Number), matchedFields: ['description'] }]);
+    });
+
+    it('matches English translations and ids regardless of case and width', () => {
+      expect(ids(index.search('power'))).toEqual(['PW301']);
+      expect(ids(index.search('TRANSMISSION lines'))).toEqual(['PW301']);
+      expect(ids(index.search('ｌｓｉ'))).toEqual(['LSI']);
+      expect(index.search('ee101')).toEqual([{ subject: SUBJECTS[1], score: expect.any(Number), matchedFields: ['code'] }]);
+    });
+
+    it('needs every word of the query to match', () => {
+      expect(ids(index.search('electric circuits 1'))).toEqual(['EE101']);
+      expect(index.search('circuits power')).toEqual([]);
+    });
+
+    it('ranks name matches above description matches and whole-phrase matches above scattered ones', () => {
+      const [first, second, third] = index.search('電気回路');
+
+      // Both circuits courses have the phrase in their name; the earlier semester breaks the tie
+      expect([first, second].map(result => result.subject.id)).toEqual(['EE101', 'EE201']);
+      expect(first.score).toBe(second.score);
+      expect(third).toMatchObject({ subject: { id: 'PW301' }, matchedFields: ['description'] });
+      expect(third.score).toBeLessThan(second.score);
+    });
+
+    it('weighs rare words above words most subjects share', () => {
+      const [circuits] = index.search('回路');
+      const [kirchhoff] = index.search('キルヒホッフ');
+
+      expect(kirchhoff.matchedFields).toEqual(['keywords']);
+      expect(kirchhoff.score).toBeGreaterThan(circuits.score);
+    });
+
+    it('applies the filters before matching', () => {
+      expect(ids(index.search('回路', { years: [1, 2] }))).toEqual(['EE101', 'EE201']);
+      expect(ids(index.search('回路', { credits: [4] }))).toEqual(['PW301']);
+      expect(ids(index.search('回路', { departments: ['情報'] }))).toEqual(['LSI']);
+      expect(ids(index.search('', { minRelevance: { occupation: 'power_engineer', score: 0.7 } }))).toEqual(['PW301']);
+      expect(ids(index.search('回路', { years: [] }))).toHaveLength(4);
+    });
+  });
+
+  it('counts facet values in order, departments by count', () => {
+    expect(index.facets(SUBJECTS)).toEqual({
+      years: [{ value: 1, count: 1 }, { value: 2, count: 1 }, { value: 3, count: 2 }],
+      semesters: [1, 3, 5, 6].map(value => ({ value, count: 1 })),
+      credits: [{ value: 2, count: 3 }, { value: 4, count: 1 }],
+      departments: [{ value: '電気電子', count: 3 }, { value: '情報', count: 1 }],
+    });
+  });
+
+  it('lists the occupations with relevance scores', () => {
+    expect(index.occupations()).toEqual(['control_engineer', 'power_engineer']);
+  });
+});
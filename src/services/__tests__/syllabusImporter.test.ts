@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCsv, SyllabusImporter } from '../syllabusImporter';
+import { IMPORT_FIXTURES_DIR } from './fixtures';
+
+const fixture = (name: string) => fs.readFileSync(path.join(IMPORT_FIXTURES_DIR, name), 'utf8');
+
+describe('SyllabusImporter', () => {
+  const subject = () => new SyllabusImporter();
+
+  it('reads a syllabus page', () => {
+    const { subjects, warnings } = subject().parse(fixture('610403D.html'), '610403D.html', 'html');
+
+    expect(warnings).toEqual([]);
+    expect(subjects).toHaveLength(1);
+    const [imported] = subjects;
+    expect(imported.source).toBe('610403D.html');
+    expect(imported.numbering).toBe('MATH2010JSCE');
+    expect(imported.fields).toMatchObject({
+      code: '610403D',
+      name: '微分方程式１',
+      credits: 2,
+      year: 2,
+      semester: 3,
+      schedule: { slots: [{ day: 'mon', period: 3 }, { day: 'mon', period: 4 }] },
+      learning_outcomes: ['簡単な求積法が理解できる．', '2階の定数係数線形常微分方程式が解ける．'],
+      keywords: ['求積法', '線形微分方程式'],
+      prerequisites: [],
+    });
+    expect(imported.fields.syllabus).toHaveLength(16);
+    expect(imported.fields.syllabus?.[0]).toMatch(/^方程式の種類/);
+  });
+
+  it('reads prerequisites and keywords listed on a page', () => {
+    const { subjects, warnings } = subject().parse(fixture('614020D.html'), '614020D.html', 'html');
+
+    expect(warnings).toEqual([]);
+    expect(subjects[0].numbering).toBe('EENG3070JEEE');
+    expect(subjects[0].fields).toMatchObject({ code: '614020D', name: '電力系統工学', year: 2, semester: 4 });
+    expect(subjects[0].fields.keywords).toHaveLength(10);
+    expect(subjects[0].fields.prerequisites).toEqual(['電気回路１及び演習', '電気回路２及び演習', '電気磁気学１及び演習']);
+  });
+
+  it('reads one subject per row of a CSV export', () => {
+    const { subjects, warnings } = subject().parse(fixture('export.csv'), 'export.csv', 'csv');
+
+    expect(warnings).toEqual([]);
+    expect(subjects.map(imported => imported.source)).toEqual(['export.csv:2', 'export.csv:3', 'export.csv:4', 'export.csv:5']);
+    expect(subjects.map(imported => imported.fields.code)).toEqual(['614022D', '610024D', '614045D', '614016D']);
+    expect(subjects[0]).toMatchObject({ numbering: 'EENG3200JEEE', fields: { name: '制御理論', prerequisites: [] } });
+    expect(subjects[1].fields).toMatchObject({ name: '生産管理', year: 4, semester: 7 });
+    // Weekly topics come from the 第N回 columns, in order
+    expect(subjects[2].fields.prerequisites).toEqual(['電力系統工学']);
+    expect(subjects[2].fields.syllabus).toHaveLength(8);
+    expect(subjects[2].fields.syllabus?.[0]).toBe('ガイダンスと電気設備の概要');
+  });
+
+  it('warns about records it cannot read', () => {
+    const csv = '時間割コード,授業科目名,単位数,開講期,備考\n,,2,,\n614099D,テスト科目,二,後期,\n';
+    const { subjects, warnings } = subject().parse(csv, 'bad.csv', 'csv');
+
+    expect(subjects.map(imported => imported.fields.code)).toEqual(['614099D']);
+    expect(warnings).toEqual([
+      'bad.csv: ignored columns 備考',
+      'bad.csv:2: skipped a record without a course code or name',
+      'bad.csv:3: could not read credits from "二"',
+      'bad.csv:3: could not read the semester from "後期" without a year',
+    ]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('keeps commas, quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"1, ""one""","two\nlines"\n\n')).toEqual([
+      ['a', 'b'],
+      ['1, "one"', 'two\nlines'],
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { formatValidationIssue, syllabusValidator } from '../syllabusValidator';
+import { readCatalogFile, subject as catalogSubject } from './fixtures';
+
+// Raw catalog entries, so fields can also be given values of the wrong type
+const subject = (overrides: Record<string, unknown> = {}) => ({
+  ...catalogSubject('EENG1000JEEE', { code: '614001D', name: '電気回路I' }),
+  ...overrides,
+});
+
+describe('SyllabusValidator', () => {
+  it('accepts a well-formed catalog', () => {
+    const { subjects, report } = syllabusValidator.validate({
+      subjects: [subject(), subject({ id: 'EENG1010JEEE', code: '614002D', name: '電気回路II', prerequisites: ['電気回路I'] })],
+    });
+    expect(subjects).toHaveLength(2);
+    expect(report).toMatchObject({ subjectCount: 2, validSubjectCount: 2, errors: [], warnings: [], isDegraded: false });
+  });
+
+  it('rejects a file without a subjects array', () => {
+    const { subjects, report } = syllabusValidator.validate([subject()]);
+    expect(subjects).toEqual([]);
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0]).toMatchObject({ index: null, field: 'subjects' });
+    expect(report.isDegraded).toBe(true);
+  });
+
+  it('keeps subjects with schema errors out', () => {
+    const { subjects, report } = syllabusValidator.validate({
+      subjects: [subject(), subject({ id: 'B', code: 'B', credits: 0, semester: 9, keywords: 'x' })],
+    });
+    expect(subjects.map(s => s.id)).toEqual(['EENG1000JEEE']);
+    expect(report.errors.map(issue => issue.field).sort()).toEqual(['credits', 'keywords', 'semester']);
+    expect(report.validSubjectCount).toBe(1);
+  });
+
+  it('skips exact copies and keeps other subjects sharing an id under a new id', () => {
+    const { subjects, sourceIndexes, report } = syllabusValidator.validate({
+      subjects: [
+        subject({ name: 'アプリケーション開発演習' }),
+        subject({ name: 'アプリケーション開発演習' }),
+        subject({ code: '614099D', name: '短期インターンシップ' }),
+        subject({ id: 'EENG1000JEEE-2', code: '614097D', name: '電子回路' }),
+        subject({ code: '614098D', name: '生産管理' }),
+      ],
+    });
+    expect(subjects.map(s => [s.id, s.name])).toEqual([
+      ['EENG1000JEEE', 'アプリケーション開発演習'],
+      ['EENG1000JEEE-3', '短期インターンシップ'],
+      ['EENG1000JEEE-2', '電子回路'],
+      ['EENG1000JEEE-4', '生産管理'],
+    ]);
+    expect(sourceIndexes).toEqual([0, 2, 3, 4]);
+    expect(report.errors).toEqual([]);
+    expect(report.warnings.filter(issue => issue.field === 'id').map(issue => issue.message)).toEqual([
+      'Copy of the subject at index 0; skipped',
+      'Duplicate id "EENG1000JEEE" (first used at index 0); kept as "EENG1000JEEE-3"',
+      'Duplicate id "EENG1000JEEE" (first used at index 0); kept as "EENG1000JEEE-4"',
+    ]);
+    expect(report.validSubjectCount).toBe(4);
+  });
+
+  it('joins a description given as a list of lines', () => {
+    const raw = subject({ description: ['一行目', '二行目'] });
+    const { subjects, report } = syllabusValidator.validate({ subjects: [raw, subject({ id: 'B', code: 'B', description: [1] })] });
+
+    expect(subjects.map(s => s.description)).toEqual(['一行目\n二行目']);
+    expect(raw.description).toEqual(['一行目', '二行目']);
+    expect(report.warnings.map(issue => issue.field)).toEqual(['description']);
+    expect(report.errors.map(issue => issue.field)).toEqual(['description']);
+  });
+
+  it.each([2024, 2023])('keeps every real course of the %i catalog', year => {
+    const { subjects, report } = syllabusValidator.validate(readCatalogFile(year));
+    const names = subjects.map(s => s.name);
+
+    // The only subjects left out are a repeated copy of 電力系統工学 and an offering without a name
+    expect(report.subjectCount - report.validSubjectCount).toBe(2);
+    expect(report.errors.map(issue => issue.message)).toEqual(['Subject name is empty']);
+    expect(new Set(subjects.map(s => s.id)).size).toBe(subjects.length);
+    expect(names).toEqual(expect.arrayContaining([
+      'インターンシップ基礎', 'アプリケーション開発演習', '短期インターンシップ', '実践力養成型インターンシップ', 'ニュービジネス概論', '生産管理',
+    ]));
+  });
+
+  it('keeps subjects with an empty name or id out', () => {
+    const { subjects, report } = syllabusValidator.validate({
+      subjects: [subject({ name: '  ' }), subject({ id: '', code: 'X' })],
+    });
+    expect(subjects).toEqual([]);
+    expect(report.validSubjectCount).toBe(0);
+    expect(report.errors.map(issue => issue.message)).toEqual(['Subject name is empty', 'Subject id is empty']);
+  });
+
+  it('warns about duplicate codes, term mismatches and unknown or placeholder prerequisites', () => {
+    const { subjects, report } = syllabusValidator.validate({
+      subjects: [
+        subject({ semester: 3, prerequisites: ['なし', '存在しない科目'] }),
+        subject({ id: 'B', name: 'B' }),
+      ],
+    });
+    expect(subjects).toHaveLength(2);
+    expect(report.isDegraded).toBe(false);
+    expect(report.warnings.map(issue => issue.field)).toEqual(['semester', 'prerequisites[0]', 'prerequisites[1]', 'code']);
+  });
+
+  it('checks class times', () => {
+    const { subjects, report } = syllabusValidator.validate({
+      subjects: [
+        subject({ schedule: { term: 'q1', slots: [{ day: 'sun', period: 1 }, { day: 'mon', period: 6 }] } }),
+        subject({ id: 'B', code: 'B', name: 'B', schedule: { slots: [] } }),
+        subject({ id: 'C', code: 'C', name: 'C', schedule: { term: 'first_quarter', slots: [{ day: 'mon', period: 1 }, { day: 'mon', period: 1 }] } }),
+      ],
+    });
+    expect(subjects.map(s => s.id)).toEqual(['C']);
+    expect(report.errors.map(issue => issue.field)).toEqual([
+      'schedule.term', 'schedule.slots[0]', 'schedule.slots[1]', 'schedule.slots',
+    ]);
+    expect(report.warnings.map(issue => issue.message)).toEqual(['The same slot is listed more than once']);
+  });
+
+  it('formats issues with their location', () => {
+    const { report } = syllabusValidator.validate({ subjects: [subject({ credits: -1 })] });
+    expect(formatValidationIssue(report.errors[0])).toBe(
+      'ERROR subjects[0] (EENG1000JEEE) credits: "credits" must be a positive number'
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/** @jest-environment node */
+import { ScheduleTerm, Subject, TimeSlot } from '../geminiService';
+import { PrerequisiteGraph } from '../prerequisiteGraph';
+import { quarterLabel, semesterStartDate, termsOverlap, timetableBuilder } from '../timetable';
+import { planOf, subject } from './fixtures';
+
+// A subject meeting in the given slots; without slots it has no class times
+const subjectIn = (
+  id: string,
+  semester: number,
+  slots: TimeSlot[] = [],
+  overrides: Partial<Subject> & { term?: ScheduleTerm } = {}
+): Subject => {
+  const { term, ...fields } = overrides;
+  return subject(id, {
+    semester,
+    ...(slots.length > 0 ? { schedule: { ...(term ? { term } : {}), slots } } : {}),
+    ...fields,
+  });
+};
+
+const MON_3 = { day: 'mon' as const, period: 3 };
+const MON_4 = { day: 'mon' as const, period: 4 };
+
+describe('timetable helpers', () => {
+  it('labels quarters by the half of the year', () => {
+    expect(quarterLabel(1, 'first_quarter')).toBe('1Q');
+    expect(quarterLabel(3, 'second_quarter')).toBe('2Q');
+    expect(quarterLabel(4, 'first_quarter')).toBe('3Q');
+    expect(quarterLabel(2, 'second_quarter')).toBe('4Q');
+    expect(quarterLabel(2, 'semester')).toBeNull();
+  });
+
+  it('overlaps whole-semester courses with both quarters but not the quarters with each other', () => {
+    expect(termsOverlap('semester', 'second_quarter')).toBe(true);
+    expect(termsOverlap('first_quarter', 'first_quarter')).toBe(true);
+    expect(termsOverlap('first_quarter', 'second_quarter')).toBe(false);
+  });
+
+  it('starts a semester on the first Monday from 8 April or 1 October', () => {
+    // 8 April 2024 is a Monday, 1 October 2024 a Tuesday
+    expect(semesterStartDate(2024, 1)).toBe('2024-04-08');
+    expect(semesterStartDate(2024, 2)).toBe('2024-10-07');
+    expect(semesterStartDate(2024, 3)).toBe('2025-04-14');
+  });
+});
+
+describe('TimetableBuilder', () => {
+  describe('buildWeek', () => {
+    it('finds subjects meeting in the same period of overlapping terms', () => {
+      const subjects = [
+        subjectIn('A', 1, [MON_3, MON_4]),
+        subjectIn('B', 1, [MON_3]),
+        subjectIn('Q1', 1, [MON_4], { term: 'first_quarter' }),
+        subjectIn('Q2', 1, [{ day: 'tue', period: 1 }], { term: 'first_quarter' }),
+        subjectIn('Q3', 1, [{ day: 'tue', period: 1 }], { term: 'second_quarter' }),
+        subjectIn('N', 1),
+      ];
+      const week = timetableBuilder.buildWeek(planOf({ 1: ['A', 'B', 'Q1', 'Q2', 'Q3', 'N'] }), 1, subjects);
+
+      expect(week.clashes).toEqual([
+        { semester: 1, day: 'mon', period: 3, subjectIds: ['A', 'B'] },
+        { semester: 1, day: 'mon', period: 4, subjectIds: ['A', 'Q1'] },
+      ]);
+      expect(week.cells['tue-1']).toEqual([
+        { subjectId: 'Q2', term: 'first_quarter' },
+        { subjectId: 'Q3', term: 'second_quarter' },
+      ]);
+      expect(week.unscheduled).toEqual(['N']);
+      expect(week.days).toEqual(['mon', 'tue', 'wed', 'thu', 'fri']);
+    });
+
+    it('shows Saturday only when a subject meets then and lists a repeated slot once', () => {
+      const subjects = [subjectIn('S', 1, [{ day: 'sat', period: 2 }, { day: 'sat', period: 2 }])];
+      const week = timetableBuilder.buildWeek(planOf({ 1: ['S'] }), 1, subjects);
+
+      expect(week.days).toContain('sat');
+      expect(week.cells['sat-2']).toEqual([{ subjectId: 'S', term: 'semester' }]);
+      expect(week.clashes).toEqual([]);
+    });
+  });
+
+  it('reports each clashing subject as a plan violation', () => {
+    const subjects = [subjectIn('A', 1, [MON_3]), subjectIn('B', 1, [MON_3]), subjectIn('C', 2, [MON_3])];
+    const violations = timetableBuilder.clashViolations(planOf({ 1: ['A', 'B'], 2: ['C'] }), subjects);
+
+    expect(violations).toEqual([
+      { kind: 'clash', subjectId: 'A', semester: 1, message: 'Meets at the same time as Subject B (Mon period 3)' },
+      { kind: 'clash', subjectId: 'B', semester: 1, message: 'Meets at the same time as Subject A (Mon period 3)' },
+    ]);
+  });
+
+  describe('suggestAlternatives', () => {
+    // A (offered in S1, 3, 5, 7) and B (S3, 5, 7) clash in S3; C in S5 needs B
+    const subjects = [
+      subjectIn('A', 1, [MON_3]),
+      subjectIn('B', 3, [MON_3]),
+      subjectIn('C', 5, [{ day: 'fri', period: 1 }], { prerequisites: ['B'] }),
+    ];
+    const graph = new PrerequisiteGraph(subjects);
+    const plan = planOf({ 3: ['A', 'B'], 5: ['C'] });
+
+    it('moves a clashing subject to the nearest term that adds no violations', () => {
+      // Moving B to S5 or S7 breaks C's prerequisite; S1 and S5 are as near for A, and the later one wins
+      expect(timetableBuilder.suggestAlternatives(plan, 3, subjects, graph)).toEqual([
+        { subjectId: 'A', from: 3, to: 5, clashesAfter: 0 },
+      ]);
+    });
+
+    it('does not suggest terms before the start semester', () => {
+      // A (S2, 4, 6, 8) and B (S4, 6, 8) clash in S4; D and E take the same slot in S6 and S8
+      const evenSubjects = [
+        subjectIn('A', 2, [MON_3]),
+        subjectIn('B', 4, [MON_3]),
+        subjectIn('D', 6, [MON_3]),
+        subjectIn('E', 8, [MON_3]),
+      ];
+      const evenGraph = new PrerequisiteGraph(evenSubjects);
+      const evenPlan = planOf({ 4: ['A', 'B'], 6: ['D'], 8: ['E'] });
+
+      expect(timetableBuilder.suggestAlternatives(evenPlan, 4, evenSubjects, evenGraph)).toEqual([
+        { subjectId: 'A', from: 4, to: 2, clashesAfter: 0 },
+      ]);
+      expect(timetableBuilder.suggestAlternatives(evenPlan, 4, evenSubjects, evenGraph, { startSemester: 4 })).toEqual([]);
+    });
+  });
+
+  describe('toICalendar', () => {
+    const NOW = new Date('2024-03-01T09:30:00.123Z');
+
+    const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+    it('turns consecutive periods into one weekly event from the semester start', () => {
+      const subjects = [subjectIn('A', 1, [MON_3, MON_4, { day: 'wed', period: 1 }], { name: '電気回路, 基礎; 演習' })];
+      const calendar = timetableBuilder.toICalendar(planOf({ 1: ['A'] }), 1, subjects, { admissionYear: 2024, now: NOW });
+      const lines = unfold(calendar).split('\r\n');
+
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(lines).toContain('X-WR-CALNAME:Semester 1');
+      expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+      expect(lines).toEqual(expect.arrayContaining([
+        'UID:A-s1-mon3@tokushima-roadmap',
+        'DTSTAMP:20240301T093000Z',
+        'DTSTART;TZID=Asia/Tokyo:20240408T125000',
+        'DTEND;TZID=Asia/Tokyo:20240408T160500',
+        'DTSTART;TZID=Asia/Tokyo:20240410T084000',
+        'RRULE:FREQ=WEEKLY;COUNT=16',
+        'SUMMARY:電気回路\\, 基礎\\; 演習',
+      ]));
+    });
+
+    it('starts second-quarter courses eight weeks in and runs them for eight weeks', () => {
+      const subjects = [subjectIn('Q', 1, [{ day: 'tue', period: 2 }], { term: 'second_quarter' })];
+      const calendar = timetableBuilder.toICalendar(planOf({ 1: ['Q'] }), 1, subjects, {
+        admissionYear: 2024,
+        startDate: '2024-04-10',
+        names: { Q: 'Quarter course' },
+        now: NOW,
+      });
+
+      // 10 April is a Wednesday; eight weeks later the first Tuesday is 11 June
+      expect(calendar).toContain('DTSTART;TZID=Asia/Tokyo:20240611T102500\r\n');
+      expect(calendar).toContain('RRULE:FREQ=WEEKLY;COUNT=8\r\n');
+      expect(calendar).toContain('SUMMARY:Quarter course\r\n');
+    });
+
+    it('folds long lines at 75 octets without splitting characters', () => {
+      const name = '電気電子システム工学特別講義'.repeat(4);
+      const subjects = [subjectIn('A', 1, [MON_3], { name })];
+      const calendar = timetableBuilder.toICalendar(planOf({ 1: ['A'] }), 1, subjects, { admissionYear: 2024, now: NOW });
+      const lines = calendar.split('\r\n');
+      const summary = lines.findIndex(line => line.startsWith('SUMMARY:'));
+
+      expect(lines[summary + 1].startsWith(' ')).toBe(true);
+      lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+      expect(unfold(calendar)).toContain(`SUMMARY:${name}\r\n`);
+    });
+
+    it('rejects an invalid start date', () => {
+      expect(() => timetableBuilder.toICalendar(planOf({ 1: [] }), 1, [], { admissionYear: 2024, startDate: 'April' }))
+        .toThrow('Invalid start date "April"');
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { normalizeLabel } from './prerequisiteGraph';
+import { ImportedFields, ImportedSubject } from './syllabusImporter';
+
+// Merges subjects read by syllabusImporter.ts into a catalog. Imported values replace the
+// catalog's for the fields the source had; career relevance, translations and subjects the import
+// doesn't mention are kept. Ids are never changed, since roadmaps, profiles and the catalog
+// manifest's equivalences refer to them
+
+type ImportedField = keyof ImportedFields;
+
+export interface FieldChange {
+  field: ImportedField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface MergeAddition {
+  id: string;
+  name: string;
+  source: string;
+}
+
+export interface MergeUpdate {
+  id: string;
+  name: string;
+  source: string;
+  changes: FieldChange[];
+  // Catalog entries the update was applied to; hand-assembled catalogs list some subjects twice
+  entries: number;
+}
+
+// ambiguous: several catalog subjects match; duplicate: the import has the subject twice;
+// code: the name matches a subject with another course code; id: the numbering differs from the
+// catalog id, or a new subject's id is taken; incomplete: a new subject lacks required fields;
+// translation: a field changed that has an English translation
+export type MergeConflictKind = 'ambiguous' | 'duplicate' | 'code' | 'id' | 'incomplete' | 'translation';
+
+export interface MergeConflict {
+  kind: MergeConflictKind;
+  source: string;
+  subjectId?: string;
+  name: string;
+  message: string;
+}
+
+export interface CatalogMergeResult {
+  // The catalog's subjects in their original order, updated, followed by the additions
+  subjects: unknown[];
+  added: MergeAddition[];
+  updated: MergeUpdate[];
+  conflicts: MergeConflict[];
+  // Imported subjects that matched the catalog without any change
+  unchanged: number;
+  // Ids of catalog subjects the import didn't mention
+  notImported: string[];
+}
+
+type RawSubject = Record<string, unknown>;
+
+const REQUIRED_FOR_ADDITION: ImportedField[] = ['code', 'name', 'credits', 'year', 'semester'];
+const TRANSLATIONS: Partial<Record<ImportedField, string>> = {
+  name: 'name_en',
+  description: 'description_en',
+  syllabus: 'syllabus_en',
+  keywords: 'keywords_en',
+  learning_outcomes: 'learning_outcomes_en',
+};
+const REPORT_VALUE_LENGTH = 80;
+
+const isRecord = (value: unknown): value is RawSubject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const textOf = (value: unknown): string => (typeof value === 'string' ? normalizeLabel(value) : '');
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+export class CatalogMerger {
+  merge(catalog: unknown[], imported: ImportedSubject[]): CatalogMergeResult {
+    const subjects = catalog.map(raw => (isRecord(raw) ? { ...raw } : raw));
+    const result: CatalogMergeResult = { subjects, added: [], updated: [], conflicts: [], unchanged: 0, notImported: [] };
+    const records = subjects.flatMap((raw, index) => (isRecord(raw) ? [{ raw, index }] : []));
+    const matchedBy = new Map<number, string>();
+    const addedCodes = new Map<string, string>();
+
+    imported.forEach(subject => {
+      const { fields, source } = subject;
+      const name = fields.name || fields.code || '';
+      const conflict = (kind: MergeConflictKind, message: string, subjectId?: string) =>
+        result.conflicts.push({ kind, source, name, message, ...(subjectId ? { subjectId } : {}) });
+
+      const candidates = this.candidatesFor(subject, records);
+      if (candidates === 'ambiguous') {
+        conflict('ambiguous', `Several catalog subjects have code ${fields.code}; merge it by hand`);
+        return;
+      }
+      if (candidates.length === 0) {
+        const sameName = fields.name && fields.code
+          ? records.filter(({ raw }) => textOf(raw.name) === textOf(fields.name))
+          : [];
+        if (sameName.length > 0) {
+          const { raw } = sameName[0];
+          conflict(
+            'code',
+            `The catalog has this name under code ${raw.code}, not ${fields.code}; fix the code or add an equivalence by hand`,
+            raw.id as string
+          );
+          return;
+        }
+        this.add(subject, result, addedCodes, conflict);
+        return;
+      }
+
+      const first = candidates[0].raw;
+      const id = first.id as string;
+      const earlier = matchedBy.get(candidates[0].index);
+      if (earlier) {
+        conflict('duplicate', `Already imported from ${earlier}; this copy was skipped`, id);
+        return;
+      }
+      candidates.forEach(({ index }) => matchedBy.set(index, source));
+      if (subject.numbering && id !== first.code && id !== subject.numbering) {
+        conflict('id', `Numbering ${subject.numbering} differs from the id ${id}, which is kept`, id);
+      }
+
+      const changes = (Object.keys(fields) as ImportedField[])
+        .filter(field => !isEqual(first[field], fields[field]))
+        .map(field => ({ field, before: first[field], after: fields[field] }));
+      if (changes.length === 0) {
+        result.unchanged++;
+        return;
+      }
+      candidates.forEach(({ raw }) => changes.forEach(change => {
+        raw[change.field] = change.after;
+      }));
+      result.updated.push({ id, name: (fields.name || first.name) as string, source, changes, entries: candidates.length });
+      changes.forEach(({ field }) => {
+        const translation = TRANSLATIONS[field];
+        if (translation && first[translation] !== undefined) {
+          conflict('translation', `${field} changed; check that ${translation} still matches`, id);
+        }
+      });
+    });
+
+    const matchedIds = new Set(records.filter(({ index }) => matchedBy.has(index)).map(({ raw }) => raw.id));
+    result.notImported = Array.from(new Set(
+      records.filter(({ raw }) => !matchedIds.has(raw.id)).map(({ raw }) => String(raw.id))
+    ));
+    return result;
+  }
+
+  // Catalog subjects with the imported course code, narrowed by name when the code is shared;
+  // copies of one subject (same id) count as a single match. Falls back to the numbering as id
+  // and, for sources without a code, to the name
+  private candidatesFor(
+    subject: ImportedSubject,
+    records: { raw: RawSubject; index: number }[]
+  ): { raw: RawSubject; index: number }[] | 'ambiguous' {
+    const { fields, numbering } = subject;
+    let candidates = fields.code
+      ? records.filter(({ raw }) => textOf(raw.code) === textOf(fields.code))
+      : records.filter(({ raw }) => textOf(raw.name) === textOf(fields.name));
+    if (candidates.length > 1 && fields.name) {
+      const sameName = candidates.filter(({ raw }) => textOf(raw.name) === textOf(fields.name));
+      if (sameName.length > 0) candidates = sameName;
+    }
+    if (candidates.length === 0 && numbering) {
+      candidates = records.filter(({ raw }) => textOf(raw.id) === textOf(numbering));
+    }
+    return new Set(candidates.map(({ raw }) => raw.id)).size > 1 ? 'ambiguous' : candidates;
+  }
+
+  private add(
+    subject: ImportedSubject,
+    result: CatalogMergeResult,
+    addedCodes: Map<string, string>,
+    conflict: (kind: MergeConflictKind, message: string, subjectId?: string) => void
+  ) {
+    const { fields, numbering, source } = subject;
+    const missing = REQUIRED_FOR_ADDITION.filter(field => fields[field] === undefined);
+    if (missing.length > 0) {
+      conflict('incomplete', `Not in the catalog and missing ${missing.join(', ')}, so it was not added`);
+      return;
+    }
+    const code = fields.code as string;
+    const earlier = addedCodes.get(textOf(code));
+    if (earlier) {
+      conflict('duplicate', `Already imported from ${earlier}; this copy was skipped`);
+      return;
+    }
+    const id = numbering || code;
+    if (result.subjects.some(raw => isRecord(raw) && raw.id === id)) {
+      conflict('id', `The id ${id} is already used by another subject, so it was not added`, id);
+      return;
+    }
+    addedCodes.set(textOf(code), source);
+    result.subjects.push({
+      id,
+      code,
+      name: fields.name,
+      credits: fields.credits,
+      year: fields.year,
+      semester: fields.semester,
+      department: fields.department || '',
+      syllabus: fields.syllabus || [],
+      description: fields.description || '',
+      prerequisites: fields.prerequisites || [],
+      keywords: fields.keywords || [],
+      learning_outcomes: fields.learning_outcomes || [],
+      ...(fields.schedule ? { schedule: fields.schedule } : {}),
+    });
+    result.added.push({ id, name: fields.name as string, source });
+  }
+}
+
+const escapeCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  if (Array.isArray(value) && value.length === 0) return '(none)';
+  const text = Array.isArray(value)
+    ? value.join(' / ')
+    : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  return escapeCell(text.length > REPORT_VALUE_LENGTH ? `${text.slice(0, REPORT_VALUE_LENGTH)}…` : text);
+};
+
+export const formatMergeReport = (result: CatalogMergeResult, warnings: string[] = []): string => {
+  const lines = [
+    '# Syllabus import',
+    '',
+    `${result.added.length} added, ${result.updated.length} changed, ${result.unchanged} unchanged, ` +
+    `${result.conflicts.length} conflicts, ${result.notImported.length} catalog subjects not in the import.`,
+  ];
+  if (result.added.length > 0) {
+    lines.push('', '## Added', '', 'New subjects have no career relevance yet; run `npm run relevance` to score them.', '');
+    lines.push('| Subject | Source |', '| --- | --- |');
+    result.added.forEach(entry => lines.push(`| ${formatValue(entry.name)} (${entry.id}) | ${entry.source} |`));
+  }
+  if (result.updated.length > 0) {
+    lines.push('', '## Changed');
+    result.updated.forEach(entry => {
+      const copies = entry.entries > 1 ? `, ${entry.entries} catalog entries` : '';
+      lines.push('', `### ${entry.name} (${entry.id})`, '', `From ${entry.source}${copies}.`, '');
+      lines.push('| Field | Before | After |', '| --- | --- | --- |');
+      entry.changes.forEach(change => lines.push(
+        `| ${change.field} | ${formatValue(change.before)} | ${formatValue(change.after)} |`
+      ));
+    });
+  }
+  if (result.conflicts.length > 0) {
+    lines.push('', '## Conflicts', '', '| Kind | Subject | Source | Details |', '| --- | --- | --- | --- |');
+    result.conflicts.forEach(conflict => lines.push(
+      `| ${conflict.kind} | ${formatValue(conflict.name)}${conflict.subjectId ? ` (${conflict.subjectId})` : ''} | ` +
+      `${conflict.source} | ${escapeCell(conflict.message)} |`
+    ));
+  }
+  if (warnings.length > 0) {
+    lines.push('', '## Import warnings', '', ...warnings.map(warning => `- ${warning}`));
+  }
+  if (result.notImported.length > 0) {
+    lines.push('', '## Not in the import', '', 'Left as they were:', '', result.notImported.join(', '));
+  }
+  return lines.join('\n') + '\n';
+};
+
+export const catalogMerger = new CatalogMerger();
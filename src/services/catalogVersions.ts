@@ -0,0 +1,276 @@
+import { GeneratedRoadmap, RoadmapNode, Subject } from './geminiService';
+import { occupationTaxonomy, OccupationWeights } from './occupationTaxonomy';
+import { layoutFlowchart } from './flowchartLayout';
+import { isLaterOffering } from './roadmapValidator';
+
+// Each admission cohort follows its own curriculum. The manifest lists one catalog file per
+// admission year and, between consecutive years, which courses were renumbered, merged,
+// split or dropped, so roadmaps and completed subjects can be carried across
+
+export interface CatalogEntry {
+  admissionYear: number;
+  // Relative to the manifest
+  file: string;
+}
+
+// `from` courses of the older catalog correspond to `to` courses of the newer one; an empty
+// `to` means the courses were dropped without a replacement
+export interface SubjectEquivalence {
+  from: string[];
+  to: string[];
+  note?: string;
+}
+
+export interface CatalogEquivalences {
+  from: number;
+  to: number;
+  subjects: SubjectEquivalence[];
+}
+
+export interface CatalogManifest {
+  defaultAdmissionYear: number;
+  catalogs: CatalogEntry[];
+  equivalences: CatalogEquivalences[];
+}
+
+export interface CatalogTerm {
+  year: number;
+  semester: number;
+}
+
+export interface CatalogReplacement {
+  id: string;
+  name: string;
+  replacements: string[];
+  note?: string;
+}
+
+export interface CatalogRemoval {
+  id: string;
+  name: string;
+  // Missing for subjects that are simply not offered in the target catalog
+  note?: string;
+}
+
+export interface CatalogReschedule {
+  id: string;
+  name: string;
+  from: CatalogTerm;
+  to: CatalogTerm;
+}
+
+export interface CatalogMigrationReport {
+  from: number;
+  to: number;
+  replaced: CatalogReplacement[];
+  removed: CatalogRemoval[];
+  rescheduled: CatalogReschedule[];
+}
+
+export interface RoadmapMigration {
+  roadmap: GeneratedRoadmap;
+  report: CatalogMigrationReport;
+}
+
+// Served from public/, next to the catalog files
+export const CATALOG_BASE_PATH = '/syllabus/';
+export const CATALOG_MANIFEST_FILE = 'manifest.json';
+// The catalog used before there were several; profiles and files without an admission year use it
+export const LEGACY_ADMISSION_YEAR = 2024;
+
+interface MappedSubject {
+  ids: string[];
+  note?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Throws with the first problem found; a broken manifest leaves the app without a catalog
+export const parseCatalogManifest = (data: unknown): CatalogManifest => {
+  if (!isRecord(data) || !Array.isArray(data.catalogs) || data.catalogs.length === 0) {
+    throw new Error('The catalog manifest needs a non-empty "catalogs" array');
+  }
+  const catalogs = data.catalogs.map((entry: unknown, index: number): CatalogEntry => {
+    if (!isRecord(entry) || !Number.isInteger(entry.admissionYear) || typeof entry.file !== 'string' || !entry.file) {
+      throw new Error(`catalogs[${index}] needs an integer "admissionYear" and a "file"`);
+    }
+    if (entry.file.includes('..')) throw new Error(`catalogs[${index}].file must stay next to the manifest`);
+    return { admissionYear: entry.admissionYear as number, file: entry.file };
+  });
+  const years = new Set(catalogs.map(entry => entry.admissionYear));
+  if (years.size !== catalogs.length) throw new Error('Admission years in the catalog manifest must be unique');
+  if (!years.has(data.defaultAdmissionYear as number)) {
+    throw new Error('"defaultAdmissionYear" must be one of the listed catalogs');
+  }
+
+  const equivalences = (Array.isArray(data.equivalences) ? data.equivalences : []).map(
+    (set: unknown, index: number): CatalogEquivalences => {
+      if (!isRecord(set) || !years.has(set.from as number) || !years.has(set.to as number) || !Array.isArray(set.subjects)) {
+        throw new Error(`equivalences[${index}] needs listed "from" and "to" admission years and a "subjects" array`);
+      }
+      const subjects = set.subjects.map((rule: unknown, ruleIndex: number): SubjectEquivalence => {
+        if (!isRecord(rule) || !isStringArray(rule.from) || rule.from.length === 0 || !isStringArray(rule.to)) {
+          throw new Error(`equivalences[${index}].subjects[${ruleIndex}] needs "from" and "to" subject id arrays`);
+        }
+        return { from: rule.from, to: rule.to, ...(typeof rule.note === 'string' ? { note: rule.note } : {}) };
+      });
+      return { from: set.from as number, to: set.to as number, subjects };
+    }
+  );
+  return { defaultAdmissionYear: data.defaultAdmissionYear as number, catalogs, equivalences };
+};
+
+export const findCatalog = (manifest: CatalogManifest, admissionYear: number): CatalogEntry | undefined =>
+  manifest.catalogs.find(entry => entry.admissionYear === admissionYear);
+
+export class CatalogMigrator {
+  // Where each id ends up after walking the admission years between `from` and `to`
+  mapSubjectIds(ids: string[], manifest: CatalogManifest, from: number, to: number): Map<string, MappedSubject> {
+    const mapped = new Map<string, MappedSubject>(ids.map(id => [id, { ids: [id] }]));
+    this.steps(manifest, from, to).forEach(rules => {
+      mapped.forEach((subject, id) => {
+        let note = subject.note;
+        const next = subject.ids.flatMap(current => {
+          const rule = rules.find(candidate => candidate.from.includes(current));
+          if (!rule) return [current];
+          note = rule.note;
+          return rule.to;
+        });
+        mapped.set(id, { ids: Array.from(new Set(next)), note });
+      });
+    });
+    return mapped;
+  }
+
+  // Rebuilds the roadmap from the target catalog. Replacements keep the node type of the subject
+  // they replace and are scored for the roadmap's occupation; catalog fields are refreshed, except
+  // for retakes that are still a later offering of the subject's term
+  migrateRoadmap(
+    roadmap: GeneratedRoadmap,
+    manifest: CatalogManifest,
+    from: number,
+    to: number,
+    subjects: Subject[],
+    weights: OccupationWeights = occupationTaxonomy.resolve(roadmap.occupation).weights
+  ): RoadmapMigration {
+    const catalog = new Map<string, Subject>();
+    subjects.forEach(subject => {
+      if (!catalog.has(subject.id)) catalog.set(subject.id, subject);
+    });
+    const mapping = this.mapSubjectIds(roadmap.nodes.map(node => node.id), manifest, from, to);
+    const targetsOf = (id: string) => (mapping.get(id)?.ids || [id]).filter(target => catalog.has(target));
+    const report: CatalogMigrationReport = { from, to, replaced: [], removed: [], rescheduled: [] };
+    const nodes: RoadmapNode[] = [];
+
+    roadmap.nodes.forEach(node => {
+      const { ids, note } = mapping.get(node.id) as MappedSubject;
+      const targets = targetsOf(node.id);
+      const unchanged = ids.length === 1 && ids[0] === node.id;
+      if (targets.length === 0) {
+        report.removed.push({ id: node.id, name: node.name, ...(note && !unchanged ? { note } : {}) });
+        return;
+      }
+      if (!unchanged) {
+        report.replaced.push({ id: node.id, name: node.name, replacements: targets, ...(note ? { note } : {}) });
+      }
+      targets.forEach(id => {
+        if (nodes.some(existing => existing.id === id)) return;
+        const subject = catalog.get(id) as Subject;
+        const keepsTerm = unchanged && isLaterOffering(subject, node.semester);
+        const term = keepsTerm ? { year: node.year, semester: node.semester } : { year: subject.year, semester: subject.semester };
+        if (unchanged && (term.year !== node.year || term.semester !== node.semester)) {
+          report.rescheduled.push({ id, name: node.name, from: { year: node.year, semester: node.semester }, to: term });
+        }
+        nodes.push({
+          id,
+          name: subject.name,
+          x: 0,
+          y: 0,
+          type: node.type,
+          completed: node.completed,
+          connects: [],
+          credits: subject.credits,
+          ...term,
+          relevance_score: unchanged
+            ? node.relevance_score
+            : Math.round(occupationTaxonomy.relevanceOf(subject, weights) * 100) / 100,
+        });
+      });
+    });
+
+    // Connections follow their subjects; ones that collapse into a single merged course are dropped
+    const ids = new Set(nodes.map(node => node.id));
+    roadmap.nodes.forEach(node => {
+      const targets = (node.connects || []).flatMap(targetsOf).filter(target => ids.has(target));
+      targetsOf(node.id).forEach(id => {
+        const migrated = nodes.find(candidate => candidate.id === id) as RoadmapNode;
+        migrated.connects = Array.from(new Set([...migrated.connects, ...targets])).filter(target => target !== id);
+      });
+    });
+
+    const { positions } = layoutFlowchart(nodes);
+    nodes.forEach(node => {
+      node.x = positions[node.id].x;
+      node.y = positions[node.id].y;
+    });
+    return {
+      roadmap: { ...roadmap, nodes, total_credits: nodes.reduce((total, node) => total + node.credits, 0) },
+      report,
+    };
+  }
+
+  // A new course counts as completed only when every course it replaces was completed. Subjects
+  // without an equivalent stay in the record; the audit ignores ids that aren't in the catalog
+  migrateCompletedSubjects<T>(
+    completed: Record<string, T>,
+    manifest: CatalogManifest,
+    from: number,
+    to: number
+  ): Record<string, T> {
+    let current = { ...completed };
+    this.steps(manifest, from, to).forEach(rules => {
+      const next = { ...current };
+      rules.forEach(rule => {
+        if (rule.to.length === 0 || !rule.from.every(id => id in current)) return;
+        const entry = current[rule.from[0]];
+        rule.from.forEach(id => delete next[id]);
+        rule.to.forEach(id => {
+          if (!(id in next)) next[id] = entry;
+        });
+      });
+      current = next;
+    });
+    return current;
+  }
+
+  // Equivalence rules for each consecutive pair of admission years between `from` and `to`,
+  // reversed when migrating back to an older catalog
+  private steps(manifest: CatalogManifest, from: number, to: number): SubjectEquivalence[][] {
+    const years = manifest.catalogs.map(entry => entry.admissionYear).sort((a, b) => a - b);
+    const start = years.indexOf(from);
+    const end = years.indexOf(to);
+    if (start < 0 || end < 0) throw new Error(`No catalog for admission year ${start < 0 ? from : to}`);
+
+    const steps: SubjectEquivalence[][] = [];
+    const direction = Math.sign(end - start);
+    for (let i = start; i !== end; i += direction) {
+      const older = years[Math.min(i, i + direction)];
+      const newer = years[Math.max(i, i + direction)];
+      const rules = manifest.equivalences
+        .filter(set => set.from === older && set.to === newer)
+        .flatMap(set => set.subjects);
+      steps.push(direction > 0
+        ? rules
+        : rules
+          .filter(rule => rule.to.length > 0)
+          .map(rule => ({ from: rule.to, to: rule.from, ...(rule.note ? { note: rule.note } : {}) })));
+    }
+    return steps;
+  }
+}
+
+export const catalogMigrator = new CatalogMigrator();
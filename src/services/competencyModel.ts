@@ -0,0 +1,284 @@
+import { GeneratedRoadmap, Subject } from './geminiService';
+import { normalizeLabel } from './prerequisiteGraph';
+import { occupationTaxonomy, OccupationWeights } from './occupationTaxonomy';
+import { Locale } from '../i18n';
+
+// Skills each occupation needs and how well a roadmap covers them. Subjects teach a skill when
+// its terms appear in their name, keywords or learning outcomes
+
+export interface Skill {
+  id: string;
+  name: Record<Locale, string>;
+  // Matched after normalizeLabel, as substrings, against either language
+  terms: string[];
+}
+
+export type SkillStatus = 'covered' | 'partial' | 'missing';
+
+export interface SkillContribution {
+  id: string;
+  // How directly the subject teaches the skill, 0–1
+  strength: number;
+}
+
+export interface SkillCoverage {
+  skill: Skill;
+  // Share of the occupation mix's skill profile, relative to its most important skill (0–1)
+  importance: number;
+  // Coverage from completed subjects and from the rest of the roadmap; together at most 1
+  completed: number;
+  planned: number;
+  status: SkillStatus;
+  // Roadmap and completed subjects that teach the skill, strongest first
+  contributors: SkillContribution[];
+  // Catalog subjects outside the roadmap that would close the gap, best first; empty when covered
+  suggestions: SkillContribution[];
+}
+
+export interface CompetencyAnalysis {
+  weights: OccupationWeights;
+  // Most important first
+  skills: SkillCoverage[];
+  // Importance-weighted coverage of all skills, 0–1
+  overall: number;
+  // Skills that aren't covered, largest weighted gap first
+  gaps: SkillCoverage[];
+}
+
+export const SKILLS: Skill[] = [
+  {
+    id: 'circuit_analysis',
+    name: { en: 'Circuit analysis', ja: '回路解析' },
+    terms: ['電気回路', '回路理論', '過渡現象', '交流回路', '三相', 'インピーダンス', 'circuitanalysis', 'electriccircuit'],
+  },
+  {
+    id: 'electromagnetics',
+    name: { en: 'Electromagnetics', ja: '電磁気学' },
+    terms: ['電気磁気', '電磁気', '電磁界', '電磁波', 'マクスウェル', '静電界', 'electromagnet'],
+  },
+  {
+    id: 'power_systems',
+    name: { en: 'Power systems', ja: '電力システム' },
+    terms: ['電力系統', '送電', '配電', '発電', '変電', '潮流', '系統安定', 'powersystem'],
+  },
+  {
+    id: 'electric_machines',
+    name: { en: 'Electric machines', ja: '電気機器' },
+    terms: ['電気機器', '変圧器', '誘導機', '同期機', '同期発電機', 'モータ', '電動機', 'electricmachine'],
+  },
+  {
+    id: 'power_electronics',
+    name: { en: 'Power electronics', ja: 'パワーエレクトロニクス' },
+    terms: ['パワーエレクトロニクス', 'インバータ', 'コンバータ', '電力変換', 'powerelectronics'],
+  },
+  {
+    id: 'high_voltage',
+    name: { en: 'High voltage and insulation', ja: '高電圧・絶縁' },
+    terms: ['高電圧', '絶縁', '放電', 'プラズマ', 'highvoltage'],
+  },
+  {
+    id: 'electronic_circuits',
+    name: { en: 'Electronic circuits', ja: '電子回路' },
+    terms: ['電子回路', '増幅', 'オペアンプ', 'トランジスタ', 'アナログ回路', 'パルス', 'electroniccircuit'],
+  },
+  {
+    id: 'digital_logic',
+    name: { en: 'Digital logic', ja: '論理回路' },
+    terms: ['論理回路', 'ディジタル回路', 'デジタル回路', '組合せ回路', '順序回路', 'フリップフロップ', 'logiccircuit'],
+  },
+  {
+    id: 'semiconductors',
+    name: { en: 'Semiconductors and devices', ja: '半導体・デバイス' },
+    terms: ['半導体', 'デバイス', 'pn接合', 'ダイオード', '集積回路', '物性', 'semiconductor'],
+  },
+  {
+    id: 'signal_processing',
+    name: { en: 'Signal processing', ja: '信号処理' },
+    terms: ['信号処理', 'フーリエ', 'ディジタル信号', 'フィルタ', 'サンプリング', 'z変換', 'signalprocessing'],
+  },
+  {
+    id: 'communications',
+    name: { en: 'Communications', ja: '通信' },
+    terms: ['通信', '変調', '伝送', 'アンテナ', '無線', '情報理論', 'communication'],
+  },
+  {
+    id: 'control',
+    name: { en: 'Control', ja: '制御' },
+    // Not 制御 alone, which also appears in 制御構造 (programming) and 制御電源 (circuits)
+    terms: ['制御理論', '制御工学', '制御系', '制御システム', '自動制御', 'フィードバック', '伝達関数', '状態空間', '可制御', 'controltheory', 'controlsystem'],
+  },
+  {
+    id: 'measurement',
+    name: { en: 'Measurement and sensing', ja: '計測・センシング' },
+    terms: ['計測', '測定', 'センサ', '計器', 'measurement'],
+  },
+  {
+    id: 'embedded_programming',
+    name: { en: 'Embedded programming', ja: '組込みプログラミング' },
+    terms: ['プログラミング', 'マイコン', '組込み', '組み込み', 'c言語', 'アルゴリズム', 'ソフトウェア', 'programming', 'microcontroller'],
+  },
+  {
+    id: 'engineering_math',
+    name: { en: 'Engineering mathematics', ja: '工学数学' },
+    terms: ['微分方程式', '線形代数', 'ベクトル解析', '複素関数', '確率', '統計', '数値解析', '電気数学'],
+  },
+  {
+    id: 'design_practice',
+    name: { en: 'Design and lab practice', ja: '設計・実験' },
+    terms: ['設計', '実験', '創成', 'プロジェクト', 'デザイン', '製図'],
+  },
+];
+
+// Importance of each skill for an occupation, 1 (useful) to 3 (core). Keys are taxonomy ids
+export const OCCUPATION_SKILLS: Record<string, Record<string, number>> = {
+  electrical_engineer: {
+    circuit_analysis: 3, electromagnetics: 3, electric_machines: 2, power_systems: 2, measurement: 2,
+    engineering_math: 2, electronic_circuits: 1, control: 1, design_practice: 1,
+  },
+  power_engineer: {
+    power_systems: 3, electric_machines: 3, power_electronics: 3, high_voltage: 2, circuit_analysis: 2,
+    electromagnetics: 2, control: 1, measurement: 1,
+  },
+  electronics_engineer: {
+    electronic_circuits: 3, semiconductors: 3, digital_logic: 3, circuit_analysis: 2, embedded_programming: 2,
+    electromagnetics: 1, measurement: 1, signal_processing: 1,
+  },
+  communication_engineer: {
+    communications: 3, signal_processing: 3, electromagnetics: 2, engineering_math: 2, digital_logic: 1,
+    electronic_circuits: 1, embedded_programming: 1,
+  },
+  aerospace_engineer: {
+    control: 3, communications: 2, electromagnetics: 2, measurement: 2, signal_processing: 2,
+    engineering_math: 2, embedded_programming: 1,
+  },
+  software_engineer: {
+    embedded_programming: 3, digital_logic: 2, engineering_math: 2, design_practice: 2, signal_processing: 1,
+    communications: 1,
+  },
+  control_engineer: {
+    control: 3, measurement: 3, engineering_math: 2, electric_machines: 2, embedded_programming: 2,
+    signal_processing: 1, circuit_analysis: 1,
+  },
+  robotics_engineer: {
+    control: 3, embedded_programming: 3, electric_machines: 2, measurement: 2, electronic_circuits: 2,
+    signal_processing: 1, design_practice: 1,
+  },
+};
+
+// Terms found in a subject's name or keywords count fully, ones found only in its outcomes partly
+const OUTCOME_STRENGTH = 0.6;
+// Credits of a typical lecture; longer courses count for more
+const STANDARD_CREDITS = 2;
+// Full-strength standard courses needed to cover a skill
+const SKILL_TARGET = 2;
+const COVERED_AT = 0.75;
+const PARTIAL_AT = 0.25;
+const MAX_SUGGESTIONS = 3;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const textOf = (...values: (string | string[] | undefined)[]) =>
+  normalizeLabel(values.flat().filter((value): value is string => typeof value === 'string').join('|'));
+
+const byStrength = (a: SkillContribution, b: SkillContribution) => b.strength - a.strength;
+
+export class CompetencyAnalyzer {
+  private byId: Map<string, Skill>;
+
+  constructor(
+    private skills: Skill[] = SKILLS,
+    private occupationSkills: Record<string, Record<string, number>> = OCCUPATION_SKILLS
+  ) {
+    this.byId = new Map(skills.map(skill => [skill.id, skill]));
+  }
+
+  // Skill importances of an occupation mix, scaled so the most important skill is 1
+  skillsFor(weights: OccupationWeights): { skill: Skill; importance: number }[] {
+    const totals = new Map<string, number>();
+    Object.entries(weights).forEach(([occupation, weight]) => {
+      Object.entries(this.occupationSkills[occupation] || {}).forEach(([skill, importance]) => {
+        totals.set(skill, (totals.get(skill) || 0) + weight * importance);
+      });
+    });
+    const max = Math.max(0, ...Array.from(totals.values()));
+    return Array.from(totals.entries())
+      .filter(([id]) => this.byId.has(id))
+      .map(([id, total]) => ({ skill: this.byId.get(id) as Skill, importance: round(total / max) }))
+      .sort((a, b) => b.importance - a.importance);
+  }
+
+  strengthOf(subject: Subject, skill: Skill): number {
+    const strong = textOf(subject.name, subject.name_en, subject.keywords, subject.keywords_en);
+    const weak = textOf(subject.learning_outcomes, subject.learning_outcomes_en);
+    const terms = skill.terms.map(normalizeLabel);
+    if (terms.some(term => strong.includes(term))) return 1;
+    return terms.some(term => weak.includes(term)) ? OUTCOME_STRENGTH : 0;
+  }
+
+  // Counts the roadmap's subjects and any other completed ones; suggestions come from the rest of
+  // the catalog, preferring the subjects that teach the skill most directly, then relevance
+  analyze(
+    roadmap: GeneratedRoadmap,
+    subjects: Subject[],
+    completedIds: Set<string>,
+    weights: OccupationWeights = occupationTaxonomy.resolve(roadmap.occupation).weights
+  ): CompetencyAnalysis {
+    const catalog = new Map<string, Subject>();
+    subjects.forEach(subject => {
+      if (!catalog.has(subject.id)) catalog.set(subject.id, subject);
+    });
+    const takenIds = new Set([...roadmap.nodes.map(node => node.id), ...Array.from(completedIds)]);
+    const taken = Array.from(takenIds).flatMap(id => (catalog.has(id) ? [catalog.get(id) as Subject] : []));
+    const others = Array.from(catalog.values()).filter(subject => !takenIds.has(subject.id));
+
+    const skills = this.skillsFor(weights).map(({ skill, importance }): SkillCoverage => {
+      const contributors: SkillContribution[] = [];
+      let completedCredit = 0;
+      let plannedCredit = 0;
+      taken.forEach(subject => {
+        const strength = this.strengthOf(subject, skill);
+        if (strength === 0) return;
+        contributors.push({ id: subject.id, strength });
+        const credit = (strength * subject.credits) / STANDARD_CREDITS;
+        if (completedIds.has(subject.id)) completedCredit += credit;
+        else plannedCredit += credit;
+      });
+      const completed = Math.min(1, completedCredit / SKILL_TARGET);
+      const planned = Math.min(1 - completed, plannedCredit / SKILL_TARGET);
+      const coverage = completed + planned;
+      const status: SkillStatus = coverage >= COVERED_AT ? 'covered' : coverage >= PARTIAL_AT ? 'partial' : 'missing';
+      const suggestions = status === 'covered'
+        ? []
+        : others
+          .map(subject => ({
+            id: subject.id,
+            strength: this.strengthOf(subject, skill),
+            relevance: occupationTaxonomy.relevanceOf(subject, weights),
+          }))
+          .filter(candidate => candidate.strength > 0)
+          .sort((a, b) => b.strength - a.strength || b.relevance - a.relevance)
+          .slice(0, MAX_SUGGESTIONS)
+          .map(({ id, strength }) => ({ id, strength }));
+      return {
+        skill,
+        importance,
+        completed: round(completed),
+        planned: round(planned),
+        status,
+        contributors: contributors.sort(byStrength),
+        suggestions,
+      };
+    });
+
+    const totalImportance = skills.reduce((total, entry) => total + entry.importance, 0);
+    const overall = totalImportance > 0
+      ? skills.reduce((total, entry) => total + entry.importance * (entry.completed + entry.planned), 0) / totalImportance
+      : 0;
+    const gaps = skills
+      .filter(entry => entry.status !== 'covered')
+      .sort((a, b) => b.importance * (1 - b.completed - b.planned) - a.importance * (1 - a.completed - a.planned));
+    return { weights, skills, overall: round(overall), gaps };
+  }
+}
+
+export const competencyAnalyzer = new CompetencyAnalyzer();
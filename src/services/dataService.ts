@@ -1,28 +1,98 @@
 import { Subject } from './geminiService';
+import { Locale } from '../i18n';
+import { PrerequisiteGraph } from './prerequisiteGraph';
+import { SubjectSearchIndex, SearchFilters, SearchResult } from './subjectSearch';
+import { syllabusValidator, SyllabusValidationReport, formatValidationIssue } from './syllabusValidator';
+import { catalogHashOf, CatalogStamp } from './roadmapCache';
+import { occupationTaxonomy, OccupationWeights } from './occupationTaxonomy';
+import {
+  CATALOG_BASE_PATH,
+  CATALOG_MANIFEST_FILE,
+  CatalogManifest,
+  findCatalog,
+  parseCatalogManifest,
+} from './catalogVersions';
 
 export class DataService {
   private subjects: Subject[] = [];
-  private isLoading: boolean = false;
-  private isLoaded: boolean = false;
   private loadPromise: Promise<void> | null = null;
+  private manifestPromise: Promise<CatalogManifest> | null = null;
+  private validationReport: SyllabusValidationReport | null = null;
+  private prerequisiteGraph: PrerequisiteGraph | null = null;
+  private searchIndex: SubjectSearchIndex | null = null;
+  private catalogHash = '';
+  // null until a catalog is selected, then the manifest's default is used
+  private admissionYear: number | null = null;
+  private loadedAdmissionYear: number | null = null;
 
-  constructor() {
-    this.loadPromise = this.loadSubjects();
-  }
+  // fetchFile reads the manifest and catalog files; scripts pass one that reads them from disk
+  constructor(
+    private basePath: string = CATALOG_BASE_PATH,
+    private fetchFile: (url: string) => Promise<Response> = url => fetch(url)
+  ) {}
 
-  private async loadSubjects(): Promise<void> {
-    if (this.isLoading && this.loadPromise) {
-      return this.loadPromise;
+  // Loaded on first use rather than on import, so the server can share modules that import this one
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadSubjects();
     }
-    
-    if (this.isLoaded) {
-      return;
+    const promise = this.loadPromise;
+    await promise;
+    // A catalog switch during the load starts over with the new one
+    if (this.loadPromise !== promise) await this.ensureLoaded();
+  }
+
+  getManifest(): Promise<CatalogManifest> {
+    if (!this.manifestPromise) {
+      this.manifestPromise = this.fetchFile(`${this.basePath}${CATALOG_MANIFEST_FILE}`)
+        .then(response => {
+          if (!response.ok) {
+            throw new Error(`Failed to load the catalog manifest: ${response.status} ${response.statusText}`);
+          }
+          return response.json();
+        })
+        .then(parseCatalogManifest)
+        .catch(error => {
+          this.manifestPromise = null;
+          throw error;
+        });
     }
-    
-    this.isLoading = true;
+    return this.manifestPromise;
+  }
+
+  // Switches to the catalog of another admission cohort; everything derived from the old one is dropped
+  selectCatalog(admissionYear: number | null) {
+    if (admissionYear === this.admissionYear) return;
+    this.admissionYear = admissionYear;
+    this.loadPromise = null;
+    this.subjects = [];
+    this.validationReport = null;
+    this.prerequisiteGraph = null;
+    this.searchIndex = null;
+    this.catalogHash = '';
+    this.loadedAdmissionYear = null;
+  }
+
+  // Admission year of the loaded catalog
+  async getAdmissionYear(): Promise<number> {
+    await this.ensureLoaded();
+    return this.loadedAdmissionYear ?? (await this.getManifest()).defaultAdmissionYear;
+  }
+
+  private async loadSubjects(): Promise<void> {
+    const requestedYear = this.admissionYear;
+    // Another catalog was selected while this one was loading
+    const isCurrent = () => this.admissionYear === requestedYear;
     try {
-      console.log('Loading syllabus data from /syllabus.json...');
-      const response = await fetch('/syllabus.json');
+      const manifest = await this.getManifest();
+      const admissionYear = requestedYear ?? manifest.defaultAdmissionYear;
+      const entry = findCatalog(manifest, admissionYear);
+      if (!entry) {
+        throw new Error(`No catalog for admission year ${admissionYear}`);
+      }
+      const url = `${this.basePath}${entry.file}`;
+      console.log(`Loading syllabus data from ${url}...`);
+      const response = await this.fetchFile(url);
       console.log('Response status:', response.status);
       console.log('Response ok:', response.ok);
       
@@ -31,30 +101,121 @@ export class DataService {
       }
       
       const data = await response.json();
+      if (!isCurrent()) return;
       console.log('Syllabus data loaded:', data);
       console.log('Number of subjects in data:', data.subjects?.length || 0);
       
-      this.subjects = data.subjects as Subject[];
-      this.isLoaded = true;
+      this.catalogHash = catalogHashOf(data);
+      this.loadedAdmissionYear = admissionYear;
+      const { subjects, report } = syllabusValidator.validate(data);
+      this.subjects = subjects;
+      this.validationReport = report;
+      if (report.errors.length > 0 || report.warnings.length > 0) {
+        console.warn(
+          `Syllabus validation: ${report.errors.length} errors, ${report.warnings.length} warnings\n` +
+          [...report.errors, ...report.warnings].map(formatValidationIssue).join('\n')
+        );
+      }
       console.log('Subjects loaded successfully:', this.subjects.length);
     } catch (error) {
       console.error('Error loading syllabus data:', error);
+      if (!isCurrent()) return;
       this.subjects = [];
-    } finally {
-      this.isLoading = false;
+      this.validationReport = {
+        subjectCount: 0,
+        validSubjectCount: 0,
+        errors: [{
+          severity: 'error',
+          index: null,
+          field: 'subjects',
+          message: error instanceof Error ? error.message : 'Failed to load syllabus',
+        }],
+        warnings: [],
+        isDegraded: true,
+      };
     }
   }
 
   async getAllSubjects(): Promise<Subject[]> {
     // Wait for the initial load to complete
-    if (this.loadPromise) {
-      await this.loadPromise;
-    }
+    await this.ensureLoaded();
     
     console.log('getAllSubjects called, returning:', this.subjects.length, 'subjects');
     return this.subjects;
   }
 
+  async getValidationReport(): Promise<SyllabusValidationReport | null> {
+    await this.ensureLoaded();
+    return this.validationReport;
+  }
+
+  // Admission year and content hash of the loaded catalog; cached roadmaps are tied to them
+  async getCatalogStamp(): Promise<CatalogStamp> {
+    await this.ensureLoaded();
+    return { admissionYear: await this.getAdmissionYear(), hash: this.catalogHash };
+  }
+
+  async getPrerequisiteGraph(): Promise<PrerequisiteGraph> {
+    const subjects = await this.getAllSubjects();
+    if (!this.prerequisiteGraph) {
+      this.prerequisiteGraph = new PrerequisiteGraph(subjects);
+    }
+    return this.prerequisiteGraph;
+  }
+
+  async getSearchIndex(): Promise<SubjectSearchIndex> {
+    const subjects = await this.getAllSubjects();
+    if (!this.searchIndex) {
+      this.searchIndex = new SubjectSearchIndex(subjects);
+    }
+    return this.searchIndex;
+  }
+
+  async searchSubjects(query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+    const index = await this.getSearchIndex();
+    return index.search(query, filters);
+  }
+
+  // All subjects that must be taken before `id`, nearest first
+  async getPrerequisiteChain(id: string): Promise<Subject[]> {
+    const graph = await this.getPrerequisiteGraph();
+    return this.idsToSubjects(graph.getPrerequisiteChain(id));
+  }
+
+  // All subjects that directly or indirectly require `id`, nearest first
+  async getDependents(id: string): Promise<Subject[]> {
+    const graph = await this.getPrerequisiteGraph();
+    return this.idsToSubjects(graph.getDependents(id));
+  }
+
+  private idsToSubjects(ids: string[]): Subject[] {
+    return ids
+      .map(id => this.subjects.find(subject => subject.id === id))
+      .filter((subject): subject is Subject => subject !== undefined);
+  }
+
+  // Returns a copy with display fields in the requested locale, falling back to the original Japanese
+  localizeSubject(subject: Subject, locale: Locale): Subject {
+    if (locale !== 'en') return subject;
+    const pick = <T>(translated: T | undefined, original: T): T =>
+      translated !== undefined && (!Array.isArray(translated) || translated.length > 0) && translated !== ''
+        ? translated
+        : original;
+    return {
+      ...subject,
+      name: pick(subject.name_en, subject.name),
+      description: pick(subject.description_en, subject.description),
+      syllabus: pick(subject.syllabus_en, subject.syllabus),
+      keywords: pick(subject.keywords_en, subject.keywords),
+      learning_outcomes: pick(subject.learning_outcomes_en, subject.learning_outcomes),
+    };
+  }
+
+  async getLocalizedSubjects(locale: Locale): Promise<Subject[]> {
+    const subjects = await this.getAllSubjects();
+    return subjects.map(subject => this.localizeSubject(subject, locale));
+  }
+
   async getSubjectsByYear(year: number): Promise<Subject[]> {
     const subjects = await this.getAllSubjects();
     return subjects.filter(subject => subject.year === year);
@@ -72,15 +233,19 @@ export class DataService {
     return subjects.find(subject => subject.id === id);
   }
 
+  // Subjects matching any of the keywords, best match first
   async getSubjectsByKeywords(keywords: string[]): Promise<Subject[]> {
-    const subjects = await this.getAllSubjects();
-    return subjects.filter(subject =>
-      keywords.some(keyword =>
-        subject.keywords.some(k => k.toLowerCase().includes(keyword.toLowerCase())) ||
-        subject.name.toLowerCase().includes(keyword.toLowerCase()) ||
-        subject.description.toLowerCase().includes(keyword.toLowerCase())
-      )
-    );
+    const index = await this.getSearchIndex();
+    const best = new Map<string, SearchResult>();
+    keywords.forEach(keyword => {
+      index.search(keyword).forEach(result => {
+        const current = best.get(result.subject.id);
+        if (!current || result.score > current.score) best.set(result.subject.id, result);
+      });
+    });
+    return Array.from(best.values())
+      .sort((a, b) => b.score - a.score)
+      .map(result => result.subject);
   }
 
   async getTotalCredits(): Promise<number> {
@@ -88,16 +253,15 @@ export class DataService {
     return subjects.reduce((total, subject) => total + subject.credits, 0);
   }
 
-  async getSubjectsByCareerRelevance(occupation: string, threshold: number = 0.5): Promise<Subject[]> {
+  // Accepts free text ("Power Engineer", "EE", "電力技術者") or resolved taxonomy weights
+  async getSubjectsByCareerRelevance(occupation: string | OccupationWeights, threshold: number = 0.5): Promise<Subject[]> {
     const subjects = await this.getAllSubjects();
-    return subjects.filter(subject => {
-      const relevance = subject.career_relevance?.[occupation.toLowerCase()];
-      return relevance && relevance >= threshold;
-    }).sort((a, b) => {
-      const relevanceA = a.career_relevance?.[occupation.toLowerCase()] || 0;
-      const relevanceB = b.career_relevance?.[occupation.toLowerCase()] || 0;
-      return relevanceB - relevanceA;
-    });
+    const weights = typeof occupation === 'string' ? occupationTaxonomy.resolve(occupation).weights : occupation;
+    return subjects
+      .map(subject => ({ subject, relevance: occupationTaxonomy.relevanceOf(subject, weights) }))
+      .filter(({ relevance }) => relevance > 0 && relevance >= threshold)
+      .sort((a, b) => b.relevance - a.relevance)
+      .map(({ subject }) => subject);
   }
 }
 
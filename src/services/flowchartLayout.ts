@@ -0,0 +1,301 @@
+import { RoadmapNode } from './geminiService';
+
+export const NODE_WIDTH = 140;
+export const NODE_HEIGHT = 92;
+
+// Left margin leaves room for the term labels drawn next to each layer
+const X_MARGIN = 96;
+const Y_MARGIN = 40;
+const NODE_GAP = 40;
+const LAYER_GAP = 72;
+// Placeholder width for an edge passing through a layer, so it gets its own lane between nodes
+const DUMMY_WIDTH = 16;
+const ORDER_SWEEPS = 8;
+const POSITION_PASSES = 6;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface FlowchartEdge {
+  // Prerequisite → dependent, as in RoadmapNode.connects
+  from: string;
+  to: string;
+  points: Point[];
+  // SVG path data through the points, curved between layers; ends where the arrowhead goes
+  path: string;
+}
+
+export interface FlowchartLayout {
+  // Nodes ordered by layer, then left to right
+  nodes: RoadmapNode[];
+  // One row per (year, semester) pair that has subjects
+  rows: [number, number][];
+  // Node ids per layer, top to bottom, left to right
+  layers: string[][];
+  // Top-left corner of each node's NODE_WIDTH × NODE_HEIGHT box
+  positions: Record<string, Point>;
+  edges: FlowchartEdge[];
+  width: number;
+  height: number;
+}
+
+export type FlowchartDirection = 'left' | 'right' | 'up' | 'down';
+
+interface LayoutItem {
+  id: string;
+  // Null for the placeholders that long edges pass through
+  node: RoadmapNode | null;
+  width: number;
+  x: number;
+}
+
+const byTerm = (a: RoadmapNode, b: RoadmapNode) =>
+  a.year - b.year || a.semester - b.semester || a.x - b.x || a.name.localeCompare(b.name);
+
+const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+const layerTop = (layer: number) => Y_MARGIN + layer * (NODE_HEIGHT + LAYER_GAP);
+
+// Vertical tangents at both ends, so edges leave and enter nodes straight
+const curveThrough = (points: Point[]): string =>
+  points.slice(1).reduce((path, point, index) => {
+    const previous = points[index];
+    const middle = (previous.y + point.y) / 2;
+    return `${path} C ${previous.x} ${middle} ${point.x} ${middle} ${point.x} ${point.y}`;
+  }, `M ${points[0].x} ${points[0].y}`);
+
+// Layered (Sugiyama-style) layout shared by the on-screen flowchart and the SVG/print exporters:
+// longest-path layering that keeps each term on its own layer and every prerequisite above its
+// dependents, barycentric crossing reduction, and curved edges routed around nodes
+export const layoutFlowchart = (roadmapNodes: RoadmapNode[]): FlowchartLayout => {
+  const sorted = [...roadmapNodes].sort(byTerm);
+  const byId = new Map(sorted.map(node => [node.id, node]));
+  const rows = Array.from(new Set(sorted.map(node => `${node.year}-${node.semester}`)))
+    .map(pair => pair.split('-').map(Number) as [number, number]);
+
+  const edgeKeys = new Set<string>();
+  const edges: { from: string; to: string }[] = [];
+  sorted.forEach(node => node.connects.forEach(target => {
+    const key = `${node.id}\u0000${target}`;
+    if (target === node.id || !byId.has(target) || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push({ from: node.id, to: target });
+  }));
+
+  // Edges that close a cycle (only possible in malformed data) are laid out reversed
+  const reversed = new Set<number>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const outgoing = new Map<string, number[]>();
+  edges.forEach((edge, index) => outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), index]));
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    (outgoing.get(id) || []).forEach(index => {
+      const target = edges[index].to;
+      if (state.get(target) === 'visiting') reversed.add(index);
+      else if (!state.has(target)) visit(target);
+    });
+    state.set(id, 'done');
+  };
+  sorted.forEach(node => !state.has(node.id) && visit(node.id));
+  const oriented = edges.map((edge, index) =>
+    reversed.has(index) ? { from: edge.to, to: edge.from, index } : { from: edge.from, to: edge.to, index }
+  );
+
+  // Longest path: a node sits on its term's layer unless a prerequisite forces it lower
+  const termRank = new Map(rows.map(([year, semester], index) => [`${year}-${semester}`, index]));
+  const rank = new Map(sorted.map(node => [node.id, termRank.get(`${node.year}-${node.semester}`) || 0]));
+  const incoming = new Map<string, number>(sorted.map(node => [node.id, 0]));
+  oriented.forEach(edge => incoming.set(edge.to, (incoming.get(edge.to) || 0) + 1));
+  const queue = sorted.filter(node => incoming.get(node.id) === 0).map(node => node.id);
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    oriented.filter(edge => edge.from === id).forEach(edge => {
+      rank.set(edge.to, Math.max(rank.get(edge.to) || 0, (rank.get(id) || 0) + 1));
+      incoming.set(edge.to, (incoming.get(edge.to) || 0) - 1);
+      if (incoming.get(edge.to) === 0) queue.push(edge.to);
+    });
+  }
+  const usedRanks = Array.from(new Set(rank.values())).sort((a, b) => a - b);
+  const layerOf = new Map(sorted.map(node => [node.id, usedRanks.indexOf(rank.get(node.id) || 0)]));
+
+  // Long edges get a placeholder on every layer they cross
+  const grid: LayoutItem[][] = usedRanks.map(() => []);
+  sorted.forEach(node => grid[layerOf.get(node.id) || 0].push({ id: node.id, node, width: NODE_WIDTH, x: 0 }));
+  const chains = oriented.map(edge => {
+    const chain = [edge.from];
+    for (let layer = (layerOf.get(edge.from) || 0) + 1; layer < (layerOf.get(edge.to) || 0); layer++) {
+      const id = `\u0000${edge.index}:${layer}`;
+      grid[layer].push({ id, node: null, width: DUMMY_WIDTH, x: 0 });
+      chain.push(id);
+    }
+    chain.push(edge.to);
+    return chain;
+  });
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  chains.forEach(chain => chain.slice(1).forEach((id, index) => {
+    up.set(id, [...(up.get(id) || []), chain[index]]);
+    down.set(chain[index], [...(down.get(chain[index]) || []), id]);
+  }));
+
+  // Crossing reduction: reorder each layer by the mean position of its neighbours in the
+  // layer above (downward sweeps) or below (upward sweeps), keeping the best order seen
+  const order = new Map<string, number>();
+  const index = () => grid.forEach(layer => layer.forEach((item, position) => order.set(item.id, position)));
+  const crossings = () => {
+    let count = 0;
+    grid.slice(0, -1).forEach(layer => {
+      const pairs = layer.flatMap(item => (down.get(item.id) || []).map(to => [order.get(item.id) || 0, order.get(to) || 0]));
+      pairs.forEach(([a1, b1], i) => pairs.slice(i + 1).forEach(([a2, b2]) => {
+        if ((a1 - a2) * (b1 - b2) < 0) count += 1;
+      }));
+    });
+    return count;
+  };
+  const reorder = (layer: LayoutItem[], neighbours: Map<string, string[]>) => {
+    const weight = new Map(layer.map((item, position) => {
+      const linked = (neighbours.get(item.id) || []).map(id => order.get(id) || 0);
+      return [item.id, linked.length > 0 ? mean(linked) : position];
+    }));
+    layer.sort((a, b) => (weight.get(a.id) || 0) - (weight.get(b.id) || 0));
+    layer.forEach((item, position) => order.set(item.id, position));
+  };
+  index();
+  let best = grid.map(layer => [...layer]);
+  let fewest = crossings();
+  for (let sweep = 0; sweep < ORDER_SWEEPS && fewest > 0; sweep++) {
+    if (sweep % 2 === 0) grid.slice(1).forEach(layer => reorder(layer, up));
+    else grid.slice(0, -1).reverse().forEach(layer => reorder(layer, down));
+    const count = crossings();
+    if (count < fewest) {
+      fewest = count;
+      best = grid.map(layer => [...layer]);
+    }
+  }
+  best.forEach((layer, position) => {
+    grid[position] = layer;
+  });
+  index();
+
+  // Horizontal placement: pull each item towards its neighbours' centres, then average a
+  // left-packed and a right-packed placement so the layer stays in order without overlaps
+  const items = new Map<string, LayoutItem>();
+  grid.forEach(layer => layer.reduce((x, item) => {
+    item.x = x;
+    items.set(item.id, item);
+    return x + item.width + NODE_GAP;
+  }, 0));
+  const center = (id: string) => {
+    const item = items.get(id) as LayoutItem;
+    return item.x + item.width / 2;
+  };
+  const place = (layer: LayoutItem[], neighbours: Map<string, string[]>) => {
+    const desired = layer.map(item => {
+      const linked = neighbours.get(item.id) || [];
+      return linked.length > 0 ? mean(linked.map(center)) - item.width / 2 : item.x;
+    });
+    const left: number[] = [];
+    layer.forEach((item, i) => {
+      left[i] = i === 0 ? desired[i] : Math.max(desired[i], left[i - 1] + layer[i - 1].width + NODE_GAP);
+    });
+    const right: number[] = [];
+    for (let i = layer.length - 1; i >= 0; i--) {
+      right[i] = i === layer.length - 1 ? desired[i] : Math.min(desired[i], right[i + 1] - layer[i].width - NODE_GAP);
+    }
+    layer.forEach((item, i) => {
+      item.x = (left[i] + right[i]) / 2;
+    });
+  };
+  for (let pass = 0; pass < POSITION_PASSES; pass++) {
+    if (pass % 2 === 0) grid.slice(1).forEach(layer => place(layer, up));
+    else grid.slice(0, -1).reverse().forEach(layer => place(layer, down));
+  }
+  const allItems = Array.from(items.values());
+  const minX = Math.min(0, ...allItems.map(item => item.x));
+  allItems.forEach(item => {
+    item.x = Math.round(item.x - minX + X_MARGIN);
+  });
+
+  const positions: Record<string, Point> = {};
+  const layers = grid.map((layer, position) => layer.filter(item => item.node).map(item => {
+    positions[item.id] = { x: item.x, y: layerTop(position) };
+    return item.id;
+  }));
+  const layerOfItem = new Map<string, number>();
+  grid.forEach((layer, position) => layer.forEach(item => layerOfItem.set(item.id, position)));
+
+  // Edges leaving or entering the same node are spread along its border in neighbour order
+  const port = (id: string, neighbour: string, neighbours: Map<string, string[]>) => {
+    const siblings = [...(neighbours.get(id) || [])].sort((a, b) => (order.get(a) || 0) - (order.get(b) || 0));
+    return Math.round(positions[id].x + (NODE_WIDTH * (siblings.indexOf(neighbour) + 1)) / (siblings.length + 1));
+  };
+  const routed: FlowchartEdge[] = chains.map((chain, chainIndex) => {
+    const first = chain[0];
+    const last = chain[chain.length - 1];
+    const points: Point[] = [{ x: port(first, chain[1], down), y: positions[first].y + NODE_HEIGHT }];
+    chain.slice(1, -1).forEach(id => {
+      const top = layerTop(layerOfItem.get(id) || 0);
+      points.push({ x: center(id), y: top }, { x: center(id), y: top + NODE_HEIGHT });
+    });
+    points.push({ x: port(last, chain[chain.length - 2], up), y: positions[last].y });
+    const edge = oriented[chainIndex];
+    if (reversed.has(edge.index)) points.reverse();
+    return { from: edges[edge.index].from, to: edges[edge.index].to, points, path: curveThrough(points) };
+  });
+
+  return {
+    nodes: layers.flat().map(id => byId.get(id) as RoadmapNode),
+    rows,
+    layers,
+    positions,
+    edges: routed,
+    width: Math.max(0, ...allItems.map(item => item.x + item.width)) + X_MARGIN,
+    height: layerTop(grid.length) - LAYER_GAP + Y_MARGIN,
+  };
+};
+
+// Every prerequisite above a node and every subject that depends on it, transitively
+export const connectedChain = (nodes: RoadmapNode[], id: string): { upstream: Set<string>; downstream: Set<string> } => {
+  const parents = new Map<string, string[]>();
+  nodes.forEach(node => node.connects.forEach(target => parents.set(target, [...(parents.get(target) || []), node.id])));
+  const children = new Map(nodes.map(node => [node.id, node.connects]));
+  const walk = (start: string, next: Map<string, string[]>) => {
+    const seen = new Set<string>();
+    const stack = [...(next.get(start) || [])];
+    while (stack.length > 0) {
+      const current = stack.pop() as string;
+      if (current === start || seen.has(current)) continue;
+      seen.add(current);
+      stack.push(...(next.get(current) || []));
+    }
+    return seen;
+  };
+  return { upstream: walk(id, parents), downstream: walk(id, children) };
+};
+
+// Arrow-key navigation: the neighbour in the same layer, or the nearest node by horizontal
+// position in the layer above or below
+export const neighbourNode = (layout: FlowchartLayout, id: string, direction: FlowchartDirection): string | null => {
+  const layerIndex = layout.layers.findIndex(layer => layer.includes(id));
+  if (layerIndex < 0) return null;
+  const layer = layout.layers[layerIndex];
+  const position = layer.indexOf(id);
+  if (direction === 'left') return layer[position - 1] || null;
+  if (direction === 'right') return layer[position + 1] || null;
+
+  const target = layout.layers[layerIndex + (direction === 'up' ? -1 : 1)];
+  if (!target || target.length === 0) return null;
+  const x = layout.positions[id].x;
+  return target.reduce((closest, candidate) =>
+    Math.abs(layout.positions[candidate].x - x) < Math.abs(layout.positions[closest].x - x) ? candidate : closest
+  );
+};
+
+// Short label for a layer, e.g. "Y2 S3"; layers pushed down by prerequisites can hold several terms
+export const layerLabel = (layout: FlowchartLayout, layer: number): string =>
+  Array.from(new Set(layout.layers[layer].map(id => {
+    const node = layout.nodes.find(candidate => candidate.id === id) as RoadmapNode;
+    return `Y${node.year} S${node.semester}`;
+  }))).join(' / ');
@@ -1,7 +1,37 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { RoadmapPromptStats } from './promptBuilder';
+import { errorKindForStatus, ProviderError } from './providers/types';
+import {
+  REFINE_API_PATH,
+  RefineRequest,
+  RefineResponse,
+  ROADMAP_API_PATH,
+  RoadmapErrorBody,
+  RoadmapRequest,
+  RoadmapRequestOptions,
+  RoadmapServiceStatus,
+  RoadmapStreamEvent,
+} from './roadmapApi';
+import { createBrowserCacheStore, RoadmapCache, roadmapCacheKey } from './roadmapCache';
+import { dataService } from './dataService';
+import { RoadmapPatch } from './roadmapPatch';
 
-// Initialize Gemini API
-const genAI = new GoogleGenerativeAI(process.env.REACT_APP_GEMINI_API_KEY || '');
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// Quarter courses run in the first or second half of their semester (1Q/2Q in 前期, 3Q/4Q in 後期)
+export type ScheduleTerm = 'semester' | 'first_quarter' | 'second_quarter';
+
+export interface TimeSlot {
+  day: Weekday;
+  // Class period 1-5 of the day
+  period: number;
+}
+
+export interface SubjectSchedule {
+  // The whole semester when omitted
+  term?: ScheduleTerm;
+  // Every weekly slot; a lab taking periods 3 and 4 lists both
+  slots: TimeSlot[];
+}
 
 export interface Subject {
   id: string;
@@ -18,6 +48,16 @@ export interface Subject {
   learning_outcomes: string[];
   career_relevance?: Record<string, number>;
   career_relevance_reason?: Record<string, string>;
+  // Occupations whose score and reason were set by hand; the relevance tool never changes them
+  career_relevance_pinned?: string[];
+  // Weekly class times; intensive courses and subjects not yet timetabled have none
+  schedule?: SubjectSchedule;
+  // Optional English translations, used when the UI locale is English
+  name_en?: string;
+  description_en?: string;
+  syllabus_en?: string[];
+  keywords_en?: string[];
+  learning_outcomes_en?: string[];
 }
 
 export interface RoadmapNode {
@@ -32,6 +72,8 @@ export interface RoadmapNode {
   year: number;
   semester: number;
   relevance_score: number;
+  // Catalog fields overwritten after AI generation, e.g. "credits: 3 → 2"
+  corrections?: string[];
 }
 
 export interface GeneratedRoadmap {
@@ -43,109 +85,180 @@ export interface GeneratedRoadmap {
   reasoning: string;
 }
 
-const OCCUPATIONS = [
-  'electrical_engineer',
-  'power_engineer',
-  'electronics_engineer',
-  'communication_engineer',
-  'aerospace_engineer',
-  'software_engineer',
-  'control_engineer',
-  'robotics_engineer',
-];
+export interface GenerateRoadmapOptions extends RoadmapRequestOptions {
+  // Called once per request with the prompt size, omitted subjects and actual token usage
+  onPromptStats?: (stats: RoadmapPromptStats) => void;
+  // Called with the nodes received so far (checked against the catalog) while the response streams in
+  onProgress?: (partial: GeneratedRoadmap) => void;
+  // Aborts the request; generateRoadmap then rejects with an error named 'AbortError'
+  signal?: AbortSignal;
+  // Ignores cached roadmaps in the browser and on the server and caches the new one instead
+  refresh?: boolean;
+}
+
+export interface RoadmapResult {
+  roadmap: GeneratedRoadmap;
+  // Epoch milliseconds of the original generation, also for cached roadmaps
+  generatedAt: number;
+  fromCache: boolean;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
 
+// Thin client of the /api/roadmap and /api/refine endpoints, which hold the provider key and do the prompting
 export class GeminiService {
-  private model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+  private status: RoadmapServiceStatus | null = null;
 
-  private parseJSONResponse(text: string): any {
+  constructor(
+    private endpoint: string = ROADMAP_API_PATH,
+    private cache: RoadmapCache = new RoadmapCache(createBrowserCacheStore()),
+    private refineEndpoint: string = REFINE_API_PATH
+  ) {}
+
+  // Whether the server has a provider configured; unreachable servers count as not configured
+  async getStatus(): Promise<RoadmapServiceStatus> {
+    if (this.status) return this.status;
     try {
-      // First, try to parse as-is
-      return JSON.parse(text);
-    } catch (error) {
-      // If that fails, try to extract JSON from markdown code blocks
-      const jsonMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-      if (jsonMatch) {
-        try {
-          return JSON.parse(jsonMatch[1]);
-        } catch (parseError) {
-          console.error('Failed to parse JSON from code block:', parseError);
-          throw new Error('Invalid JSON response from AI');
-        }
+      const response = await fetch(this.endpoint);
+      if (response.ok) {
+        this.status = (await response.json()) as RoadmapServiceStatus;
+        return this.status;
       }
-      
-      // If no code block found, try to find JSON object in the text
-      const jsonObjectMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonObjectMatch) {
-        try {
-          return JSON.parse(jsonObjectMatch[0]);
-        } catch (parseError) {
-          console.error('Failed to parse JSON object from text:', parseError);
-          throw new Error('Invalid JSON response from AI');
-        }
+    } catch (error) {
+      console.warn('Roadmap server is not reachable:', error);
+    }
+    return { configured: false, provider: '', model: '' };
+  }
+
+  // Same occupation, options, model and catalog version give the same roadmap until it expires
+  async generateRoadmap(occupation: string, options: GenerateRoadmapOptions = {}): Promise<RoadmapResult> {
+    const { onPromptStats, onProgress, signal, refresh, ...rest } = options;
+    const { provider, model } = await this.getStatus();
+    // The server builds the prompt from the same admission year's catalog as the one loaded here
+    const catalog = await dataService.getCatalogStamp();
+    const requestOptions = { ...rest, admissionYear: catalog.admissionYear };
+    await this.cache.invalidateCatalog(catalog);
+    const cacheKey = roadmapCacheKey({ occupation, options: requestOptions, provider, model, catalogHash: catalog.hash });
+    const cached = refresh ? undefined : await this.cache.get(cacheKey);
+    if (cached) {
+      return { roadmap: cached.roadmap, generatedAt: cached.generatedAt, fromCache: true };
+    }
+
+    const body: RoadmapRequest = { occupation, options: requestOptions, refresh };
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ProviderError('unavailable', 'The roadmap server could not be reached', { cause: error });
+    }
+
+    if (!response.ok) {
+      throw await this.toProviderError(response);
+    }
+
+    let result: RoadmapResult | null = null;
+    await this.readEvents(response, event => {
+      switch (event.type) {
+        case 'progress':
+          onProgress?.(event.roadmap);
+          break;
+        case 'stats':
+          onPromptStats?.(event.stats);
+          break;
+        case 'result':
+          result = { roadmap: event.roadmap, generatedAt: event.generatedAt, fromCache: event.cached };
+          break;
+        case 'error':
+          throw new ProviderError(event.error.kind, event.error.message);
       }
-      
-      throw new Error('No valid JSON found in response');
+    });
+    if (!result) {
+      throw new ProviderError('unavailable', 'The roadmap server closed the connection before sending a roadmap');
     }
+    const { roadmap, generatedAt }: RoadmapResult = result;
+    await this.cache.set(cacheKey, roadmap, catalog, generatedAt);
+    return result;
   }
 
-  async generateRoadmap(occupation: string, subjects: Subject[]): Promise<GeneratedRoadmap> {
+  // One turn of the refinement chat; the patch is only a proposal until the caller applies it
+  async refineRoadmap(request: RefineRequest, signal?: AbortSignal): Promise<RoadmapPatch> {
+    const body: RefineRequest = { admissionYear: await dataService.getAdmissionYear(), ...request };
+    let response: Response;
+    try {
+      response = await fetch(this.refineEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ProviderError('unavailable', 'The roadmap server could not be reached', { cause: error });
+    }
+
+    if (!response.ok) {
+      throw await this.toProviderError(response);
+    }
     try {
-      const prompt = this.createRoadmapPrompt(occupation, subjects);
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-      const roadmapData = this.parseJSONResponse(text);
-      return roadmapData;
+      return ((await response.json()) as RefineResponse).patch;
     } catch (error) {
-      throw new Error('Failed to generate roadmap');
+      throw new ProviderError('unavailable', 'The roadmap server sent an unreadable response', { cause: error });
     }
   }
 
-  private createRoadmapPrompt(occupation: string, subjects: Subject[]): string {
-    return `
-You are an expert educational advisor at Tokushima University. Your task is to create a personalized course roadmap for a student aiming to become a ${occupation}.
-
-Given the following subjects (with their syllabi and details), select the most relevant subjects for the occupation of ${occupation} and generate a roadmap:
-
-${JSON.stringify(subjects, null, 2)}
-
-Requirements:
-- Select 8-12 most relevant subjects for the occupation
-- Organize by academic progression (year 1 → year 4)
-- Assign appropriate node types: 'foundation', 'core', 'specialized', 'elective'
-- Calculate x,y coordinates for visual layout (x: 100-700, y: 100-600)
-- Create logical connections between related subjects
-- Calculate total credits
-- Provide detailed reasoning for subject selection
-
-IMPORTANT: Return ONLY a valid JSON object with this exact structure, no markdown formatting or additional text:
-
-{
-  "title": "Roadmap Title",
-  "description": "Brief description of the roadmap",
-  "occupation": "${occupation}",
-  "nodes": [
-    {
-      "id": "subject_id",
-      "name": "Subject Name",
-      "x": 200,
-      "y": 100,
-      "type": "foundation|core|specialized|elective",
-      "completed": false,
-      "connects": ["connected_subject_id"],
-      "credits": 2,
-      "year": 1,
-      "semester": 1,
-      "relevance_score": 0.95
+  private async toProviderError(response: Response): Promise<ProviderError> {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    let error: RoadmapErrorBody | undefined;
+    try {
+      error = ((await response.json()) as { error?: RoadmapErrorBody }).error;
+    } catch (parseError) {
+      // Not one of our responses, e.g. a proxy error page
     }
-  ],
-  "total_credits": 24,
-  "reasoning": "Detailed explanation of why these subjects were selected and how they prepare for the target occupation"
-}
+    return new ProviderError(
+      error?.kind || errorKindForStatus(response.status),
+      error?.message || `${response.status} ${response.statusText}`,
+      { retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined }
+    );
+  }
 
-Focus on subjects that directly contribute to the skills and knowledge needed for ${occupation}.
-`;
+  // The response is newline-delimited JSON, one RoadmapStreamEvent per line
+  private async readEvents(response: Response, onEvent: (event: RoadmapStreamEvent) => void) {
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      let event: RoadmapStreamEvent;
+      try {
+        event = JSON.parse(line);
+      } catch (error) {
+        throw new ProviderError('unavailable', 'The roadmap server sent an unreadable response', { cause: error });
+      }
+      onEvent(event);
+    };
+
+    if (!response.body) {
+      (await response.text()).split('\n').forEach(handleLine);
+      return;
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    handleLine(pending);
   }
 }
 
-export const geminiService = new GeminiService(); 
\ No newline at end of file
+export const geminiService = new GeminiService();
@@ -0,0 +1,249 @@
+import { Subject } from './geminiService';
+
+export interface SubjectMatcher {
+  ids?: string[];
+  idPrefixes?: string[];
+}
+
+interface RequirementBase {
+  id: string;
+  label: string;
+}
+
+export interface TotalCreditsRequirement extends RequirementBase {
+  kind: 'total_credits';
+  minCredits: number;
+}
+
+export interface RequiredSubjectsRequirement extends RequirementBase {
+  kind: 'required';
+  subjectIds: string[];
+}
+
+export interface CategoryRequirement extends RequirementBase {
+  kind: 'category';
+  minCredits: number;
+  match: SubjectMatcher;
+}
+
+export interface ChooseRequirement extends RequirementBase {
+  kind: 'choose';
+  count: number;
+  subjectIds: string[];
+}
+
+export type Requirement =
+  | TotalCreditsRequirement
+  | RequiredSubjectsRequirement
+  | CategoryRequirement
+  | ChooseRequirement;
+
+export interface GraduationRequirements {
+  course: string;
+  requirements: Requirement[];
+}
+
+export type RequirementStatus = 'satisfied' | 'at_risk' | 'short';
+
+export interface RequirementAudit {
+  requirement: Requirement;
+  status: RequirementStatus;
+  // Credits for credit-based requirements, subject count otherwise
+  required: number;
+  earned: number;
+  planned: number;
+  // Subjects that still have to be taken, or could be taken, to close the gap
+  missingSubjectIds: string[];
+}
+
+export interface DegreeAudit {
+  course: string;
+  status: RequirementStatus;
+  results: RequirementAudit[];
+  earnedCredits: number;
+  plannedCredits: number;
+}
+
+// Requirements for the 電気電子システム course, expressed over the subjects in syllabus.json.
+// General education credits are outside the catalog, so totals only count catalog subjects.
+// Check the figures against the current 履修の手引き when the catalog is updated.
+export const EEE_GRADUATION_REQUIREMENTS: GraduationRequirements = {
+  course: '電気電子システム',
+  requirements: [
+    {
+      id: 'total',
+      kind: 'total_credits',
+      label: '専門教育科目 合計',
+      minCredits: 90,
+    },
+    {
+      id: 'required',
+      kind: 'required',
+      label: '必修科目',
+      subjectIds: [
+        '610401D', // STEM概論
+        'EENG2100JEEE', // 電気回路１及び演習
+        'EENG2110JEEE', // 電気回路２及び演習
+        'EENG2200JEEE', // 電気磁気学１及び演習
+        'EENG2210JEEE', // 電気磁気学２及び演習
+        'EENG2610EEE', // 電気電子工学基礎実験
+        'EENG3610JEEE', // 電気電子工学創成実験
+        'EENG3620JEEE', // 電気電子工学実験1
+        '614026D', // 電気電子工学実験２
+        '614027D', // 電気電子工学実験3
+        'EENG3590JEEE', // 雑誌講読
+        'EENG4900JEEE', // 卒業研究
+      ],
+    },
+    {
+      id: 'math_physics',
+      kind: 'category',
+      label: '数学・物理系科目',
+      minCredits: 10,
+      match: {
+        ids: ['610403D', '610404D', '610406D', '610409D', '610411D', 'EENG2400JEEE'],
+        idPrefixes: ['MATH', 'PHYS'],
+      },
+    },
+    {
+      id: 'english',
+      kind: 'category',
+      label: '技術英語',
+      minCredits: 2,
+      match: { ids: ['610413D', '610414D', '610415D'] },
+    },
+    {
+      id: 'specialized',
+      kind: 'category',
+      label: '専門科目',
+      minCredits: 60,
+      match: { idPrefixes: ['EENG', 'EEENG', '614'] },
+    },
+    {
+      id: 'career',
+      kind: 'category',
+      label: 'キャリア・実践科目',
+      minCredits: 2,
+      match: { ids: ['610016D', '610021D'], idPrefixes: ['SCTE'] },
+    },
+    {
+      id: 'power_group',
+      kind: 'choose',
+      label: '電力・エネルギー系から2科目',
+      count: 2,
+      subjectIds: ['EENG3000JEEE', 'EENG3010JEEE', 'EENG3070JEEE', 'EENG3040JEEE', 'EENG3080JEEE', 'EENG3050JEEE', 'EENG3090JEEE'],
+    },
+    {
+      id: 'communication_group',
+      kind: 'choose',
+      label: '情報・通信系から2科目',
+      count: 2,
+      subjectIds: ['EENG3240JEEE', 'EENG3210JEEE', '614038D', '614050D', '614023D', '614039D'],
+    },
+    {
+      id: 'electronics_group',
+      kind: 'choose',
+      label: '電子・デバイス系から2科目',
+      count: 2,
+      subjectIds: ['EENG31000JEEE', 'EENG3110JEEE', 'EENG3150JEEE', 'EENG3160JEEE', 'EENG3120JEEE', '614051D'],
+    },
+  ],
+};
+
+const STATUS_RANK: Record<RequirementStatus, number> = { satisfied: 0, at_risk: 1, short: 2 };
+
+export const matchesSubject = (matcher: SubjectMatcher, subjectId: string): boolean =>
+  (matcher.ids || []).includes(subjectId) ||
+  (matcher.idPrefixes || []).some(prefix => subjectId.startsWith(prefix));
+
+export class GraduationAuditor {
+  audit(
+    subjects: Subject[],
+    completedIds: Iterable<string>,
+    plannedIds: Iterable<string>,
+    requirements: GraduationRequirements = EEE_GRADUATION_REQUIREMENTS
+  ): DegreeAudit {
+    const catalog = new Map<string, Subject>();
+    subjects.forEach(subject => {
+      if (!catalog.has(subject.id)) catalog.set(subject.id, subject);
+    });
+    const completed = new Set(Array.from(completedIds).filter(id => catalog.has(id)));
+    // Completed subjects are never double-counted as planned
+    const planned = new Set(Array.from(plannedIds).filter(id => catalog.has(id) && !completed.has(id)));
+
+    const creditsOf = (ids: Iterable<string>) =>
+      Array.from(ids).reduce((total, id) => total + (catalog.get(id)?.credits || 0), 0);
+
+    const results = requirements.requirements.map(requirement =>
+      this.auditRequirement(requirement, catalog, completed, planned, creditsOf)
+    );
+
+    const status = results.reduce<RequirementStatus>(
+      (worst, result) => (STATUS_RANK[result.status] > STATUS_RANK[worst] ? result.status : worst),
+      'satisfied'
+    );
+
+    return {
+      course: requirements.course,
+      status,
+      results,
+      earnedCredits: creditsOf(completed),
+      plannedCredits: creditsOf(planned),
+    };
+  }
+
+  private auditRequirement(
+    requirement: Requirement,
+    catalog: Map<string, Subject>,
+    completed: Set<string>,
+    planned: Set<string>,
+    creditsOf: (ids: Iterable<string>) => number
+  ): RequirementAudit {
+    const untaken = (ids: string[]) => ids.filter(id => !completed.has(id) && !planned.has(id));
+
+    switch (requirement.kind) {
+      case 'total_credits': {
+        const earned = creditsOf(completed);
+        const plannedCredits = creditsOf(planned);
+        return this.result(requirement, requirement.minCredits, earned, plannedCredits, []);
+      }
+      case 'required': {
+        const earned = requirement.subjectIds.filter(id => completed.has(id)).length;
+        const plannedCount = requirement.subjectIds.filter(id => planned.has(id)).length;
+        return this.result(requirement, requirement.subjectIds.length, earned, plannedCount, untaken(requirement.subjectIds));
+      }
+      case 'category': {
+        const inCategory = Array.from(catalog.keys()).filter(id => matchesSubject(requirement.match, id));
+        const earned = creditsOf(inCategory.filter(id => completed.has(id)));
+        const plannedCredits = creditsOf(inCategory.filter(id => planned.has(id)));
+        return this.result(requirement, requirement.minCredits, earned, plannedCredits, untaken(inCategory));
+      }
+      case 'choose': {
+        const earned = requirement.subjectIds.filter(id => completed.has(id)).length;
+        const plannedCount = requirement.subjectIds.filter(id => planned.has(id)).length;
+        return this.result(requirement, requirement.count, earned, plannedCount, untaken(requirement.subjectIds));
+      }
+    }
+  }
+
+  private result(
+    requirement: Requirement,
+    required: number,
+    earned: number,
+    planned: number,
+    candidates: string[]
+  ): RequirementAudit {
+    const status: RequirementStatus =
+      earned >= required ? 'satisfied' : earned + planned >= required ? 'at_risk' : 'short';
+    return {
+      requirement,
+      status,
+      required,
+      earned,
+      planned,
+      missingSubjectIds: status === 'short' ? candidates : [],
+    };
+  }
+}
+
+export const graduationAuditor = new GraduationAuditor();
@@ -0,0 +1,115 @@
+// Reads a JSON object as it streams in and hands out the elements of one of its array
+// properties as soon as each element is complete, e.g. roadmap nodes while the model
+// is still writing the rest of the response. Text before the first "{" (such as a
+// markdown fence) is skipped.
+export class IncrementalJsonParser {
+  private buffer = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = 0;
+  private done = false;
+  // Top-level property name seen last, and whether its value is being read
+  private lastString: string | null = null;
+  private key: string | null = null;
+  private readingValue = false;
+  private arrayDepth: number | null = null;
+  private elementStart: number | null = null;
+  private completedFields: Record<string, string> = {};
+
+  constructor(private arrayKey: string) {}
+
+  get text(): string {
+    return this.buffer;
+  }
+
+  // Top-level string properties that have been read completely so far
+  get fields(): Record<string, string> {
+    return this.completedFields;
+  }
+
+  // Appends a chunk and returns the array elements it completed
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const elements: unknown[] = [];
+
+    for (; this.position < this.buffer.length && !this.done; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.endString();
+        }
+        continue;
+      }
+
+      if (this.depth === 0 && char !== '{') continue;
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case ':':
+          if (this.depth === 1) {
+            this.key = this.lastString;
+            this.readingValue = true;
+          }
+          break;
+        case ',':
+          if (this.depth === 1) {
+            this.key = null;
+            this.readingValue = false;
+          }
+          break;
+        case '{':
+        case '[':
+          if (char === '[' && this.depth === 1 && this.key === this.arrayKey) {
+            this.arrayDepth = this.depth + 1;
+          } else if (char === '{' && this.depth === this.arrayDepth) {
+            this.elementStart = this.position;
+          }
+          this.depth++;
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (char === '}' && this.depth === this.arrayDepth && this.elementStart !== null) {
+            try {
+              elements.push(JSON.parse(this.buffer.slice(this.elementStart, this.position + 1)));
+            } catch (error) {
+              // A malformed element is left for validation of the full response
+            }
+            this.elementStart = null;
+          } else if (char === ']' && this.arrayDepth !== null && this.depth === this.arrayDepth - 1) {
+            this.arrayDepth = null;
+          }
+          if (this.depth === 0) this.done = true;
+          break;
+      }
+    }
+    return elements;
+  }
+
+  private endString() {
+    if (this.depth !== 1) return;
+    let value: string;
+    try {
+      value = JSON.parse(this.buffer.slice(this.stringStart, this.position + 1));
+    } catch (error) {
+      return;
+    }
+    if (this.readingValue && this.key !== null) {
+      this.completedFields[this.key] = value;
+      this.readingValue = false;
+    } else {
+      this.lastString = value;
+    }
+  }
+}
@@ -0,0 +1,257 @@
+import { Subject } from './geminiService';
+import { normalizeText, tokenize } from './subjectSearch';
+import { Locale } from '../i18n';
+
+// Names of lucide icons; the UI maps them to components so this module stays React-free for the server
+export type OccupationIconName = 'zap' | 'battery' | 'cpu' | 'radio' | 'plane' | 'code' | 'gauge' | 'bot';
+
+export interface Occupation {
+  // Also the key in career_relevance when the catalog scores this occupation
+  id: string;
+  name: Record<Locale, string>;
+  // Alternative names and abbreviations in either language
+  synonyms: string[];
+  // Topic words used to break ties between subjects with the same catalog relevance
+  keywords: string[];
+  icon: OccupationIconName;
+  // Used when a subject has no score for this occupation: career_relevance keys to borrow from, with weights
+  relevanceFrom?: Record<string, number>;
+}
+
+// Taxonomy ids with weights summing to 1, e.g. { power_engineer: 0.7, electrical_engineer: 0.3 }
+export type OccupationWeights = Record<string, number>;
+
+export interface OccupationMatch {
+  occupation: Occupation;
+  // Similarity of the input to the occupation's closest name or synonym, 0–1
+  score: number;
+  weight: number;
+}
+
+export interface ResolvedOccupation {
+  input: string;
+  // Best first; empty when nothing is close enough
+  matches: OccupationMatch[];
+  weights: OccupationWeights;
+}
+
+export interface OccupationSuggestion {
+  occupation: Occupation;
+  // The name or synonym that matched, when it differs from the display name
+  matchedLabel?: string;
+}
+
+export const OCCUPATIONS: Occupation[] = [
+  {
+    id: 'electrical_engineer',
+    name: { en: 'Electrical Engineer', ja: '電気技術者' },
+    synonyms: ['EE', 'electrical engineering', 'electric engineer', '電気エンジニア', '電気工学'],
+    keywords: ['電気回路', '電気磁気', '電気機器', '電力', '計測', '過渡現象', 'エネルギー'],
+    icon: 'zap',
+  },
+  {
+    id: 'power_engineer',
+    name: { en: 'Power Engineer', ja: '電力技術者' },
+    synonyms: ['power systems engineer', 'energy engineer', 'electric utility engineer', '電力エンジニア', 'エネルギー技術者', '電力会社'],
+    keywords: ['電力', '発電', '変電', '高電圧', '電気機器', 'パワーエレクトロニクス', 'エネルギー', '電熱'],
+    icon: 'battery',
+  },
+  {
+    id: 'electronics_engineer',
+    name: { en: 'Electronics Engineer', ja: '電子技術者' },
+    synonyms: [
+      'electronic engineer', 'embedded engineer', 'embedded systems engineer', 'hardware engineer',
+      'semiconductor engineer', 'circuit designer', '電子エンジニア', '組込みエンジニア', '組み込みエンジニア',
+      '半導体技術者', '回路設計者',
+    ],
+    keywords: ['電子', '半導体', 'デバイス', '集積回路', '電子回路', '論理回路', '材料', '物性'],
+    icon: 'cpu',
+  },
+  {
+    id: 'communication_engineer',
+    name: { en: 'Communication Engineer', ja: '通信技術者' },
+    synonyms: [
+      'communications engineer', 'telecommunications engineer', 'telecom engineer', 'network engineer',
+      'RF engineer', 'wireless engineer', '通信エンジニア', 'ネットワークエンジニア', '無線技術者',
+    ],
+    keywords: ['通信', '信号処理', '電磁波', 'ディジタル', '情報', '変調', 'アンテナ'],
+    icon: 'radio',
+  },
+  {
+    id: 'aerospace_engineer',
+    name: { en: 'Aerospace Engineer', ja: '航空宇宙技術者' },
+    synonyms: ['aeronautical engineer', 'avionics engineer', 'space engineer', '航空宇宙エンジニア', '宇宙開発'],
+    keywords: ['航空', '宇宙', '制御', '通信', '電磁波', '計測'],
+    icon: 'plane',
+    relevanceFrom: { electronics_engineer: 0.4, communication_engineer: 0.3, electrical_engineer: 0.3 },
+  },
+  {
+    id: 'software_engineer',
+    name: { en: 'Software Engineer', ja: 'ソフトウェア技術者' },
+    synonyms: ['software developer', 'programmer', 'SWE', 'developer', 'ソフトウェアエンジニア', 'プログラマー', 'プログラマ'],
+    keywords: ['プログラミング', 'ソフトウェア', 'アルゴリズム', '情報', 'データ', '計算機'],
+    icon: 'code',
+    relevanceFrom: { communication_engineer: 0.6, electronics_engineer: 0.4 },
+  },
+  {
+    id: 'control_engineer',
+    name: { en: 'Control Engineer', ja: '制御技術者' },
+    synonyms: ['control systems engineer', 'controls engineer', 'automation engineer', '制御エンジニア', '自動化技術者'],
+    keywords: ['制御', 'システム', 'フィードバック', '計測', 'モータ', '信号'],
+    icon: 'gauge',
+    relevanceFrom: { electrical_engineer: 0.5, electronics_engineer: 0.5 },
+  },
+  {
+    id: 'robotics_engineer',
+    name: { en: 'Robotics Engineer', ja: 'ロボット技術者' },
+    synonyms: ['robot engineer', 'roboticist', 'mechatronics engineer', 'ロボットエンジニア', 'メカトロニクス技術者'],
+    keywords: ['ロボット', '制御', 'センサ', 'メカトロニクス', '電子回路', 'プログラミング'],
+    icon: 'bot',
+    relevanceFrom: { electronics_engineer: 0.5, electrical_engineer: 0.3, communication_engineer: 0.2 },
+  },
+];
+
+// Words shared by most occupation names, which say nothing about which one is meant
+const GENERIC_TOKENS = new Set(['engineer', 'engineers', 'engineering', 'specialist', '技術', '術者', 'エン', 'ンジ', 'ジニ', 'ニア']);
+
+const MIN_SCORE = 0.34;
+// Occupations scoring below this fraction of the best match are left out of the mix
+const MIX_RATIO = 0.6;
+const MAX_MIX = 3;
+
+const normalize = (text: string): string =>
+  normalizeText(text).replace(/[_\-・/]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+const meaningfulTokens = (text: string): Set<string> =>
+  new Set(tokenize(text.replace(/_/g, ' ')).filter(token => !GENERIC_TOKENS.has(token)));
+
+const isLatin = (text: string) => /^[\x20-\x7e]+$/.test(text);
+
+// Whole words for latin labels so "ee" doesn't match "engineer"; substrings for Japanese
+const containsLabel = (text: string, label: string): boolean =>
+  isLatin(label) ? ` ${text} `.includes(` ${label} `) : text.includes(label);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class OccupationTaxonomy {
+  private byId: Map<string, Occupation>;
+
+  constructor(private occupations: Occupation[] = OCCUPATIONS) {
+    this.byId = new Map(occupations.map(occupation => [occupation.id, occupation]));
+  }
+
+  all(): Occupation[] {
+    return this.occupations;
+  }
+
+  get(id: string): Occupation | undefined {
+    return this.byId.get(id);
+  }
+
+  displayName(id: string, locale: Locale): string {
+    return this.byId.get(id)?.name[locale] || id.replace(/_/g, ' ');
+  }
+
+  // Maps free text to the closest occupations: one when the input names it, otherwise a
+  // weighted mix of up to three similar ones
+  resolve(input: string): ResolvedOccupation {
+    const scored = this.occupations
+      .map(occupation => ({ occupation, score: this.score(input, occupation, true) }))
+      .filter(({ score }) => score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score);
+    if (scored.length === 0) return { input, matches: [], weights: {} };
+
+    const best = scored[0].score;
+    const mix = best === 1 ? [scored[0]] : scored.filter(({ score }) => score >= best * MIX_RATIO).slice(0, MAX_MIX);
+    const total = mix.reduce((sum, { score }) => sum + score, 0);
+    const matches = mix.map(({ occupation, score }) => ({ occupation, score: round(score), weight: round(score / total) }));
+    const weights: OccupationWeights = {};
+    matches.forEach(match => {
+      weights[match.occupation.id] = match.weight;
+    });
+    return { input, matches, weights };
+  }
+
+  // Autocomplete: prefix matches first, then word prefixes, then similar occupations
+  suggest(input: string, locale: Locale, limit: number = 6): OccupationSuggestion[] {
+    const text = normalize(input);
+    if (!text) return this.occupations.slice(0, limit).map(occupation => ({ occupation }));
+
+    return this.occupations
+      .map(occupation => {
+        let rank = 0;
+        let matchedLabel: string | undefined;
+        this.labels(occupation).forEach(label => {
+          const normalized = normalize(label);
+          const wordStart = isLatin(text) ? ` ${normalized}`.includes(` ${text}`) : normalized.includes(text);
+          const labelRank = normalized.startsWith(text) ? 3 : wordStart ? 2 : 0;
+          if (labelRank > rank) {
+            rank = labelRank;
+            matchedLabel = label;
+          }
+        });
+        if (rank === 0 && this.score(input, occupation) >= MIN_SCORE) rank = 1;
+        return { occupation, rank, matchedLabel };
+      })
+      .filter(({ rank }) => rank > 0)
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit)
+      .map(({ occupation, matchedLabel }) => ({
+        occupation,
+        matchedLabel: matchedLabel && matchedLabel !== occupation.name[locale] ? matchedLabel : undefined,
+      }));
+  }
+
+  // Weighted career_relevance of a subject, 0–1. Occupations the subject has no score for
+  // borrow from their relevanceFrom occupations
+  relevanceOf(subject: Subject, weights: OccupationWeights): number {
+    return Object.entries(weights).reduce((total, [id, weight]) => total + weight * this.scoreFor(subject, id), 0);
+  }
+
+  keywordsFor(weights: OccupationWeights): string[] {
+    const keywords = new Set<string>();
+    Object.keys(weights).forEach(id => this.byId.get(id)?.keywords.forEach(keyword => keywords.add(keyword)));
+    return Array.from(keywords);
+  }
+
+  // e.g. "Power Engineer 70%, Electrical Engineer 30%"
+  describe(weights: OccupationWeights, locale: Locale): string {
+    return Object.entries(weights)
+      .sort((a, b) => b[1] - a[1])
+      .map(([id, weight]) => `${this.displayName(id, locale)} ${Math.round(weight * 100)}%`)
+      .join(', ');
+  }
+
+  private scoreFor(subject: Subject, id: string): number {
+    const direct = subject.career_relevance?.[id];
+    if (direct !== undefined) return direct;
+    return Object.entries(this.byId.get(id)?.relevanceFrom || {})
+      .reduce((total, [key, share]) => total + share * (subject.career_relevance?.[key] || 0), 0);
+  }
+
+  // What people call the occupation; the id is only matched when resolving, never suggested
+  private labels(occupation: Occupation): string[] {
+    return [occupation.name.en, occupation.name.ja, ...occupation.synonyms];
+  }
+
+  private score(input: string, occupation: Occupation, matchId: boolean = false): number {
+    const text = normalize(input);
+    if (!text) return 0;
+    const inputTokens = meaningfulTokens(text);
+    const labels = matchId ? [occupation.id, ...this.labels(occupation)] : this.labels(occupation);
+    return Math.max(0, ...labels.map(label => {
+      const normalized = normalize(label);
+      if (normalized === text) return 1;
+      if (containsLabel(text, normalized) && meaningfulTokens(normalized).size > 0) return 0.85;
+      const labelTokens = meaningfulTokens(normalized);
+      if (inputTokens.size === 0 || labelTokens.size === 0) return 0;
+      let shared = 0;
+      labelTokens.forEach(token => {
+        if (inputTokens.has(token)) shared += 1;
+      });
+      return (2 * shared) / (inputTokens.size + labelTokens.size);
+    }));
+  }
+}
+
+export const occupationTaxonomy = new OccupationTaxonomy();
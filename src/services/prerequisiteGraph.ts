@@ -0,0 +1,238 @@
+import { Subject } from './geminiService';
+
+export type ResolutionMethod = 'id' | 'code' | 'name' | 'fuzzy';
+
+export interface ResolvedReference {
+  id: string;
+  method: ResolutionMethod;
+}
+
+export interface UnresolvedReference {
+  subjectId: string;
+  reference: string;
+}
+
+export const PLACEHOLDER_PREREQUISITES = ['なし', '無し', 'none', 'n/a', '-', 'ー'];
+
+// Folds full-width/half-width variants (１ vs 1, ＳＴＥＭ vs STEM) and whitespace
+export const normalizeLabel = (value: string): string =>
+  value.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+
+// Suffixes that are often dropped when a course is referred to informally
+const NAME_SUFFIXES = ['及び演習', 'および演習', '演習'];
+const MIN_FUZZY_LENGTH = 4;
+const MAX_FUZZY_DISTANCE = 1;
+
+const stripSuffixes = (label: string): string => {
+  const suffix = NAME_SUFFIXES.find(s => label.endsWith(s) && label.length > s.length);
+  return suffix ? label.slice(0, -suffix.length) : label;
+};
+
+const digitsOf = (label: string): string => label.replace(/\D/g, '');
+
+const editDistance = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+export class PrerequisiteResolver {
+  private byId = new Map<string, string>();
+  private byCode = new Map<string, string>();
+  private byName = new Map<string, string>();
+  private byStem = new Map<string, string>();
+
+  constructor(subjects: Pick<Subject, 'id' | 'code' | 'name'>[]) {
+    // First occurrence wins so duplicate ids/codes resolve consistently
+    subjects.forEach(subject => {
+      const name = normalizeLabel(subject.name);
+      this.setOnce(this.byId, normalizeLabel(subject.id), subject.id);
+      this.setOnce(this.byCode, normalizeLabel(subject.code), subject.id);
+      if (name) {
+        this.setOnce(this.byName, name, subject.id);
+        this.setOnce(this.byStem, stripSuffixes(name), subject.id);
+      }
+    });
+  }
+
+  resolve(reference: string): ResolvedReference | null {
+    const label = normalizeLabel(reference);
+    if (!label) return null;
+
+    const exact: [Map<string, string>, ResolutionMethod][] = [
+      [this.byId, 'id'],
+      [this.byCode, 'code'],
+      [this.byName, 'name'],
+    ];
+    for (const [index, method] of exact) {
+      const id = index.get(label);
+      if (id) return { id, method };
+    }
+
+    const stem = stripSuffixes(label);
+    const stemMatch = this.byStem.get(stem);
+    if (stemMatch) return { id: stemMatch, method: 'fuzzy' };
+
+    // Never fuzz across numbering: 電気回路1 and 電気回路2 are different courses
+    if (stem.length < MIN_FUZZY_LENGTH) return null;
+    const matches = new Set<string>();
+    let bestDistance = Infinity;
+    this.byStem.forEach((id, candidate) => {
+      if (digitsOf(candidate) !== digitsOf(stem)) return;
+      const distance = editDistance(stem, candidate);
+      if (distance > MAX_FUZZY_DISTANCE) return;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        matches.clear();
+      }
+      if (distance === bestDistance) matches.add(id);
+    });
+    return matches.size === 1 ? { id: Array.from(matches)[0], method: 'fuzzy' } : null;
+  }
+
+  private setOnce(index: Map<string, string>, key: string, id: string) {
+    if (key && !index.has(key)) {
+      index.set(key, id);
+    }
+  }
+}
+
+export class PrerequisiteGraph {
+  private resolver: PrerequisiteResolver;
+  private subjectIds: string[] = [];
+  private prerequisites = new Map<string, Set<string>>();
+  private dependents = new Map<string, Set<string>>();
+  private unresolved: UnresolvedReference[] = [];
+
+  constructor(subjects: Subject[]) {
+    this.resolver = new PrerequisiteResolver(subjects);
+
+    subjects.forEach(subject => {
+      if (this.prerequisites.has(subject.id)) return;
+      this.subjectIds.push(subject.id);
+      this.prerequisites.set(subject.id, new Set());
+      this.dependents.set(subject.id, new Set());
+    });
+
+    const seen = new Set<string>();
+    subjects.forEach(subject => {
+      if (seen.has(subject.id)) return;
+      seen.add(subject.id);
+      subject.prerequisites.forEach(reference => {
+        const label = normalizeLabel(reference);
+        if (!label || PLACEHOLDER_PREREQUISITES.includes(label)) return;
+        const resolved = this.resolver.resolve(reference);
+        if (!resolved || resolved.id === subject.id) {
+          this.unresolved.push({ subjectId: subject.id, reference });
+          return;
+        }
+        this.prerequisites.get(subject.id)!.add(resolved.id);
+        this.dependents.get(resolved.id)!.add(subject.id);
+      });
+    });
+  }
+
+  resolve(reference: string): ResolvedReference | null {
+    return this.resolver.resolve(reference);
+  }
+
+  has(id: string): boolean {
+    return this.prerequisites.has(id);
+  }
+
+  getDirectPrerequisites(id: string): string[] {
+    return Array.from(this.prerequisites.get(id) || []);
+  }
+
+  getDirectDependents(id: string): string[] {
+    return Array.from(this.dependents.get(id) || []);
+  }
+
+  // Transitive prerequisites, nearest first
+  getPrerequisiteChain(id: string): string[] {
+    return this.walk(id, this.prerequisites);
+  }
+
+  // Transitive dependents, nearest first
+  getDependents(id: string): string[] {
+    return this.walk(id, this.dependents);
+  }
+
+  getUnresolvedReferences(): UnresolvedReference[] {
+    return [...this.unresolved];
+  }
+
+  findCycles(): string[][] {
+    const cycles: string[][] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (id: string) => {
+      state.set(id, 'visiting');
+      stack.push(id);
+      this.prerequisites.get(id)!.forEach(next => {
+        if (state.get(next) === 'visiting') {
+          cycles.push(stack.slice(stack.indexOf(next)));
+        } else if (!state.has(next)) {
+          visit(next);
+        }
+      });
+      stack.pop();
+      state.set(id, 'done');
+    };
+
+    this.subjectIds.forEach(id => {
+      if (!state.has(id)) visit(id);
+    });
+    return cycles;
+  }
+
+  // Prerequisites before dependents; subjects caught in a cycle are appended at the end
+  topologicalOrder(): string[] {
+    const remaining = new Map<string, number>();
+    this.subjectIds.forEach(id => remaining.set(id, this.prerequisites.get(id)!.size));
+
+    const queue = this.subjectIds.filter(id => remaining.get(id) === 0);
+    const order: string[] = [];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      this.dependents.get(id)!.forEach(dependent => {
+        const count = remaining.get(dependent)! - 1;
+        remaining.set(dependent, count);
+        if (count === 0) queue.push(dependent);
+      });
+    }
+
+    const ordered = new Set(order);
+    return [...order, ...this.subjectIds.filter(id => !ordered.has(id))];
+  }
+
+  private walk(start: string, edges: Map<string, Set<string>>): string[] {
+    const visited = new Set<string>([start]);
+    const result: string[] = [];
+    const queue = [start];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      (edges.get(id) || new Set<string>()).forEach(next => {
+        if (visited.has(next)) return;
+        visited.add(next);
+        result.push(next);
+        queue.push(next);
+      });
+    }
+    return result;
+  }
+}
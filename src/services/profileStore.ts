@@ -0,0 +1,315 @@
+import { GeneratedRoadmap } from './geminiService';
+import { StudyPlan } from './studyPlanner';
+import { LEGACY_ADMISSION_YEAR } from './catalogVersions';
+
+export type Grade = '秀' | '優' | '良' | '可';
+
+export const GRADES: Grade[] = ['秀', '優', '良', '可'];
+
+export interface CompletedSubject {
+  grade?: Grade;
+  completedAt: string;
+}
+
+export interface SavedRoadmap {
+  id: string;
+  name: string;
+  savedAt: string;
+  roadmap: GeneratedRoadmap;
+}
+
+export interface StudentProfile {
+  version: number;
+  // Selects the catalog version; null until the catalog manifest's default has been adopted
+  admissionYear: number | null;
+  completedSubjects: Record<string, CompletedSubject>;
+  currentYear: number;
+  currentSemester: number;
+  currentRoadmap: GeneratedRoadmap | null;
+  studyPlan: StudyPlan | null;
+  savedRoadmaps: SavedRoadmap[];
+}
+
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  getItem(key: string): string | null {
+    return window.localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    window.localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    window.localStorage.removeItem(key);
+  }
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+export const PROFILE_STORAGE_KEY = 'tokushima-roadmap:profile';
+export const PROFILE_VERSION = 2;
+// A stored profile that can't be read, for example one written by a newer version of the app, is
+// copied here before the store starts fresh
+export const PROFILE_BACKUP_SUFFIX = ':unreadable';
+
+// A parsed profile as found in storage, before its shape has been checked
+export type StoredProfile = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a stored profile from version n to n + 1
+export const MIGRATIONS: Record<number, (profile: StoredProfile) => StoredProfile> = {
+  // Version 1 profiles were built against the only catalog there was
+  1: profile => ({ ...profile, admissionYear: LEGACY_ADMISSION_YEAR }),
+};
+
+export const createEmptyProfile = (): StudentProfile => ({
+  version: PROFILE_VERSION,
+  admissionYear: null,
+  completedSubjects: {},
+  currentYear: 1,
+  currentSemester: 1,
+  currentRoadmap: null,
+  studyPlan: null,
+  savedRoadmaps: [],
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isRoadmap = (value: unknown): value is GeneratedRoadmap =>
+  isRecord(value) && typeof value.title === 'string' && Array.isArray(value.nodes);
+
+const isStudyPlan = (value: unknown): value is StudyPlan =>
+  isRecord(value) && isRecord(value.terms) && Array.isArray(value.unplaced) && typeof value.maxCreditsPerTerm === 'number';
+
+const isSavedRoadmap = (value: unknown): value is SavedRoadmap =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.savedAt === 'string' &&
+  isRoadmap(value.roadmap);
+
+const readCompletedSubjects = (value: unknown): Record<string, CompletedSubject> => {
+  const completed: Record<string, CompletedSubject> = {};
+  if (!isRecord(value)) return completed;
+  Object.entries(value).forEach(([id, entry]) => {
+    if (!isRecord(entry) || typeof entry.completedAt !== 'string') return;
+    const grade = GRADES.find(known => known === entry.grade);
+    completed[id] = grade ? { grade, completedAt: entry.completedAt } : { completedAt: entry.completedAt };
+  });
+  return completed;
+};
+
+// Keeps the fields that have the expected type; anything else falls back to the empty profile's value
+const readProfile = (profile: StoredProfile): StudentProfile => {
+  const empty = createEmptyProfile();
+  return {
+    version: PROFILE_VERSION,
+    admissionYear: typeof profile.admissionYear === 'number' ? profile.admissionYear : empty.admissionYear,
+    completedSubjects: readCompletedSubjects(profile.completedSubjects),
+    currentYear: isInteger(profile.currentYear, 1, 4) ? profile.currentYear : empty.currentYear,
+    currentSemester: isInteger(profile.currentSemester, 1, 8) ? profile.currentSemester : empty.currentSemester,
+    currentRoadmap: isRoadmap(profile.currentRoadmap) ? profile.currentRoadmap : empty.currentRoadmap,
+    studyPlan: isStudyPlan(profile.studyPlan) ? profile.studyPlan : empty.studyPlan,
+    savedRoadmaps: Array.isArray(profile.savedRoadmaps) ? profile.savedRoadmaps.filter(isSavedRoadmap) : empty.savedRoadmaps,
+  };
+};
+
+export const migrateProfile = (stored: unknown): StudentProfile => {
+  if (!isRecord(stored)) {
+    throw new Error('Stored profile is not an object');
+  }
+  let profile = stored;
+  // Profiles saved before versioning was added have the version 1 shape
+  let version = stored.version === undefined ? 1 : stored.version;
+  if (!isInteger(version, 1, Number.MAX_SAFE_INTEGER)) {
+    throw new Error(`Invalid profile version ${String(version)}`);
+  }
+  if (version > PROFILE_VERSION) {
+    throw new Error(`Profile version ${version} is newer than supported version ${PROFILE_VERSION}`);
+  }
+  while (version < PROFILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from profile version ${version}`);
+    }
+    profile = { ...migrate(profile), version: version + 1 };
+    version += 1;
+  }
+  return readProfile(profile);
+};
+
+type Listener = (profile: StudentProfile) => void;
+
+export class ProfileStore {
+  private profile: StudentProfile;
+  private listeners = new Set<Listener>();
+  // Set when an unreadable profile couldn't be backed up; changes then stay in memory so the
+  // stored value is never overwritten
+  private readOnly = false;
+
+  constructor(private storage: StorageAdapter, private key: string = PROFILE_STORAGE_KEY) {
+    this.profile = this.load();
+  }
+
+  getProfile(): StudentProfile {
+    return this.profile;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isCompleted(subjectId: string): boolean {
+    return subjectId in this.profile.completedSubjects;
+  }
+
+  toggleCompleted(subjectId: string) {
+    const completedSubjects = { ...this.profile.completedSubjects };
+    if (subjectId in completedSubjects) {
+      delete completedSubjects[subjectId];
+    } else {
+      completedSubjects[subjectId] = { completedAt: new Date().toISOString() };
+    }
+    this.update({ completedSubjects });
+  }
+
+  setGrade(subjectId: string, grade: Grade | undefined) {
+    const entry = this.profile.completedSubjects[subjectId] || { completedAt: new Date().toISOString() };
+    this.update({
+      completedSubjects: { ...this.profile.completedSubjects, [subjectId]: { ...entry, grade } },
+    });
+  }
+
+  setCurrentTerm(year: number, semester: number) {
+    this.update({ currentYear: year, currentSemester: semester });
+  }
+
+  setCurrentRoadmap(roadmap: GeneratedRoadmap | null) {
+    this.update({ currentRoadmap: roadmap });
+  }
+
+  setStudyPlan(studyPlan: StudyPlan | null) {
+    this.update({ studyPlan });
+  }
+
+  // Roadmaps and completed subjects are migrated to the new catalog by the caller
+  setAdmissionYear(
+    admissionYear: number,
+    migrated: Partial<Pick<StudentProfile, 'completedSubjects' | 'currentRoadmap' | 'savedRoadmaps'>> = {}
+  ) {
+    this.update({ ...migrated, admissionYear, studyPlan: null });
+  }
+
+  saveRoadmap(name: string, roadmap: GeneratedRoadmap): SavedRoadmap {
+    const saved: SavedRoadmap = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim() || roadmap.title,
+      savedAt: new Date().toISOString(),
+      roadmap,
+    };
+    this.update({ savedRoadmaps: [...this.profile.savedRoadmaps, saved] });
+    return saved;
+  }
+
+  deleteSavedRoadmap(id: string) {
+    this.update({ savedRoadmaps: this.profile.savedRoadmaps.filter(saved => saved.id !== id) });
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  reset() {
+    this.storage.removeItem(this.key);
+    this.readOnly = false;
+    this.profile = createEmptyProfile();
+    this.notify();
+  }
+
+  private load(): StudentProfile {
+    let raw: string | null = null;
+    try {
+      raw = this.storage.getItem(this.key);
+      if (!raw) return createEmptyProfile();
+      const profile = migrateProfile(JSON.parse(raw));
+      // Stores the migrated or repaired profile so the work isn't repeated on every load
+      const serialized = JSON.stringify(profile);
+      if (serialized !== raw) {
+        this.storage.setItem(this.key, serialized);
+      }
+      return profile;
+    } catch (error) {
+      console.error('Error loading student profile, starting fresh:', error);
+      if (raw) this.backUp(raw);
+      return createEmptyProfile();
+    }
+  }
+
+  private backUp(raw: string) {
+    const backupKey = `${this.key}${PROFILE_BACKUP_SUFFIX}`;
+    try {
+      this.storage.setItem(backupKey, raw);
+      console.error(`The unreadable profile was copied to "${backupKey}"`);
+    } catch (error) {
+      console.error('Error backing up the unreadable profile; changes will not be saved:', error);
+      this.readOnly = true;
+    }
+  }
+
+  private update(changes: Partial<StudentProfile>) {
+    this.profile = { ...this.profile, ...changes };
+    if (this.readOnly) {
+      this.notify();
+      return;
+    }
+    try {
+      this.storage.setItem(this.key, JSON.stringify(this.profile));
+    } catch (error) {
+      console.error('Error saving student profile:', error);
+    }
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.profile));
+  }
+}
+
+export const createDefaultStorage = (): StorageAdapter => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return new LocalStorageAdapter();
+    }
+  } catch (error) {
+    // Access to localStorage can throw in private browsing modes
+  }
+  return new MemoryStorageAdapter();
+};
+
+export const profileStore = new ProfileStore(createDefaultStorage());
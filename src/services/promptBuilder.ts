@@ -0,0 +1,329 @@
+import { GeneratedRoadmap, Subject } from './geminiService';
+import { roadmapGenerator } from './roadmapGenerator';
+import { PrerequisiteGraph } from './prerequisiteGraph';
+import { occupationTaxonomy, OccupationWeights } from './occupationTaxonomy';
+import { SubjectSearchIndex, tokenize } from './subjectSearch';
+import { RoadmapChatMessage } from './roadmapApi';
+import { ProviderError } from './providers/types';
+import { Locale } from '../i18n';
+
+export interface PromptBuilderOptions {
+  // Most relevant subjects considered for the prompt
+  topK?: number;
+  // Upper bound on the estimated prompt size, template included
+  tokenBudget?: number;
+  // Characters of the description kept as a subject summary
+  summaryLength?: number;
+  language?: Locale;
+  // Taxonomy occupations used to rank subjects; resolved from the occupation text when omitted
+  occupationIds?: OccupationWeights;
+}
+
+export interface OmittedSubject {
+  id: string;
+  name: string;
+  // 'rank': below the top K; 'budget': within the top K but did not fit the token budget
+  reason: 'rank' | 'budget';
+}
+
+export interface RoadmapPromptStats {
+  estimatedTokens: number;
+  tokenBudget: number;
+  includedSubjects: string[];
+  omittedSubjects: OmittedSubject[];
+  // Actual usage reported by the API, summed over retries
+  usage?: { promptTokens: number; responseTokens: number };
+}
+
+export interface RoadmapPrompt {
+  prompt: string;
+  stats: RoadmapPromptStats;
+}
+
+interface CompactSubject {
+  id: string;
+  name: string;
+  credits: number;
+  year: number;
+  semester: number;
+  prerequisites: string[];
+  keywords: string[];
+  summary: string;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<PromptBuilderOptions, 'occupationIds'>> = {
+  topK: 40,
+  tokenBudget: 6000,
+  summaryLength: 80,
+  language: 'en',
+};
+
+const MAX_KEYWORDS = 5;
+
+const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ja: 'Japanese',
+};
+
+const CJK = /[\u3000-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+
+// Rough estimate for Gemini: Japanese characters cost about a token each,
+// other text about four characters per token
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(CJK) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+export class PromptBuilder {
+  buildRoadmapPrompt(
+    occupation: string,
+    subjects: Subject[],
+    options: PromptBuilderOptions = {}
+  ): RoadmapPrompt {
+    const { settings, weights, matched, estimatedTokens } = this.roadmapTemplate(occupation, options);
+    const graph = new PrerequisiteGraph(subjects);
+    const ranked = roadmapGenerator.rankSubjects(subjects, occupation, weights);
+
+    const { lines, includedSubjects, omittedSubjects } = this.fitSubjects(
+      ranked.map(({ subject }) => subject),
+      graph,
+      settings,
+      estimatedTokens
+    );
+
+    const prompt = this.renderTemplate(occupation, matched, lines.join('\n'), settings.language);
+    return {
+      prompt,
+      stats: {
+        estimatedTokens: estimateTokens(prompt),
+        tokenBudget: settings.tokenBudget,
+        includedSubjects,
+        omittedSubjects,
+      },
+    };
+  }
+
+  // Throws the error buildRoadmapPrompt would for a token budget too small for the template, so a
+  // server can reject the request before it starts streaming
+  checkRoadmapBudget(occupation: string, options: PromptBuilderOptions = {}): void {
+    this.roadmapTemplate(occupation, options);
+  }
+
+  // Follow-up request on an existing roadmap: its current subjects, the candidates that could be
+  // added (those matching the instruction first, then by relevance), and the conversation so far
+  buildRefinePrompt(
+    roadmap: GeneratedRoadmap,
+    instruction: string,
+    history: RoadmapChatMessage[],
+    subjects: Subject[],
+    options: PromptBuilderOptions = {}
+  ): RoadmapPrompt {
+    const { occupationIds, ...rest } = options;
+    const settings = { ...DEFAULT_OPTIONS, ...rest };
+    const weights = occupationIds || occupationTaxonomy.resolve(roadmap.occupation).weights;
+    const graph = new PrerequisiteGraph(subjects);
+    const inRoadmap = new Set(roadmap.nodes.map(node => node.id));
+
+    const index = new SubjectSearchIndex(subjects);
+    const matches = new Map<string, number>();
+    // Any instruction word counts, unlike the catalog search where every word must match
+    Array.from(new Set(tokenize(instruction))).forEach(token => {
+      index.search(token).forEach(({ subject, score }) => matches.set(subject.id, (matches.get(subject.id) || 0) + score));
+    });
+    const candidates = roadmapGenerator.rankSubjects(subjects, roadmap.occupation, weights)
+      .filter(({ subject }) => !inRoadmap.has(subject.id))
+      .sort((a, b) => (matches.get(b.subject.id) || 0) - (matches.get(a.subject.id) || 0))
+      .map(({ subject }) => subject);
+
+    const roadmapLines = roadmap.nodes.map(node => JSON.stringify({
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      credits: node.credits,
+      year: node.year,
+      semester: node.semester,
+      prerequisites: graph.getDirectPrerequisites(node.id).filter(id => inRoadmap.has(id)),
+    })).join('\n');
+    const conversation = history
+      .map(message => `${message.role === 'user' ? 'Student' : 'Advisor'}: ${message.content}`)
+      .join('\n');
+    const render = (candidateLines: string) =>
+      this.renderRefineTemplate(roadmap, roadmapLines, candidateLines, conversation, instruction, settings.language);
+
+    const estimatedTokens = estimateTokens(render(''));
+    if (estimatedTokens > settings.tokenBudget) {
+      throw new ProviderError(
+        'invalid_request',
+        `Token budget of ${settings.tokenBudget} is smaller than the roadmap and conversation (${estimatedTokens})`
+      );
+    }
+    const { lines, includedSubjects, omittedSubjects } = this.fitSubjects(candidates, graph, settings, estimatedTokens);
+    const prompt = render(lines.join('\n'));
+    return {
+      prompt,
+      stats: {
+        estimatedTokens: estimateTokens(prompt),
+        tokenBudget: settings.tokenBudget,
+        includedSubjects,
+        omittedSubjects,
+      },
+    };
+  }
+
+  private roadmapTemplate(occupation: string, options: PromptBuilderOptions) {
+    const { occupationIds, ...rest } = options;
+    const settings = { ...DEFAULT_OPTIONS, ...rest };
+    const weights = occupationIds || occupationTaxonomy.resolve(occupation).weights;
+    const matched = occupationTaxonomy.describe(weights, 'en');
+    const estimatedTokens = estimateTokens(this.renderTemplate(occupation, matched, '', settings.language));
+    if (estimatedTokens > settings.tokenBudget) {
+      throw new ProviderError(
+        'invalid_request',
+        `Token budget of ${settings.tokenBudget} is smaller than the prompt template (${estimatedTokens})`
+      );
+    }
+    return { settings, weights, matched, estimatedTokens };
+  }
+
+  // Takes subjects in order until the top K or the token budget is reached
+  private fitSubjects(
+    subjects: Subject[],
+    graph: PrerequisiteGraph,
+    settings: Required<Omit<PromptBuilderOptions, 'occupationIds'>>,
+    templateTokens: number
+  ): { lines: string[]; includedSubjects: string[]; omittedSubjects: OmittedSubject[] } {
+    let estimatedTokens = templateTokens;
+    const lines: string[] = [];
+    const includedSubjects: string[] = [];
+    const omittedSubjects: OmittedSubject[] = [];
+    subjects.forEach((subject, rank) => {
+      if (rank >= settings.topK) {
+        omittedSubjects.push({ id: subject.id, name: subject.name, reason: 'rank' });
+        return;
+      }
+      const line = JSON.stringify(this.project(subject, graph, settings.summaryLength));
+      // +1 for the newline joining subject lines
+      const cost = estimateTokens(line) + 1;
+      if (estimatedTokens + cost > settings.tokenBudget) {
+        omittedSubjects.push({ id: subject.id, name: subject.name, reason: 'budget' });
+        return;
+      }
+      estimatedTokens += cost;
+      lines.push(line);
+      includedSubjects.push(subject.id);
+    });
+    return { lines, includedSubjects, omittedSubjects };
+  }
+
+  // Only what the model needs to choose and order subjects; full syllabi stay local
+  private project(subject: Subject, graph: PrerequisiteGraph, summaryLength: number): CompactSubject {
+    return {
+      id: subject.id,
+      name: subject.name,
+      credits: subject.credits,
+      year: subject.year,
+      semester: subject.semester,
+      prerequisites: graph.getDirectPrerequisites(subject.id),
+      keywords: subject.keywords.slice(0, MAX_KEYWORDS).map(keyword => keyword.trim()),
+      summary: truncate(subject.description.replace(/\s+/g, ' ').trim(), summaryLength),
+    };
+  }
+
+  private renderTemplate(occupation: string, matched: string, subjectLines: string, language: Locale): string {
+    const taxonomyLine = matched
+      ? `\nIn the university's occupation taxonomy this goal is closest to: ${matched}. Weigh subjects accordingly.\n`
+      : '';
+    return `
+You are an expert educational advisor at Tokushima University. Your task is to create a personalized course roadmap for a student aiming to become a ${occupation}.
+${taxonomyLine}
+The subjects below were pre-selected as the most relevant for ${occupation}, one JSON object per line. "prerequisites" lists the ids of subjects that must be taken first, and "summary" is the start of the course description:
+
+${subjectLines}
+
+Requirements:
+- Select 8-12 most relevant subjects for the occupation
+- Use only the subject ids listed above
+- Organize by academic progression (year 1 → year 4)
+- Assign appropriate node types: 'foundation', 'core', 'specialized', 'elective'
+- Calculate x,y coordinates for visual layout (x: 100-700, y: 100-600)
+- Create logical connections between related subjects
+- Calculate total credits
+- Provide detailed reasoning for subject selection
+- Write "title", "description" and "reasoning" in ${LANGUAGE_NAMES[language]}; keep subject names exactly as they appear in the data
+
+IMPORTANT: Return ONLY a valid JSON object with this exact structure, no markdown formatting or additional text:
+
+{
+  "title": "Roadmap Title",
+  "description": "Brief description of the roadmap",
+  "occupation": "${occupation}",
+  "nodes": [
+    {
+      "id": "subject_id",
+      "name": "Subject Name",
+      "x": 200,
+      "y": 100,
+      "type": "foundation|core|specialized|elective",
+      "completed": false,
+      "connects": ["connected_subject_id"],
+      "credits": 2,
+      "year": 1,
+      "semester": 1,
+      "relevance_score": 0.95
+    }
+  ],
+  "total_credits": 24,
+  "reasoning": "Detailed explanation of why these subjects were selected and how they prepare for the target occupation"
+}
+
+Focus on subjects that directly contribute to the skills and knowledge needed for ${occupation}.
+`;
+  }
+
+  private renderRefineTemplate(
+    roadmap: GeneratedRoadmap,
+    roadmapLines: string,
+    candidateLines: string,
+    conversation: string,
+    instruction: string,
+    language: Locale
+  ): string {
+    return `
+You are an expert educational advisor at Tokushima University. A student who wants to work as a ${roadmap.occupation} is refining the course roadmap below with you.
+
+Current roadmap, one subject per line ("prerequisites" lists prerequisite subjects that are also in the roadmap):
+${roadmapLines}
+
+Current reasoning: ${roadmap.reasoning}
+
+Candidate subjects that could be added, one JSON object per line, most likely matches for the request first:
+${candidateLines}
+${conversation ? `\nConversation so far:\n${conversation}\n` : ''}
+Student's new message: ${instruction}
+
+Rules:
+- Answer questions (for example why a subject is included) in "reply" and leave the change lists empty
+- For change requests, explain the changes briefly in "reply"
+- "add" may only use candidate subject ids; "remove" and "move" may only use subject ids in the current roadmap
+- A subject can only move to the same term of a later year (its semester + 2, + 4, … up to 8), e.g. to retake a failed subject; set "year" to match
+- Keep prerequisites scheduled before the subjects that need them
+- Set "reasoning" to an updated explanation of the whole roadmap when subjects change, otherwise leave it out
+- Write "reply" and "reasoning" in ${LANGUAGE_NAMES[language]}; keep subject names exactly as they appear in the data
+
+IMPORTANT: Return ONLY a valid JSON object with this exact structure, no markdown formatting or additional text:
+
+{
+  "reply": "Answer to the student",
+  "add": [{ "id": "subject_id", "type": "foundation|core|specialized|elective" }],
+  "remove": ["subject_id"],
+  "move": [{ "id": "subject_id", "year": 3, "semester": 6 }],
+  "reasoning": "Updated explanation of the roadmap"
+}
+`;
+  }
+}
+
+export const promptBuilder = new PromptBuilder();
@@ -0,0 +1,47 @@
+/** @jest-environment node */
+import { FixtureProvider } from '../fixtureProvider';
+import { ProviderError } from '../types';
+
+describe('FixtureProvider', () => {
+  it('prefers entries that match the prompt over catch-all ones', async () => {
+    const provider = new FixtureProvider([{ text: 'any' }, { match: 'Power', text: 'power' }]);
+    expect((await provider.generate('become a power engineer')).text).toBe('power');
+    expect((await provider.generate('become a software engineer')).text).toBe('any');
+  });
+
+  it('replays each pool in the order of its own requests, repeating the last entry', async () => {
+    const provider = new FixtureProvider([
+      { text: 'first' },
+      { text: 'second' },
+      { match: 'retry', text: 'retry 1' },
+      { match: 'retry', text: 'retry 2' },
+    ]);
+    const texts: string[] = [];
+    for (const prompt of ['a', 'retry', 'b', 'retry', 'retry', 'c']) {
+      texts.push((await provider.generate(prompt)).text);
+    }
+    expect(texts).toEqual(['first', 'retry 1', 'second', 'retry 2', 'retry 2', 'second']);
+    expect(provider.callCount).toBe(6);
+  });
+
+  it('replays recorded errors and fails when nothing matches', async () => {
+    const provider = new FixtureProvider([{ match: 'limit', error: 'rate_limit' }, { match: 'ok', text: 'ok' }]);
+    await expect(provider.generate('limit')).rejects.toMatchObject({ kind: 'rate_limit' });
+    await expect(provider.generate('other')).rejects.toBeInstanceOf(ProviderError);
+  });
+
+  it('streams the text in chunks and reports usage', async () => {
+    const chunks: string[] = [];
+    const provider = new FixtureProvider(async () => [{ text: 'abcdefgh' }], { chunkSize: 3 });
+    const response = await provider.generate('prompt', { onText: chunk => chunks.push(chunk) });
+    expect(chunks).toEqual(['abc', 'def', 'gh']);
+    expect(response.usage).toEqual({ promptTokens: 2, responseTokens: 2 });
+  });
+
+  it('stops streaming when the request is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const provider = new FixtureProvider([{ text: 'abc' }]);
+    await expect(provider.generate('prompt', { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,77 @@
+import { ProviderError, ProviderErrorKind, ProviderRequestOptions, ProviderResponse, RoadmapProvider } from './types';
+
+export interface FixtureResponse {
+  // Used only when the prompt contains this text (case-insensitive); entries without it match any prompt
+  match?: string;
+  text?: string;
+  // Replays a failure instead of a response, e.g. to exercise retries and error messages
+  error?: ProviderErrorKind;
+}
+
+export interface FixtureProviderOptions {
+  // Characters per streamed chunk
+  chunkSize?: number;
+  // Delay between chunks, so progressive rendering can be seen
+  chunkDelayMs?: number;
+}
+
+const abortError = (): Error => {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Deterministic provider that replays recorded responses; needs no network or API key
+export class FixtureProvider implements RoadmapProvider {
+  readonly name = 'fixture';
+  readonly model = 'fixture';
+  private calls = 0;
+  // Requests answered from each pool of entries, keyed by the entries' positions
+  private poolCalls = new Map<string, number>();
+
+  constructor(
+    private responses: FixtureResponse[] | (() => Promise<FixtureResponse[]>),
+    private options: FixtureProviderOptions = {}
+  ) {}
+
+  // How many requests have been answered, e.g. to check retry behaviour
+  get callCount(): number {
+    return this.calls;
+  }
+
+  async generate(prompt: string, options: ProviderRequestOptions = {}): Promise<ProviderResponse> {
+    const responses = typeof this.responses === 'function' ? await this.responses() : this.responses;
+    this.responses = responses;
+    this.calls += 1;
+
+    // Entries matching the prompt win over catch-all ones; each pool is replayed in the
+    // order of its own requests, the last entry repeating
+    const lowerPrompt = prompt.toLowerCase();
+    const matched = responses.filter(response => response.match && lowerPrompt.includes(response.match.toLowerCase()));
+    const pool = matched.length > 0 ? matched : responses.filter(response => !response.match);
+    if (pool.length === 0) {
+      throw new ProviderError('unavailable', 'No recorded response matches this prompt');
+    }
+    const key = pool.map(response => responses.indexOf(response)).join(',');
+    const served = this.poolCalls.get(key) || 0;
+    this.poolCalls.set(key, served + 1);
+    const fixture = pool[Math.min(served, pool.length - 1)];
+    if (fixture.error) {
+      throw new ProviderError(fixture.error, `Recorded ${fixture.error} error`);
+    }
+
+    const text = fixture.text || '';
+    const { chunkSize = 80, chunkDelayMs = 0 } = this.options;
+    for (let i = 0; i < text.length; i += chunkSize) {
+      if (options.signal?.aborted) throw abortError();
+      if (chunkDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+      }
+      options.onText?.(text.slice(i, i + chunkSize));
+    }
+    return {
+      text,
+      usage: { promptTokens: Math.ceil(prompt.length / 4), responseTokens: Math.ceil(text.length / 4) },
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  GenerativeModel,
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+import { errorKindForStatus, ProviderError, ProviderRequestOptions, ProviderResponse, RoadmapProvider } from './types';
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  model: string;
+  temperature?: number;
+}
+
+export class GeminiProvider implements RoadmapProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private client: GenerativeModel;
+
+  constructor(options: GeminiProviderOptions) {
+    this.model = options.model;
+    this.client = new GoogleGenerativeAI(options.apiKey).getGenerativeModel({
+      model: options.model,
+      generationConfig: options.temperature !== undefined ? { temperature: options.temperature } : undefined,
+    });
+  }
+
+  async generate(prompt: string, options: ProviderRequestOptions = {}): Promise<ProviderResponse> {
+    try {
+      const result = await this.client.generateContentStream(prompt, { signal: options.signal });
+      let text = '';
+      for await (const chunk of result.stream) {
+        const piece = chunk.text();
+        text += piece;
+        options.onText?.(piece);
+      }
+      const response = await result.response;
+      return {
+        text,
+        usage: response.usageMetadata && {
+          promptTokens: response.usageMetadata.promptTokenCount,
+          responseTokens: response.usageMetadata.candidatesTokenCount,
+        },
+      };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  private toProviderError(error: unknown): unknown {
+    if (error instanceof GoogleGenerativeAIFetchError) {
+      // An invalid key is reported as 400 rather than 401
+      const kind = error.status === 400 && /api key/i.test(error.message)
+        ? 'auth'
+        : errorKindForStatus(error.status ?? 0);
+      return new ProviderError(kind, error.message, { cause: error });
+    }
+    if (error instanceof GoogleGenerativeAIResponseError) {
+      // chunk.text() throws this when the prompt or the candidate was blocked
+      const kind = /block|safety/i.test(error.message) ? 'safety' : 'malformed_output';
+      return new ProviderError(kind, error.message, { cause: error });
+    }
+    // Aborts are passed through so the caller can tell cancellation from failure
+    return error;
+  }
+}
@@ -0,0 +1,77 @@
+import { readFile } from 'fs/promises';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { FixtureProvider, FixtureResponse } from './fixtureProvider';
+import { RoadmapProvider } from './types';
+
+export * from './types';
+export { GeminiProvider } from './geminiProvider';
+export { OpenAICompatibleProvider } from './openAICompatibleProvider';
+export { FixtureProvider } from './fixtureProvider';
+export type { FixtureResponse } from './fixtureProvider';
+
+// Server-only: the browser talks to /api/roadmap and imports nothing but ./types
+
+export type ProviderName = 'gemini' | 'openai' | 'fixture';
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  model: string;
+  temperature?: number;
+  apiKey: string;
+  // OpenAI-compatible servers only
+  baseUrl: string;
+  // Fixture provider only: JSON file of recorded responses
+  fixturePath: string;
+  // Per attempt; a timed-out attempt is retried according to its retry policy
+  timeoutMs: number;
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: 'gemini-1.5-flash',
+  openai: 'gpt-4o-mini',
+  fixture: 'fixture',
+};
+
+const PROVIDER_NAMES = Object.keys(DEFAULT_MODELS) as ProviderName[];
+
+// Reads LLM_* settings; without any, Gemini is used. These are deliberately not REACT_APP_*
+// variables, which create-react-app would inline into the public bundle
+export const loadProviderConfig = (env: Record<string, string | undefined> = process.env): ProviderConfig => {
+  const provider = PROVIDER_NAMES.includes(env.LLM_PROVIDER as ProviderName)
+    ? (env.LLM_PROVIDER as ProviderName)
+    : 'gemini';
+  const temperature = Number(env.LLM_TEMPERATURE);
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    temperature: env.LLM_TEMPERATURE && Number.isFinite(temperature) ? temperature : undefined,
+    apiKey: (provider === 'openai' ? env.OPENAI_API_KEY : env.GEMINI_API_KEY) || '',
+    baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    fixturePath: env.LLM_FIXTURE_PATH || 'public/fixtures/roadmap-responses.json',
+    timeoutMs: Number(env.LLM_TIMEOUT_MS) || 60000,
+  };
+};
+
+// Gemini needs a key; OpenAI-compatible local servers often don't
+export const isProviderConfigured = (config: ProviderConfig): boolean =>
+  config.provider !== 'gemini' || config.apiKey !== '';
+
+export const createProvider = (config: ProviderConfig): RoadmapProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        apiKey: config.apiKey,
+        temperature: config.temperature,
+      });
+    case 'fixture':
+      return new FixtureProvider(
+        async () => JSON.parse(await readFile(config.fixturePath, 'utf8')) as FixtureResponse[],
+        { chunkDelayMs: 20 }
+      );
+    default:
+      return new GeminiProvider({ apiKey: config.apiKey, model: config.model, temperature: config.temperature });
+  }
+};
@@ -0,0 +1,106 @@
+import {
+  errorKindForStatus,
+  ProviderError,
+  ProviderRequestOptions,
+  ProviderResponse,
+  RoadmapProvider,
+  TokenUsage,
+} from './types';
+
+export interface OpenAICompatibleProviderOptions {
+  // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for a local server
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+// Talks to any server implementing the streaming /chat/completions endpoint
+export class OpenAICompatibleProvider implements RoadmapProvider {
+  readonly name = 'openai';
+  readonly model: string;
+
+  constructor(private options: OpenAICompatibleProviderOptions) {
+    this.model = options.model;
+  }
+
+  async generate(prompt: string, options: ProviderRequestOptions = {}): Promise<ProviderResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: this.options.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new ProviderError(
+        errorKindForStatus(response.status),
+        `${response.status} ${response.statusText}: ${(await response.text()).slice(0, 200)}`,
+        { retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined }
+      );
+    }
+    if (!response.body) {
+      throw new ProviderError('unavailable', 'Response has no body');
+    }
+
+    let text = '';
+    let usage: TokenUsage | undefined;
+    await this.readEvents(response.body, chunk => {
+      const choice = chunk.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new ProviderError('safety', 'The response was blocked by the content filter');
+      }
+      const piece = choice?.delta?.content;
+      if (piece) {
+        text += piece;
+        options.onText?.(piece);
+      }
+      if (chunk.usage) {
+        usage = { promptTokens: chunk.usage.prompt_tokens, responseTokens: chunk.usage.completion_tokens };
+      }
+    });
+    return { text, usage };
+  }
+
+  // Parses server-sent events of the form "data: {...}" terminated by "data: [DONE]"
+  private async readEvents(body: ReadableStream<Uint8Array>, onChunk: (chunk: ChatCompletionChunk) => void) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+        let chunk: ChatCompletionChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch (error) {
+          throw new ProviderError('malformed_output', 'Could not parse a streamed response event', { cause: error });
+        }
+        onChunk(chunk);
+      }
+    }
+  }
+}
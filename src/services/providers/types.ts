@@ -0,0 +1,76 @@
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface ProviderRequestOptions {
+  signal?: AbortSignal;
+  // Receives the response text piece by piece as it streams in
+  onText?: (chunk: string) => void;
+}
+
+export interface ProviderResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
+// A text-completion backend; prompt building, parsing and validation stay in the roadmap service
+export interface RoadmapProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(prompt: string, options?: ProviderRequestOptions): Promise<ProviderResponse>;
+}
+
+export type ProviderErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'timeout'
+  | 'malformed_output'
+  | 'safety'
+  | 'unavailable'
+  // Rejected by the roadmap endpoint before reaching a provider, e.g. an over-long occupation
+  | 'invalid_request';
+
+export interface RetryPolicy {
+  // Extra attempts after the first failure
+  retries: number;
+  // Doubled on each retry unless the server says how long to wait
+  baseDelayMs: number;
+}
+
+export const RETRY_POLICIES: Record<ProviderErrorKind, RetryPolicy> = {
+  auth: { retries: 0, baseDelayMs: 0 },
+  safety: { retries: 0, baseDelayMs: 0 },
+  invalid_request: { retries: 0, baseDelayMs: 0 },
+  rate_limit: { retries: 3, baseDelayMs: 2000 },
+  timeout: { retries: 1, baseDelayMs: 500 },
+  unavailable: { retries: 2, baseDelayMs: 1000 },
+  // Retried immediately with a corrective prompt instead of the same request
+  malformed_output: { retries: 2, baseDelayMs: 0 },
+};
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly cause?: unknown;
+  // Server-provided wait before retrying, e.g. from a Retry-After header
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ProviderErrorKind, message: string, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+    super(message);
+    // Keeps instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.cause = options.cause;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// Maps an HTTP status from any provider to an error kind
+export const errorKindForStatus = (status: number): ProviderErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 400 || status === 413) return 'invalid_request';
+  return 'unavailable';
+};
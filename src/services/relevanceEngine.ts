@@ -0,0 +1,248 @@
+import { Subject } from './geminiService';
+import { normalizeLabel } from './prerequisiteGraph';
+import { Occupation, occupationTaxonomy } from './occupationTaxonomy';
+import { ProviderError, RoadmapProvider } from './providers/types';
+
+// Batch recomputation of career_relevance scores: a keyword scorer that runs locally, and an
+// optional LLM scorer. Used by scripts/recompute-relevance.ts
+
+export interface RelevanceScore {
+  score: number;
+  reason: string;
+}
+
+export interface RelevanceScorer {
+  readonly name: string;
+  // One score per subject, in input order; catalogs can contain duplicate ids
+  score(subjects: Subject[], occupation: Occupation): Promise<RelevanceScore[]>;
+}
+
+export interface RecomputeOptions {
+  // Taxonomy ids to score; defaults to every known occupation
+  occupations?: string[];
+  // 'missing' only fills absent scores; 'all' also recomputes existing, unpinned ones
+  mode?: 'missing' | 'all';
+}
+
+export interface RelevanceChange {
+  subjectId: string;
+  name: string;
+  occupation: string;
+  // undefined when the subject had no score for the occupation
+  before?: number;
+  after: number;
+  reason: string;
+}
+
+export interface RecomputeResult {
+  // Copies of the input subjects, in input order, with the new scores and reasons
+  subjects: Subject[];
+  changes: RelevanceChange[];
+  // Scores left alone because they are listed in career_relevance_pinned
+  pinned: number;
+  // Scores recomputed to the same value
+  unchanged: number;
+}
+
+// Fraction of the score that any subject in the department gets regardless of topic overlap
+const KEYWORD_FLOOR = 0.3;
+// Weighted keyword hits at which a subject counts as fully relevant
+const KEYWORD_SATURATION = 2.5;
+const LLM_BATCH_SIZE = 15;
+const LLM_SUMMARY_LENGTH = 120;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const join = (...values: (string | string[] | undefined)[]) =>
+  normalizeLabel(values.flat().filter((value): value is string => typeof value === 'string').join(' '));
+
+// Topic keywords found in a subject's name and keywords count fully; ones found only in its
+// outcomes, description or weekly topics count half
+export class KeywordRelevanceScorer implements RelevanceScorer {
+  readonly name = 'keywords';
+
+  async score(subjects: Subject[], occupation: Occupation): Promise<RelevanceScore[]> {
+    return subjects.map(subject => this.scoreSubject(subject, occupation));
+  }
+
+  scoreSubject(subject: Subject, occupation: Occupation): RelevanceScore {
+    const strong = join(subject.name, subject.name_en, subject.keywords, subject.keywords_en);
+    const weak = join(
+      subject.learning_outcomes,
+      subject.learning_outcomes_en,
+      subject.description,
+      subject.description_en,
+      subject.syllabus
+    );
+    const strongHits: string[] = [];
+    const weakHits: string[] = [];
+    occupation.keywords.forEach(keyword => {
+      const normalized = normalizeLabel(keyword);
+      if (strong.includes(normalized)) strongHits.push(keyword);
+      else if (weak.includes(normalized)) weakHits.push(keyword);
+    });
+
+    const coverage = Math.min(1, (strongHits.length + weakHits.length * 0.5) / KEYWORD_SATURATION);
+    const parts = [
+      strongHits.length > 0 && `name/keywords match ${strongHits.join(', ')}`,
+      weakHits.length > 0 && `outcomes/description mention ${weakHits.join(', ')}`,
+    ].filter(Boolean);
+    return {
+      score: round(KEYWORD_FLOOR + (1 - KEYWORD_FLOOR) * coverage),
+      reason: parts.length > 0
+        ? `${occupation.name.en}: ${parts.join('; ')}`
+        : `${occupation.name.en}: no topic keywords found`,
+    };
+  }
+}
+
+// Asks the model to rate subjects in batches. Entries it leaves out or gets wrong are scored
+// by the fallback scorer, and the reason says so
+export class LlmRelevanceScorer implements RelevanceScorer {
+  readonly name: string;
+
+  constructor(
+    private provider: RoadmapProvider,
+    private fallback: KeywordRelevanceScorer = new KeywordRelevanceScorer(),
+    private batchSize: number = LLM_BATCH_SIZE
+  ) {
+    this.name = `${provider.name}/${provider.model}`;
+  }
+
+  async score(subjects: Subject[], occupation: Occupation): Promise<RelevanceScore[]> {
+    const scores: RelevanceScore[] = [];
+    for (let start = 0; start < subjects.length; start += this.batchSize) {
+      const batch = subjects.slice(start, start + this.batchSize);
+      const response = await this.provider.generate(this.buildPrompt(batch, occupation));
+      const parsed = this.parse(response.text);
+      batch.forEach((subject, ref) => {
+        const entry = parsed.get(ref);
+        if (entry) {
+          scores.push(entry);
+        } else {
+          const local = this.fallback.scoreSubject(subject, occupation);
+          scores.push({ ...local, reason: `${local.reason} (keyword fallback)` });
+        }
+      });
+    }
+    return scores;
+  }
+
+  private buildPrompt(subjects: Subject[], occupation: Occupation): string {
+    // Subjects are numbered rather than identified by id, which isn't unique in every catalog
+    const lines = subjects.map((subject, ref) => JSON.stringify({
+      ref,
+      name: subject.name_en || subject.name,
+      year: subject.year,
+      keywords: subject.keywords_en || subject.keywords,
+      outcomes: (subject.learning_outcomes_en || subject.learning_outcomes).join(' ').slice(0, LLM_SUMMARY_LENGTH),
+    }));
+    return `
+Rate how relevant each Tokushima University subject below is to a student who wants to become a ${occupation.name.en} (${occupation.name.ja}).
+Typical topics for this occupation: ${occupation.keywords.join(', ')}.
+
+Subjects, one JSON object per line:
+${lines.join('\n')}
+
+Use a score from 0 to 1, where 1 means essential and 0 means unrelated, and a one-sentence reason in English.
+Return ONLY a JSON object of this shape, no markdown:
+{"scores": [{"ref": 0, "score": 0.8, "reason": "..."}]}
+`;
+  }
+
+  private parse(text: string): Map<number, RelevanceScore> {
+    const match = text.match(/\{[\s\S]*\}/);
+    let data: unknown;
+    try {
+      data = JSON.parse(match ? match[0] : text);
+    } catch (error) {
+      throw new ProviderError('malformed_output', 'Relevance response is not valid JSON', { cause: error });
+    }
+    const entries = (data as { scores?: unknown }).scores;
+    if (!Array.isArray(entries)) {
+      throw new ProviderError('malformed_output', 'Relevance response has no "scores" array');
+    }
+    const scores = new Map<number, RelevanceScore>();
+    entries.forEach(entry => {
+      const { ref, score, reason } = (entry || {}) as Record<string, unknown>;
+      if (typeof ref !== 'number' || typeof score !== 'number' || score < 0 || score > 1) return;
+      scores.set(ref, { score: round(score), reason: typeof reason === 'string' ? reason : '' });
+    });
+    return scores;
+  }
+}
+
+export class RelevanceEngine {
+  constructor(private scorer: RelevanceScorer = new KeywordRelevanceScorer()) {}
+
+  async recompute(subjects: Subject[], options: RecomputeOptions = {}): Promise<RecomputeResult> {
+    const mode = options.mode || 'missing';
+    const occupationIds = options.occupations || occupationTaxonomy.all().map(occupation => occupation.id);
+    const updated = subjects.map(subject => ({
+      ...subject,
+      career_relevance: { ...subject.career_relevance },
+      career_relevance_reason: { ...subject.career_relevance_reason },
+    }));
+    const changes: RelevanceChange[] = [];
+    const counts = { pinned: 0, unchanged: 0 };
+
+    for (const id of occupationIds) {
+      const occupation = occupationTaxonomy.get(id);
+      if (!occupation) throw new Error(`Unknown occupation "${id}"`);
+
+      const targets = updated.filter(subject => {
+        if (subject.career_relevance_pinned?.includes(id)) {
+          counts.pinned += 1;
+          return false;
+        }
+        return mode === 'all' || subject.career_relevance[id] === undefined;
+      });
+      if (targets.length === 0) continue;
+
+      const scores = await this.scorer.score(targets, occupation);
+      targets.forEach((subject, index) => {
+        const result = scores[index];
+        const before = subject.career_relevance[id];
+        subject.career_relevance[id] = result.score;
+        subject.career_relevance_reason[id] = result.reason;
+        if (before === result.score) {
+          counts.unchanged += 1;
+          return;
+        }
+        changes.push({ subjectId: subject.id, name: subject.name, occupation: id, before, after: result.score, reason: result.reason });
+      });
+    }
+
+    // Empty maps are dropped so untouched subjects serialize as before
+    updated.forEach(subject => {
+      if (Object.keys(subject.career_relevance).length === 0) delete (subject as Subject).career_relevance;
+      if (Object.keys(subject.career_relevance_reason).length === 0) delete (subject as Subject).career_relevance_reason;
+    });
+    return { subjects: updated, changes, ...counts };
+  }
+}
+
+export const relevanceEngine = new RelevanceEngine();
+
+const formatScore = (score: number | undefined) => (score === undefined ? '—' : score.toFixed(2));
+
+// Markdown diff of changed scores, grouped by occupation
+export const formatRelevanceReport = (result: RecomputeResult, scorer: string): string => {
+  const lines = [
+    '# Career relevance update',
+    '',
+    `Scorer: ${scorer}. ${result.changes.length} scores changed, ${result.unchanged} unchanged, ${result.pinned} pinned and skipped.`,
+  ];
+  const byOccupation = new Map<string, RelevanceChange[]>();
+  result.changes.forEach(change => byOccupation.set(change.occupation, [...(byOccupation.get(change.occupation) || []), change]));
+  byOccupation.forEach((changes, occupation) => {
+    lines.push('', `## ${occupationTaxonomy.displayName(occupation, 'en')} (\`${occupation}\`)`, '');
+    lines.push('| Subject | Before | After | Reason |', '| --- | --- | --- | --- |');
+    changes
+      .sort((a, b) => Math.abs(b.after - (b.before ?? 0)) - Math.abs(a.after - (a.before ?? 0)))
+      .forEach(change => lines.push(
+        `| ${change.name} (${change.subjectId}) | ${formatScore(change.before)} | ${formatScore(change.after)} | ${change.reason.replace(/\|/g, '\\|')} |`
+      ));
+  });
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,172 @@
+import { GeneratedRoadmap } from './geminiService';
+import { CompletedSubject } from './profileStore';
+
+// Request and response shapes shared by the browser client and the /api/reviews endpoint,
+// where students submit roadmaps and advisors annotate and approve them
+
+export const REVIEWS_API_PATH = '/api/reviews';
+
+export type ReviewRole = 'student' | 'advisor';
+
+export type ReviewStatus = 'draft' | 'submitted' | 'changes_requested' | 'approved';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['draft', 'submitted', 'changes_requested', 'approved'];
+
+export interface ReviewUser {
+  id: string;
+  name: string;
+  role: ReviewRole;
+}
+
+// One submitted state of the student's plan; revisions are never changed once added
+export interface ReviewRevision {
+  // 1 for the first revision
+  number: number;
+  roadmap: GeneratedRoadmap;
+  completedSubjects: Record<string, CompletedSubject>;
+  // Catalog the roadmap was built from
+  admissionYear?: number;
+  // The student's description of what changed
+  note?: string;
+  createdAt: string;
+}
+
+// An advisor's comment on one node of a revision, optionally suggesting another subject instead
+export interface NodeAnnotation {
+  id: string;
+  revision: number;
+  nodeId: string;
+  comment: string;
+  substituteId?: string;
+  author: ReviewUser;
+  createdAt: string;
+}
+
+export type ReviewEventType = 'created' | 'revised' | 'status' | 'annotated' | 'commented';
+
+// Entry of the review's history, shown to both sides
+export interface ReviewEvent {
+  type: ReviewEventType;
+  by: ReviewUser;
+  at: string;
+  // Latest revision when the event happened
+  revision: number;
+  // New status of 'created' and 'status' events
+  status?: ReviewStatus;
+  comment?: string;
+  nodeId?: string;
+}
+
+export interface RoadmapReview {
+  id: string;
+  title: string;
+  student: ReviewUser;
+  status: ReviewStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Oldest first
+  revisions: ReviewRevision[];
+  annotations: NodeAnnotation[];
+  // Oldest first
+  history: ReviewEvent[];
+}
+
+// Entry of the GET /api/reviews list
+export interface ReviewSummary {
+  id: string;
+  title: string;
+  student: ReviewUser;
+  status: ReviewStatus;
+  updatedAt: string;
+  revisions: number;
+  annotations: number;
+}
+
+// GET /api/reviews response; the signed-in user tells the client which role it has
+export interface ReviewListResponse {
+  user: ReviewUser;
+  reviews: ReviewSummary[];
+}
+
+// GET /api/reviews?id=… and every successful POST answer with the whole review
+export interface ReviewResponse {
+  review: RoadmapReview;
+}
+
+// POST /api/reviews body; students only. submit sends it for review right away
+export interface CreateReviewRequest {
+  title: string;
+  roadmap: GeneratedRoadmap;
+  completedSubjects: Record<string, CompletedSubject>;
+  admissionYear?: number;
+  note?: string;
+  submit?: boolean;
+}
+
+// POST /api/reviews?id=… body
+export type ReviewAction =
+  // Students: a new revision, while the review is a draft or changes were requested
+  | ({ type: 'revise' } & Omit<CreateReviewRequest, 'title'>)
+  // Advisors: while the review is submitted
+  | { type: 'annotate'; nodeId: string; comment: string; substituteId?: string }
+  // Either side, following REVIEW_TRANSITIONS
+  | { type: 'status'; status: ReviewStatus; comment?: string }
+  // Either side, at any time
+  | { type: 'comment'; comment: string };
+
+// unauthorized: no or an unknown token; forbidden: the role may not do this; conflict: not in the
+// review's current status; unavailable: reviews are not set up on the server or it failed
+export type ReviewErrorKind = 'invalid_request' | 'unauthorized' | 'forbidden' | 'not_found' | 'conflict' | 'unavailable';
+
+export interface ReviewErrorBody {
+  kind: ReviewErrorKind;
+  message: string;
+}
+
+export class ReviewError extends Error {
+  readonly kind: ReviewErrorKind;
+
+  constructor(kind: ReviewErrorKind, message: string) {
+    super(message);
+    // Keeps instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ReviewError';
+    this.kind = kind;
+  }
+}
+
+// Status changes each role may make: students submit and withdraw, advisors decide
+export const REVIEW_TRANSITIONS: Record<ReviewRole, Partial<Record<ReviewStatus, ReviewStatus[]>>> = {
+  student: {
+    draft: ['submitted'],
+    submitted: ['draft'],
+    changes_requested: ['submitted'],
+  },
+  advisor: {
+    submitted: ['changes_requested', 'approved'],
+    approved: ['changes_requested'],
+  },
+};
+
+export const allowedTransitions = (role: ReviewRole, status: ReviewStatus): ReviewStatus[] =>
+  REVIEW_TRANSITIONS[role][status] || [];
+
+// Students revise while the plan is theirs to change; advisors annotate while it is with them
+export const canRevise = (role: ReviewRole, status: ReviewStatus): boolean =>
+  role === 'student' && (status === 'draft' || status === 'changes_requested');
+
+export const canAnnotate = (role: ReviewRole, status: ReviewStatus): boolean =>
+  role === 'advisor' && status === 'submitted';
+
+export const latestRevision = (review: RoadmapReview): ReviewRevision =>
+  review.revisions[review.revisions.length - 1];
+
+export const summarizeReview = (review: RoadmapReview): ReviewSummary => ({
+  id: review.id,
+  title: review.title,
+  student: review.student,
+  status: review.status,
+  updatedAt: review.updatedAt,
+  revisions: review.revisions.length,
+  annotations: review.annotations.length,
+});
@@ -0,0 +1,100 @@
+import { createDefaultStorage, StorageAdapter } from './profileStore';
+import {
+  CreateReviewRequest,
+  REVIEWS_API_PATH,
+  ReviewAction,
+  ReviewError,
+  ReviewErrorBody,
+  ReviewListResponse,
+  ReviewResponse,
+  RoadmapReview,
+} from './reviewApi';
+
+export const REVIEW_TOKEN_STORAGE_KEY = 'tokushima-roadmap:review-token';
+
+const kindForStatus = (status: number): ReviewErrorBody['kind'] => {
+  switch (status) {
+    case 400:
+      return 'invalid_request';
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 409:
+      return 'conflict';
+    default:
+      return 'unavailable';
+  }
+};
+
+// Browser client for /api/reviews. The review token is kept in storage so the student or
+// advisor stays signed in across visits
+export class ReviewService {
+  constructor(private storage: StorageAdapter, private endpoint: string = REVIEWS_API_PATH) {}
+
+  getToken(): string | null {
+    return this.storage.getItem(REVIEW_TOKEN_STORAGE_KEY);
+  }
+
+  setToken(token: string | null) {
+    if (token) {
+      this.storage.setItem(REVIEW_TOKEN_STORAGE_KEY, token);
+    } else {
+      this.storage.removeItem(REVIEW_TOKEN_STORAGE_KEY);
+    }
+  }
+
+  // Also tells who the token belongs to, so it doubles as the sign-in check
+  list(): Promise<ReviewListResponse> {
+    return this.request<ReviewListResponse>('GET');
+  }
+
+  async get(id: string): Promise<RoadmapReview> {
+    return (await this.request<ReviewResponse>('GET', id)).review;
+  }
+
+  async create(request: CreateReviewRequest): Promise<RoadmapReview> {
+    return (await this.request<ReviewResponse>('POST', undefined, request)).review;
+  }
+
+  async act(id: string, action: ReviewAction): Promise<RoadmapReview> {
+    return (await this.request<ReviewResponse>('POST', id, action)).review;
+  }
+
+  private async request<T>(method: 'GET' | 'POST', id?: string, body?: unknown): Promise<T> {
+    const token = this.getToken();
+    if (!token) throw new ReviewError('unauthorized', 'Sign in with a review token first');
+    const url = id ? `${this.endpoint}?id=${encodeURIComponent(id)}` : this.endpoint;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new ReviewError('unavailable', 'Could not reach the review server');
+    }
+
+    let data: { error?: ReviewErrorBody } & Partial<T> = {};
+    try {
+      data = await response.json();
+    } catch (error) {
+      // Not one of our responses, e.g. a proxy error page
+    }
+    if (!response.ok) {
+      throw new ReviewError(
+        data.error?.kind || kindForStatus(response.status),
+        data.error?.message || `${response.status} ${response.statusText}`
+      );
+    }
+    return data as T;
+  }
+}
+
+export const reviewService = new ReviewService(createDefaultStorage());
@@ -0,0 +1,76 @@
+import { GeneratedRoadmap } from './geminiService';
+import { PromptBuilderOptions, RoadmapPromptStats } from './promptBuilder';
+import { OccupationWeights } from './occupationTaxonomy';
+import { RoadmapPatch } from './roadmapPatch';
+import { ProviderErrorKind } from './providers/types';
+import { Locale } from '../i18n';
+
+// Request and response shapes shared by the browser client and the /api/roadmap and
+// /api/refine endpoints
+
+export const ROADMAP_API_PATH = '/api/roadmap';
+export const REFINE_API_PATH = '/api/refine';
+
+export interface RoadmapRequestOptions {
+  // Extra attempts with a corrective prompt when the response fails validation
+  maxRetries?: number;
+  // Language for the roadmap's title, description and reasoning
+  language?: Locale;
+  // Taxonomy occupations the free-text occupation resolved to; the server resolves it when omitted
+  occupationIds?: OccupationWeights;
+  // Catalog to build the roadmap from; the manifest's default when omitted
+  admissionYear?: number;
+  // Candidate count and token budget for the subject list sent to the model
+  prompt?: Omit<PromptBuilderOptions, 'language' | 'occupationIds'>;
+}
+
+// POST body
+export interface RoadmapRequest {
+  occupation: string;
+  options?: RoadmapRequestOptions;
+  // Skips the server's roadmap cache; the new result replaces the cached one
+  refresh?: boolean;
+}
+
+// GET response; the key itself never leaves the server
+export interface RoadmapServiceStatus {
+  configured: boolean;
+  provider: string;
+  model: string;
+}
+
+export interface RoadmapErrorBody {
+  kind: ProviderErrorKind;
+  message: string;
+}
+
+// A successful POST streams one JSON event per line; 'result' or 'error' is always last
+export type RoadmapStreamEvent =
+  | { type: 'progress'; roadmap: GeneratedRoadmap }
+  | { type: 'stats'; stats: RoadmapPromptStats }
+  // generatedAt is epoch milliseconds; cached is true when the server answered from its cache
+  | { type: 'result'; roadmap: GeneratedRoadmap; generatedAt: number; cached: boolean }
+  | { type: 'error'; error: RoadmapErrorBody };
+
+export interface RoadmapChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// POST body for /api/refine
+export interface RefineRequest {
+  roadmap: GeneratedRoadmap;
+  // Earlier turns of the conversation, oldest first
+  history: RoadmapChatMessage[];
+  instruction: string;
+  // Language for the reply and the updated reasoning
+  language?: Locale;
+  occupationIds?: OccupationWeights;
+  // Catalog the roadmap was built from
+  admissionYear?: number;
+}
+
+// Successful /api/refine response; errors use { error: RoadmapErrorBody } as for /api/roadmap
+export interface RefineResponse {
+  patch: RoadmapPatch;
+}
@@ -0,0 +1,195 @@
+import { GeneratedRoadmap } from './geminiService';
+import { RoadmapRequestOptions } from './roadmapApi';
+import { normalizeText } from './subjectSearch';
+
+export const ROADMAP_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface RoadmapCacheEntry {
+  key: string;
+  roadmap: GeneratedRoadmap;
+  // Epoch milliseconds
+  generatedAt: number;
+  expiresAt: number;
+  catalogHash: string;
+  // Missing on entries cached before there was a catalog per admission year
+  admissionYear?: number;
+}
+
+// The catalog a roadmap was built from: which admission year's, and which revision of it
+export interface CatalogStamp {
+  admissionYear: number;
+  hash: string;
+}
+
+export interface RoadmapCacheKeyInput {
+  occupation: string;
+  options: RoadmapRequestOptions;
+  provider: string;
+  model: string;
+  catalogHash: string;
+}
+
+// Persistence behind the in-memory layer: IndexedDB in the browser, a JSON file on the server
+export interface CacheStore {
+  get(key: string): Promise<RoadmapCacheEntry | undefined>;
+  set(entry: RoadmapCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<RoadmapCacheEntry[]>;
+}
+
+// cyrb53: a fast 53-bit string hash, identical in the browser and on the server
+export const contentHash = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// Parsed catalog data is re-serialized so formatting differences don't change the hash
+export const catalogHashOf = (data: unknown): string => contentHash(JSON.stringify(data));
+
+// Object keys sorted at every level, so option order doesn't change the key
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const normalizeOccupation = (occupation: string): string =>
+  normalizeText(occupation).trim().replace(/\s+/g, ' ');
+
+export const roadmapCacheKey = ({ occupation, options, provider, model, catalogHash }: RoadmapCacheKeyInput): string =>
+  [catalogHash, `${provider}/${model}`, contentHash(stableStringify(options)), normalizeOccupation(occupation)].join(':');
+
+const IDB_NAME = 'tokushima-roadmap';
+const IDB_STORE = 'roadmaps';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDBCacheStore implements CacheStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(IDB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IDB_STORE, { keyPath: 'key' });
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+  }
+
+  async get(key: string) {
+    return promisify<RoadmapCacheEntry | undefined>((await this.objectStore('readonly')).get(key));
+  }
+
+  async set(entry: RoadmapCacheEntry) {
+    await promisify((await this.objectStore('readwrite')).put(entry));
+  }
+
+  async delete(key: string) {
+    await promisify((await this.objectStore('readwrite')).delete(key));
+  }
+
+  async entries() {
+    return promisify<RoadmapCacheEntry[]>((await this.objectStore('readonly')).getAll());
+  }
+}
+
+// IndexedDB can be missing or blocked (private browsing); the memory layer still works then
+export const createBrowserCacheStore = (): CacheStore | null =>
+  typeof indexedDB !== 'undefined' ? new IndexedDBCacheStore() : null;
+
+// Two-level cache: a memory map in front of an optional persistent store. Persistence
+// failures are logged and otherwise ignored, since a cache miss only costs a regeneration
+export class RoadmapCache {
+  private memory = new Map<string, RoadmapCacheEntry>();
+  // Catalog hash last checked for each admission year
+  private checkedCatalogs = new Map<number, string>();
+
+  constructor(
+    private store: CacheStore | null,
+    private ttlMs: number = ROADMAP_CACHE_TTL_MS,
+    private now: () => number = Date.now
+  ) {}
+
+  async get(key: string): Promise<RoadmapCacheEntry | undefined> {
+    let entry = this.memory.get(key);
+    if (!entry && this.store) {
+      entry = await this.store.get(key).catch(error => {
+        console.warn('Roadmap cache read failed:', error);
+        return undefined;
+      });
+      if (entry) this.memory.set(key, entry);
+    }
+    if (entry && entry.expiresAt <= this.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(key: string, roadmap: GeneratedRoadmap, catalog: CatalogStamp, generatedAt: number = this.now()) {
+    const entry: RoadmapCacheEntry = {
+      key,
+      roadmap,
+      generatedAt,
+      expiresAt: generatedAt + this.ttlMs,
+      catalogHash: catalog.hash,
+      admissionYear: catalog.admissionYear,
+    };
+    this.memory.set(key, entry);
+    await this.store?.set(entry).catch(error => console.warn('Roadmap cache write failed:', error));
+    return entry;
+  }
+
+  async delete(key: string) {
+    this.memory.delete(key);
+    await this.store?.delete(key).catch(error => console.warn('Roadmap cache delete failed:', error));
+  }
+
+  // Drops roadmaps built from an older revision of this admission year's catalog, and expired
+  // ones while at it. Other admission years' roadmaps are kept. Only scans once per revision
+  async invalidateCatalog(catalog: CatalogStamp): Promise<number> {
+    if (this.checkedCatalogs.get(catalog.admissionYear) === catalog.hash) return 0;
+    this.checkedCatalogs.set(catalog.admissionYear, catalog.hash);
+
+    const entries = new Map<string, RoadmapCacheEntry>(this.memory);
+    if (this.store) {
+      const stored = await this.store.entries().catch(error => {
+        console.warn('Roadmap cache scan failed:', error);
+        return [];
+      });
+      stored.forEach(entry => entries.set(entry.key, entry));
+    }
+    const stale = Array.from(entries.values())
+      .filter(entry => entry.expiresAt <= this.now() || (
+        (entry.admissionYear === undefined || entry.admissionYear === catalog.admissionYear) &&
+        entry.catalogHash !== catalog.hash
+      ));
+    await Promise.all(stale.map(entry => this.delete(entry.key)));
+    return stale.length;
+  }
+}
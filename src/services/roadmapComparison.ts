@@ -0,0 +1,136 @@
+import { GeneratedRoadmap, RoadmapNode, Subject } from './geminiService';
+import { occupationTaxonomy, OccupationWeights } from './occupationTaxonomy';
+import { layoutFlowchart } from './flowchartLayout';
+import { Locale, translate } from '../i18n';
+
+export interface ComparedSubject {
+  id: string;
+  name: string;
+  credits: number;
+  year: number;
+  semester: number;
+  // Indexes of the compared roadmaps that include the subject
+  roadmapIndexes: number[];
+  // Weighted career_relevance per compared occupation, in roadmap order; null when the catalog has no score
+  relevance: (number | null)[];
+}
+
+export interface RoadmapComparison {
+  roadmaps: GeneratedRoadmap[];
+  // Taxonomy occupations each roadmap's occupation resolved to, in roadmap order
+  occupations: OccupationWeights[];
+  // Every subject in any roadmap, shared ones first, then by year and semester
+  subjects: ComparedSubject[];
+  // In every compared roadmap
+  shared: ComparedSubject[];
+  // Per roadmap, subjects that appear in no other roadmap
+  unique: ComparedSubject[][];
+  credits: {
+    perRoadmap: number[];
+    shared: number;
+    // Credits needed to cover every compared roadmap
+    union: number;
+    // shared / union, 0–1
+    overlap: number;
+  };
+  // One roadmap covering all compared ones
+  merged: GeneratedRoadmap;
+}
+
+// Earlier entries win when the same subject has different types in different roadmaps
+const TYPE_ORDER: RoadmapNode['type'][] = ['foundation', 'core', 'specialized', 'elective'];
+
+const sumCredits = (subjects: ComparedSubject[]) => subjects.reduce((total, subject) => total + subject.credits, 0);
+
+export class RoadmapComparer {
+  compare(roadmaps: GeneratedRoadmap[], catalog: Subject[], locale: Locale = 'en'): RoadmapComparison {
+    const catalogById = new Map(catalog.map(subject => [subject.id, subject]));
+    const occupations = roadmaps.map(roadmap => occupationTaxonomy.resolve(roadmap.occupation).weights);
+
+    const byId = new Map<string, ComparedSubject>();
+    roadmaps.forEach((roadmap, index) => {
+      roadmap.nodes.forEach(node => {
+        let compared = byId.get(node.id);
+        if (!compared) {
+          const subject = catalogById.get(node.id);
+          compared = {
+            id: node.id,
+            name: subject?.name || node.name,
+            credits: subject?.credits ?? node.credits,
+            year: subject?.year ?? node.year,
+            semester: subject?.semester ?? node.semester,
+            roadmapIndexes: [],
+            relevance: occupations.map(weights =>
+              subject?.career_relevance && Object.keys(weights).length > 0 ? occupationTaxonomy.relevanceOf(subject, weights) : null
+            ),
+          };
+          byId.set(node.id, compared);
+        }
+        if (!compared.roadmapIndexes.includes(index)) compared.roadmapIndexes.push(index);
+      });
+    });
+
+    const subjects = Array.from(byId.values()).sort((a, b) =>
+      b.roadmapIndexes.length - a.roadmapIndexes.length || a.year - b.year || a.semester - b.semester || a.name.localeCompare(b.name)
+    );
+    const shared = subjects.filter(subject => subject.roadmapIndexes.length === roadmaps.length);
+    const unique = roadmaps.map((_, index) =>
+      subjects.filter(subject => subject.roadmapIndexes.length === 1 && subject.roadmapIndexes[0] === index)
+    );
+    const union = sumCredits(subjects);
+    const sharedCredits = sumCredits(shared);
+
+    return {
+      roadmaps,
+      occupations,
+      subjects,
+      shared,
+      unique,
+      credits: {
+        perRoadmap: roadmaps.map(roadmap => roadmap.nodes.reduce((total, node) => total + node.credits, 0)),
+        shared: sharedCredits,
+        union,
+        overlap: union > 0 ? sharedCredits / union : 0,
+      },
+      merged: this.merge(roadmaps, subjects, locale),
+    };
+  }
+
+  // Union of all nodes; a subject keeps its most fundamental type and its highest relevance
+  private merge(roadmaps: GeneratedRoadmap[], subjects: ComparedSubject[], locale: Locale): GeneratedRoadmap {
+    const nodes = new Map<string, RoadmapNode>();
+    roadmaps.forEach(roadmap => {
+      roadmap.nodes.forEach(node => {
+        const existing = nodes.get(node.id);
+        if (!existing) {
+          nodes.set(node.id, { ...node, connects: [...node.connects], corrections: undefined, completed: false });
+          return;
+        }
+        existing.connects = Array.from(new Set([...existing.connects, ...node.connects]));
+        existing.relevance_score = Math.max(existing.relevance_score, node.relevance_score);
+        if (TYPE_ORDER.indexOf(node.type) < TYPE_ORDER.indexOf(existing.type)) existing.type = node.type;
+      });
+    });
+
+    const mergedNodes = Array.from(nodes.values());
+    const { positions } = layoutFlowchart(mergedNodes);
+    mergedNodes.forEach(node => {
+      node.connects = node.connects.filter(id => nodes.has(id));
+      node.x = positions[node.id].x;
+      node.y = positions[node.id].y;
+    });
+
+    const occupations = roadmaps.map(roadmap => roadmap.occupation).join(' + ');
+    const totalCredits = sumCredits(subjects);
+    return {
+      title: translate(locale, 'compare.mergedTitle', { occupations }),
+      description: translate(locale, 'compare.mergedDescription', { count: mergedNodes.length, credits: totalCredits }),
+      occupation: occupations,
+      nodes: mergedNodes,
+      total_credits: totalCredits,
+      reasoning: roadmaps.map(roadmap => `${roadmap.occupation}: ${roadmap.reasoning}`).join('\n\n'),
+    };
+  }
+}
+
+export const roadmapComparer = new RoadmapComparer();
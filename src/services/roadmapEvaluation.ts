@@ -0,0 +1,164 @@
+import { OccupationWeights } from './occupationTaxonomy';
+import { RoadmapScore, SCORE_MEASURES, ScoreMeasure } from './roadmapScoring';
+
+// Results of running a set of occupations through a roadmap engine, as written by
+// `npm run evaluate`, and the Markdown report comparing several such runs
+
+export const EVALUATION_REPORT_VERSION = 1;
+
+export interface EvaluationCase {
+  occupation: string;
+  occupationIds: OccupationWeights;
+}
+
+export interface EvaluationResult extends EvaluationCase {
+  // skipped: the engine can't answer this occupation, e.g. no recorded fixture response
+  status: 'ok' | 'failed' | 'skipped';
+  message?: string;
+  durationMs: number;
+  // Model responses used, 1 unless the first failed validation
+  attempts?: number;
+  usage?: { promptTokens: number; responseTokens: number };
+  // The engine's first answer as produced, before validation repairs it or asks again
+  score?: RoadmapScore;
+  // The roadmap the engine finally returned, as a student would see it
+  final?: RoadmapScore;
+}
+
+export interface EvaluationSummary {
+  evaluated: number;
+  failed: number;
+  skipped: number;
+  // Means over the evaluated occupations
+  overall: number;
+  finalOverall: number;
+  measures: Record<ScoreMeasure, number>;
+  attempts: number;
+  // Totals over the first answers
+  hallucinatedIds: number;
+  prerequisiteViolations: number;
+}
+
+export interface EvaluationRun {
+  label: string;
+  engine: 'offline' | 'ai';
+  provider: string;
+  model: string;
+  admissionYear: number;
+  // Content hash of the catalog; runs on different catalogs are not comparable
+  catalogHash: string;
+  startedAt: string;
+  results: EvaluationResult[];
+  summary: EvaluationSummary;
+}
+
+export interface EvaluationReport {
+  version: number;
+  generatedAt: string;
+  runs: EvaluationRun[];
+}
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? Math.round((values.reduce((total, value) => total + value, 0) / values.length) * 1000) / 1000 : 0;
+
+export const summarizeResults = (results: EvaluationResult[]): EvaluationSummary => {
+  const scored = results.filter(result => result.status === 'ok' && result.score && result.final);
+  const scores = scored.map(result => result.score as RoadmapScore);
+  return {
+    evaluated: scored.length,
+    failed: results.filter(result => result.status === 'failed').length,
+    skipped: results.filter(result => result.status === 'skipped').length,
+    overall: mean(scores.map(score => score.overall)),
+    finalOverall: mean(scored.map(result => (result.final as RoadmapScore).overall)),
+    measures: Object.fromEntries(
+      SCORE_MEASURES.map(measure => [measure, mean(scores.map(score => score.measures[measure]))])
+    ) as Record<ScoreMeasure, number>,
+    attempts: mean(scored.map(result => result.attempts || 1)),
+    hallucinatedIds: scores.reduce((total, score) => total + score.hallucinatedIds.length, 0),
+    prerequisiteViolations: scores.reduce((total, score) => total + score.prerequisiteViolations.length, 0),
+  };
+};
+
+const formatNumber = (value: number): string => (Number.isInteger(value) ? String(value) : value.toFixed(3));
+
+const formatDelta = (value: number, better: 'higher' | 'lower'): string => {
+  if (Math.abs(value) < 0.0005) return '±0';
+  const text = `${value > 0 ? '+' : '−'}${formatNumber(Math.abs(value))}`;
+  return (value > 0) === (better === 'higher') ? `${text} ✓` : `${text} ✗`;
+};
+
+const escapeCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+// Rows of the summary table: label, value and which direction is an improvement
+const SUMMARY_ROWS: [string, (summary: EvaluationSummary) => number, 'higher' | 'lower'][] = [
+  ['Overall (first answer)', summary => summary.overall, 'higher'],
+  ['Overall (after validation)', summary => summary.finalOverall, 'higher'],
+  ...SCORE_MEASURES.map(measure =>
+    [`${measure[0].toUpperCase()}${measure.slice(1)}`, (summary: EvaluationSummary) => summary.measures[measure], 'higher'] as
+      [string, (summary: EvaluationSummary) => number, 'higher' | 'lower']
+  ),
+  ['Hallucinated ids', summary => summary.hallucinatedIds, 'lower'],
+  ['Prerequisite violations', summary => summary.prerequisiteViolations, 'lower'],
+  ['Attempts per roadmap', summary => summary.attempts, 'lower'],
+  ['Failed', summary => summary.failed, 'lower'],
+];
+
+// Runs side by side; with two or more, the last is compared with the first
+export const formatEvaluationReport = (report: EvaluationReport): string => {
+  const { runs } = report;
+  const lines = ['# Roadmap evaluation', '', `Generated ${report.generatedAt}.`];
+  if (runs.length === 0) return [...lines, '', 'No runs.'].join('\n') + '\n';
+
+  const first = runs[0];
+  const last = runs[runs.length - 1];
+  const compare = runs.length > 1;
+  if (compare && runs.some(run => run.catalogHash !== first.catalogHash)) {
+    lines.push('', '**The runs used different catalogs, so their scores are not directly comparable.**');
+  }
+
+  lines.push('', '## Summary', '');
+  lines.push(`| Measure | ${runs.map(run => escapeCell(run.label)).join(' | ')} |${compare ? ' Change |' : ''}`);
+  lines.push(`| --- |${runs.map(() => ' ---: |').join('')}${compare ? ' ---: |' : ''}`);
+  SUMMARY_ROWS.forEach(([label, value, better]) => {
+    const cells = runs.map(run => formatNumber(value(run.summary)));
+    const change = compare ? ` ${formatDelta(value(last.summary) - value(first.summary), better)} |` : '';
+    lines.push(`| ${label} | ${cells.join(' | ')} |${change}`);
+  });
+  lines.push('', runs.map(run =>
+    `- **${escapeCell(run.label)}**: ${run.engine} engine, ${run.provider}/${run.model}, admission year ${run.admissionYear}, ` +
+    `${run.summary.evaluated} evaluated, ${run.summary.skipped} skipped, started ${run.startedAt}`
+  ).join('\n'));
+
+  const occupations = Array.from(new Set(runs.flatMap(run => run.results.map(result => result.occupation))));
+  lines.push('', '## Overall score per occupation', '');
+  lines.push(`| Occupation | ${runs.map(run => escapeCell(run.label)).join(' | ')} |`);
+  lines.push(`| --- |${runs.map(() => ' ---: |').join('')}`);
+  occupations.forEach(occupation => {
+    const cells = runs.map(run => {
+      const result = run.results.find(entry => entry.occupation === occupation);
+      if (!result) return '';
+      return result.score ? formatNumber(result.score.overall) : result.status;
+    });
+    lines.push(`| ${escapeCell(occupation)} | ${cells.join(' | ')} |`);
+  });
+
+  runs.forEach(run => {
+    lines.push('', `## ${run.label}`, '');
+    lines.push(`| Occupation | Overall | ${SCORE_MEASURES.join(' | ')} | Hallucinated | Violations | Attempts |`);
+    lines.push(`| --- |${' ---: |'.repeat(SCORE_MEASURES.length + 4)}`);
+    run.results.forEach(result => {
+      if (!result.score) {
+        lines.push(`| ${escapeCell(result.occupation)} | ${result.status}: ${escapeCell(result.message || '')} |${' |'.repeat(SCORE_MEASURES.length + 3)}`);
+        return;
+      }
+      const { score } = result;
+      lines.push(
+        `| ${escapeCell(result.occupation)} | ${formatNumber(score.overall)} | ` +
+        `${SCORE_MEASURES.map(measure => formatNumber(score.measures[measure])).join(' | ')} | ` +
+        `${score.hallucinatedIds.length > 0 ? escapeCell(score.hallucinatedIds.join(', ')) : '0'} | ` +
+        `${score.prerequisiteViolations.length} | ${result.attempts || 1} |`
+      );
+    });
+  });
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,378 @@
+import { GeneratedRoadmap, RoadmapNode, Subject } from './geminiService';
+import { roadmapValidator, RoadmapIssue } from './roadmapValidator';
+import { PrerequisiteResolver } from './prerequisiteGraph';
+import { layoutFlowchart, NODE_WIDTH, NODE_HEIGHT } from './flowchartLayout';
+import { catalogMigrator, CatalogManifest, CatalogMigrationReport, LEGACY_ADMISSION_YEAR } from './catalogVersions';
+import { Locale, translate } from '../i18n';
+
+export const ROADMAP_FILE_FORMAT = 'tokushima-roadmap';
+export const ROADMAP_FILE_VERSION = 1;
+
+// Hash parameter used by share links, e.g. https://…/#roadmap=eyJ2Ijox…
+export const SHARE_PARAM = 'roadmap';
+
+export interface RoadmapFile {
+  format: typeof ROADMAP_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  // Catalog the roadmap was built from; files without one predate per-year catalogs
+  admissionYear?: number;
+  roadmap: GeneratedRoadmap;
+}
+
+// The catalog being imported into; roadmaps from another admission year are migrated to it
+export interface ImportCatalog {
+  manifest: CatalogManifest;
+  admissionYear: number;
+}
+
+export interface RoadmapImportResult {
+  roadmap: GeneratedRoadmap;
+  // Ids in the payload that no longer exist in the catalog; their nodes are dropped
+  missingSubjects: string[];
+  issues: RoadmapIssue[];
+  // Set when the roadmap came from another admission year's catalog
+  migration?: CatalogMigrationReport;
+}
+
+export interface RenderOptions {
+  // Display names keyed by subject id, e.g. in the active locale
+  names?: Record<string, string>;
+  completedIds?: Set<string>;
+}
+
+export interface ReportOptions extends RenderOptions {
+  locale?: Locale;
+}
+
+// Share links only carry what the catalog cannot supply: name and credits are filled
+// back in from the catalog when the link is opened
+interface SharePayload {
+  v: number;
+  o: string;
+  t: string;
+  d: string;
+  r: string;
+  // Admission year of the catalog
+  a?: number;
+  // [id, type index, relevance in percent, year, semester]; year and semester keep a subject
+  // the student moved to a later year, and are missing from links made before they were added
+  n: ([string, number, number] | [string, number, number, number, number])[];
+  // [from index, to index]
+  c: [number, number][];
+}
+
+const NODE_TYPES: RoadmapNode['type'][] = ['foundation', 'core', 'specialized', 'elective'];
+
+// Print-friendly equivalents of the flowchart's Tailwind colors
+const NODE_COLORS: Record<RoadmapNode['type'] | 'completed', { fill: string; stroke: string; text: string }> = {
+  foundation: { fill: '#dbeafe', stroke: '#93c5fd', text: '#1e40af' },
+  core: { fill: '#fef9c3', stroke: '#fde047', text: '#854d0e' },
+  specialized: { fill: '#f3e8ff', stroke: '#d8b4fe', text: '#6b21a8' },
+  elective: { fill: '#f3f4f6', stroke: '#d1d5db', text: '#1f2937' },
+  completed: { fill: '#dcfce7', stroke: '#4ade80', text: '#166534' },
+};
+
+const NAME_LINE_LENGTH = 11;
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+// Splits a subject name over at most two lines, since SVG text does not wrap
+const wrapName = (name: string): string[] => {
+  if (name.length <= NAME_LINE_LENGTH) return [name];
+  const second = name.slice(NAME_LINE_LENGTH);
+  return [
+    name.slice(0, NAME_LINE_LENGTH),
+    second.length > NAME_LINE_LENGTH ? `${second.slice(0, NAME_LINE_LENGTH - 1)}…` : second,
+  ];
+};
+
+export class RoadmapExporter {
+  toJSON(roadmap: GeneratedRoadmap, admissionYear?: number): string {
+    const file: RoadmapFile = {
+      format: ROADMAP_FILE_FORMAT,
+      version: ROADMAP_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      admissionYear,
+      roadmap,
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  fromJSON(text: string, subjects: Subject[], targetCatalog?: ImportCatalog): RoadmapImportResult {
+    let file: unknown;
+    try {
+      file = JSON.parse(text);
+    } catch (error) {
+      throw new Error('The file is not valid JSON');
+    }
+    if (!isRecord(file) || file.format !== ROADMAP_FILE_FORMAT) {
+      throw new Error('The file is not an exported roadmap');
+    }
+    if (typeof file.version !== 'number' || file.version > ROADMAP_FILE_VERSION) {
+      throw new Error(`Roadmap file version ${String(file.version)} is not supported`);
+    }
+    const admissionYear = typeof file.admissionYear === 'number' ? file.admissionYear : LEGACY_ADMISSION_YEAR;
+    return this.importRoadmap(file.roadmap, subjects, targetCatalog, admissionYear);
+  }
+
+  toShareParam(roadmap: GeneratedRoadmap, admissionYear?: number): string {
+    const index = new Map(roadmap.nodes.map((node, i) => [node.id, i]));
+    const payload: SharePayload = {
+      v: ROADMAP_FILE_VERSION,
+      o: roadmap.occupation,
+      t: roadmap.title,
+      d: roadmap.description,
+      r: roadmap.reasoning,
+      a: admissionYear,
+      n: roadmap.nodes.map(node => [
+        node.id,
+        NODE_TYPES.indexOf(node.type),
+        Math.round(node.relevance_score * 100),
+        node.year,
+        node.semester,
+      ]),
+      c: roadmap.nodes.flatMap((node, from) =>
+        node.connects
+          .filter(target => index.has(target))
+          .map(target => [from, index.get(target)!] as [number, number])
+      ),
+    };
+    return toBase64Url(JSON.stringify(payload));
+  }
+
+  fromShareParam(param: string, subjects: Subject[], targetCatalog?: ImportCatalog): RoadmapImportResult {
+    let payload: SharePayload;
+    try {
+      payload = JSON.parse(fromBase64Url(param));
+    } catch (error) {
+      throw new Error('The share link is damaged or incomplete');
+    }
+    if (!isRecord(payload) || !Array.isArray(payload.n) || typeof payload.v !== 'number') {
+      throw new Error('The share link is damaged or incomplete');
+    }
+    if (payload.v > ROADMAP_FILE_VERSION) {
+      throw new Error(`Share link version ${payload.v} is not supported`);
+    }
+
+    const catalog = new Map<string, Subject>();
+    subjects.forEach(subject => {
+      if (!catalog.has(subject.id)) catalog.set(subject.id, subject);
+    });
+    const connections = Array.isArray(payload.c) ? payload.c : [];
+    const nodes = payload.n.map(([id, type, relevance, year, semester], i) => {
+      const subject = catalog.get(id);
+      const scheduled = typeof year === 'number' && typeof semester === 'number';
+      return {
+        id,
+        name: subject?.name ?? '',
+        x: 0,
+        y: 0,
+        type: NODE_TYPES[type] ?? 'elective',
+        completed: false,
+        connects: connections
+          .filter(([from]) => from === i)
+          .map(([, to]) => payload.n[to]?.[0])
+          .filter((target): target is string => typeof target === 'string'),
+        credits: subject?.credits ?? 0,
+        year: scheduled ? year : subject?.year ?? 0,
+        semester: scheduled ? semester : subject?.semester ?? 0,
+        relevance_score: relevance / 100,
+      };
+    });
+    return this.importRoadmap({
+      title: payload.t,
+      description: payload.d,
+      occupation: payload.o,
+      reasoning: payload.r,
+      nodes,
+      total_credits: nodes.reduce((total, node) => total + node.credits, 0),
+    }, subjects, targetCatalog, typeof payload.a === 'number' ? payload.a : LEGACY_ADMISSION_YEAR);
+  }
+
+  createShareLink(roadmap: GeneratedRoadmap, baseUrl: string, admissionYear?: number): string {
+    return `${baseUrl.split('#')[0]}#${SHARE_PARAM}=${this.toShareParam(roadmap, admissionYear)}`;
+  }
+
+  // Returns the encoded roadmap from a location hash, or null if there is none
+  readShareLink(hash: string): string | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return params.get(SHARE_PARAM);
+  }
+
+  toSVG(roadmap: GeneratedRoadmap, options: RenderOptions = {}): string {
+    const { names = {}, completedIds = new Set<string>() } = options;
+    const { nodes, positions, edges, width, height } = layoutFlowchart(roadmap.nodes);
+
+    const lines = edges.map(edge =>
+      `<path d="${edge.path}" fill="none" stroke="#94a3b8" stroke-width="2" marker-end="url(#arrow)" />`
+    );
+
+    const boxes = nodes.map(node => {
+      const { x, y } = positions[node.id];
+      const colors = NODE_COLORS[completedIds.has(node.id) ? 'completed' : node.type];
+      const nameLines = wrapName(names[node.id] || node.name);
+      const text = nameLines.map((line, i) =>
+        `<text x="${x + NODE_WIDTH / 2}" y="${y + 22 + i * 15}" font-size="12" font-weight="600" fill="${colors.text}" text-anchor="middle">${escapeXml(line)}</text>`
+      );
+      return [
+        `<g><title>${escapeXml(`${node.name} (${node.id})`)}</title>`,
+        `<rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="8" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="2" />`,
+        ...text,
+        `<text x="${x + NODE_WIDTH / 2}" y="${y + NODE_HEIGHT - 12}" font-size="10" fill="#6b7280" text-anchor="middle">${node.credits} cr • Y${node.year}S${node.semester}</text>`,
+        '</g>',
+      ].join('');
+    });
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+      `<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" /></marker></defs>`,
+      `<rect width="100%" height="100%" fill="#ffffff" />`,
+      ...lines,
+      ...boxes,
+      '</svg>',
+    ].join('\n');
+  }
+
+  // A self-contained document meant for the browser's print dialog ("Save as PDF")
+  toPrintableHTML(roadmap: GeneratedRoadmap, options: ReportOptions = {}): string {
+    const { locale = 'en', names = {}, completedIds = new Set<string>() } = options;
+    const t = (key: Parameters<typeof translate>[1], params?: Parameters<typeof translate>[2]) =>
+      escapeXml(translate(locale, key, params));
+    const { nodes, rows } = layoutFlowchart(roadmap.nodes);
+
+    const semesterSections = rows.map(([year, semester]) => {
+      const termNodes = nodes.filter(node => node.year === year && node.semester === semester);
+      const credits = termNodes.reduce((total, node) => total + node.credits, 0);
+      const body = termNodes.map(node => `
+        <tr>
+          <td>${escapeXml(node.id)}</td>
+          <td>${escapeXml(names[node.id] || node.name)}</td>
+          <td class="num">${node.credits}</td>
+          <td>${t(`legend.${node.type}`)}</td>
+          <td>${completedIds.has(node.id) ? '✓' : ''}</td>
+        </tr>`).join('');
+      return `
+      <tbody>
+        <tr class="term"><th colspan="5">${t('report.term', { year, semester })}</th></tr>${body}
+        <tr class="subtotal"><td colspan="2">${t('report.termTotal')}</td><td class="num">${credits}</td><td colspan="2"></td></tr>
+      </tbody>`;
+    }).join('');
+
+    const earned = nodes
+      .filter(node => completedIds.has(node.id))
+      .reduce((total, node) => total + node.credits, 0);
+
+    return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8" />
+<title>${escapeXml(roadmap.title)}</title>
+<style>
+  @page { size: A4; margin: 15mm; }
+  body { font-family: sans-serif; color: #1f2937; font-size: 11pt; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  h2 { font-size: 13pt; margin: 16pt 0 6pt; }
+  .meta { color: #6b7280; font-size: 9pt; }
+  .summary { display: flex; gap: 24pt; margin: 12pt 0; }
+  .summary strong { display: block; font-size: 16pt; }
+  .flowchart svg { width: 100%; height: auto; }
+  .page-break { page-break-before: always; break-before: page; }
+  table { width: 100%; border-collapse: collapse; font-size: 10pt; }
+  td, th { border-bottom: 1px solid #e5e7eb; padding: 3pt 6pt; text-align: left; }
+  tbody { page-break-inside: avoid; break-inside: avoid; }
+  tr.term th { background: #eff6ff; }
+  tr.subtotal td { font-weight: 600; }
+  .num { text-align: right; }
+  .reasoning { white-space: pre-wrap; }
+</style>
+</head>
+<body>
+  <h1>${escapeXml(roadmap.title)}</h1>
+  <div class="meta">${t('report.generated', { date: new Date().toLocaleDateString(locale) })} • ${escapeXml(roadmap.occupation)}</div>
+  <p>${escapeXml(roadmap.description)}</p>
+  <div class="summary">
+    <div><strong>${roadmap.total_credits}</strong>${t('report.totalCredits')}</div>
+    <div><strong>${earned}</strong>${t('report.earnedCredits')}</div>
+    <div><strong>${nodes.length}</strong>${t('report.subjectCount')}</div>
+  </div>
+  <h2>${t('report.flowchart')}</h2>
+  <div class="flowchart">${this.toSVG(roadmap, { names, completedIds })}</div>
+  <h2 class="page-break">${t('report.semesterTable')}</h2>
+  <table>
+    <thead>
+      <tr><th>${t('report.code')}</th><th>${t('report.subject')}</th><th class="num">${t('report.credits')}</th><th>${t('report.type')}</th><th>${t('report.completed')}</th></tr>
+    </thead>${semesterSections}
+  </table>
+  <h2>${t('report.reasoning')}</h2>
+  <p class="reasoning">${escapeXml(roadmap.reasoning)}</p>
+</body>
+</html>`;
+  }
+
+  private importRoadmap(
+    raw: unknown,
+    subjects: Subject[],
+    targetCatalog?: ImportCatalog,
+    admissionYear: number = LEGACY_ADMISSION_YEAR
+  ): RoadmapImportResult {
+    let migration: CatalogMigrationReport | undefined;
+    if (targetCatalog && admissionYear !== targetCatalog.admissionYear && isRecord(raw) && Array.isArray(raw.nodes)) {
+      // Carried over before validation, since the roadmap's ids belong to the other catalog. The
+      // migrator reads ids and connections, so those are checked here; the validator checks the rest
+      const nodes = raw.nodes
+        .filter((node): node is Record<string, unknown> => isRecord(node) && typeof node.id === 'string')
+        .map(node => ({
+          ...node,
+          connects: Array.isArray(node.connects) ? node.connects.filter(target => typeof target === 'string') : [],
+        }));
+      const migrated = catalogMigrator.migrateRoadmap(
+        { ...raw, nodes } as unknown as GeneratedRoadmap,
+        targetCatalog.manifest,
+        admissionYear,
+        targetCatalog.admissionYear,
+        subjects
+      );
+      raw = migrated.roadmap;
+      migration = migrated.report;
+    }
+
+    const resolver = new PrerequisiteResolver(subjects);
+    const rawNodes = isRecord(raw) && Array.isArray(raw.nodes) ? raw.nodes : [];
+    const missingSubjects = rawNodes
+      .filter(isRecord)
+      .map(node => node.id)
+      .filter((id): id is string => typeof id === 'string' && !resolver.resolve(id));
+
+    // Saved roadmaps can hold retakes the student scheduled in the refinement chat
+    const { roadmap, issues } = roadmapValidator.validate(raw, subjects, { allowLaterTerms: true });
+    if (roadmap.nodes.length === 0) {
+      throw new Error(
+        missingSubjects.length > 0
+          ? 'None of the subjects in this roadmap exist in the current catalog'
+          : 'The roadmap contains no subjects'
+      );
+    }
+    return { roadmap, missingSubjects, issues, ...(migration ? { migration } : {}) };
+  }
+}
+
+export const roadmapExporter = new RoadmapExporter();
@@ -0,0 +1,208 @@
+import { GeneratedRoadmap, RoadmapNode, Subject } from './geminiService';
+import { DataService, dataService } from './dataService';
+import { normalizeLabel } from './prerequisiteGraph';
+import { occupationTaxonomy, OccupationWeights } from './occupationTaxonomy';
+import { Locale, translate } from '../i18n';
+
+export type RoadmapEngine = 'offline' | 'ai';
+
+export interface RoadmapGeneratorOptions {
+  // Minimum career_relevance score for a subject to be considered
+  threshold?: number;
+  // Number of subjects picked by score, before prerequisites are pulled in
+  maxSubjects?: number;
+  // Blended score at which a year 3-4 subject counts as specialized; capped at the best picked
+  // score, since some occupations' catalog relevance never reaches it
+  specializedThreshold?: number;
+  // Language of the generated title, description and reasoning
+  locale?: Locale;
+  // Taxonomy occupations to plan for; resolved from the occupation text when omitted
+  occupationIds?: OccupationWeights;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<RoadmapGeneratorOptions, 'occupationIds'>> = {
+  threshold: 0.5,
+  maxSubjects: 10,
+  specializedThreshold: 0.75,
+  locale: 'en',
+};
+
+const X_START = 100;
+const X_STEP = 180;
+const Y_START = 100;
+const Y_STEP = 120;
+
+const displayOccupation = (occupation: string): string =>
+  occupation.trim().replace(/[_\s]+/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+export interface ScoredSubject {
+  subject: Subject;
+  score: number;
+  matchedKeywords: string[];
+}
+
+export class RoadmapGenerator {
+  constructor(private data: DataService = dataService) {}
+
+  async generateRoadmap(occupation: string, options: RoadmapGeneratorOptions = {}): Promise<GeneratedRoadmap> {
+    const { occupationIds, ...rest } = options;
+    const settings = { ...DEFAULT_OPTIONS, ...rest };
+    const resolved = occupationTaxonomy.resolve(occupation);
+    const weights = occupationIds || resolved.weights;
+    if (Object.keys(weights).length === 0) {
+      throw new Error(`"${occupation}" doesn't match any known occupation`);
+    }
+    const candidates = await this.data.getSubjectsByCareerRelevance(weights, settings.threshold);
+
+    if (candidates.length === 0) {
+      throw new Error(`No subjects have a career relevance score for "${occupation}"`);
+    }
+
+    const picked = this.rankSubjects(candidates, occupation, weights).slice(0, settings.maxSubjects);
+    const pickedIds = new Set(picked.map(s => s.subject.id));
+
+    // Pull in every transitive prerequisite so the roadmap can actually be followed
+    const graph = await this.data.getPrerequisiteGraph();
+    const allSubjects = await this.data.getAllSubjects();
+    const prerequisiteIds = new Set<string>();
+    picked.forEach(({ subject }) => {
+      graph.getPrerequisiteChain(subject.id).forEach(id => {
+        if (!pickedIds.has(id)) prerequisiteIds.add(id);
+      });
+    });
+    const prerequisites = Array.from(prerequisiteIds)
+      .map(id => allSubjects.find(subject => subject.id === id))
+      .filter((subject): subject is Subject => subject !== undefined)
+      .map(subject => this.scoreSubject(subject, weights));
+
+    const specializedThreshold = Math.min(settings.specializedThreshold, picked[0]?.score ?? 0);
+    const selected = [...picked, ...prerequisites];
+    const selectedIds = new Set(selected.map(s => s.subject.id));
+
+    const nodes: RoadmapNode[] = selected.map(({ subject, score }) => ({
+      id: subject.id,
+      name: subject.name,
+      x: 0,
+      y: 0,
+      type: this.classify(subject, score, prerequisiteIds.has(subject.id), specializedThreshold),
+      completed: false,
+      connects: graph.getDirectDependents(subject.id).filter(id => selectedIds.has(id)),
+      credits: subject.credits,
+      year: subject.year,
+      semester: subject.semester,
+      relevance_score: Math.round(score * 100) / 100,
+    }));
+    this.layout(nodes);
+
+    const { locale } = settings;
+    // An input that names a known occupation is shown by its canonical name, e.g. "EE"
+    const exact = resolved.matches.length === 1 && resolved.matches[0].score === 1 ? resolved.matches[0].occupation : null;
+    const display = exact ? exact.name[locale] : displayOccupation(occupation);
+    const totalCredits = nodes.reduce((total, node) => total + node.credits, 0);
+    const matched = exact && !occupationIds ? null : occupationTaxonomy.describe(weights, locale);
+
+    return {
+      title: translate(locale, 'offline.title', { occupation: display }),
+      description: translate(locale, 'offline.description', { count: nodes.length, credits: totalCredits, occupation: display }),
+      occupation,
+      nodes,
+      total_credits: totalCredits,
+      reasoning: this.buildReasoning(locale, display, matched, settings.threshold, picked, prerequisites),
+    };
+  }
+
+  // Orders subjects by blended relevance to the occupation, best first
+  rankSubjects(
+    subjects: Subject[],
+    occupation: string,
+    weights: OccupationWeights = occupationTaxonomy.resolve(occupation).weights
+  ): ScoredSubject[] {
+    return this.uniqueById(subjects)
+      .filter(subject => subject.name.trim())
+      .map(subject => this.scoreSubject(subject, weights))
+      .sort((a, b) => b.score - a.score || a.subject.semester - b.subject.semester);
+  }
+
+  private uniqueById(subjects: Subject[]): Subject[] {
+    const seen = new Set<string>();
+    return subjects.filter(subject => {
+      if (seen.has(subject.id)) return false;
+      seen.add(subject.id);
+      return true;
+    });
+  }
+
+  // Blends catalog relevance with topic overlap: many catalog scores are identical,
+  // so the keyword term is what actually orders subjects within an occupation.
+  private scoreSubject(subject: Subject, weights: OccupationWeights): ScoredSubject {
+    const relevance = occupationTaxonomy.relevanceOf(subject, weights);
+    const keywords = occupationTaxonomy.keywordsFor(weights);
+    const text = normalizeLabel([
+      subject.name,
+      ...subject.keywords,
+      ...subject.learning_outcomes,
+      subject.description,
+    ].join(' '));
+    const matchedKeywords = keywords.filter(keyword => text.includes(normalizeLabel(keyword)));
+    const overlap = keywords.length > 0 ? Math.min(1, matchedKeywords.length / 3) : 0;
+    return {
+      subject,
+      score: relevance * 0.6 + overlap * 0.4,
+      matchedKeywords,
+    };
+  }
+
+  private classify(
+    subject: Subject,
+    score: number,
+    isPrerequisite: boolean,
+    specializedThreshold: number
+  ): RoadmapNode['type'] {
+    if (subject.year <= 1 || (isPrerequisite && subject.year <= 2)) return 'foundation';
+    if (subject.year === 2) return 'core';
+    return score >= specializedThreshold ? 'specialized' : 'elective';
+  }
+
+  private layout(nodes: RoadmapNode[]) {
+    const columns: Record<number, number> = {};
+    const semesters = Array.from(new Set(nodes.map(node => node.semester))).sort((a, b) => a - b);
+    // Sorts a copy; the roadmap keeps its nodes in selection order
+    [...nodes]
+      .sort((a, b) => a.semester - b.semester || b.relevance_score - a.relevance_score)
+      .forEach(node => {
+        const column = columns[node.semester] || 0;
+        columns[node.semester] = column + 1;
+        node.x = X_START + column * X_STEP;
+        node.y = Y_START + semesters.indexOf(node.semester) * Y_STEP;
+      });
+  }
+
+  private buildReasoning(
+    locale: Locale,
+    occupation: string,
+    // Description of the taxonomy match, when the input didn't name a known occupation exactly
+    matched: string | null,
+    threshold: number,
+    picked: ScoredSubject[],
+    prerequisites: ScoredSubject[]
+  ): string {
+    const top = picked.slice(0, 3).map(({ subject, matchedKeywords }) =>
+      matchedKeywords.length > 0
+        ? `${subject.name} (${matchedKeywords.join(', ')})`
+        : subject.name
+    );
+    const parts = [translate(locale, 'offline.reasoningIntro', { occupation })];
+    if (matched) parts.push(translate(locale, 'offline.reasoningMatched', { occupations: matched }));
+    parts.push(translate(locale, 'offline.reasoningPicked', { count: picked.length, threshold, top: top.join(', ') }));
+    if (prerequisites.length > 0) {
+      parts.push(translate(locale, 'offline.reasoningPrerequisites', {
+        count: prerequisites.length,
+        names: prerequisites.map(p => p.subject.name).join(', '),
+      }));
+    }
+    parts.push(translate(locale, 'offline.reasoningTypes'));
+    return parts.join(locale === 'ja' ? '' : ' ');
+  }
+}
+
+export const roadmapGenerator = new RoadmapGenerator();
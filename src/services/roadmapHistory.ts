@@ -0,0 +1,43 @@
+import { GeneratedRoadmap } from './geminiService';
+
+// Undo/redo stack for the roadmap on screen. Every replacement (generation, import, loading a
+// saved roadmap, an applied refinement) is recorded; the history lives for the session only
+
+export interface RoadmapHistory {
+  past: GeneratedRoadmap[];
+  present: GeneratedRoadmap | null;
+  future: GeneratedRoadmap[];
+}
+
+export const ROADMAP_HISTORY_LIMIT = 50;
+
+export const createRoadmapHistory = (present: GeneratedRoadmap | null = null): RoadmapHistory => ({
+  past: [],
+  present,
+  future: [],
+});
+
+// A new roadmap discards the redo stack, as in an editor
+export const recordRoadmap = (history: RoadmapHistory, roadmap: GeneratedRoadmap | null): RoadmapHistory => {
+  if (roadmap === history.present) return history;
+  const past = history.present ? [...history.past, history.present] : history.past;
+  return { past: past.slice(-ROADMAP_HISTORY_LIMIT), present: roadmap, future: [] };
+};
+
+export const undoRoadmap = (history: RoadmapHistory): RoadmapHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: history.present ? [history.present, ...history.future] : history.future,
+  };
+};
+
+export const redoRoadmap = (history: RoadmapHistory): RoadmapHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: history.present ? [...history.past, history.present] : history.past,
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
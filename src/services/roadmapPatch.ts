@@ -0,0 +1,278 @@
+import { GeneratedRoadmap, RoadmapNode, Subject } from './geminiService';
+import { isLaterOffering, LAST_SEMESTER, RoadmapIssue } from './roadmapValidator';
+import { PrerequisiteGraph, PrerequisiteResolver } from './prerequisiteGraph';
+import { occupationTaxonomy, OccupationWeights } from './occupationTaxonomy';
+import { layoutFlowchart } from './flowchartLayout';
+
+// Follow-up edits to a generated roadmap, as returned by the model in the refinement chat.
+// The model only proposes the patch; the app shows its diff and applies it once confirmed
+
+export interface RoadmapPatchAddition {
+  id: string;
+  type: RoadmapNode['type'];
+}
+
+export interface RoadmapPatchMove {
+  id: string;
+  year: number;
+  semester: number;
+}
+
+export interface RoadmapPatch {
+  // Answer shown in the chat, e.g. why a subject is included; the only field for pure questions
+  reply: string;
+  add: RoadmapPatchAddition[];
+  remove: string[];
+  // Retakes and postponements: a later offering of the same term
+  move: RoadmapPatchMove[];
+  // Replaces the roadmap's reasoning when present
+  reasoning?: string;
+}
+
+export interface RoadmapPatchResult {
+  // Contains only the operations that passed; errors are left out
+  patch: RoadmapPatch;
+  issues: RoadmapIssue[];
+  hasErrors: boolean;
+}
+
+export interface RoadmapPrerequisiteWarning {
+  id: string;
+  prerequisite: string;
+  // 'removed': the prerequisite was taken out of the roadmap; 'order': it is no longer scheduled earlier
+  reason: 'removed' | 'order';
+}
+
+export interface RoadmapDiff {
+  added: RoadmapNode[];
+  removed: RoadmapNode[];
+  moved: { node: RoadmapNode; from: { year: number; semester: number } }[];
+  creditsBefore: number;
+  creditsAfter: number;
+  reasoningChanged: boolean;
+  // Only problems the patch introduces; ones already in the roadmap are not repeated
+  warnings: RoadmapPrerequisiteWarning[];
+}
+
+const NODE_TYPES: RoadmapNode['type'][] = ['foundation', 'core', 'specialized', 'elective'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const emptyPatch = (): RoadmapPatch => ({ reply: '', add: [], remove: [], move: [] });
+
+export class RoadmapPatcher {
+  // Checks a model response against the roadmap and the catalog, resolving codes and names to ids
+  normalize(raw: unknown, roadmap: GeneratedRoadmap, subjects: Subject[]): RoadmapPatchResult {
+    const issues: RoadmapIssue[] = [];
+    const error = (nodeId: string | null, field: string, message: string) =>
+      issues.push({ severity: 'error', nodeId, field, message });
+    const correction = (nodeId: string | null, field: string, message: string) =>
+      issues.push({ severity: 'correction', nodeId, field, message });
+
+    if (!isRecord(raw)) {
+      error(null, '$', 'Response is not a JSON object');
+      return { patch: emptyPatch(), issues, hasErrors: true };
+    }
+
+    const catalog = new Map<string, Subject>();
+    subjects.forEach(subject => {
+      if (!catalog.has(subject.id)) catalog.set(subject.id, subject);
+    });
+    const resolver = new PrerequisiteResolver(subjects);
+    const inRoadmap = new Set(roadmap.nodes.map(node => node.id));
+    const touched = new Set<string>();
+    const patch = emptyPatch();
+
+    if (typeof raw.reply !== 'string' || !raw.reply.trim()) error(null, 'reply', '"reply" must be a non-empty string');
+    else patch.reply = raw.reply.trim();
+    if (typeof raw.reasoning === 'string' && raw.reasoning.trim()) patch.reasoning = raw.reasoning.trim();
+
+    const list = (field: 'add' | 'remove' | 'move'): unknown[] => {
+      if (raw[field] === undefined || raw[field] === null) return [];
+      if (!Array.isArray(raw[field])) {
+        error(null, field, `"${field}" must be an array`);
+        return [];
+      }
+      return raw[field] as unknown[];
+    };
+    // Resolves an id, code or name to a catalog id, and claims it so no two operations share a subject
+    const claim = (value: unknown, field: string): string | null => {
+      if (typeof value !== 'string' || !value.trim()) {
+        error(null, field, 'Expected a subject id');
+        return null;
+      }
+      const id = catalog.has(value) ? value : resolver.resolve(value)?.id;
+      if (!id) {
+        error(value, field, `Subject "${value}" does not exist in the catalog`);
+        return null;
+      }
+      if (id !== value) correction(value, field, `Unknown id "${value}" matched to ${id}`);
+      if (touched.has(id)) {
+        error(id, field, `Subject ${id} appears in more than one change`);
+        return null;
+      }
+      touched.add(id);
+      return id;
+    };
+
+    list('remove').forEach((value, index) => {
+      const id = claim(value, `remove[${index}]`);
+      if (!id) return;
+      if (!inRoadmap.has(id)) error(id, `remove[${index}]`, `Subject ${id} is not in the roadmap`);
+      else patch.remove.push(id);
+    });
+
+    list('add').forEach((value, index) => {
+      const field = `add[${index}]`;
+      const id = claim(isRecord(value) ? value.id : value, field);
+      if (!id) return;
+      if (inRoadmap.has(id)) {
+        error(id, field, `Subject ${id} is already in the roadmap`);
+        return;
+      }
+      const type = isRecord(value) ? value.type : undefined;
+      if (!NODE_TYPES.includes(type as RoadmapNode['type'])) {
+        correction(id, `${field}.type`, `Invalid node type "${String(type)}"`);
+      }
+      patch.add.push({ id, type: NODE_TYPES.includes(type as RoadmapNode['type']) ? type as RoadmapNode['type'] : 'elective' });
+    });
+
+    list('move').forEach((value, index) => {
+      const field = `move[${index}]`;
+      const id = claim(isRecord(value) ? value.id : value, field);
+      if (!id) return;
+      const subject = catalog.get(id) as Subject;
+      const semester = isRecord(value) ? value.semester : undefined;
+      if (!inRoadmap.has(id)) {
+        error(id, field, `Subject ${id} is not in the roadmap`);
+      } else if (typeof semester !== 'number' || !isLaterOffering(subject, semester)) {
+        error(id, `${field}.semester`,
+          `Subject ${id} is offered in semester ${subject.semester}; it can only move to ${subject.semester}, ${subject.semester + 2}, … up to ${LAST_SEMESTER}`);
+      } else {
+        // The year follows from the semester; the model's value is not trusted
+        patch.move.push({ id, semester, year: subject.year + (semester - subject.semester) / 2 });
+      }
+    });
+
+    return { patch, issues, hasErrors: issues.some(issue => issue.severity === 'error') };
+  }
+
+  // Appended to the refinement prompt when asking the model to try again
+  createCorrectivePrompt(issues: RoadmapIssue[]): string {
+    const problems = issues
+      .filter(issue => issue.severity === 'error')
+      .map(issue => `- ${issue.nodeId ? `subject ${issue.nodeId}, ` : ''}${issue.field}: ${issue.message}`)
+      .join('\n');
+    return `
+Your previous response had the following problems:
+${problems}
+
+Add only candidate subjects, remove or move only subjects in the current roadmap, and return the complete corrected JSON object.
+`;
+  }
+
+  // New nodes take catalog fields and are wired to their prerequisites and dependents in the roadmap
+  apply(
+    roadmap: GeneratedRoadmap,
+    patch: RoadmapPatch,
+    subjects: Subject[],
+    weights: OccupationWeights = occupationTaxonomy.resolve(roadmap.occupation).weights
+  ): GeneratedRoadmap {
+    const graph = new PrerequisiteGraph(subjects);
+    const removed = new Set(patch.remove);
+    const moves = new Map(patch.move.map(move => [move.id, move]));
+    const nodes: RoadmapNode[] = roadmap.nodes
+      .filter(node => !removed.has(node.id))
+      .map(node => {
+        const move = moves.get(node.id);
+        return {
+          ...node,
+          connects: node.connects.filter(target => !removed.has(target)),
+          ...(move ? { year: move.year, semester: move.semester } : {}),
+        };
+      });
+
+    patch.add.forEach(({ id, type }) => {
+      const subject = subjects.find(candidate => candidate.id === id);
+      if (!subject || nodes.some(node => node.id === id)) return;
+      nodes.push({
+        id,
+        name: subject.name,
+        x: 0,
+        y: 0,
+        type,
+        completed: false,
+        connects: [],
+        credits: subject.credits,
+        year: subject.year,
+        semester: subject.semester,
+        relevance_score: Math.round(occupationTaxonomy.relevanceOf(subject, weights) * 100) / 100,
+      });
+    });
+
+    const ids = new Set(nodes.map(node => node.id));
+    patch.add.forEach(({ id }) => {
+      if (!ids.has(id)) return;
+      const added = nodes.find(node => node.id === id) as RoadmapNode;
+      added.connects = graph.getDirectDependents(id).filter(target => ids.has(target) && target !== id);
+      graph.getDirectPrerequisites(id).forEach(prerequisite => {
+        const node = nodes.find(candidate => candidate.id === prerequisite);
+        if (node && !node.connects.includes(id)) node.connects = [...node.connects, id];
+      });
+    });
+
+    const { positions } = layoutFlowchart(nodes);
+    nodes.forEach(node => {
+      node.x = positions[node.id].x;
+      node.y = positions[node.id].y;
+    });
+    return {
+      ...roadmap,
+      nodes,
+      total_credits: nodes.reduce((total, node) => total + node.credits, 0),
+      reasoning: patch.reasoning || roadmap.reasoning,
+    };
+  }
+
+  diff(before: GeneratedRoadmap, after: GeneratedRoadmap, subjects: Subject[]): RoadmapDiff {
+    const graph = new PrerequisiteGraph(subjects);
+    const beforeById = new Map(before.nodes.map(node => [node.id, node]));
+    const afterIds = new Set(after.nodes.map(node => node.id));
+    const warningKey = (warning: RoadmapPrerequisiteWarning) => `${warning.id}\u0000${warning.prerequisite}\u0000${warning.reason}`;
+    const existing = new Set(this.prerequisiteWarnings(before, before, graph).map(warningKey));
+
+    return {
+      added: after.nodes.filter(node => !beforeById.has(node.id)),
+      removed: before.nodes.filter(node => !afterIds.has(node.id)),
+      moved: after.nodes.flatMap(node => {
+        const previous = beforeById.get(node.id);
+        return previous && previous.semester !== node.semester
+          ? [{ node, from: { year: previous.year, semester: previous.semester } }]
+          : [];
+      }),
+      creditsBefore: before.total_credits,
+      creditsAfter: after.total_credits,
+      reasoningChanged: before.reasoning !== after.reasoning,
+      warnings: this.prerequisiteWarnings(before, after, graph).filter(warning => !existing.has(warningKey(warning))),
+    };
+  }
+
+  private prerequisiteWarnings(
+    before: GeneratedRoadmap,
+    after: GeneratedRoadmap,
+    graph: PrerequisiteGraph
+  ): RoadmapPrerequisiteWarning[] {
+    const beforeIds = new Set(before.nodes.map(node => node.id));
+    const afterById = new Map(after.nodes.map(node => [node.id, node]));
+    return after.nodes.flatMap(node => graph.getDirectPrerequisites(node.id).flatMap((prerequisite): RoadmapPrerequisiteWarning[] => {
+      const scheduled = afterById.get(prerequisite);
+      if (!scheduled) {
+        return beforeIds.has(prerequisite) ? [{ id: node.id, prerequisite, reason: 'removed' }] : [];
+      }
+      return scheduled.semester >= node.semester ? [{ id: node.id, prerequisite, reason: 'order' }] : [];
+    }));
+  }
+}
+
+export const roadmapPatcher = new RoadmapPatcher();
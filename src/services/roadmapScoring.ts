@@ -0,0 +1,172 @@
+import { GeneratedRoadmap, Subject } from './geminiService';
+import { PrerequisiteGraph } from './prerequisiteGraph';
+import { occupationTaxonomy, OccupationWeights } from './occupationTaxonomy';
+import { EEE_GRADUATION_REQUIREMENTS, GraduationRequirements } from './graduationRequirements';
+
+// Rates a roadmap on measures that can be checked against the catalog, so prompt, model and
+// engine changes can be compared on numbers rather than by eye. Works on roadmaps as a model
+// returned them, before roadmapValidator has dropped unknown subjects or restored catalog terms
+
+// Each measure is 0-1, higher is better:
+// validity: share of subjects that exist in the catalog
+// prerequisites: share of prerequisite pairs inside the roadmap taken in order
+// relevance: mean career_relevance of the subjects for the target occupation
+// balance: how evenly credits spread over the terms the roadmap spans
+// mandatory: share of the required subjects in the graduation requirements that are planned
+export type ScoreMeasure = 'validity' | 'prerequisites' | 'relevance' | 'balance' | 'mandatory';
+
+export const SCORE_MEASURES: ScoreMeasure[] = ['validity', 'prerequisites', 'relevance', 'balance', 'mandatory'];
+
+// Weights of the overall score; they sum to 1
+export const SCORE_WEIGHTS: Record<ScoreMeasure, number> = {
+  validity: 0.25,
+  prerequisites: 0.25,
+  relevance: 0.2,
+  balance: 0.15,
+  mandatory: 0.15,
+};
+
+// A subject planned in the same term as, or before, one of its prerequisites
+export interface PrerequisiteViolation {
+  subjectId: string;
+  prerequisiteId: string;
+  term: number;
+  prerequisiteTerm: number;
+}
+
+export interface RoadmapScore {
+  subjects: number;
+  credits: number;
+  // Node ids that are not catalog subjects, in roadmap order
+  hallucinatedIds: string[];
+  prerequisiteViolations: PrerequisiteViolation[];
+  // Prerequisites neither in the roadmap nor completed; reported, but not part of the score
+  missingPrerequisites: { subjectId: string; prerequisiteId: string }[];
+  // Mean blended career_relevance of the catalog subjects; null without any
+  meanRelevance: number | null;
+  // Planned credits per term (1-8) from the first to the last term the roadmap uses
+  termCredits: { term: number; credits: number }[];
+  // Coefficient of variation of termCredits (0 = perfectly even)
+  creditSpread: number;
+  mandatoryIds: string[];
+  mandatoryMissingIds: string[];
+  measures: Record<ScoreMeasure, number>;
+  overall: number;
+}
+
+export interface RoadmapScoringContext {
+  subjects: Subject[];
+  // Occupation the roadmap was built for
+  weights: OccupationWeights;
+  // Built from `subjects` when omitted
+  graph?: PrerequisiteGraph;
+  completedIds?: Iterable<string>;
+  requirements?: GraduationRequirements;
+}
+
+const TERMS = 8;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export class RoadmapScorer {
+  score(roadmap: GeneratedRoadmap, context: RoadmapScoringContext): RoadmapScore {
+    const catalog = new Map<string, Subject>();
+    context.subjects.forEach(subject => {
+      if (!catalog.has(subject.id)) catalog.set(subject.id, subject);
+    });
+    const graph = context.graph || new PrerequisiteGraph(context.subjects);
+    const completed = new Set(context.completedIds || []);
+    const nodes = Array.isArray(roadmap.nodes) ? roadmap.nodes : [];
+
+    const ids = nodes.map(node => String(node?.id ?? ''));
+    const hallucinatedIds = ids.filter(id => !catalog.has(id));
+    // First occurrence wins for subjects listed twice
+    const terms = new Map<string, number>();
+    nodes.forEach((node, index) => {
+      const subject = catalog.get(ids[index]);
+      if (!subject || terms.has(subject.id)) return;
+      // The roadmap's own placement counts, so a model moving a subject too early is caught
+      const term = Number.isInteger(node.semester) && node.semester >= 1 && node.semester <= TERMS ? node.semester : subject.semester;
+      terms.set(subject.id, term);
+    });
+    const known = Array.from(terms.keys()).map(id => catalog.get(id) as Subject);
+
+    const prerequisiteViolations: PrerequisiteViolation[] = [];
+    const missingPrerequisites: RoadmapScore['missingPrerequisites'] = [];
+    let pairs = 0;
+    known.forEach(subject => {
+      const term = terms.get(subject.id) as number;
+      graph.getDirectPrerequisites(subject.id).forEach(prerequisiteId => {
+        const prerequisiteTerm = terms.get(prerequisiteId);
+        if (prerequisiteTerm === undefined) {
+          if (!completed.has(prerequisiteId)) missingPrerequisites.push({ subjectId: subject.id, prerequisiteId });
+          return;
+        }
+        pairs++;
+        if (prerequisiteTerm >= term) {
+          prerequisiteViolations.push({ subjectId: subject.id, prerequisiteId, term, prerequisiteTerm });
+        }
+      });
+    });
+
+    const meanRelevance = known.length > 0
+      ? known.reduce((total, subject) => total + occupationTaxonomy.relevanceOf(subject, context.weights), 0) / known.length
+      : null;
+
+    const credits = new Map<number, number>();
+    known.forEach(subject => {
+      const term = terms.get(subject.id) as number;
+      credits.set(term, (credits.get(term) || 0) + subject.credits);
+    });
+    const usedTerms = Array.from(credits.keys());
+    const termCredits = usedTerms.length === 0 ? [] : Array.from(
+      { length: Math.max(...usedTerms) - Math.min(...usedTerms) + 1 },
+      (_, offset) => {
+        const term = Math.min(...usedTerms) + offset;
+        return { term, credits: credits.get(term) || 0 };
+      }
+    );
+    const creditSpread = this.coefficientOfVariation(termCredits.map(entry => entry.credits));
+
+    const required = (context.requirements || EEE_GRADUATION_REQUIREMENTS).requirements
+      .flatMap(requirement => (requirement.kind === 'required' ? requirement.subjectIds : []))
+      // Requirements name subjects of every catalog year; only this catalog's count
+      .filter(id => catalog.has(id));
+    const mandatoryIds = Array.from(new Set(required));
+    const mandatoryMissingIds = mandatoryIds.filter(id => !terms.has(id) && !completed.has(id));
+
+    const measures: Record<ScoreMeasure, number> = {
+      validity: nodes.length > 0 ? 1 - hallucinatedIds.length / nodes.length : 0,
+      prerequisites: pairs > 0 ? 1 - prerequisiteViolations.length / pairs : 1,
+      relevance: Math.min(1, meanRelevance ?? 0),
+      balance: termCredits.length > 0 ? Math.max(0, 1 - creditSpread) : 0,
+      mandatory: mandatoryIds.length > 0 ? 1 - mandatoryMissingIds.length / mandatoryIds.length : 1,
+    };
+    const overall = SCORE_MEASURES.reduce((total, measure) => total + SCORE_WEIGHTS[measure] * measures[measure], 0);
+
+    return {
+      subjects: nodes.length,
+      credits: known.reduce((total, subject) => total + subject.credits, 0),
+      hallucinatedIds,
+      prerequisiteViolations,
+      missingPrerequisites,
+      meanRelevance: meanRelevance === null ? null : round(meanRelevance),
+      termCredits,
+      creditSpread: round(creditSpread),
+      mandatoryIds,
+      mandatoryMissingIds,
+      measures: Object.fromEntries(SCORE_MEASURES.map(measure => [measure, round(measures[measure])])) as Record<ScoreMeasure, number>,
+      overall: round(overall),
+    };
+  }
+
+  private coefficientOfVariation(values: number[]): number {
+    if (values.length === 0) return 0;
+    const mean = values.reduce((total, value) => total + value, 0) / values.length;
+    if (mean === 0) return 0;
+    const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / values.length;
+    return Math.sqrt(variance) / mean;
+  }
+}
+
+export const roadmapScorer = new RoadmapScorer();
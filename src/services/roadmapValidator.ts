@@ -0,0 +1,218 @@
+import { GeneratedRoadmap, RoadmapNode, Subject } from './geminiService';
+import { PrerequisiteResolver } from './prerequisiteGraph';
+
+export type RoadmapIssueSeverity = 'error' | 'correction';
+
+export interface RoadmapIssue {
+  severity: RoadmapIssueSeverity;
+  // Node id as returned by the model, or null for roadmap-level problems
+  nodeId: string | null;
+  field: string;
+  message: string;
+}
+
+export interface RoadmapValidationOptions {
+  // Drop nodes whose id cannot be matched to the catalog (default) or keep them flagged
+  dropUnknown?: boolean;
+  // Keep a subject scheduled in a later offering of its catalog term, e.g. a retake a year later,
+  // instead of correcting it back; used for roadmaps edited by the student
+  allowLaterTerms?: boolean;
+}
+
+export interface RoadmapValidationResult {
+  roadmap: GeneratedRoadmap;
+  issues: RoadmapIssue[];
+  // True when the response needed more than catalog-field corrections
+  hasErrors: boolean;
+}
+
+const NODE_TYPES: RoadmapNode['type'][] = ['foundation', 'core', 'specialized', 'elective'];
+const CATALOG_FIELDS = ['name', 'credits', 'year', 'semester'] as const;
+export const LAST_SEMESTER = 8;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+const asNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// A subject can be retaken or postponed to the same term of a later year, never brought forward
+export const isLaterOffering = (subject: Pick<Subject, 'semester'>, semester: number): boolean =>
+  Number.isInteger(semester) &&
+  semester >= subject.semester &&
+  semester <= LAST_SEMESTER &&
+  (semester - subject.semester) % 2 === 0;
+
+export class RoadmapValidator {
+  validate(
+    raw: unknown,
+    subjects: Subject[],
+    options: RoadmapValidationOptions = {}
+  ): RoadmapValidationResult {
+    const dropUnknown = options.dropUnknown ?? true;
+    const issues: RoadmapIssue[] = [];
+    const error = (nodeId: string | null, field: string, message: string) =>
+      issues.push({ severity: 'error', nodeId, field, message });
+    const correction = (nodeId: string | null, field: string, message: string) =>
+      issues.push({ severity: 'correction', nodeId, field, message });
+
+    const catalog = new Map<string, Subject>();
+    subjects.forEach(subject => {
+      if (!catalog.has(subject.id)) catalog.set(subject.id, subject);
+    });
+    const resolver = new PrerequisiteResolver(subjects);
+
+    if (!isRecord(raw)) {
+      error(null, '$', 'Response is not a JSON object');
+      return { roadmap: this.emptyRoadmap(), issues, hasErrors: true };
+    }
+
+    (['title', 'description', 'occupation', 'reasoning'] as const).forEach(field => {
+      if (typeof raw[field] !== 'string') {
+        error(null, field, `"${field}" must be a string`);
+      }
+    });
+    if (!Array.isArray(raw.nodes)) {
+      error(null, 'nodes', '"nodes" must be an array');
+    }
+
+    // Model id -> catalog id, used to rewrite connects after nodes are repaired
+    const idMap = new Map<string, string>();
+    const nodes: RoadmapNode[] = [];
+
+    (Array.isArray(raw.nodes) ? raw.nodes : []).forEach((rawNode: unknown, index: number) => {
+      if (!isRecord(rawNode) || typeof rawNode.id !== 'string') {
+        error(null, `nodes[${index}]`, 'Node must be an object with a string "id"');
+        return;
+      }
+      const modelId = rawNode.id;
+      const corrections: string[] = [];
+
+      let subject = catalog.get(modelId);
+      if (!subject) {
+        // The model sometimes answers with a course code or name instead of the id
+        const resolved = resolver.resolve(modelId) || resolver.resolve(asString(rawNode.name));
+        subject = resolved ? catalog.get(resolved.id) : undefined;
+        if (subject) {
+          corrections.push(`id: ${modelId} → ${subject.id}`);
+          correction(modelId, 'id', `Unknown id "${modelId}" matched to ${subject.id}`);
+        }
+      }
+
+      if (!subject) {
+        error(modelId, 'id', `Subject "${modelId}" does not exist in the catalog`);
+        if (dropUnknown) return;
+      }
+
+      const id = subject ? subject.id : modelId;
+      if (nodes.some(node => node.id === id)) {
+        error(modelId, 'id', `Duplicate node for subject ${id}`);
+        return;
+      }
+      idMap.set(modelId, id);
+
+      const node: RoadmapNode = {
+        id,
+        name: asString(rawNode.name),
+        x: asNumber(rawNode.x, 0),
+        y: asNumber(rawNode.y, 0),
+        type: NODE_TYPES.includes(rawNode.type as RoadmapNode['type'])
+          ? (rawNode.type as RoadmapNode['type'])
+          : 'elective',
+        completed: rawNode.completed === true,
+        connects: Array.isArray(rawNode.connects)
+          ? rawNode.connects.filter((target: unknown): target is string => typeof target === 'string')
+          : [],
+        credits: asNumber(rawNode.credits, 0),
+        year: asNumber(rawNode.year, 0),
+        semester: asNumber(rawNode.semester, 0),
+        relevance_score: Math.min(1, Math.max(0, asNumber(rawNode.relevance_score, 0))),
+      };
+
+      if (!NODE_TYPES.includes(rawNode.type as RoadmapNode['type'])) {
+        corrections.push(`type: ${String(rawNode.type)} → elective`);
+        correction(modelId, 'type', `Invalid node type "${String(rawNode.type)}"`);
+      }
+
+      if (subject) {
+        const catalogSubject = subject;
+        const rescheduled = options.allowLaterTerms === true &&
+          isLaterOffering(catalogSubject, node.semester) &&
+          node.year === catalogSubject.year + (node.semester - catalogSubject.semester) / 2;
+        CATALOG_FIELDS.forEach(field => {
+          if (rescheduled && (field === 'year' || field === 'semester')) return;
+          const actual = catalogSubject[field];
+          if (node[field] !== actual) {
+            corrections.push(`${field}: ${String(rawNode[field])} → ${actual}`);
+            correction(modelId, field, `"${field}" was ${String(rawNode[field])}, catalog says ${actual}`);
+            Object.assign(node, { [field]: actual });
+          }
+        });
+      } else {
+        corrections.push('not in catalog');
+      }
+
+      if (corrections.length > 0) {
+        node.corrections = corrections;
+      }
+      nodes.push(node);
+    });
+
+    if (nodes.length === 0) {
+      error(null, 'nodes', 'Roadmap contains no valid subjects');
+    }
+
+    const nodeIds = new Set(nodes.map(node => node.id));
+    nodes.forEach(node => {
+      const connects: string[] = [];
+      node.connects.forEach(target => {
+        const id = idMap.get(target) || resolver.resolve(target)?.id;
+        if (!id || !nodeIds.has(id)) {
+          correction(node.id, 'connects', `Dropped connection to "${target}", which is not part of the roadmap`);
+        } else if (id !== node.id && !connects.includes(id)) {
+          connects.push(id);
+        }
+      });
+      node.connects = connects;
+    });
+
+    const totalCredits = nodes.reduce((total, node) => total + node.credits, 0);
+    if (raw.total_credits !== totalCredits) {
+      correction(null, 'total_credits', `total_credits was ${String(raw.total_credits)}, nodes sum to ${totalCredits}`);
+    }
+
+    return {
+      roadmap: {
+        title: asString(raw.title),
+        description: asString(raw.description),
+        occupation: asString(raw.occupation),
+        nodes,
+        total_credits: totalCredits,
+        reasoning: asString(raw.reasoning),
+      },
+      issues,
+      hasErrors: issues.some(issue => issue.severity === 'error'),
+    };
+  }
+
+  // Appended to the original prompt when asking the model to try again
+  createCorrectivePrompt(issues: RoadmapIssue[]): string {
+    const problems = issues
+      .filter(issue => issue.severity === 'error')
+      .map(issue => `- ${issue.nodeId ? `node ${issue.nodeId}, ` : ''}${issue.field}: ${issue.message}`)
+      .join('\n');
+    return `
+Your previous response had the following problems:
+${problems}
+
+Use only subject ids that appear in the list above, only connect to subjects included in "nodes", and return the complete corrected JSON object.
+`;
+  }
+
+  private emptyRoadmap(): GeneratedRoadmap {
+    return { title: '', description: '', occupation: '', nodes: [], total_credits: 0, reasoning: '' };
+  }
+}
+
+export const roadmapValidator = new RoadmapValidator();
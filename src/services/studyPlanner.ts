@@ -0,0 +1,223 @@
+import { Subject } from './geminiService';
+import { PrerequisiteGraph } from './prerequisiteGraph';
+
+export const TERM_COUNT = 8;
+export const DEFAULT_MAX_CREDITS_PER_TERM = 24;
+
+export interface StudyPlan {
+  // Semester (1-8) -> subject ids placed in that term
+  terms: Record<number, string[]>;
+  // Subjects that could not be placed automatically
+  unplaced: string[];
+  maxCreditsPerTerm: number;
+}
+
+// clash: reported by timetable.ts, from the subjects' class times
+export type PlanViolationKind = 'prerequisite' | 'offering' | 'credit_cap' | 'past_term' | 'completed' | 'unplaced' | 'clash';
+
+export interface PlanViolation {
+  kind: PlanViolationKind;
+  // Null for term-level violations such as the credit cap
+  subjectId: string | null;
+  semester: number | null;
+  message: string;
+}
+
+export interface PlannerOptions {
+  maxCreditsPerTerm?: number;
+  // First semester that can still be planned; earlier terms are in the past
+  startSemester?: number;
+  completedIds?: Iterable<string>;
+}
+
+const emptyTerms = (): Record<number, string[]> => {
+  const terms: Record<number, string[]> = {};
+  for (let semester = 1; semester <= TERM_COUNT; semester++) {
+    terms[semester] = [];
+  }
+  return terms;
+};
+
+// Courses run once a year, so a subject is offered in its catalog semester
+// and in the same season (前期/後期) of every later year.
+export const isOfferedIn = (subject: Subject, semester: number): boolean =>
+  semester >= subject.semester && (semester - subject.semester) % 2 === 0;
+
+export class StudyPlanner {
+  createPlan(
+    subjectIds: string[],
+    subjects: Subject[],
+    graph: PrerequisiteGraph,
+    options: PlannerOptions = {}
+  ): StudyPlan {
+    const maxCredits = options.maxCreditsPerTerm ?? DEFAULT_MAX_CREDITS_PER_TERM;
+    const startSemester = options.startSemester ?? 1;
+    const completed = new Set(options.completedIds || []);
+    const catalog = this.catalogOf(subjects);
+
+    const wanted = new Set(subjectIds.filter(id => catalog.has(id) && !completed.has(id)));
+    const terms = emptyTerms();
+    const credits: Record<number, number> = {};
+    const placedIn = new Map<string, number>();
+    const unplaced: string[] = subjectIds.filter(id => !catalog.has(id));
+
+    // Prerequisites are placed before the subjects that depend on them
+    graph.topologicalOrder().filter(id => wanted.has(id)).forEach(id => {
+      const subject = catalog.get(id)!;
+      const earliest = Math.max(
+        startSemester,
+        ...graph.getDirectPrerequisites(id)
+          .filter(prerequisite => placedIn.has(prerequisite))
+          .map(prerequisite => placedIn.get(prerequisite)! + 1)
+      );
+      const blockedByUnplaced = graph.getDirectPrerequisites(id)
+        .some(prerequisite => wanted.has(prerequisite) && !placedIn.has(prerequisite));
+
+      let semester = blockedByUnplaced ? TERM_COUNT + 1 : subject.semester;
+      while (semester <= TERM_COUNT && (
+        semester < earliest ||
+        !isOfferedIn(subject, semester) ||
+        (credits[semester] || 0) + subject.credits > maxCredits
+      )) {
+        semester++;
+      }
+
+      if (semester > TERM_COUNT) {
+        unplaced.push(id);
+        return;
+      }
+      terms[semester].push(id);
+      credits[semester] = (credits[semester] || 0) + subject.credits;
+      placedIn.set(id, semester);
+    });
+
+    return { terms, unplaced, maxCreditsPerTerm: maxCredits };
+  }
+
+  checkPlan(
+    plan: StudyPlan,
+    subjects: Subject[],
+    graph: PrerequisiteGraph,
+    options: PlannerOptions = {}
+  ): PlanViolation[] {
+    const startSemester = options.startSemester ?? 1;
+    const completed = new Set(options.completedIds || []);
+    const catalog = this.catalogOf(subjects);
+    const violations: PlanViolation[] = [];
+
+    const placedIn = new Map<string, number>();
+    Object.entries(plan.terms).forEach(([semester, ids]) => {
+      ids.forEach(id => placedIn.set(id, Number(semester)));
+    });
+
+    Object.entries(plan.terms).forEach(([key, ids]) => {
+      const semester = Number(key);
+      let termCredits = 0;
+
+      ids.forEach(id => {
+        const subject = catalog.get(id);
+        if (!subject) return;
+        termCredits += subject.credits;
+
+        if (completed.has(id)) {
+          violations.push({ kind: 'completed', subjectId: id, semester, message: `${subject.name} is already completed` });
+        }
+        if (semester < startSemester && !completed.has(id)) {
+          violations.push({ kind: 'past_term', subjectId: id, semester, message: `Semester ${semester} is already over` });
+        }
+        if (!isOfferedIn(subject, semester)) {
+          violations.push({
+            kind: 'offering',
+            subjectId: id,
+            semester,
+            message: `${subject.name} is offered in semester ${subject.semester}` +
+              (semester > subject.semester ? ' and the same season in later years' : ''),
+          });
+        }
+
+        graph.getDirectPrerequisites(id).forEach(prerequisiteId => {
+          if (completed.has(prerequisiteId)) return;
+          const prerequisiteSemester = placedIn.get(prerequisiteId);
+          const prerequisiteName = catalog.get(prerequisiteId)?.name || prerequisiteId;
+          if (prerequisiteSemester === undefined) {
+            violations.push({
+              kind: 'prerequisite',
+              subjectId: id,
+              semester,
+              message: `Requires ${prerequisiteName}, which is not completed or planned`,
+            });
+          } else if (prerequisiteSemester >= semester) {
+            violations.push({
+              kind: 'prerequisite',
+              subjectId: id,
+              semester,
+              message: `Requires ${prerequisiteName}, planned for semester ${prerequisiteSemester}`,
+            });
+          }
+        });
+      });
+
+      if (termCredits > plan.maxCreditsPerTerm) {
+        violations.push({
+          kind: 'credit_cap',
+          subjectId: null,
+          semester,
+          message: `Semester ${semester} has ${termCredits} credits (limit ${plan.maxCreditsPerTerm})`,
+        });
+      }
+    });
+
+    plan.unplaced.forEach(id => {
+      const subject = catalog.get(id);
+      violations.push({
+        kind: 'unplaced',
+        subjectId: id,
+        semester: null,
+        message: subject
+          ? `${subject.name} could not be placed: no remaining term offers it with room under the credit limit after its prerequisites`
+          : `${id} is not in the catalog`,
+      });
+    });
+
+    return violations;
+  }
+
+  moveSubject(plan: StudyPlan, subjectId: string, semester: number | null): StudyPlan {
+    const terms = emptyTerms();
+    Object.entries(plan.terms).forEach(([key, ids]) => {
+      terms[Number(key)] = ids.filter(id => id !== subjectId);
+    });
+    const unplaced = plan.unplaced.filter(id => id !== subjectId);
+    if (semester === null) {
+      unplaced.push(subjectId);
+    } else {
+      terms[semester].push(subjectId);
+    }
+    return { ...plan, terms, unplaced };
+  }
+
+  addSubject(plan: StudyPlan, subject: Subject): StudyPlan {
+    const alreadyPlanned = plan.unplaced.includes(subject.id) ||
+      Object.values(plan.terms).some(ids => ids.includes(subject.id));
+    return alreadyPlanned ? plan : this.moveSubject(plan, subject.id, subject.semester);
+  }
+
+  creditsPerTerm(plan: StudyPlan, subjects: Subject[]): Record<number, number> {
+    const catalog = this.catalogOf(subjects);
+    const credits: Record<number, number> = {};
+    Object.entries(plan.terms).forEach(([key, ids]) => {
+      credits[Number(key)] = ids.reduce((total, id) => total + (catalog.get(id)?.credits || 0), 0);
+    });
+    return credits;
+  }
+
+  private catalogOf(subjects: Subject[]): Map<string, Subject> {
+    const catalog = new Map<string, Subject>();
+    subjects.forEach(subject => {
+      if (!catalog.has(subject.id)) catalog.set(subject.id, subject);
+    });
+    return catalog;
+  }
+}
+
+export const studyPlanner = new StudyPlanner();
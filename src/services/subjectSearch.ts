@@ -0,0 +1,205 @@
+import { Subject } from './geminiService';
+
+export type SearchField = 'name' | 'code' | 'keywords' | 'syllabus' | 'learning_outcomes' | 'description';
+
+export interface SearchFilters {
+  years?: number[];
+  semesters?: number[];
+  credits?: number[];
+  departments?: string[];
+  // Only subjects scoring at least `score` for `occupation` in career_relevance
+  minRelevance?: { occupation: string; score: number };
+}
+
+export interface SearchResult {
+  subject: Subject;
+  score: number;
+  matchedFields: SearchField[];
+}
+
+export interface FacetValue<T> {
+  value: T;
+  count: number;
+}
+
+export interface SearchFacets {
+  years: FacetValue<number>[];
+  semesters: FacetValue<number>[];
+  credits: FacetValue<number>[];
+  departments: FacetValue<string>[];
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 5,
+  code: 5,
+  keywords: 3,
+  syllabus: 1.5,
+  learning_outcomes: 1.5,
+  description: 1,
+};
+
+// Extra weight when the whole query appears verbatim in a field
+const PHRASE_BONUS = 2;
+
+// Kana (including ー), kanji and 々; runs of these are split into bigrams
+const CJK_RUN = /[\u3005\u3006\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]+/g;
+const WORD = /[a-z0-9]+/g;
+
+// NFKC folds full-width/half-width variants (ＬＳＩ, ｶﾅ, １) before matching
+export const normalizeText = (value: string): string => value.normalize('NFKC').toLowerCase();
+
+// Latin/digit words are kept whole; Japanese runs become overlapping bigrams since there are no spaces
+export const tokenize = (value: string): string[] => {
+  const text = normalizeText(value);
+  const tokens: string[] = text.match(WORD) || [];
+  (text.match(CJK_RUN) || []).forEach(run => {
+    if (run.length === 1) {
+      tokens.push(run);
+      return;
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.push(run.slice(i, i + 2));
+    }
+  });
+  return tokens;
+};
+
+interface IndexedSubject {
+  subject: Subject;
+  text: Record<SearchField, string>;
+  tokens: Record<SearchField, Set<string>>;
+}
+
+const fieldText = (subject: Subject): Record<SearchField, string> => {
+  // English translations are indexed alongside the originals so either language finds a subject
+  const join = (...values: (string | string[] | undefined)[]) =>
+    values.flat().filter((value): value is string => typeof value === 'string').join(' ');
+  return {
+    name: join(subject.name, subject.name_en),
+    code: join(subject.code, subject.id),
+    keywords: join(subject.keywords, subject.keywords_en),
+    syllabus: join(subject.syllabus, subject.syllabus_en),
+    learning_outcomes: join(subject.learning_outcomes, subject.learning_outcomes_en),
+    description: join(subject.description, subject.description_en),
+  };
+};
+
+const FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+const countBy = <T extends string | number>(values: T[]): FacetValue<T>[] => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count }));
+};
+
+export class SubjectSearchIndex {
+  private entries: IndexedSubject[] = [];
+  private documentFrequency = new Map<string, number>();
+
+  constructor(subjects: Subject[]) {
+    // First occurrence wins, as in the prerequisite graph
+    const seen = new Set<string>();
+    subjects.forEach(subject => {
+      if (seen.has(subject.id)) return;
+      seen.add(subject.id);
+      const text = fieldText(subject);
+      const tokens = {} as Record<SearchField, Set<string>>;
+      FIELDS.forEach(field => {
+        tokens[field] = new Set(tokenize(text[field]));
+      });
+      this.entries.push({ subject, text: this.normalizeFields(text), tokens });
+
+      const unique = new Set(FIELDS.flatMap(field => Array.from(tokens[field])));
+      unique.forEach(token => {
+        this.documentFrequency.set(token, (this.documentFrequency.get(token) || 0) + 1);
+      });
+    });
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  // An empty query returns every subject that passes the filters, in catalog order
+  search(query: string, filters: SearchFilters = {}): SearchResult[] {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    const phrase = normalizeText(query).trim();
+    const candidates = this.entries.filter(entry => this.matchesFilters(entry.subject, filters));
+
+    if (queryTokens.length === 0) {
+      return candidates.map(entry => ({ subject: entry.subject, score: 0, matchedFields: [] }));
+    }
+
+    const results: SearchResult[] = [];
+    candidates.forEach(entry => {
+      let score = 0;
+      const matchedFields = new Set<SearchField>();
+      // Every query token has to occur somewhere; each counts once, in its best field,
+      // so a long description cannot outrank a match in the name
+      const allFound = queryTokens.every(token => {
+        const fields = FIELDS.filter(field => entry.tokens[field].has(token));
+        fields.forEach(field => matchedFields.add(field));
+        score += this.bestWeight(fields) * this.idf(token);
+        return fields.length > 0;
+      });
+      if (!allFound) return;
+
+      score += this.bestWeight(FIELDS.filter(field => phrase && entry.text[field].includes(phrase))) * PHRASE_BONUS;
+      results.push({
+        subject: entry.subject,
+        score: Math.round(score * 100) / 100,
+        matchedFields: FIELDS.filter(field => matchedFields.has(field)),
+      });
+    });
+
+    return results.sort((a, b) => b.score - a.score || a.subject.semester - b.subject.semester);
+  }
+
+  facets(subjects: Subject[]): SearchFacets {
+    return {
+      years: countBy(subjects.map(subject => subject.year)).sort((a, b) => a.value - b.value),
+      semesters: countBy(subjects.map(subject => subject.semester)).sort((a, b) => a.value - b.value),
+      credits: countBy(subjects.map(subject => subject.credits)).sort((a, b) => a.value - b.value),
+      departments: countBy(subjects.map(subject => subject.department.trim()).filter(Boolean))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
+  // Occupations that appear in any subject's career_relevance
+  occupations(): string[] {
+    const keys = new Set<string>();
+    this.entries.forEach(entry => Object.keys(entry.subject.career_relevance || {}).forEach(key => keys.add(key)));
+    return Array.from(keys).sort();
+  }
+
+  private matchesFilters(subject: Subject, filters: SearchFilters): boolean {
+    const within = <T>(allowed: T[] | undefined, value: T) => !allowed || allowed.length === 0 || allowed.includes(value);
+    if (!within(filters.years, subject.year)) return false;
+    if (!within(filters.semesters, subject.semester)) return false;
+    if (!within(filters.credits, subject.credits)) return false;
+    if (!within(filters.departments, subject.department.trim())) return false;
+    if (filters.minRelevance) {
+      const { occupation, score } = filters.minRelevance;
+      if ((subject.career_relevance?.[occupation] || 0) < score) return false;
+    }
+    return true;
+  }
+
+  private bestWeight(fields: SearchField[]): number {
+    return Math.max(0, ...fields.map(field => FIELD_WEIGHTS[field]));
+  }
+
+  // Rare tokens (a specific course topic) outweigh ones shared by most subjects (電気)
+  private idf(token: string): number {
+    const frequency = this.documentFrequency.get(token) || 0;
+    return Math.log(1 + (this.entries.length + 1) / (frequency + 1));
+  }
+
+  private normalizeFields(text: Record<SearchField, string>): Record<SearchField, string> {
+    const normalized = {} as Record<SearchField, string>;
+    FIELDS.forEach(field => {
+      normalized[field] = normalizeText(text[field]);
+    });
+    return normalized;
+  }
+}
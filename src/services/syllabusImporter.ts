@@ -0,0 +1,329 @@
+import { Subject, TimeSlot, Weekday } from './geminiService';
+import { normalizeLabel, PLACEHOLDER_PREREQUISITES } from './prerequisiteGraph';
+
+// Reads syllabus pages saved from the university's syllabus system (HTML) and its CSV exports into
+// Subject fields. Merging into a catalog is done by catalogMerge.ts; both are used by
+// scripts/import-syllabus.ts
+
+export type ImportedFields = Partial<Pick<Subject,
+  'code' | 'name' | 'credits' | 'year' | 'semester' | 'department' | 'syllabus' | 'description' |
+  'prerequisites' | 'keywords' | 'learning_outcomes' | 'schedule'>>;
+
+export interface ImportedSubject {
+  // File the subject was read from, with the row for CSV exports
+  source: string;
+  // 科目ナンバリング (e.g. EENG3070JEEE); the catalog uses it as the id of subjects that have one
+  numbering?: string;
+  // Only the fields the source had a value for
+  fields: ImportedFields;
+}
+
+export interface SyllabusImportResult {
+  subjects: ImportedSubject[];
+  // Records without a code or name, and values that could not be read
+  warnings: string[];
+}
+
+type FieldKey = Exclude<keyof ImportedFields, 'schedule'> | 'numbering' | 'term' | 'purpose' | 'slots';
+
+// Labels used by the syllabus system and its exports, compared after normalizeLabel
+const FIELD_LABELS: Record<FieldKey, string[]> = {
+  code: ['時間割コード', '時間割番号', '授業コード', '講義コード', 'coursecode', 'code'],
+  numbering: ['科目ナンバリング', 'ナンバリング', 'ナンバリングコード', 'numbering', 'coursenumber'],
+  name: ['授業科目名', '科目名', '授業科目', '講義名', 'coursetitle', 'title', 'name'],
+  credits: ['単位数', '単位', 'credits'],
+  year: ['開講年次', '対象年次', '配当年次', '年次', 'year'],
+  semester: ['セメスター', 'semester'],
+  term: ['開講期', '開講学期', '学期', '開講時期', 'term'],
+  slots: ['曜日・時限', '曜日時限', '曜時限', '曜限', '曜日・校時', 'dayperiod', 'day/period'],
+  department: ['開講学科', '対象学科', '開講コース', '学科', 'コース', 'department'],
+  syllabus: ['授業計画', '授業内容', '授業計画・内容', 'schedule', 'courseplan'],
+  description: ['授業の概要', '概要', '授業概要', 'description', 'outline'],
+  purpose: ['授業の目的', '目的', 'purpose'],
+  prerequisites: ['先修科目', '履修要件', '前提科目', '関連科目（先修）', 'prerequisites'],
+  keywords: ['キーワード', 'keywords'],
+  learning_outcomes: ['到達目標', '学習到達目標', '授業の到達目標', 'learningoutcomes', 'outcomes'],
+};
+
+const LABEL_LOOKUP = new Map<string, FieldKey>(
+  (Object.entries(FIELD_LABELS) as [FieldKey, string[]][]).flatMap(([field, labels]) =>
+    labels.map(label => [normalizeLabel(label), field] as [string, FieldKey]))
+);
+
+// CSV exports spread the weekly plan over one column per class: 第1回, 授業計画2, ...
+const WEEK_COLUMN = /^(?:第|授業計画|week)(\d+)回?$/;
+// Numbering in front of list items: 第1回, 1., (2), ３）, ①. Digits that start the text itself
+// (2階線形常微分方程式) are kept
+const ITEM_PREFIX = /^(?:第\s*[0-9０-９]+\s*回|[(（]\s*[0-9０-９]+\s*[)）]|[0-9０-９]+\s*[.．、:：)）](?![0-9０-９])|[①-⑳])\s*[:：．.、]?\s*/;
+const LIST_SEPARATORS = /[\n、，,;；／/]+/;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// Block-level tags become line breaks so lists and paragraphs survive as lines
+const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/?(?:p|div|li|tr|ul|ol|dd|dt|h\d)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t　]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+const linesOf = (text: string): string[] =>
+  text.split('\n').map(line => line.replace(ITEM_PREFIX, '').trim()).filter(Boolean);
+
+const listOf = (text: string): string[] =>
+  text.split(LIST_SEPARATORS).map(item => item.replace(/^[「『"]|[」』"]$/g, '').trim()).filter(Boolean);
+
+const numberIn = (text: string): number | undefined => {
+  const match = text.normalize('NFKC').match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+};
+
+// 1Q-4Q, also written 第1クォーター, compared after normalizeLabel
+const QUARTER = /([1-4])q\b|第?([1-4])クォ[ー-]?ター/;
+
+const quarterOf = (text: string): number | undefined => {
+  const match = normalizeLabel(text).match(QUARTER);
+  return match ? Number(match[1] || match[2]) : undefined;
+};
+
+// 前期/春学期 and 1Q/2Q are the first semester of the year, 後期/秋学期 the second; 通年 counts as the first
+const termOf = (text: string): 1 | 2 | undefined => {
+  const normalized = normalizeLabel(text);
+  const quarter = quarterOf(text);
+  if (quarter) return quarter <= 2 ? 1 : 2;
+  if (/後期|後学期|秋|第2学期|2学期|fall|autumn|second/.test(normalized)) return 2;
+  if (/前期|前学期|春|通年|第1学期|1学期|spring|first/.test(normalized)) return 1;
+  return undefined;
+};
+
+const DAYS: Record<string, Weekday> = {
+  月: 'mon', 火: 'tue', 水: 'wed', 木: 'thu', 金: 'fri', 土: 'sat',
+  mon: 'mon', tue: 'tue', wed: 'wed', thu: 'thu', fri: 'fri', sat: 'sat',
+};
+// A day followed by its periods: 月3, 月 3・4, 火1-2, Wed 5
+const SLOT_GROUP = /(月|火|水|木|金|土|mon|tue|wed|thu|fri|sat)[a-z]*\s*(?:曜日?)?\s*([1-5](?:\s*[・,、~〜-]\s*[1-5])*)/g;
+// Intensive courses and courses arranged with the students have no weekly slot
+const NO_SLOTS = /集中|その他|随時|未定|intensive/;
+
+// Slots of a 曜日・時限 value such as "月 3・4、木 2"; undefined when it can't be read
+const slotsOf = (text: string): TimeSlot[] | undefined => {
+  const normalized = text.normalize('NFKC').toLowerCase();
+  const slots: TimeSlot[] = [];
+  Array.from(normalized.matchAll(SLOT_GROUP)).forEach(([, day, periods]) => {
+    Array.from(periods.matchAll(/(\d)\s*[~〜-]\s*(\d)|(\d)/g)).forEach(([, from, to, single]) => {
+      const first = Number(from || single);
+      const last = Number(to || single);
+      for (let period = first; period <= last; period++) slots.push({ day: DAYS[day], period });
+    });
+  });
+  if (slots.length > 0) return slots;
+  return NO_SLOTS.test(normalized) ? [] : undefined;
+};
+
+const fieldOf = (label: string): FieldKey | undefined =>
+  LABEL_LOOKUP.get(normalizeLabel(label.replace(/[:：]$/, '')));
+
+// Turns label/value pairs into Subject fields. Values are plain text with one line per list item
+const buildSubject = (source: string, pairs: [FieldKey, string][], warnings: string[]): ImportedSubject | null => {
+  const values = new Map<FieldKey, string>();
+  pairs.forEach(([field, value]) => {
+    if (value && !values.has(field)) values.set(field, value);
+  });
+  const fields: ImportedFields = {};
+  const text = (field: FieldKey) => values.get(field);
+  const warn = (message: string) => warnings.push(`${source}: ${message}`);
+
+  const code = text('code')?.replace(/\s+/g, '');
+  if (code) fields.code = code;
+  const name = text('name')?.replace(/\n/g, ' ');
+  if (name) fields.name = name;
+  if (!code && !name) {
+    if (values.size > 0) warn('skipped a record without a course code or name');
+    return null;
+  }
+
+  const numeric = (field: 'credits' | 'year' | 'semester', check: (value: number) => boolean) => {
+    const raw = text(field);
+    if (raw === undefined) return;
+    const value = numberIn(raw);
+    if (value !== undefined && check(value)) fields[field] = value;
+    else warn(`could not read ${field} from "${raw}"`);
+  };
+  numeric('credits', value => value > 0);
+  numeric('year', value => Number.isInteger(value) && value >= 1 && value <= 4);
+  numeric('semester', value => Number.isInteger(value) && value >= 1 && value <= 8);
+  const term = text('term');
+  // Some pages give the year inside the term, as in 2年前期
+  if (fields.year === undefined && term !== undefined) {
+    const year = numberIn(normalizeLabel(term).replace(QUARTER, ''));
+    if (year !== undefined && Number.isInteger(year) && year >= 1 && year <= 4) fields.year = year;
+  }
+  if (fields.semester === undefined && term !== undefined) {
+    const half = termOf(term);
+    if (half && fields.year) fields.semester = fields.year * 2 - 2 + half;
+    else warn(`could not read the semester from "${term}"${half ? ' without a year' : ''}`);
+  }
+
+  const slotText = text('slots');
+  if (slotText !== undefined) {
+    const slots = slotsOf(slotText);
+    const quarter = term !== undefined ? quarterOf(term) : undefined;
+    if (slots === undefined) warn(`could not read class times from "${slotText}"`);
+    else if (slots.length > 0) {
+      fields.schedule = { ...(quarter ? { term: quarter % 2 === 1 ? 'first_quarter' : 'second_quarter' } : {}), slots };
+    }
+  }
+
+  const department = text('department')?.replace(/\n/g, ' ');
+  if (department) fields.department = department;
+  // Pages that split the overview into purpose and outline get both, purpose first
+  const description = [text('purpose'), text('description')].filter(Boolean).join('\n');
+  if (description) fields.description = description;
+
+  const syllabus = text('syllabus');
+  if (syllabus) fields.syllabus = linesOf(syllabus);
+  const outcomes = text('learning_outcomes');
+  if (outcomes) fields.learning_outcomes = linesOf(outcomes);
+  const keywords = text('keywords');
+  if (keywords) fields.keywords = listOf(keywords);
+  const prerequisites = text('prerequisites');
+  if (prerequisites !== undefined) {
+    fields.prerequisites = listOf(prerequisites)
+      .filter(item => !PLACEHOLDER_PREREQUISITES.includes(normalizeLabel(item)));
+  }
+
+  const numbering = text('numbering')?.replace(/\s+/g, '');
+  return { source, ...(numbering ? { numbering } : {}), fields };
+};
+
+// Parses RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^﻿/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+export class SyllabusImporter {
+  // One subject per row; the first row names the columns
+  parseCsvExport(text: string, source: string): SyllabusImportResult {
+    const warnings: string[] = [];
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return { subjects: [], warnings: [`${source}: empty CSV file`] };
+
+    const columns = header.map(label => {
+      const week = normalizeLabel(label).match(WEEK_COLUMN);
+      return week ? { week: Number(week[1]) } : { field: fieldOf(label) };
+    });
+    const ignored = header.filter((_, index) => !columns[index].field && !columns[index].week);
+    if (ignored.length > 0) warnings.push(`${source}: ignored columns ${ignored.join(', ')}`);
+
+    const subjects = rows.flatMap((cells, rowIndex) => {
+      const pairs: [FieldKey, string][] = [];
+      const weeks: [number, string][] = [];
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        const value = cell.trim();
+        if (!column || !value) return;
+        if (column.week) weeks.push([column.week, value.replace(/\n/g, ' ')]);
+        else if (column.field) pairs.push([column.field, value]);
+      });
+      if (weeks.length > 0) {
+        pairs.push(['syllabus', weeks.sort((a, b) => a[0] - b[0]).map(([, topic]) => topic).join('\n')]);
+      }
+      const subject = buildSubject(`${source}:${rowIndex + 2}`, pairs, warnings);
+      return subject ? [subject] : [];
+    });
+    return { subjects, warnings };
+  }
+
+  // Label/value pairs are read from table rows (<th>label</th><td>value</td>, possibly several
+  // pairs per row) and definition lists. A page normally holds one subject; a course code label
+  // that appears again starts the next one, so saved search results with details work too
+  parseHtmlPage(html: string, source: string): SyllabusImportResult {
+    const warnings: string[] = [];
+    const body = html.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '').replace(/<!--[\s\S]*?-->/g, '');
+    const pairs: [FieldKey, string][] = [];
+    const cellPattern = /<(th|td|dt|dd)\b[^>]*>([\s\S]*?)(?=<\/?(?:th|td|dt|dd|tr|dl|table)\b)/gi;
+    let label: string | null = null;
+    let match: RegExpExecArray | null;
+    while ((match = cellPattern.exec(body)) !== null) {
+      const tag = match[1].toLowerCase();
+      const text = htmlToText(match[2]);
+      if (tag === 'th' || tag === 'dt') {
+        label = text;
+      } else if (label !== null) {
+        const field = fieldOf(label);
+        if (field) pairs.push([field, text]);
+        label = null;
+      }
+    }
+
+    const subjects: ImportedSubject[] = [];
+    let current: [FieldKey, string][] = [];
+    const flush = () => {
+      const subject = buildSubject(subjects.length > 0 ? `${source}#${subjects.length + 1}` : source, current, warnings);
+      if (subject) subjects.push(subject);
+      current = [];
+    };
+    pairs.forEach(pair => {
+      if (pair[0] === 'code' && current.some(([field]) => field === 'code')) flush();
+      current.push(pair);
+    });
+    flush();
+    if (subjects.length === 0) warnings.push(`${source}: no syllabus fields found`);
+    return { subjects, warnings };
+  }
+
+  parse(text: string, source: string, format: 'html' | 'csv'): SyllabusImportResult {
+    return format === 'csv' ? this.parseCsvExport(text, source) : this.parseHtmlPage(text, source);
+  }
+}
+
+export const syllabusImporter = new SyllabusImporter();
@@ -0,0 +1,347 @@
+import { Subject } from './geminiService';
+import { normalizeLabel, PLACEHOLDER_PREREQUISITES, PrerequisiteResolver } from './prerequisiteGraph';
+import { PERIOD_COUNT, SCHEDULE_TERMS, WEEKDAYS } from './timetable';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  // Index into data.subjects, or null for file-level problems
+  index: number | null;
+  subjectId?: string;
+  field: string;
+  message: string;
+}
+
+export interface SyllabusValidationReport {
+  subjectCount: number;
+  validSubjectCount: number;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  isDegraded: boolean;
+}
+
+export interface SyllabusValidationResult {
+  subjects: Subject[];
+  // Index into data.subjects of each usable subject
+  sourceIndexes: number[];
+  report: SyllabusValidationReport;
+}
+
+// What to do with the later subjects that repeat an id: exact copies are skipped, other
+// subjects are kept under a new id
+interface DuplicateIds {
+  copies: Set<number>;
+  renamed: Map<number, string>;
+}
+
+const STRING_FIELDS = ['id', 'code', 'name', 'department'] as const;
+const STRING_ARRAY_FIELDS = ['syllabus', 'prerequisites', 'keywords', 'learning_outcomes'] as const;
+const OPTIONAL_STRING_FIELDS = ['name_en', 'description_en'] as const;
+const OPTIONAL_STRING_ARRAY_FIELDS = ['syllabus_en', 'keywords_en', 'learning_outcomes_en'] as const;
+const MAX_DEPARTMENT_LENGTH = 40;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export class SyllabusValidator {
+  validate(data: unknown): SyllabusValidationResult {
+    const issues: ValidationIssue[] = [];
+    const subjects: Subject[] = [];
+    const sourceIndexes: number[] = [];
+
+    if (!isRecord(data) || !Array.isArray(data.subjects)) {
+      issues.push({
+        severity: 'error',
+        index: null,
+        field: 'subjects',
+        message: 'Expected a top-level object with a "subjects" array',
+      });
+      return { subjects, sourceIndexes, report: this.buildReport(0, 0, issues) };
+    }
+
+    const rawSubjects: unknown[] = data.subjects;
+    rawSubjects.forEach((raw, index) => issues.push(...this.validateSchema(raw, index)));
+    const duplicates = this.findDuplicateIds(rawSubjects, issues);
+    issues.push(...this.validateSemantics(rawSubjects));
+
+    // Any error keeps a subject out, and so does an exact copy of an earlier subject. A subject
+    // that shares its id with a different one is kept under a new id, so the app never sees two
+    // subjects under one id
+    const rejected = new Set(issues.filter(issue => issue.severity === 'error').map(issue => issue.index));
+    rawSubjects.forEach((raw, index) => {
+      if (rejected.has(index) || duplicates.copies.has(index)) return;
+      subjects.push(this.normalize(raw as Record<string, unknown>, duplicates.renamed.get(index)));
+      sourceIndexes.push(index);
+    });
+
+    return {
+      subjects,
+      sourceIndexes,
+      report: this.buildReport(rawSubjects.length, subjects.length, issues),
+    };
+  }
+
+  private validateSchema(raw: unknown, index: number): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (!isRecord(raw)) {
+      issues.push({ severity: 'error', index, field: '$', message: 'Subject must be an object' });
+      return issues;
+    }
+
+    const subjectId = typeof raw.id === 'string' ? raw.id : undefined;
+    const error = (field: string, message: string) =>
+      issues.push({ severity: 'error', index, subjectId, field, message });
+
+    STRING_FIELDS.forEach(field => {
+      if (typeof raw[field] !== 'string') {
+        error(field, `"${field}" must be a string`);
+      }
+    });
+    if (Array.isArray(raw.description) && raw.description.every(item => typeof item === 'string')) {
+      issues.push({
+        severity: 'warning',
+        index,
+        subjectId,
+        field: 'description',
+        message: '"description" is a list; its lines are joined into one string',
+      });
+    } else if (typeof raw.description !== 'string') {
+      error('description', '"description" must be a string');
+    }
+
+    if (typeof raw.credits !== 'number' || !(raw.credits > 0)) {
+      error('credits', '"credits" must be a positive number');
+    }
+    if (typeof raw.year !== 'number' || !Number.isInteger(raw.year) || raw.year < 1 || raw.year > 4) {
+      error('year', '"year" must be an integer between 1 and 4');
+    }
+    if (typeof raw.semester !== 'number' || !Number.isInteger(raw.semester) || raw.semester < 1 || raw.semester > 8) {
+      error('semester', '"semester" must be an integer between 1 and 8');
+    }
+
+    STRING_ARRAY_FIELDS.forEach(field => {
+      const value = raw[field];
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        error(field, `"${field}" must be an array of strings`);
+      }
+    });
+
+    OPTIONAL_STRING_FIELDS.forEach(field => {
+      if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+        error(field, `"${field}" must be a string when present`);
+      }
+    });
+    OPTIONAL_STRING_ARRAY_FIELDS.forEach(field => {
+      const value = raw[field];
+      if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+        error(field, `"${field}" must be an array of strings when present`);
+      }
+    });
+
+    if (raw.career_relevance !== undefined) {
+      if (!isRecord(raw.career_relevance)) {
+        error('career_relevance', '"career_relevance" must be an object');
+      } else {
+        Object.entries(raw.career_relevance).forEach(([occupation, score]) => {
+          if (typeof score !== 'number' || score < 0 || score > 1) {
+            error(`career_relevance.${occupation}`, 'Relevance score must be a number between 0 and 1');
+          }
+        });
+      }
+    }
+
+    if (raw.career_relevance_reason !== undefined) {
+      if (!isRecord(raw.career_relevance_reason)) {
+        error('career_relevance_reason', '"career_relevance_reason" must be an object');
+      } else {
+        Object.entries(raw.career_relevance_reason).forEach(([occupation, reason]) => {
+          if (typeof reason !== 'string') {
+            error(`career_relevance_reason.${occupation}`, 'Relevance reason must be a string');
+          }
+        });
+      }
+    }
+
+    if (raw.career_relevance_pinned !== undefined) {
+      const pinned = raw.career_relevance_pinned;
+      if (!Array.isArray(pinned) || pinned.some(item => typeof item !== 'string')) {
+        error('career_relevance_pinned', '"career_relevance_pinned" must be an array of occupation keys');
+      }
+    }
+
+    if (raw.schedule !== undefined) {
+      const schedule = raw.schedule;
+      if (!isRecord(schedule)) {
+        error('schedule', '"schedule" must be an object');
+      } else {
+        if (schedule.term !== undefined && !SCHEDULE_TERMS.includes(schedule.term as never)) {
+          error('schedule.term', `"schedule.term" must be one of ${SCHEDULE_TERMS.join(', ')}`);
+        }
+        if (!Array.isArray(schedule.slots) || schedule.slots.length === 0) {
+          error('schedule.slots', '"schedule.slots" must be a non-empty array');
+        } else {
+          schedule.slots.forEach((slot: unknown, slotIndex: number) => {
+            const field = `schedule.slots[${slotIndex}]`;
+            if (!isRecord(slot) || !WEEKDAYS.includes(slot.day as never)) {
+              error(field, `Slot day must be one of ${WEEKDAYS.join(', ')}`);
+            } else if (typeof slot.period !== 'number' || !Number.isInteger(slot.period) ||
+              slot.period < 1 || slot.period > PERIOD_COUNT) {
+              error(field, `Slot period must be an integer between 1 and ${PERIOD_COUNT}`);
+            }
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private normalize(raw: Record<string, unknown>, renamedId: string | undefined): Subject {
+    if (!Array.isArray(raw.description) && renamedId === undefined) return raw as unknown as Subject;
+    return {
+      ...raw,
+      ...(renamedId !== undefined ? { id: renamedId } : {}),
+      ...(Array.isArray(raw.description) ? { description: raw.description.join('\n') } : {}),
+    } as unknown as Subject;
+  }
+
+  private findDuplicateIds(rawSubjects: unknown[], issues: ValidationIssue[]): DuplicateIds {
+    const copies = new Set<number>();
+    const renamed = new Map<number, string>();
+    const idIndexes = new Map<string, number[]>();
+    rawSubjects.forEach((raw, index) => {
+      if (isRecord(raw) && typeof raw.id === 'string') {
+        idIndexes.set(raw.id, [...(idIndexes.get(raw.id) || []), index]);
+      }
+    });
+
+    const usedIds = new Set(idIndexes.keys());
+    idIndexes.forEach((indexes, id) => {
+      const first = indexes[0];
+      const firstJson = JSON.stringify(rawSubjects[first]);
+      let suffix = 1;
+      indexes.slice(1).forEach(index => {
+        const issue = { severity: 'warning' as const, index, subjectId: id, field: 'id' };
+        if (JSON.stringify(rawSubjects[index]) === firstJson) {
+          copies.add(index);
+          issues.push({ ...issue, message: `Copy of the subject at index ${first}; skipped` });
+          return;
+        }
+        let newId: string;
+        do {
+          suffix += 1;
+          newId = `${id}-${suffix}`;
+        } while (usedIds.has(newId));
+        usedIds.add(newId);
+        renamed.set(index, newId);
+        issues.push({ ...issue, message: `Duplicate id "${id}" (first used at index ${first}); kept as "${newId}"` });
+      });
+    });
+
+    return { copies, renamed };
+  }
+
+  private validateSemantics(rawSubjects: unknown[]): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const codeIndexes = new Map<string, number[]>();
+    const resolver = new PrerequisiteResolver(
+      rawSubjects.filter(isRecord).map(raw => ({
+        id: typeof raw.id === 'string' ? raw.id : '',
+        code: typeof raw.code === 'string' ? raw.code : '',
+        name: typeof raw.name === 'string' ? raw.name : '',
+      }))
+    );
+
+    rawSubjects.forEach((raw, index) => {
+      if (!isRecord(raw)) return;
+      if (typeof raw.code === 'string') {
+        codeIndexes.set(raw.code, [...(codeIndexes.get(raw.code) || []), index]);
+      }
+    });
+
+    codeIndexes.forEach((indexes, code) => {
+      indexes.slice(1).forEach(index => issues.push({
+        severity: 'warning',
+        index,
+        subjectId: (rawSubjects[index] as Record<string, unknown>).id as string,
+        field: 'code',
+        message: `Duplicate code "${code}" (first used at index ${indexes[0]})`,
+      }));
+    });
+
+    rawSubjects.forEach((raw, index) => {
+      if (!isRecord(raw)) return;
+      const subjectId = typeof raw.id === 'string' ? raw.id : undefined;
+      const warn = (field: string, message: string) =>
+        issues.push({ severity: 'warning', index, subjectId, field, message });
+
+      if (typeof raw.id === 'string' && !raw.id.trim()) {
+        issues.push({ severity: 'error', index, subjectId, field: 'id', message: 'Subject id is empty' });
+      }
+      if (typeof raw.name === 'string' && !raw.name.trim()) {
+        issues.push({ severity: 'error', index, subjectId, field: 'name', message: 'Subject name is empty' });
+      }
+
+      if (typeof raw.year === 'number' && typeof raw.semester === 'number') {
+        const expected = [raw.year * 2 - 1, raw.year * 2];
+        if (!expected.includes(raw.semester)) {
+          warn('semester', `Semester ${raw.semester} does not belong to year ${raw.year} (expected ${expected.join(' or ')})`);
+        }
+      }
+
+      if (isRecord(raw.schedule) && Array.isArray(raw.schedule.slots)) {
+        const slots = raw.schedule.slots.filter(isRecord).map(slot => `${slot.day} ${slot.period}`);
+        if (new Set(slots).size < slots.length) warn('schedule.slots', 'The same slot is listed more than once');
+      }
+
+      if (typeof raw.department === 'string' && raw.department.length > MAX_DEPARTMENT_LENGTH) {
+        warn('department', 'Department looks like free text rather than a department name');
+      }
+
+      if (Array.isArray(raw.prerequisites)) {
+        raw.prerequisites.forEach((prerequisite: unknown, prereqIndex: number) => {
+          if (typeof prerequisite !== 'string') return;
+          const field = `prerequisites[${prereqIndex}]`;
+          const normalized = normalizeLabel(prerequisite);
+          if (!normalized) {
+            warn(field, 'Empty prerequisite entry');
+          } else if (PLACEHOLDER_PREREQUISITES.includes(normalized)) {
+            warn(field, `Placeholder prerequisite "${prerequisite}" should be an empty list`);
+          } else {
+            const resolved = resolver.resolve(prerequisite);
+            if (!resolved) {
+              warn(field, `Prerequisite "${prerequisite}" does not match any subject id, code or name`);
+            } else if (resolved.id === subjectId) {
+              warn(field, 'Subject lists itself as a prerequisite');
+            }
+          }
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  private buildReport(subjectCount: number, validSubjectCount: number, issues: ValidationIssue[]): SyllabusValidationReport {
+    // Keep issues in file order so reports read top to bottom
+    const sorted = [...issues].sort((a, b) => (a.index ?? -1) - (b.index ?? -1));
+    const errors = sorted.filter(issue => issue.severity === 'error');
+    const warnings = sorted.filter(issue => issue.severity === 'warning');
+    return {
+      subjectCount,
+      validSubjectCount,
+      errors,
+      warnings,
+      isDegraded: errors.length > 0,
+    };
+  }
+}
+
+export const formatValidationIssue = (issue: ValidationIssue): string => {
+  const location = issue.index === null ? 'file' : `subjects[${issue.index}]`;
+  const subject = issue.subjectId ? ` (${issue.subjectId})` : '';
+  return `${issue.severity.toUpperCase()} ${location}${subject} ${issue.field}: ${issue.message}`;
+};
+
+export const syllabusValidator = new SyllabusValidator();
@@ -0,0 +1,308 @@
+import { ScheduleTerm, Subject, SubjectSchedule, Weekday } from './geminiService';
+import { PrerequisiteGraph } from './prerequisiteGraph';
+import { isOfferedIn, PlannerOptions, PlanViolation, StudyPlan, studyPlanner, TERM_COUNT } from './studyPlanner';
+
+// Weekly timetable of a planned semester, built from the catalog's optional `schedule` field:
+// which subjects meet in which period, which of them clash, other terms that would remove a
+// clash, and an iCalendar file of the semester's classes
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+export const SCHEDULE_TERMS: ScheduleTerm[] = ['semester', 'first_quarter', 'second_quarter'];
+export const PERIOD_COUNT = 5;
+
+// Class hours of each period (Josanjima campus)
+export const PERIOD_TIMES: Record<number, { start: string; end: string }> = {
+  1: { start: '08:40', end: '10:10' },
+  2: { start: '10:25', end: '11:55' },
+  3: { start: '12:50', end: '14:20' },
+  4: { start: '14:35', end: '16:05' },
+  5: { start: '16:20', end: '17:50' },
+};
+
+// A semester is two quarters of 8 weeks of classes
+export const QUARTER_WEEKS = 8;
+
+const DAY_LABELS: Record<Weekday, string> = { mon: 'Mon', tue: 'Tue', wed: 'Wed', thu: 'Thu', fri: 'Fri', sat: 'Sat' };
+// Date.getUTCDay() of each weekday
+const DAY_NUMBERS: Record<Weekday, number> = { mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_ZONE = 'Asia/Tokyo';
+
+export interface TimetableEntry {
+  subjectId: string;
+  term: ScheduleTerm;
+}
+
+// Two or more subjects meeting in the same period in overlapping parts of the semester
+export interface TimetableClash {
+  semester: number;
+  day: Weekday;
+  period: number;
+  subjectIds: string[];
+}
+
+export interface TimetableWeek {
+  semester: number;
+  // Monday to Friday, and Saturday when a subject meets then
+  days: Weekday[];
+  // slotKey(day, period) -> subjects meeting then, in plan order
+  cells: Record<string, TimetableEntry[]>;
+  // Planned subjects without class times
+  unscheduled: string[];
+  clashes: TimetableClash[];
+}
+
+// Moving a clashing subject to another term that offers it, without new plan violations
+export interface ScheduleSuggestion {
+  subjectId: string;
+  from: number;
+  to: number;
+  // Clashes left in the whole plan after the move
+  clashesAfter: number;
+}
+
+export interface CalendarOptions {
+  admissionYear: number;
+  // First day of classes as YYYY-MM-DD; semesterStartDate() when omitted
+  startDate?: string;
+  // Subject names to use, e.g. in the UI locale
+  names?: Record<string, string>;
+  // Calendar name shown by calendar apps; "Semester <n>" when omitted
+  calendarName?: string;
+  now?: Date;
+}
+
+export const slotKey = (day: Weekday, period: number): string => `${day}-${period}`;
+
+// Whole-semester courses overlap both quarters; the two quarters don't overlap each other
+export const termsOverlap = (a: ScheduleTerm, b: ScheduleTerm): boolean =>
+  a === 'semester' || b === 'semester' || a === b;
+
+// 1Q/2Q in the first semester of a year (前期), 3Q/4Q in the second (後期)
+export const quarterLabel = (semester: number, term: ScheduleTerm): string | null =>
+  term === 'semester' ? null : `${(semester % 2 === 1 ? 0 : 2) + (term === 'first_quarter' ? 1 : 2)}Q`;
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Approximate first day of classes: the first Monday from 8 April (前期) or 1 October (後期) of
+// the semester's academic year. The academic calendar moves a little every year, so callers let
+// students correct it
+export const semesterStartDate = (admissionYear: number, semester: number): string => {
+  const year = admissionYear + Math.floor((semester - 1) / 2);
+  const date = semester % 2 === 1 ? new Date(Date.UTC(year, 3, 8)) : new Date(Date.UTC(year, 9, 1));
+  return toDateString(new Date(date.getTime() + ((8 - date.getUTCDay()) % 7) * DAY_MS));
+};
+
+// RFC 5545 TEXT values
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) as number;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Content lines are folded at 75 octets without splitting a character; continuations start with a space
+const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = utf8Length(char);
+    if (octets + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+const localDateTime = (date: Date, time: string): string =>
+  `${toDateString(date).replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+export class TimetableBuilder {
+  buildWeek(plan: StudyPlan, semester: number, subjects: Subject[]): TimetableWeek {
+    const catalog = this.catalogOf(subjects);
+    const cells: Record<string, TimetableEntry[]> = {};
+    const unscheduled: string[] = [];
+    let saturday = false;
+
+    (plan.terms[semester] || []).forEach(id => {
+      const schedule = catalog.get(id)?.schedule;
+      if (!schedule || schedule.slots.length === 0) {
+        unscheduled.push(id);
+        return;
+      }
+      const term = schedule.term || 'semester';
+      Array.from(new Set(schedule.slots.map(slot => slotKey(slot.day, slot.period)))).forEach(key => {
+        cells[key] = [...(cells[key] || []), { subjectId: id, term }];
+      });
+      if (schedule.slots.some(slot => slot.day === 'sat')) saturday = true;
+    });
+
+    const clashes: TimetableClash[] = [];
+    WEEKDAYS.forEach(day => {
+      for (let period = 1; period <= PERIOD_COUNT; period++) {
+        const entries = cells[slotKey(day, period)] || [];
+        const subjectIds = entries
+          .filter(entry => entries.some(other => other.subjectId !== entry.subjectId && termsOverlap(entry.term, other.term)))
+          .map(entry => entry.subjectId);
+        if (subjectIds.length > 1) clashes.push({ semester, day, period, subjectIds });
+      }
+    });
+
+    return {
+      semester,
+      days: WEEKDAYS.filter(day => day !== 'sat' || saturday),
+      cells,
+      unscheduled,
+      clashes,
+    };
+  }
+
+  findClashes(plan: StudyPlan, subjects: Subject[]): TimetableClash[] {
+    return Object.keys(plan.terms).flatMap(key => this.buildWeek(plan, Number(key), subjects).clashes);
+  }
+
+  // One violation per subject and clashing slot, in the form studyPlanner.checkPlan reports them
+  clashViolations(plan: StudyPlan, subjects: Subject[]): PlanViolation[] {
+    const catalog = this.catalogOf(subjects);
+    const nameOf = (id: string) => catalog.get(id)?.name || id;
+    return Object.keys(plan.terms).flatMap(key => {
+      const week = this.buildWeek(plan, Number(key), subjects);
+      return week.clashes.flatMap(({ semester, day, period, subjectIds }) => {
+        const entries = week.cells[slotKey(day, period)];
+        return subjectIds.map(subjectId => {
+          // A whole-semester course clashes with both quarters, each quarter only with its own
+          const { term } = entries.find(entry => entry.subjectId === subjectId) as TimetableEntry;
+          const others = entries
+            .filter(entry => entry.subjectId !== subjectId && termsOverlap(term, entry.term))
+            .map(entry => nameOf(entry.subjectId));
+          return {
+            kind: 'clash' as const,
+            subjectId,
+            semester,
+            message: `Meets at the same time as ${others.join(', ')} (${DAY_LABELS[day]} period ${period})`,
+          };
+        });
+      });
+    });
+  }
+
+  // For each subject clashing in the semester, the nearest other term that offers it where the
+  // move leaves fewer clashes and no more constraint violations than before
+  suggestAlternatives(
+    plan: StudyPlan,
+    semester: number,
+    subjects: Subject[],
+    graph: PrerequisiteGraph,
+    options: PlannerOptions = {}
+  ): ScheduleSuggestion[] {
+    const catalog = this.catalogOf(subjects);
+    const startSemester = options.startSemester ?? 1;
+    const violationCount = (candidate: StudyPlan) => studyPlanner.checkPlan(candidate, subjects, graph, options).length;
+    const violationsBefore = violationCount(plan);
+    const clashesBefore = this.clashViolations(plan, subjects).length;
+    const clashing = Array.from(new Set(
+      this.buildWeek(plan, semester, subjects).clashes.flatMap(clash => clash.subjectIds)
+    ));
+
+    return clashing.flatMap(subjectId => {
+      const subject = catalog.get(subjectId);
+      if (!subject) return [];
+      const targets = Array.from({ length: TERM_COUNT }, (_, i) => i + 1)
+        .filter(term => term !== semester && term >= startSemester && isOfferedIn(subject, term))
+        .sort((a, b) => Math.abs(a - semester) - Math.abs(b - semester) || b - a);
+      for (const to of targets) {
+        const moved = studyPlanner.moveSubject(plan, subjectId, to);
+        if (this.clashViolations(moved, subjects).length >= clashesBefore) continue;
+        if (violationCount(moved) > violationsBefore) continue;
+        return [{ subjectId, from: semester, to, clashesAfter: this.findClashes(moved, subjects).length }];
+      }
+      return [];
+    }).sort((a, b) => a.clashesAfter - b.clashesAfter);
+  }
+
+  // The semester's classes as weekly recurring events in Japan time. Consecutive periods of a
+  // subject on one day become one event. Public holidays and make-up days are not excluded
+  toICalendar(plan: StudyPlan, semester: number, subjects: Subject[], options: CalendarOptions): string {
+    const catalog = this.catalogOf(subjects);
+    const startDate = options.startDate || semesterStartDate(options.admissionYear, semester);
+    const start = new Date(`${startDate}T00:00:00Z`);
+    if (Number.isNaN(start.getTime())) throw new Error(`Invalid start date "${startDate}"`);
+    const stamp = (options.now || new Date()).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+    const events = (plan.terms[semester] || []).flatMap(id => {
+      const subject = catalog.get(id);
+      if (!subject?.schedule) return [];
+      const name = options.names?.[id] || subject.name;
+      return this.blocksOf(subject.schedule).flatMap(({ day, first, last, term }) => {
+        const termStart = start.getTime() + (term === 'second_quarter' ? QUARTER_WEEKS * 7 * DAY_MS : 0);
+        const offset = (DAY_NUMBERS[day] - new Date(termStart).getUTCDay() + 7) % 7;
+        const date = new Date(termStart + offset * DAY_MS);
+        return [
+          'BEGIN:VEVENT',
+          `UID:${id}-s${semester}-${day}${first}@tokushima-roadmap`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART;TZID=${TIME_ZONE}:${localDateTime(date, PERIOD_TIMES[first].start)}`,
+          `DTEND;TZID=${TIME_ZONE}:${localDateTime(date, PERIOD_TIMES[last].end)}`,
+          `RRULE:FREQ=WEEKLY;COUNT=${term === 'semester' ? QUARTER_WEEKS * 2 : QUARTER_WEEKS}`,
+          `SUMMARY:${escapeText(name)}`,
+          `DESCRIPTION:${escapeText(`${subject.code}, ${subject.credits} credits`)}`,
+          'END:VEVENT',
+        ];
+      });
+    });
+
+    return [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//tokushima-roadmap//Timetable//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(options.calendarName || `Semester ${semester}`)}`,
+      'BEGIN:VTIMEZONE',
+      `TZID:${TIME_ZONE}`,
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0900',
+      'TZOFFSETTO:+0900',
+      'TZNAME:JST',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+      ...events,
+      'END:VCALENDAR',
+    ].map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  // Runs of consecutive periods per day
+  private blocksOf(schedule: SubjectSchedule): { day: Weekday; first: number; last: number; term: ScheduleTerm }[] {
+    const term = schedule.term || 'semester';
+    return WEEKDAYS.flatMap(day => {
+      const periods = Array.from(new Set(
+        schedule.slots.filter(slot => slot.day === day).map(slot => slot.period)
+      )).sort((a, b) => a - b);
+      const blocks: { day: Weekday; first: number; last: number; term: ScheduleTerm }[] = [];
+      periods.forEach(period => {
+        const previous = blocks[blocks.length - 1];
+        if (previous && previous.last === period - 1) previous.last = period;
+        else blocks.push({ day, first: period, last: period, term });
+      });
+      return blocks;
+    });
+  }
+
+  private catalogOf(subjects: Subject[]): Map<string, Subject> {
+    const catalog = new Map<string, Subject>();
+    subjects.forEach(subject => {
+      if (!catalog.has(subject.id)) catalog.set(subject.id, subject);
+    });
+    return catalog;
+  }
+}
+
+export const timetableBuilder = new TimetableBuilder();
@@ -1,171 +1,70 @@
-import React, { useState, useEffect } from 'react';
-import { Search, BookOpen, Target, Zap, Wifi, CheckCircle, Circle, Brain, AlertCircle, Loader2, X } from 'lucide-react';
-import { geminiService, GeneratedRoadmap, Subject } from './services/geminiService';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { AlertCircle, Loader2, X, RefreshCw, Undo2, Redo2 } from 'lucide-react';
+import { geminiService, isAbortError, GeneratedRoadmap, RoadmapResult, Subject } from './services/geminiService';
+import { ProviderError } from './services/providers/types';
+import { RoadmapServiceStatus } from './services/roadmapApi';
 import { dataService } from './services/dataService';
+import { roadmapGenerator, RoadmapEngine } from './services/roadmapGenerator';
+import { graduationAuditor } from './services/graduationRequirements';
+import { competencyAnalyzer } from './services/competencyModel';
+import DegreeAuditPanel from './components/DegreeAuditPanel';
+import ProfilePanel from './components/ProfilePanel';
+import StudyPlanGrid from './components/StudyPlanGrid';
+import TimetablePanel from './components/TimetablePanel';
+import CatalogBrowser from './components/CatalogBrowser';
+import ExportPanel from './components/ExportPanel';
+import RoadmapFlowchart from './components/RoadmapFlowchart';
+import SkillCoveragePanel from './components/SkillCoveragePanel';
+import RoadmapChat from './components/RoadmapChat';
+import CatalogMigrationNotice from './components/CatalogMigrationNotice';
+import RoadmapComparison, { ComparisonCandidate } from './components/RoadmapComparison';
+import ReviewPanel from './components/ReviewPanel';
+import OccupationInput from './components/OccupationInput';
+import OccupationIcon from './components/OccupationIcon';
+import { occupationTaxonomy } from './services/occupationTaxonomy';
+import { roadmapExporter, ImportCatalog, RoadmapImportResult } from './services/roadmapExporter';
+import { catalogMigrator, CatalogManifest, CatalogMigrationReport, findCatalog } from './services/catalogVersions';
+import { RoadmapPromptStats } from './services/promptBuilder';
+import { createRoadmapHistory, recordRoadmap, redoRoadmap, undoRoadmap, RoadmapHistory } from './services/roadmapHistory';
+import { studyPlanner } from './services/studyPlanner';
+import { i18n, useI18n, LOCALES, Locale } from './i18n';
+import { profileStore, StudentProfile, CompletedSubject, Grade, GRADES } from './services/profileStore';
+import { PrerequisiteGraph, normalizeLabel, PLACEHOLDER_PREREQUISITES } from './services/prerequisiteGraph';
+import { SyllabusValidationReport, formatValidationIssue } from './services/syllabusValidator';
 
-interface RoadmapFlowchartProps {
-  roadmap: GeneratedRoadmap;
-  onNodeClick: (node: any) => void;
-  selectedNodeId: string | null;
+interface SubjectDetailsPanelProps {
+  subject: Subject | null;
+  subjects: Subject[];
+  graph: PrerequisiteGraph | null;
+  completion?: CompletedSubject;
+  onToggleComplete: (id: string) => void;
+  onSetGrade: (id: string, grade: Grade | undefined) => void;
+  onSelectSubject: (subject: Subject) => void;
+  onClose: () => void;
 }
 
-function RoadmapFlowchart({ roadmap, onNodeClick, selectedNodeId }: RoadmapFlowchartProps) {
-  // Sort nodes by year and semester
-  const sortedNodes = [...(roadmap.nodes || [])].sort((a, b) => {
-    if (a.year !== b.year) return a.year - b.year;
-    if (a.semester !== b.semester) return a.semester - b.semester;
-    return a.name.localeCompare(b.name);
-  });
-
-  // Group nodes by (year, semester)
-  const groupMap: { [key: string]: typeof sortedNodes } = {};
-  sortedNodes.forEach(node => {
-    const key = `${node.year}-${node.semester}`;
-    if (!groupMap[key]) groupMap[key] = [];
-    groupMap[key].push(node);
-  });
-
-  // Get all unique (year, semester) pairs, sorted
-  const allYearSemPairs = Array.from(
-    new Set(sortedNodes.map(n => `${n.year}-${n.semester}`))
-  ).map(pair => pair.split('-').map(Number) as [number, number])
-   .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
-
-  // Layout: rows for each (year, semester), stack horizontally
-  const yStep = 120;
-  const xStep = 180;
-  const yStart = 100;
-  const xStart = 100;
-  const nodePositions: { [id: string]: { x: number; y: number } } = {};
-
-  allYearSemPairs.forEach(([year, semester], rowIdx) => {
-    const key = `${year}-${semester}`;
-    const nodes = groupMap[key] || [];
-    nodes.forEach((node, colIdx) => {
-      nodePositions[node.id] = {
-        x: xStart + colIdx * xStep,
-        y: yStart + rowIdx * yStep,
-      };
-    });
-  });
-
-  const getNodeColor = (node: any) => {
-    if (selectedNodeId === node.id) return 'bg-blue-600 text-white border-blue-700';
-    switch (node.type) {
-      case 'foundation': return 'bg-blue-100 text-blue-800 border-blue-300 hover:bg-blue-200';
-      case 'core': return 'bg-yellow-100 text-yellow-800 border-yellow-300 hover:bg-yellow-200';
-      case 'specialized': return 'bg-purple-100 text-purple-800 border-purple-300 hover:bg-purple-200';
-      case 'elective': return 'bg-gray-100 text-gray-800 border-gray-300 hover:bg-gray-200';
-      default: return 'bg-white text-gray-800 border-gray-300';
-    }
-  };
-
-  const renderConnections = () => {
-    if (!sortedNodes || !Array.isArray(sortedNodes)) {
-      return [];
-    }
-    return sortedNodes.map(node => 
-      node.connects.map(targetId => {
-        const target = sortedNodes.find(n => n.id === targetId);
-        if (!target) return null;
-        const from = nodePositions[node.id];
-        const to = nodePositions[target.id];
-        return (
-          <line
-            key={`${node.id}-${targetId}`}
-            x1={from.x + 60}
-            y1={from.y + 20}
-            x2={to.x + 60}
-            y2={to.y + 20}
-            stroke="#94a3b8"
-            strokeWidth="2"
-            strokeDasharray="5,5"
-            className="opacity-60"
-          />
-        );
-      })
-    ).flat();
-  };
-
-  if (!roadmap || !sortedNodes || !Array.isArray(sortedNodes)) {
-    return (
-      <div className="bg-white rounded-lg shadow-lg p-6">
-        <div className="text-center text-gray-500">
-          <p>Invalid roadmap data. Please try generating a new roadmap.</p>
-        </div>
-      </div>
-    );
-  }
-
-  // Calculate minWidth and minHeight for the container
-  const maxCols = Math.max(...Object.values(groupMap).map(nodes => nodes.length));
-  const minWidth = xStart + maxCols * xStep + 200;
-  const minHeight = yStart + allYearSemPairs.length * yStep + 200;
-
+function SubjectLink({ subject, onSelectSubject }: { subject: Subject, onSelectSubject: (subject: Subject) => void }) {
   return (
-    <div className="bg-white rounded-lg shadow-lg p-6 overflow-auto">
-      <div className="mb-4">
-        <h3 className="text-xl font-bold text-gray-800">{roadmap.title}</h3>
-        <p className="text-gray-600">{roadmap.description}</p>
-        <div className="mt-2 p-3 bg-blue-50 rounded-lg">
-          <h4 className="font-semibold text-blue-800 mb-1">AI Reasoning:</h4>
-          <p className="text-sm text-blue-700">{roadmap.reasoning}</p>
-        </div>
-      </div>
-      <div className="relative" style={{ minHeight, minWidth }}>
-        <svg className="absolute inset-0 w-full h-full" style={{ zIndex: 1 }}>
-          {renderConnections()}
-        </svg>
-        {sortedNodes.map(node => (
-          <div
-            key={node.id}
-            className={`absolute border-2 rounded-lg p-3 cursor-pointer transition-all text-sm font-medium min-w-24 text-center shadow-sm ${getNodeColor(node)}`}
-            style={{ 
-              left: nodePositions[node.id].x, 
-              top: nodePositions[node.id].y, 
-              zIndex: 2,
-              maxWidth: '140px'
-            }}
-            onClick={() => onNodeClick(node)}
-          >
-            <div className="flex items-center justify-center mb-1">
-              <Circle className="h-4 w-4 mr-1" />
-            </div>
-            <div className="text-xs leading-tight mb-1">{node.name}</div>
-            <div className="text-xs text-gray-500">
-              {node.credits} credits • Y{node.year}S{node.semester}
-            </div>
-            <div className="text-xs text-gray-400">
-              {Math.round(node.relevance_score * 100)}% relevant
-            </div>
-          </div>
-        ))}
-      </div>
-      {/* Legend */}
-      <div className="mt-6 flex flex-wrap gap-4 text-sm">
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 bg-blue-100 border border-blue-300 rounded"></div>
-          <span>Foundation</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 bg-yellow-100 border border-yellow-300 rounded"></div>
-          <span>Core</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 bg-purple-100 border border-purple-300 rounded"></div>
-          <span>Specialized</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 bg-gray-100 border border-gray-300 rounded"></div>
-          <span>Elective</span>
-        </div>
-      </div>
-    </div>
+    <button
+      onClick={() => onSelectSubject(subject)}
+      className="text-blue-600 hover:text-blue-800 underline"
+    >
+      {subject.name}
+    </button>
   );
 }
 
-function SubjectDetailsPanel({ subject, onClose }: { subject: Subject | null, onClose: () => void }) {
+function SubjectDetailsPanel({ subject, subjects, graph, completion, onToggleComplete, onSetGrade, onSelectSubject, onClose }: SubjectDetailsPanelProps) {
+  const { t } = useI18n();
   if (!subject) return null;
+  const findSubject = (id: string) => subjects.find(s => s.id === id);
+  const prerequisites = subject.prerequisites.filter(reference => {
+    const label = normalizeLabel(reference);
+    return label && !PLACEHOLDER_PREREQUISITES.includes(label);
+  });
+  const dependents = (graph?.getDirectDependents(subject.id) || [])
+    .map(findSubject)
+    .filter((s): s is Subject => s !== undefined);
   return (
     <div className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl border-l border-gray-200 z-50 overflow-y-auto transition-all">
       <div className="flex items-center justify-between p-4 border-b border-gray-200">
@@ -173,20 +72,59 @@ function SubjectDetailsPanel({ subject, onClose }: { subject: Subject | null, on
         <button onClick={onClose} className="text-gray-500 hover:text-gray-800"><X className="h-6 w-6" /></button>
       </div>
       <div className="p-4 space-y-4">
-        <div><span className="font-semibold">Code:</span> {subject.code}</div>
-        <div><span className="font-semibold">Credits:</span> {subject.credits}</div>
-        <div><span className="font-semibold">Year:</span> {subject.year}</div>
-        <div><span className="font-semibold">Semester:</span> {subject.semester}</div>
-        <div><span className="font-semibold">Department:</span> {subject.department}</div>
-        <div><span className="font-semibold">Description:</span> <div className="text-gray-700 text-sm mt-1">{subject.description}</div></div>
-        <div><span className="font-semibold">Syllabus:</span>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={!!completion} onChange={() => onToggleComplete(subject.id)} />
+            <span className="font-semibold">{t('details.completed')}</span>
+          </label>
+          {completion && (
+            <select
+              value={completion.grade || ''}
+              onChange={(e) => onSetGrade(subject.id, (e.target.value || undefined) as Grade | undefined)}
+              className="border border-gray-300 rounded px-1 py-0.5 text-sm"
+            >
+              <option value="">{t('details.grade')}</option>
+              {GRADES.map(grade => <option key={grade} value={grade}>{grade}</option>)}
+            </select>
+          )}
+        </div>
+        <div><span className="font-semibold">{t('details.code')}</span> {subject.code}</div>
+        <div><span className="font-semibold">{t('details.credits')}</span> {subject.credits}</div>
+        <div><span className="font-semibold">{t('details.year')}</span> {subject.year}</div>
+        <div><span className="font-semibold">{t('details.semester')}</span> {subject.semester}</div>
+        <div><span className="font-semibold">{t('details.department')}</span> {subject.department}</div>
+        <div><span className="font-semibold">{t('details.description')}</span> <div className="text-gray-700 text-sm mt-1">{subject.description}</div></div>
+        <div><span className="font-semibold">{t('details.syllabus')}</span>
           <ul className="list-disc list-inside text-sm text-gray-700 mt-1">
             {subject.syllabus.map((item, idx) => <li key={idx}>{item}</li>)}
           </ul>
         </div>
-        <div><span className="font-semibold">Prerequisites:</span> {subject.prerequisites.length > 0 ? subject.prerequisites.join(', ') : 'None'}</div>
-        <div><span className="font-semibold">Keywords:</span> {subject.keywords.join(', ')}</div>
-        <div><span className="font-semibold">Learning Outcomes:</span>
+        <div><span className="font-semibold">{t('details.prerequisites')}</span>{' '}
+          {prerequisites.length > 0 ? prerequisites.map((reference, idx) => {
+            const resolved = graph?.resolve(reference);
+            const target = resolved && findSubject(resolved.id);
+            return (
+              <React.Fragment key={idx}>
+                {idx > 0 && ', '}
+                {target && target.id !== subject.id
+                  ? <SubjectLink subject={target} onSelectSubject={onSelectSubject} />
+                  : <span className="text-gray-400" title={t('details.notFound')}>{reference}</span>}
+              </React.Fragment>
+            );
+          }) : t('details.none')}
+        </div>
+        {dependents.length > 0 && (
+          <div><span className="font-semibold">{t('details.requiredFor')}</span>{' '}
+            {dependents.map((dependent, idx) => (
+              <React.Fragment key={dependent.id}>
+                {idx > 0 && ', '}
+                <SubjectLink subject={dependent} onSelectSubject={onSelectSubject} />
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+        <div><span className="font-semibold">{t('details.keywords')}</span> {subject.keywords.join(', ')}</div>
+        <div><span className="font-semibold">{t('details.learningOutcomes')}</span>
           <ul className="list-disc list-inside text-sm text-gray-700 mt-1">
             {subject.learning_outcomes.map((item, idx) => <li key={idx}>{item}</li>)}
           </ul>
@@ -196,36 +134,125 @@ function SubjectDetailsPanel({ subject, onClose }: { subject: Subject | null, on
   );
 }
 
+function DataIntegrityBanner({ report, admissionYear }: { report: SyllabusValidationReport; admissionYear: number }) {
+  const { t } = useI18n();
+  const skipped = report.subjectCount - report.validSubjectCount;
+  return (
+    <div className="mt-4 p-3 bg-yellow-100 border border-yellow-400 rounded-lg max-w-2xl mx-auto text-left">
+      <div className="flex items-center gap-2 text-yellow-800">
+        <AlertCircle className="h-5 w-5" />
+        <span className="text-sm font-medium">{t('integrity.title')}</span>
+      </div>
+      <p className="text-xs text-yellow-700 mt-1">
+        {t('integrity.body', { year: admissionYear, errors: report.errors.length, warnings: report.warnings.length })}{' '}
+        {skipped > 0 && `${t('integrity.skipped', { skipped, total: report.subjectCount })} `}
+        {t('integrity.incomplete')}
+      </p>
+      <details className="mt-2 text-xs text-yellow-800">
+        <summary className="cursor-pointer">{t('integrity.details')}</summary>
+        <ul className="mt-1 space-y-1 max-h-48 overflow-y-auto font-mono">
+          {[...report.errors, ...report.warnings].map((issue, idx) => (
+            <li key={idx}>{formatValidationIssue(issue)}</li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
+
 function CourseRoadmapTool() {
+  const { t, locale, setLocale } = useI18n();
   const [dreamOccupation, setDreamOccupation] = useState('');
-  const [roadmap, setRoadmap] = useState<GeneratedRoadmap | null>(null);
+  const [profile, setProfile] = useState<StudentProfile>(profileStore.getProfile());
+  const [roadmapHistory, setRoadmapHistory] = useState<RoadmapHistory>(() => createRoadmapHistory(profile.currentRoadmap));
+  const roadmap = roadmapHistory.present;
+  // Every roadmap replacement goes through here so it can be undone
+  const setRoadmap = (next: GeneratedRoadmap | null) => setRoadmapHistory(history => recordRoadmap(history, next));
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingData, setIsLoadingData] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [validationReport, setValidationReport] = useState<SyllabusValidationReport | null>(null);
+  const [prerequisiteGraph, setPrerequisiteGraph] = useState<PrerequisiteGraph | null>(null);
+  const [engine, setEngine] = useState<RoadmapEngine>('offline');
+  // Provider status reported by /api/roadmap; null until the server has answered
+  const [aiStatus, setAIStatus] = useState<RoadmapServiceStatus | null>(null);
+  const isAIConfigured = aiStatus?.configured === true;
+  const [notice, setNotice] = useState<string | null>(null);
+  const [view, setView] = useState<'flowchart' | 'plan'>('flowchart');
+  const [page, setPage] = useState<'roadmap' | 'catalog' | 'compare' | 'reviews'>('roadmap');
+  const [promptStats, setPromptStats] = useState<RoadmapPromptStats | null>(null);
+  // How the current AI roadmap was produced; null for offline, imported and saved roadmaps
+  const [roadmapOrigin, setRoadmapOrigin] = useState<(Omit<RoadmapResult, 'roadmap'> & { occupation: string }) | null>(null);
+  // Nodes received so far while an AI roadmap streams in
+  const [streamingRoadmap, setStreamingRoadmap] = useState<GeneratedRoadmap | null>(null);
+  const [catalogManifest, setCatalogManifest] = useState<CatalogManifest | null>(null);
+  // Changes from the last carry-over of a roadmap to another admission year's catalog
+  const [catalogMigration, setCatalogMigration] = useState<{
+    report: CatalogMigrationReport;
+    reason: 'switch' | 'import';
+    savedCount?: number;
+  } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const occupationIcons = {
-    "electrical engineer": Zap,
-    "communication engineer": Wifi,
-    "aerospace engineer": Target,
-    "power engineer": Zap,
-    "electronics engineer": Zap,
-    "software engineer": Brain,
-    "control engineer": Target,
-    "robotics engineer": Target
-  };
+  useEffect(() => {
+    let active = true;
+    geminiService.getStatus().then(status => {
+      if (!active) return;
+      setAIStatus(status);
+      if (status.configured) setEngine('ai');
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
 
   useEffect(() => {
     // Load subjects on component mount (no Gemini enrichment)
     const loadSubjects = async () => {
       try {
         setIsLoadingData(true);
+        const manifest = await dataService.getManifest();
+        setCatalogManifest(manifest);
+        const { admissionYear: storedYear } = profileStore.getProfile();
+        const admissionYear = storedYear !== null && findCatalog(manifest, storedYear)
+          ? storedYear
+          : manifest.defaultAdmissionYear;
+        // Pinned, so a later change of the default doesn't move this student's roadmaps to another catalog.
+        // A year whose catalog was withdrawn falls back to the default
+        if (admissionYear !== storedYear) profileStore.setAdmissionYear(admissionYear);
+        dataService.selectCatalog(admissionYear);
         const allSubjects = await dataService.getAllSubjects();
         setSubjects(allSubjects);
+        setValidationReport(await dataService.getValidationReport());
+        setPrerequisiteGraph(await dataService.getPrerequisiteGraph());
+
+        // Open a roadmap shared via link, then drop it from the URL so a refresh keeps local edits
+        const shared = roadmapExporter.readShareLink(window.location.hash);
+        if (shared) {
+          window.history.replaceState(null, '', window.location.pathname + window.location.search);
+          try {
+            const { roadmap: sharedRoadmap, missingSubjects, migration } = roadmapExporter.fromShareParam(
+              shared,
+              allSubjects,
+              { manifest, admissionYear }
+            );
+            profileStore.setStudyPlan(null);
+            setRoadmap(sharedRoadmap);
+            setRoadmapOrigin(null);
+            if (migration) setCatalogMigration({ report: migration, reason: 'import' });
+            if (missingSubjects.length > 0) {
+              setNotice(i18n.t('notice.missingSubjects', { ids: missingSubjects.join(', ') }));
+            }
+          } catch (shareError) {
+            const message = shareError instanceof Error ? shareError.message : String(shareError);
+            setError(i18n.t('error.shareLink', { message }));
+          }
+        }
       } catch (error) {
-        setError('Failed to load syllabus data');
+        setError(i18n.t('error.loadSyllabus'));
       } finally {
         setIsLoadingData(false);
       }
@@ -233,158 +260,649 @@ function CourseRoadmapTool() {
     loadSubjects();
   }, []);
 
-  const generateRoadmap = async () => {
-    if (!dreamOccupation.trim()) return;
+  useEffect(() => profileStore.subscribe(setProfile), []);
+
+  // Don't leave a request streaming after the tool unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Keep the roadmap across page refreshes
+  useEffect(() => {
+    profileStore.setCurrentRoadmap(roadmap);
+  }, [roadmap]);
+
+  const completedIds = useMemo(() => new Set(Object.keys(profile.completedSubjects)), [profile.completedSubjects]);
+
+  // Subjects with display fields in the active locale; logic keeps using `subjects`
+  const displaySubjects = useMemo(
+    () => subjects.map(subject => dataService.localizeSubject(subject, locale)),
+    [subjects, locale]
+  );
+  const subjectNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    displaySubjects.forEach(subject => {
+      if (!(subject.id in names)) names[subject.id] = subject.name;
+    });
+    return names;
+  }, [displaySubjects]);
+
+  const arrangePlan = useCallback((maxCreditsPerTerm?: number) => {
+    if (!roadmap || !prerequisiteGraph) return;
+    profileStore.setStudyPlan(studyPlanner.createPlan(
+      roadmap.nodes.map(node => node.id),
+      subjects,
+      prerequisiteGraph,
+      { maxCreditsPerTerm, startSemester: profile.currentSemester, completedIds }
+    ));
+  }, [roadmap, prerequisiteGraph, subjects, profile.currentSemester, completedIds]);
+
+  // A new roadmap starts with an automatically arranged plan
+  useEffect(() => {
+    if (!profile.studyPlan) {
+      arrangePlan();
+    }
+  }, [arrangePlan, profile.studyPlan]);
+
+  // `refresh` regenerates an AI roadmap even if a cached one exists
+  const generateRoadmap = async (occupation: string = dreamOccupation, refresh = false) => {
+    if (!occupation.trim()) return;
     if (isLoadingData) {
-      setError('Please wait for syllabus data to finish loading.');
+      setError(t('error.waitForData'));
       return;
     }
+    // A new request supersedes one that is still streaming
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const isCurrent = () => abortRef.current === controller;
+
     setIsLoading(true);
     setError(null);
+    setNotice(null);
+    setPromptStats(null);
+    setStreamingRoadmap(null);
+    // Both engines get the same taxonomy match; unknown occupations go to the AI as typed
+    const { weights } = occupationTaxonomy.resolve(occupation);
+    const occupationIds = Object.keys(weights).length > 0 ? weights : undefined;
     try {
-      if (!process.env.REACT_APP_GEMINI_API_KEY) {
-        throw new Error('Gemini API key not configured');
+      let generatedRoadmap: GeneratedRoadmap;
+      let origin: typeof roadmapOrigin = null;
+      if (engine === 'ai') {
+        try {
+          if (!isAIConfigured) {
+            throw new ProviderError('auth', 'AI provider is not configured');
+          }
+          // The server sends only a ranked, token-budgeted projection of the catalog to the model
+          const result = await geminiService.generateRoadmap(occupation, {
+            language: locale,
+            occupationIds,
+            signal: controller.signal,
+            refresh,
+            onPromptStats: (stats) => isCurrent() && setPromptStats(stats),
+            onProgress: (partial) => isCurrent() && setStreamingRoadmap(partial),
+          });
+          generatedRoadmap = result.roadmap;
+          origin = { occupation, generatedAt: result.generatedAt, fromCache: result.fromCache };
+        } catch (aiError) {
+          if (isAbortError(aiError)) throw aiError;
+          const reason = aiError instanceof ProviderError
+            ? t(`providerError.${aiError.kind}`)
+            : aiError instanceof Error ? aiError.message : 'unknown error';
+          generatedRoadmap = await roadmapGenerator.generateRoadmap(occupation, { locale, occupationIds });
+          setNotice(t('notice.aiFallback', { reason }));
+        }
+      } else {
+        generatedRoadmap = await roadmapGenerator.generateRoadmap(occupation, { locale, occupationIds });
       }
-      // Just send all subjects and occupation to Gemini
-      const generatedRoadmap = await geminiService.generateRoadmap(dreamOccupation, subjects);
+      if (!isCurrent()) return;
+      profileStore.setStudyPlan(null);
       setRoadmap(generatedRoadmap);
+      setRoadmapOrigin(origin);
       setSelectedSubject(null);
       setSelectedNodeId(null);
     } catch (error) {
+      if (!isCurrent() || isAbortError(error)) return;
       if (error instanceof Error) {
-        setError(`Failed to generate roadmap: ${error.message}`);
+        setError(t('error.generate', { message: error.message }));
       } else {
-        setError('Failed to generate roadmap. Please check your API key and try again.');
+        setError(t('error.generateGeneric'));
       }
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) {
+        abortRef.current = null;
+        setIsLoading(false);
+        setStreamingRoadmap(null);
+      }
     }
   };
 
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    setStreamingRoadmap(null);
+  };
+
+  const degreeAudit = useMemo(() => {
+    if (!roadmap) return null;
+    const plannedIds = roadmap.nodes.map(node => node.id);
+    return graduationAuditor.audit(subjects, completedIds, plannedIds);
+  }, [roadmap, subjects, completedIds]);
+
+  const competencyAnalysis = useMemo(
+    () => (roadmap ? competencyAnalyzer.analyze(roadmap, subjects, completedIds) : null),
+    [roadmap, subjects, completedIds]
+  );
+
+  const earnedRoadmapCredits = roadmap
+    ? roadmap.nodes.filter(node => completedIds.has(node.id)).reduce((total, node) => total + node.credits, 0)
+    : 0;
+
   const handleNodeClick = (node: any) => {
     setSelectedNodeId(node.id);
     const subject = subjects.find(s => s.id === node.id);
     setSelectedSubject(subject || null);
   };
 
+  const handleLoadRoadmap = (saved: GeneratedRoadmap) => {
+    profileStore.setStudyPlan(null);
+    setRoadmap(saved);
+    setRoadmapOrigin(null);
+    setPromptStats(null);
+    setSelectedSubject(null);
+    setSelectedNodeId(null);
+  };
+
+  // The study plan follows the roadmap, so it is re-arranged for the restored one
+  const stepRoadmapHistory = (step: (history: RoadmapHistory) => RoadmapHistory) => {
+    profileStore.setStudyPlan(null);
+    setRoadmapHistory(step);
+    setRoadmapOrigin(null);
+    setPromptStats(null);
+    setSelectedSubject(null);
+    setSelectedNodeId(null);
+  };
+
+  const handleApplyRefinement = (refined: GeneratedRoadmap) => {
+    profileStore.setStudyPlan(null);
+    setRoadmap(refined);
+    setRoadmapOrigin(null);
+  };
+
+  const importCatalog: ImportCatalog | null = catalogManifest && profile.admissionYear !== null
+    ? { manifest: catalogManifest, admissionYear: profile.admissionYear }
+    : null;
+
+  // Carries the current roadmap, saved roadmaps and completed subjects over to the other catalog
+  const handleAdmissionYearChange = async (admissionYear: number) => {
+    const from = profile.admissionYear;
+    if (!catalogManifest || from === null || admissionYear === from) return;
+    cancelGeneration();
+    setIsLoadingData(true);
+    setError(null);
+    try {
+      dataService.selectCatalog(admissionYear);
+      const target = await dataService.getAllSubjects();
+      const report = await dataService.getValidationReport();
+      if (target.length === 0) {
+        dataService.selectCatalog(from);
+        throw new Error(report?.errors[0]?.message || 'The catalog is empty');
+      }
+      const migrate = (source: GeneratedRoadmap) =>
+        catalogMigrator.migrateRoadmap(source, catalogManifest, from, admissionYear, target);
+      const current = roadmap ? migrate(roadmap) : null;
+      const { savedRoadmaps, completedSubjects } = profileStore.getProfile();
+      profileStore.setAdmissionYear(admissionYear, {
+        currentRoadmap: current ? current.roadmap : null,
+        savedRoadmaps: savedRoadmaps.map(saved => ({ ...saved, roadmap: migrate(saved.roadmap).roadmap })),
+        completedSubjects: catalogMigrator.migrateCompletedSubjects(completedSubjects, catalogManifest, from, admissionYear),
+      });
+      // Undo would bring back roadmaps of the other catalog
+      setRoadmapHistory(createRoadmapHistory(current ? current.roadmap : null));
+      setSubjects(target);
+      setValidationReport(report);
+      setPrerequisiteGraph(await dataService.getPrerequisiteGraph());
+      setRoadmapOrigin(null);
+      setPromptStats(null);
+      setSelectedSubject(null);
+      setSelectedNodeId(null);
+      setNotice(null);
+      setCatalogMigration(current ? { report: current.report, reason: 'switch', savedCount: savedRoadmaps.length } : null);
+    } catch (switchError) {
+      const message = switchError instanceof Error ? switchError.message : String(switchError);
+      setError(t('catalog.switchFailed', { year: admissionYear, message }));
+    } finally {
+      setIsLoadingData(false);
+    }
+  };
+
+  const handleImport = ({ roadmap: imported, missingSubjects, migration }: RoadmapImportResult) => {
+    handleLoadRoadmap(imported);
+    setCatalogMigration(migration ? { report: migration, reason: 'import' } : null);
+    setNotice(missingSubjects.length > 0
+      ? t('notice.missingSubjects', { ids: missingSubjects.join(', ') })
+      : null);
+  };
+
+  const comparisonCandidates = useMemo<ComparisonCandidate[]>(() => [
+    ...(roadmap ? [{ id: 'current', label: t('compare.current', { occupation: roadmap.occupation }), roadmap }] : []),
+    ...profile.savedRoadmaps.map(saved => ({ id: saved.id, label: saved.name, roadmap: saved.roadmap })),
+  ], [roadmap, profile.savedRoadmaps, t]);
+
+  const handleOpenRoadmap = (merged: GeneratedRoadmap) => {
+    handleLoadRoadmap(merged);
+    setNotice(null);
+    setPage('roadmap');
+  };
+
+  const handleSelectSubject = (subject: Subject) => {
+    setSelectedNodeId(subject.id);
+    setSelectedSubject(subject);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex">
       <div className="flex-1">
         <div className="container mx-auto px-4 py-8">
           {/* Header */}
           <div className="text-center mb-8">
+            <div className="flex justify-end gap-4 mb-2">
+              {catalogManifest && profile.admissionYear !== null && (
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  {t('catalog.admissionYear')}
+                  <select
+                    value={profile.admissionYear}
+                    disabled={isLoadingData}
+                    onChange={(e) => handleAdmissionYearChange(Number(e.target.value))}
+                    className="border border-gray-300 rounded px-2 py-1 bg-white"
+                  >
+                    {catalogManifest.catalogs.map(({ admissionYear }) => (
+                      <option key={admissionYear} value={admissionYear}>
+                        {t('catalog.admissionYearOption', { year: admissionYear })}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                {t('locale.label')}
+                <select
+                  value={locale}
+                  onChange={(e) => setLocale(e.target.value as Locale)}
+                  className="border border-gray-300 rounded px-2 py-1 bg-white"
+                >
+                  {LOCALES.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
             <h1 className="text-4xl font-bold text-gray-800 mb-2">
-              Tokushima University Course Roadmap
+              {t('app.title')}
             </h1>
             <p className="text-gray-600 max-w-2xl mx-auto">
-              AI-powered course roadmap for Electrical and Electronic System Course students
+              {t('app.subtitle')}
             </p>
-            {!process.env.REACT_APP_GEMINI_API_KEY && (
+            {aiStatus && !aiStatus.configured && (
               <div className="mt-4 p-3 bg-yellow-100 border border-yellow-400 rounded-lg max-w-md mx-auto">
                 <div className="flex items-center gap-2 text-yellow-800">
                   <AlertCircle className="h-5 w-5" />
-                  <span className="text-sm font-medium">API Key Required</span>
+                  <span className="text-sm font-medium">{t('apiKey.title')}</span>
                 </div>
                 <p className="text-xs text-yellow-700 mt-1">
-                  Set REACT_APP_GEMINI_API_KEY in your environment variables to enable AI-powered roadmaps.
+                  {t('apiKey.body')}
                 </p>
               </div>
             )}
+            {validationReport?.isDegraded && profile.admissionYear !== null && (
+              <DataIntegrityBanner report={validationReport} admissionYear={profile.admissionYear} />
+            )}
           </div>
-          {/* Input Section */}
-          <div className="max-w-md mx-auto mb-8">
-            <div className="bg-white rounded-lg shadow-md p-6">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                What's your dream occupation?
-              </label>
-              <div className="flex gap-2">
-                <div className="relative flex-1">
-                  <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                  <input
-                    type="text"
-                    value={dreamOccupation}
-                    onChange={(e) => setDreamOccupation(e.target.value)}
-                    placeholder="e.g., Electrical Engineer, Communication Engineer..."
-                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    onKeyPress={(e) => e.key === 'Enter' && generateRoadmap()}
-                  />
-                </div>
-                <button
-                  onClick={generateRoadmap}
-                  disabled={isLoading || isLoadingData || !dreamOccupation.trim() || !process.env.REACT_APP_GEMINI_API_KEY}
-                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isLoading ? 'Generating...' : isLoadingData ? 'Loading Data...' : 'Generate'}
-                </button>
-              </div>
-            </div>
+          {/* Page Tabs */}
+          <div className="flex justify-center gap-2 mb-8">
+            {(['roadmap', 'catalog', 'compare', 'reviews'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setPage(option)}
+                className={`px-4 py-2 rounded-md text-sm font-medium ${
+                  page === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {t(`nav.${option}`)}
+              </button>
+            ))}
           </div>
-          {/* Error Display */}
-          {error && (
-            <div className="max-w-2xl mx-auto mb-6">
-              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-                <div className="flex items-center gap-2">
-                  <AlertCircle className="h-5 w-5" />
-                  <span className="font-medium">Error</span>
-                </div>
-                <p className="mt-1 text-sm">{error}</p>
-              </div>
+          {page === 'catalog' ? (
+            <div className="max-w-6xl mx-auto">
+              <CatalogBrowser subjects={subjects} completedIds={completedIds} onSelectSubject={handleSelectSubject} />
             </div>
-          )}
-          {/* Roadmap Display */}
-          {roadmap && (
+          ) : page === 'compare' ? (
             <div className="max-w-6xl mx-auto">
-              {/* Progress Header */}
-              <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-                <div className="flex items-center gap-4">
-                  {React.createElement(occupationIcons[roadmap.occupation.toLowerCase() as keyof typeof occupationIcons] || BookOpen, {
-                    className: "h-8 w-8 text-blue-600"
-                  })}
-                  <div>
-                    <h2 className="text-2xl font-bold text-gray-800">
-                      {roadmap.title} Roadmap
-                    </h2>
-                    <p className="text-gray-600">Click on a subject to view details</p>
+              <RoadmapComparison
+                candidates={comparisonCandidates}
+                subjects={displaySubjects}
+                subjectNames={subjectNames}
+                completedIds={completedIds}
+                onGenerate={(occupation) => roadmapGenerator.generateRoadmap(occupation, { locale })}
+                onSelectSubject={handleSelectSubject}
+                onToggleComplete={(id) => profileStore.toggleCompleted(id)}
+                onUseMerged={handleOpenRoadmap}
+              />
+            </div>
+          ) : page === 'reviews' ? (
+            <div className="max-w-6xl mx-auto">
+              <ReviewPanel
+                roadmap={roadmap}
+                profile={profile}
+                subjects={displaySubjects}
+                subjectNames={subjectNames}
+                onLoadRoadmap={handleOpenRoadmap}
+              />
+            </div>
+          ) : (
+            <>
+              {/* Input Section */}
+              <div className="max-w-md mx-auto mb-8">
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('input.label')}
+                  </label>
+                  <div className="flex items-start gap-2">
+                    <OccupationInput
+                      value={dreamOccupation}
+                      onChange={setDreamOccupation}
+                      onSubmit={() => generateRoadmap()}
+                      placeholder={t('input.placeholder')}
+                    />
+                    <button
+                      onClick={() => generateRoadmap()}
+                      disabled={isLoading || isLoadingData || !dreamOccupation.trim() || (engine === 'ai' && !isAIConfigured)}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isLoading ? (
+                        <span className="flex items-center gap-1">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          {t('input.generating')}
+                        </span>
+                      ) : isLoadingData ? t('input.loadingData') : t('input.generate')}
+                    </button>
+                    {isLoading && (
+                      <button
+                        onClick={cancelGeneration}
+                        className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                      >
+                        {t('input.cancel')}
+                      </button>
+                    )}
+                  </div>
+                  <div className="mt-3 flex gap-4 text-sm text-gray-700">
+                    <label className="flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="engine"
+                        checked={engine === 'offline'}
+                        onChange={() => setEngine('offline')}
+                      />
+                      {t('engine.offline')}
+                    </label>
+                    <label className={`flex items-center gap-1 ${isAIConfigured ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                      <input
+                        type="radio"
+                        name="engine"
+                        checked={engine === 'ai'}
+                        disabled={!isAIConfigured}
+                        onChange={() => setEngine('ai')}
+                      />
+                      {t('engine.ai', { model: aiStatus?.model || '…' })}
+                    </label>
                   </div>
                 </div>
               </div>
-              {/* Flowchart */}
-              <RoadmapFlowchart roadmap={roadmap} onNodeClick={handleNodeClick} selectedNodeId={selectedNodeId} />
-            </div>
-          )}
-          {/* Sample Occupations */}
-          {!roadmap && (
-            <div className="max-w-2xl mx-auto mt-12">
-              <h3 className="text-lg font-semibold text-gray-800 mb-4 text-center">
-                Try these sample occupations:
-              </h3>
-              <div className="grid gap-3 md:grid-cols-4">
-                {Object.keys(occupationIcons).map((occupation) => (
-                  <button
-                    key={occupation}
-                    onClick={() => {
-                      setDreamOccupation(occupation);
-                      setTimeout(() => generateRoadmap(), 100);
-                    }}
-                    className="p-4 bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200 text-left"
-                  >
-                    <div className="flex items-center gap-3">
-                      {React.createElement(occupationIcons[occupation as keyof typeof occupationIcons], {
-                        className: "h-6 w-6 text-blue-600"
-                      })}
-                      <span className="font-medium text-gray-800 capitalize">
-                        {occupation}
-                      </span>
-                    </div>
-                  </button>
-                ))}
+              {/* Profile */}
+              <div className="max-w-2xl mx-auto mb-8">
+                <ProfilePanel profile={profile} roadmap={roadmap} onLoadRoadmap={handleLoadRoadmap} />
               </div>
-            </div>
+              {/* Export & Share */}
+              <div className="max-w-2xl mx-auto mb-8">
+                <ExportPanel
+                  roadmap={roadmap}
+                  subjects={subjects}
+                  subjectNames={subjectNames}
+                  completedIds={completedIds}
+                  importCatalog={importCatalog}
+                  onImport={handleImport}
+                />
+              </div>
+              {/* Error Display */}
+              {error && (
+                <div className="max-w-2xl mx-auto mb-6">
+                  <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+                    <div className="flex items-center gap-2">
+                      <AlertCircle className="h-5 w-5" />
+                      <span className="font-medium">{t('error.title')}</span>
+                    </div>
+                    <p className="mt-1 text-sm">{error}</p>
+                  </div>
+                </div>
+              )}
+              {/* Fallback Notice */}
+              {catalogMigration && (
+                <div className="max-w-2xl mx-auto">
+                  <CatalogMigrationNotice
+                    {...catalogMigration}
+                    subjectNames={subjectNames}
+                    onDismiss={() => setCatalogMigration(null)}
+                  />
+                </div>
+              )}
+              {notice && (
+                <div className="max-w-2xl mx-auto mb-6">
+                  <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded">
+                    <div className="flex items-center gap-2">
+                      <AlertCircle className="h-5 w-5" />
+                      <span className="font-medium">{t('notice.title')}</span>
+                    </div>
+                    <p className="mt-1 text-sm">{notice}</p>
+                  </div>
+                </div>
+              )}
+              {/* Streaming Preview */}
+              {streamingRoadmap && (
+                <div className="max-w-6xl mx-auto">
+                  <RoadmapFlowchart
+                    roadmap={streamingRoadmap}
+                    onNodeClick={() => undefined}
+                    selectedNodeId={null}
+                    completedIds={completedIds}
+                    onToggleComplete={(id) => profileStore.toggleCompleted(id)}
+                    subjectNames={subjectNames}
+                  />
+                </div>
+              )}
+              {/* Roadmap Display */}
+              {roadmap && !streamingRoadmap && (
+                <div className="max-w-6xl mx-auto">
+                  {/* Progress Header */}
+                  <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+                    <div className="flex items-center gap-4">
+                      <OccupationIcon occupation={roadmap.occupation} className="h-8 w-8 text-blue-600" />
+                      <div>
+                        <h2 className="text-2xl font-bold text-gray-800">
+                          {t('roadmap.heading', { title: roadmap.title })}
+                        </h2>
+                        <p className="text-gray-600">{t('roadmap.hint')}</p>
+                        {promptStats && (
+                          <p
+                            className="text-xs text-gray-400"
+                            title={promptStats.omittedSubjects.map(omitted => omitted.name).join(', ') || undefined}
+                          >
+                            {t('roadmap.promptStats', {
+                              tokens: promptStats.usage?.promptTokens || promptStats.estimatedTokens,
+                              sent: promptStats.includedSubjects.length,
+                              omitted: promptStats.omittedSubjects.length,
+                            })}
+                          </p>
+                        )}
+                        {roadmapOrigin && (
+                          <p className="text-xs text-gray-400 flex items-center gap-2">
+                            {t(roadmapOrigin.fromCache ? 'roadmap.cachedAt' : 'roadmap.generatedAt', {
+                              time: new Date(roadmapOrigin.generatedAt).toLocaleString(locale),
+                            })}
+                            <button
+                              onClick={() => generateRoadmap(roadmapOrigin.occupation, true)}
+                              disabled={isLoading || !isAIConfigured}
+                              title={t('roadmap.regenerateHint')}
+                              className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            >
+                              <RefreshCw className="h-3 w-3" />
+                              {t('roadmap.regenerate')}
+                            </button>
+                          </p>
+                        )}
+                      </div>
+                      <div className="ml-auto text-right">
+                        <div className="text-2xl font-bold text-gray-800">
+                          {earnedRoadmapCredits} / {roadmap.total_credits}
+                        </div>
+                        <div className="text-sm text-gray-600">{t('roadmap.credits')}</div>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 mb-4">
+                    {(['flowchart', 'plan'] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setView(option)}
+                        className={`px-4 py-2 rounded-md text-sm font-medium ${
+                          view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {option === 'flowchart' ? t('view.flowchart') : t('view.plan')}
+                      </button>
+                    ))}
+                    <div className="ml-auto flex gap-2">
+                      <button
+                        onClick={() => stepRoadmapHistory(undoRoadmap)}
+                        disabled={roadmapHistory.past.length === 0}
+                        className="inline-flex items-center gap-1 px-3 py-2 rounded-md text-sm bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <Undo2 className="h-4 w-4" />
+                        {t('roadmap.undo')}
+                      </button>
+                      <button
+                        onClick={() => stepRoadmapHistory(redoRoadmap)}
+                        disabled={roadmapHistory.future.length === 0}
+                        className="inline-flex items-center gap-1 px-3 py-2 rounded-md text-sm bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <Redo2 className="h-4 w-4" />
+                        {t('roadmap.redo')}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid gap-6 lg:grid-cols-3">
+                    <div className="lg:col-span-2 min-w-0">
+                      {view === 'plan' && profile.studyPlan && prerequisiteGraph ? (
+                        <>
+                          <StudyPlanGrid
+                            plan={profile.studyPlan}
+                            subjects={displaySubjects}
+                            graph={prerequisiteGraph}
+                            completedIds={completedIds}
+                            startSemester={profile.currentSemester}
+                            onChange={(plan) => profileStore.setStudyPlan(plan)}
+                            onAutoArrange={arrangePlan}
+                            onSelectSubject={handleSelectSubject}
+                          />
+                          {/* Weekly Timetable */}
+                          <TimetablePanel
+                            plan={profile.studyPlan}
+                            subjects={displaySubjects}
+                            graph={prerequisiteGraph}
+                            completedIds={completedIds}
+                            startSemester={profile.currentSemester}
+                            admissionYear={profile.admissionYear}
+                            onChange={(plan) => profileStore.setStudyPlan(plan)}
+                            onSelectSubject={handleSelectSubject}
+                          />
+                        </>
+                      ) : (
+                        <RoadmapFlowchart
+                          roadmap={roadmap}
+                          onNodeClick={handleNodeClick}
+                          selectedNodeId={selectedNodeId}
+                          completedIds={completedIds}
+                          onToggleComplete={(id) => profileStore.toggleCompleted(id)}
+                          subjectNames={subjectNames}
+                        />
+                      )}
+                      {/* Refinement Chat; a new occupation starts a new conversation */}
+                      <RoadmapChat
+                        key={roadmap.occupation}
+                        roadmap={roadmap}
+                        subjects={subjects}
+                        subjectNames={subjectNames}
+                        isAIConfigured={isAIConfigured}
+                        onApply={handleApplyRefinement}
+                      />
+                    </div>
+                    <div className="space-y-6 min-w-0">
+                      {/* Degree Audit */}
+                      {degreeAudit && (
+                        <DegreeAuditPanel audit={degreeAudit} subjects={displaySubjects} onSelectSubject={handleSelectSubject} />
+                      )}
+                      {/* Skill Coverage */}
+                      {competencyAnalysis && (
+                        <SkillCoveragePanel
+                          analysis={competencyAnalysis}
+                          subjects={displaySubjects}
+                          onSelectSubject={handleSelectSubject}
+                        />
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+              {/* Sample Occupations */}
+              {!roadmap && (
+                <div className="max-w-2xl mx-auto mt-12">
+                  <h3 className="text-lg font-semibold text-gray-800 mb-4 text-center">
+                    {t('samples.title')}
+                  </h3>
+                  <div className="grid gap-3 md:grid-cols-4">
+                    {occupationTaxonomy.all().map((occupation) => (
+                      <button
+                        key={occupation.id}
+                        onClick={() => {
+                          setDreamOccupation(occupation.name[locale]);
+                          generateRoadmap(occupation.name[locale]);
+                        }}
+                        className="p-4 bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200 text-left"
+                      >
+                        <div className="flex items-center gap-3">
+                          <OccupationIcon occupation={occupation.id} className="h-6 w-6 text-blue-600" />
+                          <span className="font-medium text-gray-800">
+                            {occupation.name[locale]}
+                          </span>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
           )}
         </div>
       </div>
       {/* Subject Details Panel */}
-      <SubjectDetailsPanel subject={selectedSubject} onClose={() => { setSelectedSubject(null); setSelectedNodeId(null); }} />
+      <SubjectDetailsPanel
+        subject={selectedSubject && dataService.localizeSubject(selectedSubject, locale)}
+        subjects={displaySubjects}
+        graph={prerequisiteGraph}
+        completion={selectedSubject ? profile.completedSubjects[selectedSubject.id] : undefined}
+        onToggleComplete={(id) => profileStore.toggleCompleted(id)}
+        onSetGrade={(id, grade) => profileStore.setGrade(id, grade)}
+        onSelectSubject={handleSelectSubject}
+        onClose={() => { setSelectedSubject(null); setSelectedNodeId(null); }}
+      />
     </div>
   );
 }